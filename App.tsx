@@ -1,6 +1,6 @@
 
-import React, { useState, useEffect } from 'react';
-import { LayoutDashboard, Receipt, Scale, MessageSquare, Menu, Users, UserCog, Lock } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { LayoutDashboard, Receipt, Scale, MessageSquare, Menu, Users, UserCog, Lock, Package, Loader2, History, Landmark, PiggyBank, FolderOpen, Timer, Calculator, Repeat, AlertCircle } from 'lucide-react';
 import { Dashboard } from './components/Dashboard';
 import { InvoiceManager } from './components/InvoiceManager';
 import { TaxModels } from './components/TaxModels';
@@ -8,7 +8,19 @@ import { ChatBot } from './components/ChatBot';
 import { ContactsManager } from './components/ContactsManager';
 import { ProfessionalProfile } from './components/ProfessionalProfile';
 import { FiscalYearCloser } from './components/FiscalYearCloser';
-import { Invoice, InvoiceType } from './types';
+import { AssetRegister } from './components/AssetRegister';
+import { ChangeLogViewer } from './components/ChangeLogViewer';
+import { BankReconciliation } from './components/BankReconciliation';
+import { FundProvisions } from './components/FundProvisions';
+import { MattersManager } from './components/MattersManager';
+import { TimeTracker } from './components/TimeTracker';
+import { QuotesManager } from './components/QuotesManager';
+import { RecurringInvoices } from './components/RecurringInvoices';
+import { Invoice, InvoiceDraft, InvoiceType } from './types';
+import { assetRepository, invoiceRepository, recurringInvoiceRepository } from './services/storageService';
+import { generateRecurringDrafts } from './services/recurringService';
+import { DEFAULT_INVOICE_SERIES, getDefaultSeries } from './services/seriesService';
+import { useStoredCollection, useStoredSetting } from './hooks/useStoredState';
 
 // Mock Initial Data
 const INITIAL_INVOICES: Invoice[] = [
@@ -54,18 +66,25 @@ const INITIAL_INVOICES: Invoice[] = [
 ];
 
 function App() {
-  const [view, setView] = useState<'dashboard' | 'invoices' | 'taxes' | 'contacts' | 'profile' | 'closing'>('dashboard');
-  const [invoices, setInvoices] = useState<Invoice[]>(() => {
-    const saved = localStorage.getItem('invoices');
-    return saved ? JSON.parse(saved) : INITIAL_INVOICES;
-  });
+  const [view, setView] = useState<'dashboard' | 'invoices' | 'taxes' | 'contacts' | 'profile' | 'closing' | 'assets' | 'history' | 'bank' | 'provisions' | 'matters' | 'time' | 'quotes' | 'recurring'>('dashboard');
+  // Invoices drafted in another screen (Tiempos, Presupuestos, Igualas), handed over to the invoice form
+  const [invoiceDrafts, setInvoiceDrafts] = useState<InvoiceDraft[]>([]);
+  const [invoices, setInvoices, invoicesLoaded] = useStoredCollection(invoiceRepository, INITIAL_INVOICES);
+  const [assets, setAssets, assetsLoaded] = useStoredCollection(assetRepository);
+  const [recurringInvoices, setRecurringInvoices, recurringLoaded] = useStoredCollection(recurringInvoiceRepository);
+  // Series de numeración: one copy for every screen that numbers invoices
+  const [invoiceSeries, setInvoiceSeries, seriesLoaded] = useStoredSetting('invoiceSeries', DEFAULT_INVOICE_SERIES);
+  // Drafts of the iguala periods due, generated on every start and again whenever the
+  // invoices, the templates or the series change; issued after review in Igualas
+  const [recurringDrafts, setRecurringDrafts] = useState<InvoiceDraft[]>([]);
+  useEffect(() => {
+    if (!invoicesLoaded || !recurringLoaded || !seriesLoaded) return;
+    setRecurringDrafts(generateRecurringDrafts(recurringInvoices, invoices, getDefaultSeries(invoiceSeries, InvoiceType.INCOME)));
+  }, [invoicesLoaded, recurringLoaded, seriesLoaded, recurringInvoices, invoices, invoiceSeries]);
+  const dueRecurringCount = recurringDrafts.length;
   const [isChatOpen, setIsChatOpen] = useState(false);
   const [aiPrompt, setAiPrompt] = useState<string>('');
 
-  useEffect(() => {
-    localStorage.setItem('invoices', JSON.stringify(invoices));
-  }, [invoices]);
-
   const handleAskAi = (prompt: string) => {
     setAiPrompt(prompt);
     setIsChatOpen(true);
@@ -94,6 +113,45 @@ function App() {
           >
             <Receipt className="h-5 w-5" /> Facturación
           </button>
+          <button 
+            onClick={() => setView('matters')}
+            className={`w-full flex items-center gap-3 px-4 py-3 rounded-lg transition-colors ${view === 'matters' ? 'bg-indigo-600 text-white' : 'hover:bg-slate-800'}`}
+          >
+            <FolderOpen className="h-5 w-5" /> Expedientes
+          </button>
+          <button 
+            onClick={() => setView('time')}
+            className={`w-full flex items-center gap-3 px-4 py-3 rounded-lg transition-colors ${view === 'time' ? 'bg-indigo-600 text-white' : 'hover:bg-slate-800'}`}
+          >
+            <Timer className="h-5 w-5" /> Tiempos
+          </button>
+          <button 
+            onClick={() => setView('quotes')}
+            className={`w-full flex items-center gap-3 px-4 py-3 rounded-lg transition-colors ${view === 'quotes' ? 'bg-indigo-600 text-white' : 'hover:bg-slate-800'}`}
+          >
+            <Calculator className="h-5 w-5" /> Presupuestos
+          </button>
+          <button 
+            onClick={() => setView('recurring')}
+            className={`w-full flex items-center gap-3 px-4 py-3 rounded-lg transition-colors ${view === 'recurring' ? 'bg-indigo-600 text-white' : 'hover:bg-slate-800'}`}
+          >
+            <Repeat className="h-5 w-5" /> Igualas
+            {dueRecurringCount > 0 && (
+              <span className="ml-auto px-2 py-0.5 rounded-full bg-amber-500 text-white text-xs font-semibold">{dueRecurringCount}</span>
+            )}
+          </button>
+          <button 
+            onClick={() => setView('bank')}
+            className={`w-full flex items-center gap-3 px-4 py-3 rounded-lg transition-colors ${view === 'bank' ? 'bg-indigo-600 text-white' : 'hover:bg-slate-800'}`}
+          >
+            <Landmark className="h-5 w-5" /> Banco
+          </button>
+          <button 
+            onClick={() => setView('provisions')}
+            className={`w-full flex items-center gap-3 px-4 py-3 rounded-lg transition-colors ${view === 'provisions' ? 'bg-indigo-600 text-white' : 'hover:bg-slate-800'}`}
+          >
+            <PiggyBank className="h-5 w-5" /> Provisiones de Fondos
+          </button>
           <button 
             onClick={() => setView('taxes')}
             className={`w-full flex items-center gap-3 px-4 py-3 rounded-lg transition-colors ${view === 'taxes' ? 'bg-indigo-600 text-white' : 'hover:bg-slate-800'}`}
@@ -106,12 +164,24 @@ function App() {
           >
             <Users className="h-5 w-5" /> Agenda (Clientes/Prov.)
           </button>
+          <button 
+            onClick={() => setView('assets')}
+            className={`w-full flex items-center gap-3 px-4 py-3 rounded-lg transition-colors ${view === 'assets' ? 'bg-indigo-600 text-white' : 'hover:bg-slate-800'}`}
+          >
+            <Package className="h-5 w-5" /> Bienes de Inversión
+          </button>
           <button 
             onClick={() => setView('closing')}
             className={`w-full flex items-center gap-3 px-4 py-3 rounded-lg transition-colors ${view === 'closing' ? 'bg-indigo-600 text-white' : 'hover:bg-slate-800'}`}
           >
             <Lock className="h-5 w-5" /> Cierre Fiscal
           </button>
+          <button 
+            onClick={() => setView('history')}
+            className={`w-full flex items-center gap-3 px-4 py-3 rounded-lg transition-colors ${view === 'history' ? 'bg-indigo-600 text-white' : 'hover:bg-slate-800'}`}
+          >
+            <History className="h-5 w-5" /> Historial de Cambios
+          </button>
           <div className="pt-4 mt-4 border-t border-slate-800">
              <button 
               onClick={() => setView('profile')}
@@ -141,12 +211,55 @@ function App() {
         </div>
 
         <div className="max-w-7xl mx-auto">
+          {/* Screens read their own stores on mount: wait until the database (and the localStorage import) is ready */}
+          {!(invoicesLoaded && assetsLoaded && recurringLoaded && seriesLoaded) ? (
+            <div className="flex items-center justify-center h-64 text-slate-400">
+              <Loader2 className="h-6 w-6 animate-spin mr-2" /> Cargando datos...
+            </div>
+          ) : <>
+          {dueRecurringCount > 0 && view === 'dashboard' && (
+            <button
+              onClick={() => setView('recurring')}
+              className="w-full mb-6 p-4 bg-amber-50 border border-amber-200 rounded-xl text-sm text-amber-900 flex items-center gap-2 hover:bg-amber-100 transition-colors text-left"
+            >
+              <AlertCircle className="h-5 w-5 shrink-0" />
+              {dueRecurringCount === 1 ? 'Hay 1 factura de iguala pendiente' : `Hay ${dueRecurringCount} facturas de iguala pendientes`} de revisar y emitir.
+              <span className="ml-auto font-semibold">Revisar</span>
+            </button>
+          )}
           {view === 'dashboard' && <Dashboard invoices={invoices} />}
-          {view === 'invoices' && <InvoiceManager invoices={invoices} setInvoices={setInvoices} />}
-          {view === 'taxes' && <TaxModels invoices={invoices} onAskAi={handleAskAi} />}
+          {view === 'invoices' && (
+            <InvoiceManager
+              invoices={invoices}
+              setInvoices={setInvoices}
+              invoiceSeries={invoiceSeries}
+              setInvoiceSeries={setInvoiceSeries}
+              drafts={invoiceDrafts} onDraftsUsed={() => setInvoiceDrafts([])} />
+          )}
+          {view === 'matters' && <MattersManager invoices={invoices} />}
+          {view === 'time' && (
+            <TimeTracker invoices={invoices} onBill={(draft) => { setInvoiceDrafts([draft]); setView('invoices'); }} />
+          )}
+          {view === 'quotes' && <QuotesManager invoices={invoices} onInvoice={(drafts) => { setInvoiceDrafts(drafts); setView('invoices'); }} />}
+          {view === 'recurring' && (
+            <RecurringInvoices
+              invoices={invoices}
+              templates={recurringInvoices}
+              setTemplates={setRecurringInvoices}
+              invoiceSeries={invoiceSeries}
+              drafts={recurringDrafts}
+              onInvoice={(drafts) => { setInvoiceDrafts(drafts); setView('invoices'); }}
+            />
+          )}
+          {view === 'bank' && <BankReconciliation invoices={invoices} setInvoices={setInvoices} />}
+          {view === 'provisions' && <FundProvisions invoices={invoices} />}
+          {view === 'taxes' && <TaxModels invoices={invoices} assets={assets} onAskAi={handleAskAi} />}
           {view === 'contacts' && <ContactsManager />}
-          {view === 'closing' && <FiscalYearCloser invoices={invoices} />}
+          {view === 'assets' && <AssetRegister invoices={invoices} assets={assets} setAssets={setAssets} />}
+          {view === 'closing' && <FiscalYearCloser invoices={invoices} assets={assets} />}
+          {view === 'history' && <ChangeLogViewer invoices={invoices} setInvoices={setInvoices} />}
           {view === 'profile' && <ProfessionalProfile />}
+          </>}
         </div>
       </main>
 
@@ -0,0 +1,365 @@
+import React, { useMemo, useState } from 'react';
+import { AssetCategory, Invoice, InvestmentAsset } from '../types';
+import { Package, Plus, Trash2, X, ChevronDown, ChevronRight, AlertTriangle, LogOut } from 'lucide-react';
+import { Button } from './Button';
+import {
+  ASSET_COEFFICIENTS,
+  getAccumulatedDepreciation,
+  getDepreciationSchedule,
+  getDisposalResult,
+  getMinCoefficient,
+  isInvestmentExpense
+} from '../services/assetService';
+
+interface AssetRegisterProps {
+  invoices: Invoice[];
+  assets: InvestmentAsset[];
+  setAssets: React.Dispatch<React.SetStateAction<InvestmentAsset[]>>;
+}
+
+// Helper for European Currency Format
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('es-ES', {
+    style: 'currency',
+    currency: 'EUR',
+  }).format(amount);
+};
+
+const EMPTY_ASSET: Omit<InvestmentAsset, 'id'> = {
+  description: '',
+  category: 'EQUIPOS_INFORMATICOS',
+  acquisitionDate: new Date().toISOString().split('T')[0],
+  acquisitionValue: 0,
+  coefficient: ASSET_COEFFICIENTS.EQUIPOS_INFORMATICOS.maxCoefficient
+};
+
+export const AssetRegister: React.FC<AssetRegisterProps> = ({ invoices, assets, setAssets }) => {
+  const [formData, setFormData] = useState<Omit<InvestmentAsset, 'id'> | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [disposal, setDisposal] = useState<{ id: string; date: string; value: string } | null>(null);
+  const today = new Date().toISOString().split('T')[0];
+
+  // Facturas recibidas marcadas como bien de inversión que aún no tienen alta en el registro
+  const pendingInvoices = useMemo(() =>
+    invoices.filter(inv => isInvestmentExpense(inv) && !assets.some(a => a.invoiceId === inv.id)),
+    [invoices, assets]
+  );
+
+  const openFromInvoice = (invoice: Invoice) => {
+    setFormData({
+      ...EMPTY_ASSET,
+      invoiceId: invoice.id,
+      description: `${invoice.concept} (${invoice.entityName})`,
+      acquisitionDate: invoice.date,
+      // VAT not deductible is part of the acquisition cost
+      acquisitionValue: invoice.deductible ? invoice.baseAmount : invoice.baseAmount + invoice.ivaAmount
+    });
+  };
+
+  const handleCategoryChange = (category: AssetCategory) => {
+    if (!formData) return;
+    setFormData({ ...formData, category, coefficient: ASSET_COEFFICIENTS[category].maxCoefficient });
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData) return;
+
+    const { maxCoefficient } = ASSET_COEFFICIENTS[formData.category];
+    const minCoefficient = getMinCoefficient(formData.category);
+    if (formData.coefficient < minCoefficient || formData.coefficient > maxCoefficient) {
+      alert(`El coeficiente para este grupo debe estar entre ${minCoefficient}% y ${maxCoefficient}%.`);
+      return;
+    }
+    if (formData.acquisitionValue <= 0) {
+      alert("El valor de adquisición debe ser mayor que cero.");
+      return;
+    }
+
+    setAssets(prev => [...prev, { ...formData, id: crypto.randomUUID() }]);
+    setFormData(null);
+  };
+
+  const handleDelete = (asset: InvestmentAsset) => {
+    if (window.confirm(`¿Eliminar "${asset.description}" del registro? Dejará de amortizarse en todos los ejercicios.`)) {
+      setAssets(prev => prev.filter(a => a.id !== asset.id));
+    }
+  };
+
+  const handleDispose = () => {
+    if (!disposal) return;
+    const asset = assets.find(a => a.id === disposal.id);
+    if (!asset) return;
+
+    if (!disposal.date || disposal.date < asset.acquisitionDate) {
+      alert("La fecha de baja no puede ser anterior a la fecha de alta.");
+      return;
+    }
+
+    setAssets(prev => prev.map(a => a.id === disposal.id
+      ? { ...a, disposalDate: disposal.date, disposalValue: parseFloat(disposal.value) || 0 }
+      : a
+    ));
+    setDisposal(null);
+  };
+
+  const handleUndoDisposal = (asset: InvestmentAsset) => {
+    setAssets(prev => prev.map(a => a.id === asset.id ? { ...a, disposalDate: undefined, disposalValue: undefined } : a));
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 flex justify-between items-center flex-wrap gap-4">
+        <div className="flex items-center gap-3">
+          <div className="p-3 bg-slate-100 rounded-lg">
+            <Package className="h-6 w-6 text-slate-700" />
+          </div>
+          <div>
+            <h2 className="text-xl font-bold text-slate-800">Bienes de Inversión</h2>
+            <p className="text-sm text-slate-500">Registro y cuadro de amortización (tabla simplificada de estimación directa).</p>
+          </div>
+        </div>
+        <Button onClick={() => setFormData({ ...EMPTY_ASSET })}>
+          <Plus className="h-4 w-4" /> Nuevo Elemento
+        </Button>
+      </div>
+
+      {pendingInvoices.length > 0 && (
+        <div className="bg-amber-50 border-l-4 border-amber-500 p-4">
+          <div className="flex items-start gap-3">
+            <AlertTriangle className="h-5 w-5 text-amber-600 mt-0.5" />
+            <div className="flex-1">
+              <p className="text-sm text-amber-800 font-medium">Facturas de bienes de inversión sin alta en el registro</p>
+              <p className="text-xs text-amber-700 mt-1">No se deducen como gasto del ejercicio: solo su amortización, una vez dadas de alta.</p>
+              <div className="mt-3 space-y-2">
+                {pendingInvoices.map(inv => (
+                  <div key={inv.id} className="flex justify-between items-center text-sm bg-white/60 p-2 rounded">
+                    <span className="text-slate-700">{inv.date} · {inv.number} · {inv.concept} · {formatCurrency(inv.baseAmount)}</span>
+                    <button onClick={() => openFromInvoice(inv)} className="text-xs px-2 py-1 bg-amber-100 text-amber-800 hover:bg-amber-200 rounded">
+                      Dar de alta
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <table className="w-full text-left text-sm">
+          <thead className="bg-slate-50 text-slate-600 font-medium">
+            <tr>
+              <th className="p-4 w-8"></th>
+              <th className="p-4">Elemento</th>
+              <th className="p-4">Alta</th>
+              <th className="p-4 text-right">Valor</th>
+              <th className="p-4 text-right">Coef.</th>
+              <th className="p-4 text-right">Amort. Acumulada</th>
+              <th className="p-4">Estado</th>
+              <th className="p-4"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {assets.length === 0 && (
+              <tr>
+                <td colSpan={8} className="p-8 text-center text-slate-400 italic">No hay bienes de inversión registrados.</td>
+              </tr>
+            )}
+            {assets.map(asset => {
+              const accumulated = getAccumulatedDepreciation(asset, today);
+              const disposalResult = getDisposalResult(asset);
+              const isExpanded = expandedId === asset.id;
+
+              return (
+                <React.Fragment key={asset.id}>
+                  <tr className="hover:bg-slate-50">
+                    <td className="p-4">
+                      <button onClick={() => setExpandedId(isExpanded ? null : asset.id)} className="text-slate-400 hover:text-slate-700">
+                        {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                      </button>
+                    </td>
+                    <td className="p-4">
+                      <p className="font-medium text-slate-800">{asset.description}</p>
+                      <p className="text-xs text-slate-400">{ASSET_COEFFICIENTS[asset.category].label}</p>
+                    </td>
+                    <td className="p-4 text-slate-600">{new Date(asset.acquisitionDate).toLocaleDateString()}</td>
+                    <td className="p-4 text-right font-mono">{formatCurrency(asset.acquisitionValue)}</td>
+                    <td className="p-4 text-right">{asset.coefficient}%</td>
+                    <td className="p-4 text-right font-mono">{formatCurrency(accumulated)}</td>
+                    <td className="p-4 text-xs">
+                      {asset.disposalDate ? (
+                        <div>
+                          <span className="px-2 py-1 rounded bg-slate-100 text-slate-600 font-bold">Baja {new Date(asset.disposalDate).toLocaleDateString()}</span>
+                          {disposalResult !== null && (
+                            <p className={`mt-1 ${disposalResult >= 0 ? 'text-emerald-600' : 'text-red-600'}`}>
+                              {disposalResult >= 0 ? 'Ganancia' : 'Pérdida'} patrimonial: {formatCurrency(disposalResult)}
+                            </p>
+                          )}
+                        </div>
+                      ) : accumulated >= asset.acquisitionValue ? (
+                        <span className="px-2 py-1 rounded bg-emerald-100 text-emerald-800 font-bold">Amortizado</span>
+                      ) : (
+                        <span className="px-2 py-1 rounded bg-indigo-100 text-indigo-800 font-bold">En uso</span>
+                      )}
+                    </td>
+                    <td className="p-4">
+                      <div className="flex justify-end gap-2">
+                        {asset.disposalDate ? (
+                          <button onClick={() => handleUndoDisposal(asset)} className="text-xs text-slate-500 hover:text-indigo-600">Anular baja</button>
+                        ) : (
+                          <button
+                            onClick={() => setDisposal({ id: asset.id, date: today, value: '' })}
+                            className="text-slate-400 hover:text-indigo-600"
+                            title="Dar de baja / transmitir"
+                          >
+                            <LogOut className="h-4 w-4" />
+                          </button>
+                        )}
+                        <button onClick={() => handleDelete(asset)} className="text-slate-400 hover:text-red-600" title="Eliminar">
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                  {disposal?.id === asset.id && (
+                    <tr className="bg-slate-50">
+                      <td colSpan={8} className="p-4">
+                        <div className="flex items-end gap-3 flex-wrap">
+                          <div>
+                            <label className="block text-xs font-medium text-slate-600 mb-1">Fecha de baja</label>
+                            <input
+                              type="date"
+                              value={disposal.date}
+                              onChange={(e) => setDisposal({ ...disposal, date: e.target.value })}
+                              className="text-sm border border-slate-300 rounded-lg px-2 py-1"
+                            />
+                          </div>
+                          <div>
+                            <label className="block text-xs font-medium text-slate-600 mb-1">Importe de venta (0 si se desecha)</label>
+                            <input
+                              type="number"
+                              step="0.01"
+                              value={disposal.value}
+                              onChange={(e) => setDisposal({ ...disposal, value: e.target.value })}
+                              className="text-sm border border-slate-300 rounded-lg px-2 py-1"
+                            />
+                          </div>
+                          <Button onClick={handleDispose} className="h-8 text-xs">Confirmar baja</Button>
+                          <Button onClick={() => setDisposal(null)} variant="ghost" className="h-8 text-xs">Cancelar</Button>
+                        </div>
+                      </td>
+                    </tr>
+                  )}
+                  {isExpanded && (
+                    <tr className="bg-slate-50">
+                      <td colSpan={8} className="p-4">
+                        <p className="text-xs font-bold text-slate-600 uppercase mb-2">Cuadro de amortización</p>
+                        <table className="w-full text-xs">
+                          <thead className="text-slate-500">
+                            <tr>
+                              <th className="text-left py-1">Ejercicio</th>
+                              <th className="text-right py-1">Amortización</th>
+                              <th className="text-right py-1">Acumulada</th>
+                              <th className="text-right py-1">Pendiente</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {getDepreciationSchedule(asset).map(entry => (
+                              <tr key={entry.year} className="border-t border-slate-200">
+                                <td className="py-1">{entry.year}</td>
+                                <td className="py-1 text-right font-mono">{formatCurrency(entry.charge)}</td>
+                                <td className="py-1 text-right font-mono">{formatCurrency(entry.accumulated)}</td>
+                                <td className="py-1 text-right font-mono">{formatCurrency(entry.netBookValue)}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </td>
+                    </tr>
+                  )}
+                </React.Fragment>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Modal alta de elemento */}
+      {formData && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <form onSubmit={handleSave} className="bg-white rounded-xl shadow-xl w-full max-w-lg p-6 space-y-4">
+            <div className="flex justify-between items-center">
+              <h3 className="text-lg font-bold text-slate-800">Alta de Bien de Inversión</h3>
+              <button type="button" onClick={() => setFormData(null)} className="text-slate-400 hover:text-slate-700">
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Descripción</label>
+              <input
+                required
+                value={formData.description}
+                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:outline-none text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Grupo (tabla simplificada)</label>
+              <select
+                value={formData.category}
+                onChange={(e) => handleCategoryChange(e.target.value as AssetCategory)}
+                className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:outline-none text-sm bg-white"
+              >
+                {(Object.entries(ASSET_COEFFICIENTS) as [AssetCategory, { label: string; maxCoefficient: number; maxYears: number }][]).map(([key, info]) => (
+                  <option key={key} value={key}>{info.label} ({info.maxCoefficient}% / {info.maxYears} años)</option>
+                ))}
+              </select>
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Puesta en uso</label>
+                <input
+                  type="date"
+                  required
+                  value={formData.acquisitionDate}
+                  onChange={(e) => setFormData({ ...formData, acquisitionDate: e.target.value })}
+                  className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:outline-none text-sm"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Valor (€)</label>
+                <input
+                  type="number"
+                  step="0.01"
+                  required
+                  value={formData.acquisitionValue}
+                  onChange={(e) => setFormData({ ...formData, acquisitionValue: parseFloat(e.target.value) || 0 })}
+                  className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:outline-none text-sm"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Coef. (%)</label>
+                <input
+                  type="number"
+                  step="0.01"
+                  required
+                  value={formData.coefficient}
+                  onChange={(e) => setFormData({ ...formData, coefficient: parseFloat(e.target.value) || 0 })}
+                  className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:outline-none text-sm"
+                />
+              </div>
+            </div>
+            <p className="text-xs text-slate-500">
+              Coeficiente permitido: {getMinCoefficient(formData.category)}% - {ASSET_COEFFICIENTS[formData.category].maxCoefficient}%. La amortización se prorratea por días desde la puesta en funcionamiento.
+            </p>
+            <div className="flex justify-end gap-2 pt-2">
+              <Button type="button" variant="ghost" onClick={() => setFormData(null)}>Cancelar</Button>
+              <Button type="submit">Guardar</Button>
+            </div>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+};
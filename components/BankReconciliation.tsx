@@ -0,0 +1,392 @@
+import React, { useMemo, useState } from 'react';
+import { BankMovement, Invoice, InvoiceType, PeriodLock } from '../types';
+import { Landmark, Upload, CheckCircle, Link2, EyeOff, FilePlus, RotateCcw, X } from 'lucide-react';
+import { Button } from './Button';
+import { parseBankStatement } from '../services/bankImportService';
+import { applyMovementPayment, getManualCandidates, removeMovementPayment, suggestMatches } from '../services/reconciliationService';
+import { getOutstandingAmount } from '../services/paymentService';
+import { bankMovementRepository, setChangeReason } from '../services/storageService';
+import { DEFAULT_INVOICE_SERIES, getDefaultSeries, getNextSeriesNumber } from '../services/seriesService';
+import { getPeriodLockBlocker } from '../services/periodLockService';
+import { roundAmount } from '../services/taxService';
+import { useEntities } from '../hooks/useEntities';
+import { useStoredCollection, useStoredSetting } from '../hooks/useStoredState';
+
+interface BankReconciliationProps {
+  invoices: Invoice[];
+  setInvoices: React.Dispatch<React.SetStateAction<Invoice[]>>;
+}
+
+interface ExpenseForm {
+  entityName: string;
+  nif: string;
+  concept: string;
+  ivaRate: number;
+  irpfRate: number;
+  deductible: boolean;
+}
+
+const formatCurrency = (val: number) =>
+  new Intl.NumberFormat('es-ES', { style: 'currency', currency: 'EUR' }).format(val);
+
+const formatDate = (date: string) => date.split('-').reverse().join('/');
+
+const amountClass = (amount: number) => amount < 0 ? 'text-red-600' : 'text-emerald-600';
+
+export const BankReconciliation: React.FC<BankReconciliationProps> = ({ invoices, setInvoices }) => {
+  const [movements, setMovements] = useStoredCollection(bankMovementRepository);
+  const [invoiceSeries] = useStoredSetting('invoiceSeries', DEFAULT_INVOICE_SERIES);
+  const [periodLocks] = useStoredSetting('periodLocks', [] as PeriodLock[]);
+  const entities = useEntities();
+
+  const [isImporting, setIsImporting] = useState(false);
+  // Suggested matches the user has unticked on the confirmation screen
+  const [rejected, setRejected] = useState<Set<string>>(new Set());
+  const [manualChoice, setManualChoice] = useState<Record<string, string>>({});
+  const [showClosed, setShowClosed] = useState(false);
+  const [expenseMovement, setExpenseMovement] = useState<BankMovement | null>(null);
+  const [expenseForm, setExpenseForm] = useState<ExpenseForm>({ entityName: '', nif: '', concept: '', ivaRate: 21, irpfRate: 0, deductible: true });
+
+  const suggestions = useMemo(() => suggestMatches(movements, invoices), [movements, invoices]);
+  const suggestedIds = new Set(suggestions.map(match => match.movement.id));
+  const unmatched = movements
+    .filter(m => m.status === 'PENDING' && !suggestedIds.has(m.id))
+    .sort((a, b) => b.date.localeCompare(a.date));
+  const closed = movements
+    .filter(m => m.status !== 'PENDING')
+    .sort((a, b) => b.date.localeCompare(a.date));
+  const suppliers = entities.filter(e => e.type === 'PROVIDER');
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsImporting(true);
+    try {
+      const parsed = await parseBankStatement(file);
+      const existing = new Set(movements.map(m => m.id));
+      const added = parsed.filter(m => !existing.has(m.id));
+      setMovements(prev => [...prev, ...added]);
+      alert(`${file.name}: ${added.length} movimientos nuevos${parsed.length > added.length ? `, ${parsed.length - added.length} ya estaban importados` : ''}.`);
+    } catch (err) {
+      alert((err as Error).message);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  // Payments of invoices in locked periods are allowed: collecting them changes no tax return
+  const reconcile = (pairs: Array<{ movement: BankMovement; invoice: Invoice }>) => {
+    if (pairs.length === 0) return;
+    const byInvoice = new Map(pairs.map(pair => [pair.invoice.id, pair.movement]));
+    const byMovement = new Map(pairs.map(pair => [pair.movement.id, pair.invoice.id]));
+
+    setChangeReason('Conciliación bancaria');
+    setInvoices(prev => prev.map(inv => byInvoice.has(inv.id) ? applyMovementPayment(inv, byInvoice.get(inv.id)!) : inv));
+    setMovements(prev => prev.map(m => byMovement.has(m.id)
+      ? { ...m, status: 'RECONCILED', invoiceIds: [...(m.invoiceIds || []), byMovement.get(m.id)!] }
+      : m
+    ));
+  };
+
+  const confirmSuggestions = () => {
+    reconcile(suggestions.filter(match => !rejected.has(match.movement.id)));
+    setRejected(new Set());
+  };
+
+  const toggleSuggestion = (movementId: string) => {
+    setRejected(prev => {
+      const next = new Set(prev);
+      if (next.has(movementId)) next.delete(movementId);
+      else next.add(movementId);
+      return next;
+    });
+  };
+
+  const reconcileManually = (movement: BankMovement) => {
+    const invoice = invoices.find(inv => inv.id === manualChoice[movement.id]);
+    if (!invoice) return;
+    const outstanding = Math.abs(getOutstandingAmount(invoice, invoices));
+    if (Math.abs(movement.amount) > outstanding + 0.01 &&
+        !window.confirm(`El movimiento (${formatCurrency(Math.abs(movement.amount))}) supera lo pendiente de la factura ${invoice.number} (${formatCurrency(outstanding)}). ¿Conciliar igualmente?`)) return;
+    reconcile([{ movement, invoice }]);
+  };
+
+  const setMovementStatus = (movementId: string, status: BankMovement['status']) =>
+    setMovements(prev => prev.map(m => m.id === movementId ? { ...m, status } : m));
+
+  const undoMovement = (movement: BankMovement) => {
+    const ids = movement.invoiceIds || [];
+    if (ids.length > 0) {
+      const labels = invoices.filter(inv => ids.includes(inv.id)).map(inv => inv.number).join(', ');
+      if (!window.confirm(`¿Deshacer la conciliación? Se quitará el cobro/pago de ${labels || 'las facturas vinculadas'}.`)) return;
+      setChangeReason('Conciliación bancaria deshecha');
+      setInvoices(prev => prev.map(inv => ids.includes(inv.id) ? removeMovementPayment(inv, movement.id) : inv));
+    }
+    setMovements(prev => prev.map(m => m.id === movement.id ? { ...m, status: 'PENDING', invoiceIds: undefined } : m));
+  };
+
+  const openExpenseModal = (movement: BankMovement) => {
+    setExpenseForm({ entityName: '', nif: '', concept: movement.concept, ivaRate: 21, irpfRate: 0, deductible: true });
+    setExpenseMovement(movement);
+  };
+
+  const handleSupplierName = (name: string) => {
+    const supplier = suppliers.find(s => s.name === name);
+    setExpenseForm(prev => ({ ...prev, entityName: name, nif: supplier ? supplier.nif : prev.nif }));
+  };
+
+  // Total paid = base + IVA - IRPF, so the base comes from the charged amount
+  const expenseTotal = expenseMovement ? Math.abs(expenseMovement.amount) : 0;
+  const expenseBase = roundAmount(expenseTotal / (1 + (expenseForm.ivaRate - expenseForm.irpfRate) / 100));
+  const expenseIva = roundAmount(expenseBase * expenseForm.ivaRate / 100);
+  const expenseIrpf = roundAmount(expenseBase * expenseForm.irpfRate / 100);
+
+  const createExpense = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!expenseMovement) return;
+
+    const blocker = getPeriodLockBlocker(periodLocks, [expenseMovement.date], 'registrar el gasto');
+    if (blocker) {
+      alert(blocker);
+      return;
+    }
+    const series = getDefaultSeries(invoiceSeries, InvoiceType.EXPENSE);
+    if (!series) {
+      alert('No hay ninguna serie de gastos configurada.');
+      return;
+    }
+
+    const expense: Invoice = {
+      id: crypto.randomUUID(),
+      type: InvoiceType.EXPENSE,
+      number: getNextSeriesNumber(series, invoices, expenseMovement.date),
+      seriesId: series.id,
+      date: expenseMovement.date,
+      registrationDate: new Date().toISOString().split('T')[0],
+      dueDate: expenseMovement.date,
+      nif: expenseForm.nif.trim().toUpperCase(),
+      entityName: expenseForm.entityName.trim(),
+      concept: expenseForm.concept.trim(),
+      baseAmount: expenseBase,
+      ivaRate: expenseForm.ivaRate,
+      ivaAmount: expenseIva,
+      irpfRate: expenseForm.irpfRate,
+      irpfAmount: expenseIrpf,
+      // Rounding the quotas may move the total a cent: the bank charge is the real one
+      totalAmount: expenseTotal,
+      deductible: expenseForm.deductible,
+      irpfExpenseType: expenseForm.irpfRate > 0 ? 'Servicios de profesionales independientes' : 'Otros servicios exteriores',
+      ivaExpenseType: 'Operaciones Interiores Corrientes'
+    };
+
+    setChangeReason('Gasto creado desde un movimiento bancario');
+    setInvoices(prev => [...prev, applyMovementPayment(expense, expenseMovement)]);
+    setMovements(prev => prev.map(m => m.id === expenseMovement.id ? { ...m, status: 'RECONCILED', invoiceIds: [expense.id] } : m));
+    setExpenseMovement(null);
+  };
+
+  const invoiceSummary = (invoice: Invoice) =>
+    `${invoice.number} · ${invoice.entityName} · ${formatDate(invoice.date)} · pendiente ${formatCurrency(getOutstandingAmount(invoice, invoices))}`;
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500">
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <div className="p-3 bg-slate-100 rounded-lg">
+            <Landmark className="h-6 w-6 text-slate-700" />
+          </div>
+          <div>
+            <h2 className="text-xl font-bold text-slate-800">Conciliación Bancaria</h2>
+            <p className="text-sm text-slate-500">Importa el extracto (Norma 43 o CSV del banco) y casa cada movimiento con su factura.</p>
+          </div>
+        </div>
+        <label className={`px-4 py-2 rounded-lg font-medium bg-indigo-600 text-white hover:bg-indigo-700 shadow-sm flex items-center gap-2 cursor-pointer ${isImporting ? 'opacity-50 pointer-events-none' : ''}`}>
+          <Upload className="h-4 w-4" /> {isImporting ? 'Importando...' : 'Importar extracto'}
+          <input type="file" accept=".n43,.aeb,.q43,.txt,.csv" className="hidden" onChange={handleImport} />
+        </label>
+      </div>
+
+      {/* Propuestas de conciliación */}
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="p-4 border-b border-slate-100 flex items-center justify-between">
+          <h3 className="font-semibold text-slate-800">Propuestas de conciliación ({suggestions.length})</h3>
+          <Button onClick={confirmSuggestions} disabled={suggestions.length === rejected.size}>
+            <CheckCircle className="h-4 w-4" /> Confirmar seleccionadas
+          </Button>
+        </div>
+        {suggestions.length === 0 ? (
+          <div className="p-8 text-center text-slate-400 text-sm">No hay movimientos pendientes que casen con una factura abierta.</div>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="bg-slate-50 text-xs text-slate-500 uppercase">
+              <tr>
+                <th className="p-3 w-8"></th>
+                <th className="text-left p-3">Movimiento</th>
+                <th className="text-right p-3">Importe</th>
+                <th className="text-left p-3">Factura</th>
+                <th className="text-left p-3">Motivo</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {suggestions.map(match => (
+                <tr key={match.movement.id} className={rejected.has(match.movement.id) ? 'opacity-50' : ''}>
+                  <td className="p-3">
+                    <input type="checkbox" checked={!rejected.has(match.movement.id)} onChange={() => toggleSuggestion(match.movement.id)} className="h-4 w-4 text-indigo-600 rounded" />
+                  </td>
+                  <td className="p-3">
+                    <div className="font-mono text-xs text-slate-500">{formatDate(match.movement.date)}</div>
+                    <div className="text-slate-700">{match.movement.concept}</div>
+                  </td>
+                  <td className={`p-3 text-right font-semibold ${amountClass(match.movement.amount)}`}>{formatCurrency(match.movement.amount)}</td>
+                  <td className="p-3">
+                    <div className="font-semibold text-slate-800">{match.invoice.number}</div>
+                    <div className="text-xs text-slate-500">{match.invoice.entityName} · {formatDate(match.invoice.date)}</div>
+                  </td>
+                  <td className="p-3 text-xs text-slate-500">{match.reasons.join(' · ')}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* Movimientos sin conciliar */}
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="p-4 border-b border-slate-100">
+          <h3 className="font-semibold text-slate-800">Movimientos sin conciliar ({unmatched.length})</h3>
+        </div>
+        {unmatched.length === 0 ? (
+          <div className="p-8 text-center text-slate-400 text-sm">No quedan movimientos pendientes.</div>
+        ) : (
+          <ul className="divide-y divide-slate-100">
+            {unmatched.map(movement => {
+              const candidates = getManualCandidates(movement, invoices);
+              return (
+                <li key={movement.id} className="p-4 flex flex-col lg:flex-row lg:items-center gap-3">
+                  <div className="flex-1 min-w-0">
+                    <div className="text-xs font-mono text-slate-500">{formatDate(movement.date)} · {movement.account}</div>
+                    <div className="text-sm text-slate-700 truncate" title={movement.concept}>{movement.concept}</div>
+                  </div>
+                  <div className={`font-semibold w-28 text-right ${amountClass(movement.amount)}`}>{formatCurrency(movement.amount)}</div>
+                  <div className="flex items-center gap-2">
+                    <select
+                      value={manualChoice[movement.id] || ''}
+                      onChange={(e) => setManualChoice(prev => ({ ...prev, [movement.id]: e.target.value }))}
+                      className="w-64 px-2 py-1.5 border border-slate-300 rounded-lg bg-white text-xs focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                    >
+                      <option value="">{candidates.length > 0 ? 'Elegir factura...' : 'Sin facturas abiertas'}</option>
+                      {candidates.map(inv => <option key={inv.id} value={inv.id}>{invoiceSummary(inv)}</option>)}
+                    </select>
+                    <button onClick={() => reconcileManually(movement)} disabled={!manualChoice[movement.id]} className="p-1.5 text-indigo-600 hover:bg-indigo-50 rounded disabled:opacity-30" title="Conciliar con la factura elegida">
+                      <Link2 className="h-4 w-4" />
+                    </button>
+                    {movement.amount < 0 && (
+                      <button onClick={() => openExpenseModal(movement)} className="p-1.5 text-emerald-600 hover:bg-emerald-50 rounded" title="Registrar como gasto">
+                        <FilePlus className="h-4 w-4" />
+                      </button>
+                    )}
+                    <button onClick={() => setMovementStatus(movement.id, 'IGNORED')} className="p-1.5 text-slate-400 hover:bg-slate-100 rounded" title="Ignorar (traspasos, impuestos...)">
+                      <EyeOff className="h-4 w-4" />
+                    </button>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+
+      {/* Conciliados e ignorados */}
+      {closed.length > 0 && (
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+          <button onClick={() => setShowClosed(!showClosed)} className="w-full p-4 text-left text-sm font-semibold text-slate-600 hover:bg-slate-50">
+            {showClosed ? 'Ocultar' : 'Ver'} movimientos conciliados o ignorados ({closed.length})
+          </button>
+          {showClosed && (
+            <ul className="divide-y divide-slate-100 border-t border-slate-100">
+              {closed.map(movement => (
+                <li key={movement.id} className="px-4 py-2 flex items-center gap-3 text-sm">
+                  <span className="font-mono text-xs text-slate-500 w-20">{formatDate(movement.date)}</span>
+                  <span className="flex-1 truncate text-slate-700" title={movement.concept}>{movement.concept}</span>
+                  <span className="text-xs text-slate-500">
+                    {movement.status === 'IGNORED'
+                      ? 'Ignorado'
+                      : invoices.filter(inv => movement.invoiceIds?.includes(inv.id)).map(inv => inv.number).join(', ')}
+                  </span>
+                  <span className={`w-28 text-right font-semibold ${amountClass(movement.amount)}`}>{formatCurrency(movement.amount)}</span>
+                  <button onClick={() => undoMovement(movement)} className="p-1 text-slate-400 hover:text-indigo-600" title="Volver a pendiente">
+                    <RotateCcw className="h-4 w-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {expenseMovement && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4 animate-in fade-in duration-200">
+          <form onSubmit={createExpense} className="bg-white rounded-xl shadow-2xl max-w-lg w-full p-6 space-y-4">
+            <div className="flex justify-between items-center">
+              <h3 className="text-lg font-bold text-slate-900 flex items-center gap-2">
+                <FilePlus className="h-5 w-5 text-emerald-600" /> Registrar gasto
+              </h3>
+              <button type="button" onClick={() => setExpenseMovement(null)} className="text-slate-400 hover:text-slate-600">
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+            <p className="text-sm text-slate-500">
+              Cargo del {formatDate(expenseMovement.date)} por {formatCurrency(expenseTotal)}: {expenseMovement.concept}
+            </p>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="col-span-2">
+                <label className="block text-xs font-medium text-slate-600 mb-1">Proveedor</label>
+                <input required list="bank-suppliers" value={expenseForm.entityName} onChange={(e) => handleSupplierName(e.target.value)} className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500" />
+                <datalist id="bank-suppliers">
+                  {suppliers.map(s => <option key={s.nif} value={s.name} />)}
+                </datalist>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-slate-600 mb-1">NIF</label>
+                <input required value={expenseForm.nif} onChange={(e) => setExpenseForm({ ...expenseForm, nif: e.target.value })} className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500" />
+              </div>
+              <div className="flex items-end pb-2">
+                <label className="flex items-center gap-2 text-sm text-slate-700">
+                  <input type="checkbox" checked={expenseForm.deductible} onChange={(e) => setExpenseForm({ ...expenseForm, deductible: e.target.checked })} className="h-4 w-4 text-indigo-600 rounded" />
+                  Deducible
+                </label>
+              </div>
+              <div className="col-span-2">
+                <label className="block text-xs font-medium text-slate-600 mb-1">Concepto</label>
+                <input required value={expenseForm.concept} onChange={(e) => setExpenseForm({ ...expenseForm, concept: e.target.value })} className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500" />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-slate-600 mb-1">% IVA</label>
+                <select value={expenseForm.ivaRate} onChange={(e) => setExpenseForm({ ...expenseForm, ivaRate: Number(e.target.value) })} className="w-full px-3 py-2 border border-slate-300 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500">
+                  {[21, 10, 4, 0].map(rate => <option key={rate} value={rate}>{rate}%</option>)}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-slate-600 mb-1">% IRPF</label>
+                <select value={expenseForm.irpfRate} onChange={(e) => setExpenseForm({ ...expenseForm, irpfRate: Number(e.target.value) })} className="w-full px-3 py-2 border border-slate-300 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500">
+                  {[0, 7, 15, 19].map(rate => <option key={rate} value={rate}>{rate}%</option>)}
+                </select>
+              </div>
+            </div>
+            <div className="p-3 bg-slate-50 rounded-lg text-sm grid grid-cols-3 gap-2 text-slate-600">
+              <span>Base: <b>{formatCurrency(expenseBase)}</b></span>
+              <span>IVA: <b>{formatCurrency(expenseIva)}</b></span>
+              <span>IRPF: <b>{formatCurrency(expenseIrpf)}</b></span>
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="secondary" onClick={() => setExpenseMovement(null)}>Cancelar</Button>
+              <Button type="submit">Registrar y conciliar</Button>
+            </div>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+};
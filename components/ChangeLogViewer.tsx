@@ -0,0 +1,234 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ChangeLogCollection, ChangeLogEntry, Invoice, InvoiceType, PeriodLock, SavedEntity } from '../types';
+import { History, Search, RotateCcw, ChevronDown, ChevronRight, X } from 'lucide-react';
+import { Button } from './Button';
+import { CHANGE_LOG_ACTIONS, CHANGE_LOG_COLLECTIONS, FIELD_LABELS, formatChangeValue, getChangeLog, getRecordHistory, getRestorableVersion } from '../services/changeLogService';
+import { setChangeReason, subscribeChangeLog } from '../services/storageService';
+import { saveEntity } from '../services/entityStore';
+import { getPeriodLockBlocker } from '../services/periodLockService';
+import { getIssuedEditBlocker } from '../services/rectificationService';
+import { getInvoiceVerifactuState, getVerifactuRecords } from '../services/verifactuService';
+import { useEntities } from '../hooks/useEntities';
+import { reportStorageError, useStoredSetting } from '../hooks/useStoredState';
+
+interface ChangeLogViewerProps {
+  invoices: Invoice[];
+  setInvoices: React.Dispatch<React.SetStateAction<Invoice[]>>;
+}
+
+// Entries shown per page
+const PAGE_SIZE = 100;
+
+const ACTION_STYLES: Record<ChangeLogEntry['action'], string> = {
+  CREATE: 'bg-emerald-100 text-emerald-700',
+  UPDATE: 'bg-indigo-100 text-indigo-700',
+  DELETE: 'bg-red-100 text-red-700'
+};
+
+export const ChangeLogViewer: React.FC<ChangeLogViewerProps> = ({ invoices, setInvoices }) => {
+  const [entries, setEntries] = useState<ChangeLogEntry[]>([]);
+  const [filterCollection, setFilterCollection] = useState<'ALL' | ChangeLogCollection>('ALL');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+  // Record whose whole history is shown (read through the 'record' index)
+  const [selectedRecord, setSelectedRecord] = useState<{ collection: ChangeLogCollection; recordKey: string; label: string } | null>(null);
+  const [recordHistory, setRecordHistory] = useState<ChangeLogEntry[]>([]);
+
+  const entities = useEntities();
+  const [periodLocks] = useStoredSetting('periodLocks', [] as PeriodLock[]);
+
+  const loadLog = () => getChangeLog().then(setEntries).catch(reportStorageError);
+
+  useEffect(() => {
+    loadLog();
+    return subscribeChangeLog(loadLog);
+  }, []);
+
+  useEffect(() => {
+    if (!selectedRecord) return;
+    getRecordHistory(selectedRecord.collection, selectedRecord.recordKey)
+      .then(history => setRecordHistory(history.reverse()))
+      .catch(reportStorageError);
+  }, [selectedRecord, entries]);
+
+  const filteredEntries = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+    return entries.filter(entry =>
+      (filterCollection === 'ALL' || entry.collection === filterCollection) &&
+      (!term || entry.label.toLowerCase().includes(term) || entry.recordKey.toLowerCase().includes(term) || (entry.reason || '').toLowerCase().includes(term))
+    );
+  }, [entries, filterCollection, searchTerm]);
+
+  const shownEntries = selectedRecord ? recordHistory : filteredEntries.slice(0, visibleCount);
+
+  const restoreInvoice = async (entry: ChangeLogEntry, version: Invoice) => {
+    const current = invoices.find(inv => inv.id === version.id);
+    const blocker = getPeriodLockBlocker(periodLocks, [version.date, current?.date], `restaurar la factura ${version.number}`);
+    if (blocker) {
+      alert(blocker);
+      return;
+    }
+    const duplicate = invoices.find(inv => inv.id !== version.id && inv.type === version.type && inv.number === version.number);
+    if (duplicate) {
+      alert(`No se puede restaurar: el número ${version.number} lo usa ahora otra factura.`);
+      return;
+    }
+    // Same rule as editing in Facturación: the registered data is corrected with a rectificativa
+    if (current && current.type === InvoiceType.INCOME) {
+      const records = await getVerifactuRecords().catch(e => { reportStorageError(e); return null; });
+      if (!records) return;
+      const issuedBlocker = getInvoiceVerifactuState(records, current.id).isActive ? getIssuedEditBlocker(current, version) : null;
+      if (issuedBlocker) {
+        alert(issuedBlocker);
+        return;
+      }
+    }
+    if (!window.confirm(`¿Restaurar la factura ${version.number} tal y como quedó el ${new Date(entry.timestamp).toLocaleString('es-ES')}?`)) return;
+
+    setChangeReason(`Restauración de la versión del ${new Date(entry.timestamp).toLocaleString('es-ES')}`);
+    setInvoices(prev => current ? prev.map(inv => inv.id === version.id ? version : inv) : [...prev, version]);
+  };
+
+  const restoreEntity = async (entry: ChangeLogEntry, version: SavedEntity) => {
+    const current = entities.find(e => (e.internalId || e.nif) === entry.recordKey);
+    const clash = entities.find(e => e.nif === version.nif && e !== current);
+    if (clash) {
+      alert(`No se puede restaurar: el NIF ${version.nif} pertenece ahora a "${clash.name}".`);
+      return;
+    }
+    if (!window.confirm(`¿Restaurar el contacto "${version.name}" tal y como quedó el ${new Date(entry.timestamp).toLocaleString('es-ES')}?`)) return;
+
+    try {
+      await saveEntity(version, current?.nif, `Restauración de la versión del ${new Date(entry.timestamp).toLocaleString('es-ES')}`);
+    } catch (e) {
+      reportStorageError(e);
+    }
+  };
+
+  const handleRestore = (entry: ChangeLogEntry) => {
+    const version = getRestorableVersion(entry);
+    if (!version) return;
+    if (entry.collection === 'invoices') restoreInvoice(entry, version as Invoice);
+    else restoreEntity(entry, version as SavedEntity);
+  };
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500">
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+        <div className="flex items-center gap-3 mb-4">
+          <div className="p-3 bg-slate-100 rounded-lg">
+            <History className="h-6 w-6 text-slate-700" />
+          </div>
+          <div>
+            <h2 className="text-xl font-bold text-slate-800">Historial de Cambios</h2>
+            <p className="text-sm text-slate-500">Registro inalterable de altas, modificaciones y eliminaciones de facturas y contactos.</p>
+          </div>
+        </div>
+
+        {selectedRecord ? (
+          <div className="flex items-center justify-between p-3 bg-indigo-50 border border-indigo-100 rounded-lg text-sm">
+            <span className="text-indigo-800">
+              Historial completo de {CHANGE_LOG_COLLECTIONS[selectedRecord.collection].toLowerCase()} <span className="font-semibold">{selectedRecord.label}</span> ({recordHistory.length} cambios)
+            </span>
+            <button onClick={() => setSelectedRecord(null)} className="text-indigo-600 hover:text-indigo-800 flex items-center gap-1">
+              <X className="h-4 w-4" /> Ver todo
+            </button>
+          </div>
+        ) : (
+          <div className="flex flex-col md:flex-row gap-3">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-2.5 h-4 w-4 text-slate-400" />
+              <input
+                type="text"
+                value={searchTerm}
+                onChange={(e) => { setSearchTerm(e.target.value); setVisibleCount(PAGE_SIZE); }}
+                placeholder="Buscar por nº de factura, contacto o motivo..."
+                className="w-full pl-9 pr-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+            </div>
+            <select
+              value={filterCollection}
+              onChange={(e) => { setFilterCollection(e.target.value as 'ALL' | ChangeLogCollection); setVisibleCount(PAGE_SIZE); }}
+              className="px-3 py-2 border border-slate-300 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            >
+              <option value="ALL">Facturas y contactos</option>
+              <option value="invoices">Solo facturas</option>
+              <option value="entities">Solo contactos</option>
+            </select>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        {shownEntries.length === 0 ? (
+          <div className="p-8 text-center text-slate-400 text-sm">No hay cambios registrados.</div>
+        ) : (
+          <ul className="divide-y divide-slate-100">
+            {shownEntries.map(entry => {
+              const isExpanded = expandedId === entry.id;
+              return (
+                <li key={entry.id}>
+                  <div className="flex flex-wrap items-center gap-3 px-4 py-3 hover:bg-slate-50">
+                    <button onClick={() => setExpandedId(isExpanded ? null : entry.id!)} className="text-slate-400 hover:text-slate-600">
+                      {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                    </button>
+                    <span className="text-xs font-mono text-slate-500 w-36">{new Date(entry.timestamp).toLocaleString('es-ES')}</span>
+                    <span className={`text-xs font-semibold px-2 py-0.5 rounded ${ACTION_STYLES[entry.action]}`}>{CHANGE_LOG_ACTIONS[entry.action]}</span>
+                    <button
+                      onClick={() => setSelectedRecord({ collection: entry.collection, recordKey: entry.recordKey, label: entry.label })}
+                      className="text-sm font-semibold text-slate-800 hover:text-indigo-600"
+                      title="Ver el historial de este registro"
+                    >
+                      {CHANGE_LOG_COLLECTIONS[entry.collection]} {entry.label}
+                    </button>
+                    <span className="text-xs text-slate-500">
+                      {entry.action === 'UPDATE' ? entry.changes.map(change => FIELD_LABELS[change.field] || change.field).join(', ') : ''}
+                    </span>
+                    {entry.reason && <span className="text-xs italic text-slate-600">— {entry.reason}</span>}
+                    <button
+                      onClick={() => handleRestore(entry)}
+                      className="ml-auto text-xs font-semibold text-indigo-600 hover:text-indigo-800 flex items-center gap-1"
+                      title={entry.action === 'DELETE' ? 'Recuperar el registro eliminado' : 'Volver a esta versión'}
+                    >
+                      <RotateCcw className="h-3 w-3" /> {entry.action === 'DELETE' ? 'Recuperar' : 'Restaurar esta versión'}
+                    </button>
+                  </div>
+                  {isExpanded && (
+                    <div className="px-12 pb-4">
+                      <table className="w-full text-sm border border-slate-100 rounded">
+                        <thead className="bg-slate-50 text-xs text-slate-500 uppercase">
+                          <tr>
+                            <th className="text-left p-2">Campo</th>
+                            <th className="text-left p-2">Antes</th>
+                            <th className="text-left p-2">Después</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-100">
+                          {entry.changes.map(change => (
+                            <tr key={change.field}>
+                              <td className="p-2 text-slate-600">{FIELD_LABELS[change.field] || change.field}</td>
+                              <td className="p-2 font-mono text-xs text-red-700 break-all">{formatChangeValue(change.before)}</td>
+                              <td className="p-2 font-mono text-xs text-emerald-700 break-all">{formatChangeValue(change.after)}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+        {!selectedRecord && filteredEntries.length > visibleCount && (
+          <div className="p-4 border-t border-slate-100 text-center">
+            <Button variant="secondary" onClick={() => setVisibleCount(count => count + PAGE_SIZE)}>
+              Mostrar más ({filteredEntries.length - visibleCount} restantes)
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,9 +1,14 @@
 
-import React, { useState, useEffect, useMemo, useRef } from 'react';
-import { SavedEntity } from '../types';
-import { Search, Plus, Trash2, Edit, X, User, Briefcase, MapPin, Building, Phone, Mail, FileText, AlertCircle, Upload, FileSpreadsheet, Hash, ArrowUp, ArrowDown, ArrowUpDown, AlertTriangle } from 'lucide-react';
+import React, { useState, useMemo, useRef } from 'react';
+import { Dir3Codes, SavedEntity } from '../types';
+import { Search, Plus, Trash2, Edit, X, User, Briefcase, MapPin, Building, Phone, Mail, FileText, AlertCircle, Upload, FileSpreadsheet, Hash, ArrowUp, ArrowDown, ArrowUpDown, AlertTriangle, Landmark } from 'lucide-react';
 import { Button } from './Button';
 import { parseContactsFile } from '../services/importService';
+import { deleteEntity, importEntities, saveEntity } from '../services/entityStore';
+import { useEntities } from '../hooks/useEntities';
+import { reportStorageError } from '../hooks/useStoredState';
+import { validateDir3Code } from '../services/validationService';
+import { DEFAULT_PAYMENT_TERM_DAYS } from '../services/paymentService';
 
 // Validation Helper for Spanish IDs
 const validateSpanishID = (value: string): string | null => {
@@ -48,13 +53,7 @@ const validateSpanishID = (value: string): string | null => {
 };
 
 export const ContactsManager: React.FC = () => {
-  const [contacts, setContacts] = useState<SavedEntity[]>(() => {
-    try {
-      return JSON.parse(localStorage.getItem('savedEntities') || '[]');
-    } catch {
-      return [];
-    }
-  });
+  const contacts = useEntities();
 
   const [searchTerm, setSearchTerm] = useState('');
   const [filterType, setFilterType] = useState<'ALL' | 'CLIENT' | 'PROVIDER'>('ALL');
@@ -64,7 +63,7 @@ export const ContactsManager: React.FC = () => {
 
   // Modal State
   const [isModalOpen, setIsModalOpen] = useState(false);
-  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [editingNif, setEditingNif] = useState<string | null>(null); // NIF original del contacto en edición
   // Warning state instead of blocking error
   const [nifWarning, setNifWarning] = useState<string | null>(null);
   
@@ -84,10 +83,6 @@ export const ContactsManager: React.FC = () => {
   const [isImportModalOpen, setIsImportModalOpen] = useState(false);
   const importFileInputRef = useRef<HTMLInputElement>(null);
 
-  useEffect(() => {
-    localStorage.setItem('savedEntities', JSON.stringify(contacts));
-  }, [contacts]);
-
   const requestSort = (key: keyof SavedEntity) => {
     let direction: 'asc' | 'desc' = 'asc';
     if (sortConfig.key === key && sortConfig.direction === 'asc') {
@@ -174,26 +169,26 @@ export const ContactsManager: React.FC = () => {
       if (nifWarning) setNifWarning(null);
   };
 
+  // Códigos DIR3 (clientes del sector público): se guardan solo si se rellena alguno
+  const handleDir3Change = (key: keyof Dir3Codes, value: string) => {
+      const dir3: Dir3Codes = {
+          accountingOffice: '',
+          managementBody: '',
+          processingUnit: '',
+          ...formData.dir3,
+          [key]: value.toUpperCase().trim()
+      };
+      const isEmpty = !dir3.accountingOffice && !dir3.managementBody && !dir3.processingUnit;
+      setFormData({ ...formData, dir3: isEmpty ? undefined : dir3 });
+  };
+
   const handleNifBlur = () => {
       const error = validateSpanishID(formData.nif);
       // Instead of blocking error, we set a warning but allow saving
       setNifWarning(error); 
   };
 
-  const generateInternalId = (type: 'CLIENT' | 'PROVIDER') => {
-      const prefix = type === 'CLIENT' ? 'C' : 'P';
-      const relevant = contacts.filter(c => c.type === type && c.internalId?.startsWith(prefix));
-      
-      const maxId = relevant.reduce((max, c) => {
-          if (!c.internalId) return max;
-          const numPart = parseInt(c.internalId.split('-')[1]);
-          return isNaN(numPart) ? max : Math.max(max, numPart);
-      }, 0);
-      
-      return `${prefix}-${maxId + 1}`;
-  };
-
-  const handleSave = (e: React.FormEvent) => {
+  const handleSave = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!formData.name || !formData.nif) return;
 
@@ -205,42 +200,50 @@ export const ContactsManager: React.FC = () => {
         // Continue execution (allow save) even if there is a warning
     }
 
-    if (editingIndex !== null) {
-      // Update Mode with Confirmation
-      if (window.confirm(`¿Estás seguro de que deseas modificar los datos de "${formData.name}"?`)) {
-        const updated = [...contacts];
-        // Ensure internal ID is kept or generated if missing (e.g. if type changed)
-        const finalData = { ...formData };
-        if (!finalData.internalId) {
-            finalData.internalId = generateInternalId(finalData.type);
-        }
-        updated[editingIndex] = finalData;
-        setContacts(updated);
-      } else {
+    // Unlike the NIF, an incomplete DIR3 triple blocks the save: FACe rejects the invoice
+    const dir3 = formData.type === 'CLIENT' ? formData.dir3 : undefined;
+    if (dir3) {
+      const dir3Errors = [dir3.accountingOffice, dir3.managementBody, dir3.processingUnit]
+        .map(code => validateDir3Code(code))
+        .filter((message): message is string => message !== null);
+      if (dir3Errors.length > 0) {
+        alert(`Revisa los códigos DIR3:\n- ${dir3Errors.join('\n- ')}`);
+        return;
+      }
+    }
+
+    let reason: string | undefined;
+    if (editingNif !== null) {
+      // Update Mode with Confirmation (the reason is kept in the change log)
+      const answer = window.prompt(`¿Estás seguro de que deseas modificar los datos de "${formData.name}"?\n\nMotivo del cambio (opcional):`, '');
+      if (answer === null) {
         return; // User cancelled
       }
+      reason = answer;
     } else {
       // Create Mode
       // Check for duplicates
       if (contacts.some(c => c.nif === formData.nif)) {
-        if (!window.confirm("Ya existe un contacto con este NIF. ¿Quieres guardarlo de todas formas?")) {
+        // The NIF identifies the contact in the store: saving replaces the existing record
+        if (!window.confirm("Ya existe un contacto con este NIF. ¿Quieres sustituir sus datos por los nuevos?")) {
             return;
         }
       }
-      
-      const newContact = { ...formData };
-      if (!newContact.internalId) {
-          newContact.internalId = generateInternalId(newContact.type);
-      }
-      
-      setContacts([...contacts, newContact]);
     }
-    closeModal();
+
+    try {
+      // The store keeps the internal ID or assigns the next C-X / P-X (e.g. if the type changed)
+      await saveEntity({ ...formData, dir3 }, editingNif ?? undefined, reason);
+      closeModal();
+    } catch (err) {
+      reportStorageError(err);
+    }
   };
 
   const handleDelete = (nif: string) => {
-    if (window.confirm('¿Estás seguro de que deseas eliminar este contacto de la base de datos?')) {
-      setContacts(contacts.filter(c => c.nif !== nif));
+    const reason = window.prompt('¿Estás seguro de que deseas eliminar este contacto de la base de datos?\n\nMotivo (opcional):', '');
+    if (reason !== null) {
+      deleteEntity(nif, reason).catch(reportStorageError);
     }
   };
 
@@ -258,33 +261,12 @@ export const ContactsManager: React.FC = () => {
 
         const newCount = newContacts.length;
         if (window.confirm(`Se han encontrado ${newCount} contactos. ¿Deseas importarlos a la agenda?`)) {
-            setContacts(prev => {
-               // Assign Internal IDs to imported contacts that might lack them
-               
-               const existingNifs = new Set(prev.map(c => c.nif));
-               const uniqueNew = newContacts.filter(c => !existingNifs.has(c.nif));
-               const duplicates = newCount - uniqueNew.length;
-               
-               // Assign IDs to new ones
-               let clientCounter = prev.filter(c => c.type === 'CLIENT' && c.internalId?.startsWith('C-')).length;
-               let providerCounter = prev.filter(c => c.type === 'PROVIDER' && c.internalId?.startsWith('P-')).length;
-               
-               const finalizedNew = uniqueNew.map(c => {
-                   if (c.type === 'CLIENT') {
-                       clientCounter++;
-                       return { ...c, internalId: `C-${clientCounter}` };
-                   } else {
-                       providerCounter++;
-                       return { ...c, internalId: `P-${providerCounter}` };
-                   }
-               });
-
-               if (duplicates > 0) {
-                   alert(`Se han omitido ${duplicates} contactos que ya existían (por NIF).`);
-               }
-               
-               return [...prev, ...finalizedNew];
-            });
+            // Existing NIFs are skipped; the store assigns the internal IDs of the new ones
+            const { skipped } = await importEntities(newContacts);
+
+            if (skipped > 0) {
+                alert(`Se han omitido ${skipped} contactos que ya existían (por NIF).`);
+            }
             setIsImportModalOpen(false);
         }
 
@@ -296,11 +278,11 @@ export const ContactsManager: React.FC = () => {
     }
   };
 
-  const openModal = (contact?: SavedEntity, index?: number) => {
+  const openModal = (contact?: SavedEntity) => {
     setNifWarning(null);
-    if (contact && index !== undefined) {
+    if (contact) {
       setFormData(contact);
-      setEditingIndex(index);
+      setEditingNif(contact.nif);
       // Run validation on open to show warning if editing an existing non-standard NIF
       const error = validateSpanishID(contact.nif);
       if (error) setNifWarning(error);
@@ -316,14 +298,14 @@ export const ContactsManager: React.FC = () => {
         contactPerson: '',
         notes: ''
       });
-      setEditingIndex(null);
+      setEditingNif(null);
     }
     setIsModalOpen(true);
   };
 
   const closeModal = () => {
     setIsModalOpen(false);
-    setEditingIndex(null);
+    setEditingNif(null);
     setNifWarning(null);
   };
 
@@ -456,7 +438,7 @@ export const ContactsManager: React.FC = () => {
                             <td className="p-4 text-right">
                                 <div className="flex items-center justify-end gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
                                     <button 
-                                        onClick={() => openModal(contact, contacts.indexOf(contact))} // Find real index in full array
+                                        onClick={() => openModal(contact)}
                                         className="p-1 hover:bg-indigo-50 text-indigo-600 rounded"
                                         title="Editar"
                                     >
@@ -533,7 +515,7 @@ export const ContactsManager: React.FC = () => {
             <div className="bg-white rounded-xl shadow-2xl max-w-lg w-full overflow-hidden">
                 <div className="p-6 border-b border-slate-100 flex justify-between items-center">
                     <h3 className="text-lg font-bold text-slate-800">
-                        {editingIndex !== null ? 'Editar Contacto' : 'Nuevo Contacto'}
+                        {editingNif !== null ? 'Editar Contacto' : 'Nuevo Contacto'}
                     </h3>
                     <button onClick={closeModal} className="text-slate-400 hover:text-slate-600"><X className="h-5 w-5"/></button>
                 </div>
@@ -654,6 +636,19 @@ export const ContactsManager: React.FC = () => {
                                 />
                             </div>
                          </div>
+                         <div className="col-span-2">
+                            <label className="block text-sm font-medium text-slate-700 mb-1">Plazo de pago (días)</label>
+                            <input
+                                type="number"
+                                min="0"
+                                name="paymentTermDays"
+                                value={formData.paymentTermDays ?? ''}
+                                onChange={(e) => setFormData({ ...formData, paymentTermDays: e.target.value === '' ? undefined : Math.max(0, parseInt(e.target.value) || 0) })}
+                                className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-indigo-500 focus:border-indigo-500"
+                                placeholder={`${DEFAULT_PAYMENT_TERM_DAYS} (plazo legal por defecto)`}
+                            />
+                            <p className="text-xs text-slate-500 mt-1">Fija el vencimiento de sus facturas: fecha de factura + este plazo.</p>
+                         </div>
                          <div className="col-span-2">
                             <label className="block text-sm font-medium text-slate-700 mb-1">Domicilio Fiscal</label>
                             <div className="relative">
@@ -668,6 +663,33 @@ export const ContactsManager: React.FC = () => {
                                 />
                             </div>
                          </div>
+                         {formData.type === 'CLIENT' && (
+                           <div className="col-span-2 border border-slate-200 rounded-lg p-3 bg-slate-50">
+                              <label className="flex items-center gap-2 text-sm font-medium text-slate-700 mb-1">
+                                  <Landmark className="h-4 w-4 text-slate-400" /> Códigos DIR3 (Administración Pública)
+                              </label>
+                              <p className="text-xs text-slate-500 mb-2">Obligatorios para presentar facturas electrónicas en FACe. Déjalos vacíos si el cliente no es un organismo público.</p>
+                              <div className="grid grid-cols-3 gap-2">
+                                  {([
+                                      ['accountingOffice', 'Oficina contable'],
+                                      ['managementBody', 'Órgano gestor'],
+                                      ['processingUnit', 'Unidad tramitadora']
+                                  ] as Array<[keyof Dir3Codes, string]>).map(([key, label]) => (
+                                      <div key={key}>
+                                          <label className="block text-xs text-slate-600 mb-1">{label}</label>
+                                          <input
+                                              type="text"
+                                              value={formData.dir3?.[key] || ''}
+                                              onChange={(e) => handleDir3Change(key, e.target.value)}
+                                              maxLength={9}
+                                              className="w-full px-2 py-1.5 border border-slate-300 rounded-lg font-mono text-sm uppercase focus:ring-indigo-500 focus:border-indigo-500"
+                                              placeholder="L01280796"
+                                          />
+                                      </div>
+                                  ))}
+                              </div>
+                           </div>
+                         )}
                          <div className="col-span-2">
                             <label className="block text-sm font-medium text-slate-700 mb-1">Notas Internas</label>
                             <div className="relative">
@@ -688,7 +710,7 @@ export const ContactsManager: React.FC = () => {
                     <div className="flex gap-3 pt-4 border-t border-slate-100">
                         <Button type="button" variant="secondary" onClick={closeModal} className="flex-1">Cancelar</Button>
                         <Button type="submit" className="flex-1">
-                            {editingIndex !== null ? 'Actualizar Contacto' : 'Guardar Contacto'}
+                            {editingNif !== null ? 'Actualizar Contacto' : 'Guardar Contacto'}
                         </Button>
                     </div>
                 </form>
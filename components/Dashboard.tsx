@@ -1,7 +1,9 @@
 import React from 'react';
 import { Invoice, InvoiceType } from '../types';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell, Legend } from 'recharts';
-import { Wallet, TrendingUp, TrendingDown, AlertCircle } from 'lucide-react';
+import { Wallet, TrendingUp, TrendingDown, AlertCircle, Clock } from 'lucide-react';
+import { computeModel303, expandRectifications, getCurrentPeriod, getPeriodLabel } from '../services/taxService';
+import { AgingReport, getAgingReport } from '../services/paymentService';
 
 interface DashboardProps {
   invoices: Invoice[];
@@ -10,16 +12,17 @@ interface DashboardProps {
 export const Dashboard: React.FC<DashboardProps> = ({ invoices }) => {
   const currentYear = new Date().getFullYear();
   
-  const incomeInvoices = invoices.filter(inv => inv.type === InvoiceType.INCOME);
+  // Substitutive rectificativas replace the original amounts instead of adding to them
+  const incomeInvoices = expandRectifications(invoices).filter(inv => inv.type === InvoiceType.INCOME);
   const expenseInvoices = invoices.filter(inv => inv.type === InvoiceType.EXPENSE);
 
   const totalIncome = incomeInvoices.reduce((sum, inv) => sum + inv.baseAmount, 0);
   const totalExpenses = expenseInvoices.filter(i => i.deductible).reduce((sum, inv) => sum + inv.baseAmount, 0);
   const netProfit = totalIncome - totalExpenses;
   
-  const totalIVACollected = incomeInvoices.reduce((sum, inv) => sum + inv.ivaAmount, 0);
-  const totalIVAPaid = expenseInvoices.filter(i => i.deductible).reduce((sum, inv) => sum + inv.ivaAmount, 0);
-  const estimatedIVA = totalIVACollected - totalIVAPaid;
+  // Estimated 303 of the running quarter (same engine as Modelos Fiscales)
+  const currentPeriod = getCurrentPeriod();
+  const estimatedIVA = computeModel303(invoices, currentPeriod).result;
 
   // Prepare data for bar charts (Monthly)
   const monthlyData = Array.from({ length: 12 }, (_, i) => {
@@ -52,6 +55,35 @@ export const Dashboard: React.FC<DashboardProps> = ({ invoices }) => {
   ];
   const COLORS = ['#4f46e5', '#ef4444'];
 
+  // Antigüedad de saldos: pending collections and payments by days past their due date
+  const receivables = getAgingReport(invoices, InvoiceType.INCOME);
+  const payables = getAgingReport(invoices, InvoiceType.EXPENSE);
+
+  const renderAging = (title: string, report: AgingReport) => (
+    <div>
+      <div className="flex justify-between items-baseline mb-3">
+        <h4 className="text-sm font-semibold text-slate-600">{title}</h4>
+        <span className="text-sm font-bold text-slate-800">{report.total.toFixed(2)} €</span>
+      </div>
+      <table className="w-full text-sm">
+        <tbody className="divide-y divide-slate-100">
+          <tr>
+            <td className="py-2 text-slate-500">No vencido</td>
+            <td className="py-2 text-right text-xs text-slate-400">{report.notDue.count} fact.</td>
+            <td className="py-2 text-right font-mono w-32">{report.notDue.amount.toFixed(2)} €</td>
+          </tr>
+          {report.buckets.map(bucket => (
+            <tr key={bucket.label}>
+              <td className="py-2 text-slate-500">Vencido {bucket.label}</td>
+              <td className="py-2 text-right text-xs text-slate-400">{bucket.count} fact.</td>
+              <td className={`py-2 text-right font-mono w-32 ${bucket.amount !== 0 ? 'text-red-600 font-semibold' : ''}`}>{bucket.amount.toFixed(2)} €</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+
   return (
     <div className="space-y-6">
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
@@ -104,7 +136,21 @@ export const Dashboard: React.FC<DashboardProps> = ({ invoices }) => {
               <AlertCircle className="h-6 w-6 text-orange-600" />
             </div>
           </div>
-          <div className="mt-2 text-xs text-slate-400">Modelo 303 (Trimestral)</div>
+          <div className="mt-2 text-xs text-slate-400">Modelo 303 ({getPeriodLabel(currentPeriod)})</div>
+        </div>
+      </div>
+
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+        <div className="flex items-center gap-2 mb-6">
+          <Clock className="h-5 w-5 text-slate-500" />
+          <h3 className="text-lg font-semibold text-slate-800">Antigüedad de Saldos</h3>
+          {receivables.overdue > 0 && (
+            <span className="ml-auto text-xs font-semibold text-red-600 bg-red-50 px-2 py-1 rounded">{receivables.overdue.toFixed(2)} € de cobros vencidos</span>
+          )}
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+          {renderAging('Pendiente de cobro (clientes)', receivables)}
+          {renderAging('Pendiente de pago (proveedores)', payables)}
         </div>
       </div>
 
@@ -1,12 +1,17 @@
 
-import React, { useMemo, useState } from 'react';
-import { Invoice, InvoiceType, ProfessionalProfile } from '../types';
-import { Lock, FileText, AlertTriangle, CheckCircle, Calendar, ArrowRight } from 'lucide-react';
+import React, { useEffect, useMemo, useState } from 'react';
+import { Invoice, InvoiceType, InvestmentAsset, PeriodLock, PeriodLockEvent } from '../types';
+import { Lock, Unlock, FileText, AlertTriangle, CheckCircle, Calendar, ArrowRight } from 'lucide-react';
 import { Button } from './Button';
 import { generateFiscalYearReport } from '../services/pdfGenerator';
+import { computeModel303, computeNetYield, getPeriodLabel } from '../services/taxService';
+import { getProfessionalProfile, getSetting } from '../services/storageService';
+import { lockPeriod, reopenPeriod } from '../services/periodLockService';
+import { reportStorageError } from '../hooks/useStoredState';
 
 interface FiscalYearCloserProps {
     invoices: Invoice[];
+    assets?: InvestmentAsset[];
 }
 
 // Helper for European Currency Format
@@ -17,7 +22,7 @@ const formatCurrency = (amount: number) => {
     }).format(amount);
 };
 
-export const FiscalYearCloser: React.FC<FiscalYearCloserProps> = ({ invoices }) => {
+export const FiscalYearCloser: React.FC<FiscalYearCloserProps> = ({ invoices, assets = [] }) => {
     const [selectedYear, setSelectedYear] = useState<number>(new Date().getFullYear());
     
     // Get available years from invoices
@@ -30,20 +35,59 @@ export const FiscalYearCloser: React.FC<FiscalYearCloserProps> = ({ invoices })
     const stats = useMemo(() => {
         const yearInvoices = invoices.filter(inv => new Date(inv.date).getFullYear() === selectedYear);
         const incomes = yearInvoices.filter(i => i.type === InvoiceType.INCOME);
-        const expenses = yearInvoices.filter(i => i.type === InvoiceType.EXPENSE && i.deductible);
+        // Gastos deducibles con los bienes de inversión sustituidos por su amortización
+        const netYield = computeNetYield(invoices, `${selectedYear}-01-01`, `${selectedYear}-12-31`, assets);
 
         return {
             count: yearInvoices.length,
-            incomeTotal: incomes.reduce((sum, i) => sum + i.baseAmount, 0),
-            expenseTotal: expenses.reduce((sum, i) => sum + i.baseAmount, 0),
-            vatResult: incomes.reduce((sum, i) => sum + i.ivaAmount, 0) - expenses.reduce((sum, i) => sum + i.ivaAmount, 0),
+            incomeTotal: netYield.income,
+            expenseTotal: netYield.expenses,
+            vatResult: computeModel303(invoices, { year: selectedYear }).result,
             irpfSuffered: incomes.reduce((sum, i) => sum + i.irpfAmount, 0)
         };
-    }, [invoices, selectedYear]);
+    }, [invoices, selectedYear, assets]);
 
-    const handleCloseYear = () => {
-        const savedProfile = localStorage.getItem('professionalProfile');
-        const profile: ProfessionalProfile = savedProfile ? JSON.parse(savedProfile) : { name: '' } as any;
+    // Periodos cerrados y su historial
+    const [periodLocks, setPeriodLocks] = useState<PeriodLock[]>([]);
+    const [periodLockLog, setPeriodLockLog] = useState<PeriodLockEvent[]>([]);
+
+    const loadPeriodLocks = () =>
+        Promise.all([getSetting('periodLocks'), getSetting('periodLockLog')])
+            .then(([locks, log]) => {
+                setPeriodLocks(locks || []);
+                setPeriodLockLog(log || []);
+            })
+            .catch(reportStorageError);
+
+    useEffect(() => {
+        loadPeriodLocks();
+    }, []);
+
+    const isLocked = (quarter?: PeriodLock['quarter']) =>
+        periodLocks.some(lock => lock.year === selectedYear && lock.quarter === quarter);
+
+    const handleTogglePeriod = async (quarter?: PeriodLock['quarter']) => {
+        const label = getPeriodLabel({ year: selectedYear, quarter });
+        try {
+            if (isLocked(quarter)) {
+                const reason = window.prompt(`Vas a reabrir ${label}. Las facturas del periodo podrán volver a modificarse.\n\nIndica el motivo (p. ej. declaración complementaria):`);
+                if (reason === null) return;
+                await reopenPeriod({ year: selectedYear, quarter }, reason);
+            } else {
+                if (!window.confirm(`¿Cerrar ${label}?\n\nNo se podrán crear, modificar, eliminar ni importar facturas con fecha en este periodo hasta que se reabra.`)) return;
+                await lockPeriod(selectedYear, quarter);
+            }
+            await loadPeriodLocks();
+        } catch (e: any) {
+            console.error(e);
+            alert(e.message);
+        }
+    };
+
+    const yearLockLog = periodLockLog.filter(event => event.year === selectedYear).reverse();
+
+    const handleCloseYear = async () => {
+        const profile = await getProfessionalProfile();
 
         if (!profile.name) {
             alert("Por favor, configura primero tus 'Datos del Profesional' para generar el informe.");
@@ -51,7 +95,16 @@ export const FiscalYearCloser: React.FC<FiscalYearCloserProps> = ({ invoices })
         }
 
         if (window.confirm(`¿Deseas generar el Informe de Cierre del año ${selectedYear}?\n\nEsto generará un PDF con todos los totales fiscales.`)) {
-            generateFiscalYearReport(selectedYear, invoices, profile);
+            generateFiscalYearReport(selectedYear, invoices, profile, assets);
+            if (!isLocked() && window.confirm(`¿Deseas bloquear también el ejercicio ${selectedYear} para que sus facturas no se puedan modificar?`)) {
+                try {
+                    await lockPeriod(selectedYear);
+                    await loadPeriodLocks();
+                } catch (e: any) {
+                    console.error(e);
+                    alert(e.message);
+                }
+            }
         }
     };
 
@@ -138,6 +191,50 @@ export const FiscalYearCloser: React.FC<FiscalYearCloserProps> = ({ invoices })
                     </div>
                 </div>
              </div>
+
+             <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 space-y-4">
+                <div>
+                    <h3 className="font-bold text-slate-800 flex items-center gap-2">
+                        <Lock className="h-5 w-5 text-slate-600" /> Bloqueo de periodos {selectedYear}
+                    </h3>
+                    <p className="text-sm text-slate-500">
+                        Cierra cada trimestre al presentar el 303 y el 130, y el ejercicio al presentar los resúmenes anuales.
+                        Las facturas de un periodo cerrado no se pueden modificar sin reabrirlo indicando el motivo.
+                    </p>
+                </div>
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                    {([1, 2, 3, 4, undefined] as Array<PeriodLock['quarter']>).map(quarter => {
+                        const locked = isLocked(quarter);
+                        return (
+                            <button
+                                key={quarter ?? 'year'}
+                                onClick={() => handleTogglePeriod(quarter)}
+                                className={`flex flex-col items-center gap-1 p-3 rounded-lg border-2 transition-colors ${locked ? 'border-slate-700 bg-slate-700 text-white hover:bg-slate-600' : 'border-slate-200 text-slate-600 hover:border-indigo-400'}`}
+                            >
+                                {locked ? <Lock className="h-5 w-5" /> : <Unlock className="h-5 w-5" />}
+                                <span className="text-sm font-semibold">{quarter ? `${quarter}T` : 'Ejercicio'}</span>
+                                <span className="text-[10px] uppercase tracking-wide">{locked ? 'Cerrado · Reabrir' : 'Abierto · Cerrar'}</span>
+                            </button>
+                        );
+                    })}
+                </div>
+                {yearLockLog.length > 0 && (
+                    <div>
+                        <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">Historial</h4>
+                        <ul className="text-sm divide-y divide-slate-100 border border-slate-100 rounded-lg">
+                            {yearLockLog.map(event => (
+                                <li key={`${event.date}-${event.action}-${event.quarter ?? 'year'}`} className="px-3 py-2 flex flex-wrap gap-x-3">
+                                    <span className="text-slate-500 font-mono text-xs pt-0.5">{new Date(event.date).toLocaleString('es-ES')}</span>
+                                    <span className={`font-medium ${event.action === 'LOCK' ? 'text-slate-800' : 'text-amber-700'}`}>
+                                        {event.action === 'LOCK' ? 'Cerrado' : 'Reabierto'} {getPeriodLabel(event)}
+                                    </span>
+                                    {event.reason && <span className="text-slate-600 italic">— {event.reason}</span>}
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                )}
+             </div>
         </div>
     );
 };
@@ -0,0 +1,357 @@
+import React, { useMemo, useState } from 'react';
+import { FundProvision, Invoice, InvoiceType, PaymentMethod } from '../types';
+import { PiggyBank, Plus, Search, FileText, Edit, Trash2, X } from 'lucide-react';
+import { Button } from './Button';
+import { fundProvisionRepository, getProfessionalProfile, matterRepository } from '../services/storageService';
+import { getAppliedAmount, getClientStatement, getNextProvisionNumber, getProvisionBalance, isProvisionApplied } from '../services/provisionService';
+import { PAYMENT_METHODS } from '../services/paymentService';
+import { getMatterLabel, getSelectableMatters } from '../services/matterService';
+import { generateProvisionReceiptPDF } from '../services/pdfGenerator';
+import { normalizeNif, validateSpanishNif } from '../services/validationService';
+import { useEntities } from '../hooks/useEntities';
+import { reportStorageError, useStoredCollection } from '../hooks/useStoredState';
+
+interface FundProvisionsProps {
+  invoices: Invoice[];
+}
+
+const formatCurrency = (val: number) =>
+  new Intl.NumberFormat('es-ES', { style: 'currency', currency: 'EUR' }).format(val);
+
+const formatDate = (date: string) => date.split('-').reverse().join('/');
+
+const inputClass = "w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+const emptyProvision = (): Omit<FundProvision, 'id' | 'number'> => ({
+  date: new Date().toISOString().split('T')[0],
+  nif: '',
+  clientName: '',
+  matter: '',
+  concept: 'Provisión de fondos',
+  amount: 0,
+  method: 'TRANSFER'
+});
+
+export const FundProvisions: React.FC<FundProvisionsProps> = ({ invoices }) => {
+  const [provisions, setProvisions] = useStoredCollection(fundProvisionRepository);
+  const [matters] = useStoredCollection(matterRepository);
+  const entities = useEntities();
+  const clients = entities.filter(e => e.type === 'CLIENT');
+
+  const [searchTerm, setSearchTerm] = useState('');
+  const [statementNif, setStatementNif] = useState('');
+  const [editing, setEditing] = useState<FundProvision | null>(null);
+  const [formData, setFormData] = useState(emptyProvision());
+  const [isFormOpen, setIsFormOpen] = useState(false);
+
+  const filteredProvisions = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+    return provisions
+      .filter(p => !term || [p.number, p.clientName, p.nif, p.matter || '', p.concept].some(value => value.toLowerCase().includes(term)))
+      .sort((a, b) => b.date.localeCompare(a.date) || b.number.localeCompare(a.number));
+  }, [provisions, searchTerm]);
+
+  const statement = useMemo(
+    () => statementNif ? getClientStatement(statementNif, provisions, invoices) : null,
+    [statementNif, provisions, invoices]
+  );
+
+  // Saved clients plus anyone with provisions, for the statement selector
+  const statementClients = useMemo(() => {
+    const byNif = new Map<string, string>();
+    clients.forEach(c => byNif.set(normalizeNif(c.nif), c.name));
+    provisions.forEach(p => { if (!byNif.has(normalizeNif(p.nif))) byNif.set(normalizeNif(p.nif), p.clientName); });
+    return Array.from(byNif.entries()).sort((a, b) => a[1].localeCompare(b[1]));
+  }, [clients, provisions]);
+
+  const openForm = (provision?: FundProvision) => {
+    setEditing(provision || null);
+    setFormData(provision ? { ...provision, matter: provision.matter || '' } : emptyProvision());
+    setIsFormOpen(true);
+  };
+
+  const handleClientName = (name: string) => {
+    const client = clients.find(c => c.name === name);
+    setFormData(prev => ({ ...prev, clientName: name, nif: client ? client.nif : prev.nif }));
+  };
+
+  const formMatters = getSelectableMatters(matters, InvoiceType.INCOME, formData.nif, formData.matterId);
+
+  // The matter's label is kept as the receipt's text
+  const handleMatter = (matterId: string) => {
+    const matter = matters.find(m => m.id === matterId);
+    setFormData(prev => ({ ...prev, matterId: matter?.id, matter: matter ? getMatterLabel(matter) : prev.matter }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const nifError = validateSpanishNif(formData.nif);
+    if (nifError) {
+      alert(`NIF del cliente: ${nifError}`);
+      return;
+    }
+    if (!(formData.amount > 0)) {
+      alert('El importe de la provisión debe ser positivo.');
+      return;
+    }
+    const matter = matters.find(m => m.id === formData.matterId);
+    if (matter && normalizeNif(matter.nif) !== normalizeNif(formData.nif)) {
+      alert(`El expediente ${matter.reference} es de ${matter.clientName}, no del cliente de la provisión.`);
+      return;
+    }
+    if (editing) {
+      const applied = getAppliedAmount(editing, invoices);
+      if (formData.amount < applied) {
+        alert(`Ya se han descontado ${formatCurrency(applied)} de esta provisión en minutas: el importe no puede ser menor.`);
+        return;
+      }
+      if (applied > 0 && normalizeNif(formData.nif) !== normalizeNif(editing.nif)) {
+        alert('La provisión ya está aplicada en minutas de este cliente: no se puede cambiar de cliente.');
+        return;
+      }
+    }
+
+    const provision: FundProvision = {
+      ...formData,
+      id: editing?.id || crypto.randomUUID(),
+      number: editing?.number || getNextProvisionNumber(provisions, formData.date),
+      nif: normalizeNif(formData.nif),
+      clientName: formData.clientName.trim(),
+      matter: formData.matter?.trim() || undefined,
+      concept: formData.concept.trim()
+    };
+    setProvisions(prev => editing ? prev.map(p => p.id === editing.id ? provision : p) : [...prev, provision]);
+    setIsFormOpen(false);
+  };
+
+  const handleDelete = (provision: FundProvision) => {
+    if (isProvisionApplied(provision, invoices)) {
+      alert(`La provisión ${provision.number} está descontada en una minuta. Quítala de la factura antes de eliminarla.`);
+      return;
+    }
+    if (!window.confirm(`¿Eliminar la provisión ${provision.number} de ${provision.clientName}?`)) return;
+    setProvisions(prev => prev.filter(p => p.id !== provision.id));
+  };
+
+  const downloadReceipt = async (provision: FundProvision) => {
+    try {
+      const profile = await getProfessionalProfile();
+      if (!profile.name && !window.confirm("No has configurado tus 'Datos del Profesional'. El recibo saldrá incompleto. ¿Deseas continuar?")) return;
+      generateProvisionReceiptPDF(provision, profile);
+    } catch (e) {
+      reportStorageError(e);
+    }
+  };
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500">
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <div className="p-3 bg-slate-100 rounded-lg">
+            <PiggyBank className="h-6 w-6 text-slate-700" />
+          </div>
+          <div>
+            <h2 className="text-xl font-bold text-slate-800">Provisiones de Fondos</h2>
+            <p className="text-sm text-slate-500">Cantidades recibidas a cuenta por cliente y asunto, con su recibo, para descontarlas en la minuta final.</p>
+          </div>
+        </div>
+        <Button onClick={() => openForm()}>
+          <Plus className="h-4 w-4" /> Nueva provisión
+        </Button>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="p-4 border-b border-slate-100">
+          <div className="relative max-w-md">
+            <Search className="absolute left-3 top-2.5 h-4 w-4 text-slate-400" />
+            <input
+              type="text"
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              placeholder="Buscar por recibo, cliente o asunto..."
+              className="w-full pl-9 pr-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+          </div>
+        </div>
+        {filteredProvisions.length === 0 ? (
+          <div className="p-8 text-center text-slate-400 text-sm">No hay provisiones de fondos registradas.</div>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="bg-slate-50 text-xs text-slate-500 uppercase">
+              <tr>
+                <th className="text-left p-3">Recibo</th>
+                <th className="text-left p-3">Fecha</th>
+                <th className="text-left p-3">Cliente</th>
+                <th className="text-left p-3">Asunto</th>
+                <th className="text-right p-3">Importe</th>
+                <th className="text-right p-3">Aplicado</th>
+                <th className="text-right p-3">Pendiente</th>
+                <th className="p-3"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {filteredProvisions.map(p => {
+                const balance = getProvisionBalance(p, invoices);
+                return (
+                  <tr key={p.id} className="hover:bg-slate-50 group">
+                    <td className="p-3 font-medium text-indigo-600 whitespace-nowrap">{p.number}</td>
+                    <td className="p-3 text-slate-500 whitespace-nowrap">{formatDate(p.date)}</td>
+                    <td className="p-3">
+                      <button onClick={() => setStatementNif(normalizeNif(p.nif))} className="font-medium text-slate-900 hover:text-indigo-600" title="Ver extracto del cliente">
+                        {p.clientName}
+                      </button>
+                      <div className="text-xs text-slate-400">{p.nif}</div>
+                    </td>
+                    <td className="p-3 text-slate-600">{p.matter}</td>
+                    <td className="p-3 text-right font-mono">{formatCurrency(p.amount)}</td>
+                    <td className="p-3 text-right font-mono text-slate-500">{formatCurrency(getAppliedAmount(p, invoices))}</td>
+                    <td className={`p-3 text-right font-mono font-semibold ${balance > 0 ? 'text-amber-600' : 'text-slate-400'}`}>{formatCurrency(balance)}</td>
+                    <td className="p-3">
+                      <div className="flex justify-end gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                        <button onClick={() => downloadReceipt(p)} className="p-1 hover:bg-slate-100 text-slate-600 rounded" title="Descargar recibo (PDF)">
+                          <FileText className="h-4 w-4" />
+                        </button>
+                        <button onClick={() => openForm(p)} className="p-1 hover:bg-indigo-50 text-indigo-600 rounded" title="Editar">
+                          <Edit className="h-4 w-4" />
+                        </button>
+                        <button onClick={() => handleDelete(p)} className="p-1 hover:bg-red-50 text-red-500 rounded" title="Eliminar">
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* Extracto del cliente */}
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="p-4 border-b border-slate-100 flex flex-col md:flex-row md:items-center justify-between gap-3">
+          <h3 className="font-semibold text-slate-800">Extracto del cliente</h3>
+          <select
+            value={statementNif}
+            onChange={(e) => setStatementNif(e.target.value)}
+            className="px-3 py-2 border border-slate-300 rounded-lg bg-white text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 md:w-80"
+          >
+            <option value="">Selecciona un cliente...</option>
+            {statementClients.map(([nif, name]) => <option key={nif} value={nif}>{name} ({nif})</option>)}
+          </select>
+        </div>
+        {statement && (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3 p-4 text-sm">
+              <div className="p-3 bg-slate-50 rounded-lg">
+                <div className="text-xs text-slate-500">Provisiones recibidas</div>
+                <div className="font-bold text-slate-800">{formatCurrency(statement.provisionsReceived)}</div>
+              </div>
+              <div className="p-3 bg-slate-50 rounded-lg">
+                <div className="text-xs text-slate-500">Aplicadas en minutas</div>
+                <div className="font-bold text-slate-800">{formatCurrency(statement.provisionsApplied)}</div>
+              </div>
+              <div className="p-3 bg-amber-50 rounded-lg">
+                <div className="text-xs text-amber-700">Fondos pendientes de aplicar</div>
+                <div className="font-bold text-amber-700">{formatCurrency(statement.provisionsPending)}</div>
+              </div>
+              <div className={`p-3 rounded-lg ${statement.balance > 0 ? 'bg-red-50' : 'bg-emerald-50'}`}>
+                <div className={`text-xs ${statement.balance > 0 ? 'text-red-700' : 'text-emerald-700'}`}>{statement.balance > 0 ? 'Saldo a cargo del cliente' : 'Saldo a favor del cliente'}</div>
+                <div className={`font-bold ${statement.balance > 0 ? 'text-red-700' : 'text-emerald-700'}`}>{formatCurrency(Math.abs(statement.balance))}</div>
+              </div>
+            </div>
+            {statement.lines.length === 0 ? (
+              <div className="p-8 text-center text-slate-400 text-sm">Sin movimientos.</div>
+            ) : (
+              <table className="w-full text-sm">
+                <thead className="bg-slate-50 text-xs text-slate-500 uppercase">
+                  <tr>
+                    <th className="text-left p-3">Fecha</th>
+                    <th className="text-left p-3">Documento</th>
+                    <th className="text-left p-3">Concepto</th>
+                    <th className="text-right p-3">Cargo</th>
+                    <th className="text-right p-3">Abono</th>
+                    <th className="text-right p-3">Saldo</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {statement.lines.map((line, i) => (
+                    <tr key={i}>
+                      <td className="p-3 font-mono text-xs text-slate-500">{formatDate(line.date)}</td>
+                      <td className="p-3 font-medium text-slate-700">{line.reference}</td>
+                      <td className="p-3 text-slate-600">{line.description}</td>
+                      <td className="p-3 text-right font-mono">{line.charge ? formatCurrency(line.charge) : ''}</td>
+                      <td className="p-3 text-right font-mono text-emerald-700">{line.credit ? formatCurrency(line.credit) : ''}</td>
+                      <td className="p-3 text-right font-mono font-semibold">{formatCurrency(line.balance)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </>
+        )}
+      </div>
+
+      {isFormOpen && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4 animate-in fade-in duration-200">
+          <form onSubmit={handleSubmit} className="bg-white rounded-xl shadow-2xl max-w-lg w-full p-6 space-y-4">
+            <div className="flex justify-between items-center">
+              <h3 className="text-lg font-bold text-slate-900 flex items-center gap-2">
+                <PiggyBank className="h-5 w-5 text-indigo-600" /> {editing ? `Provisión ${editing.number}` : 'Nueva provisión de fondos'}
+              </h3>
+              <button type="button" onClick={() => setIsFormOpen(false)} className="text-slate-400 hover:text-slate-600">
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="col-span-2">
+                <label className="block text-xs font-medium text-slate-600 mb-1">Cliente</label>
+                <input required list="provision-clients" value={formData.clientName} onChange={(e) => handleClientName(e.target.value)} className={inputClass} autoComplete="off" />
+                <datalist id="provision-clients">
+                  {clients.map(c => <option key={c.nif} value={c.name}>{c.nif}</option>)}
+                </datalist>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-slate-600 mb-1">NIF</label>
+                <input required value={formData.nif} onChange={(e) => setFormData({ ...formData, nif: e.target.value })} className={inputClass} />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-slate-600 mb-1">Fecha</label>
+                <input required type="date" value={formData.date} onChange={(e) => setFormData({ ...formData, date: e.target.value })} className={inputClass} />
+              </div>
+              <div className="col-span-2">
+                <label className="block text-xs font-medium text-slate-600 mb-1">Expediente</label>
+                <select value={formData.matterId || ''} onChange={(e) => handleMatter(e.target.value)} className={`${inputClass} bg-white`}>
+                  <option value="">Sin expediente</option>
+                  {formMatters.map(m => <option key={m.id} value={m.id}>{getMatterLabel(m)}</option>)}
+                </select>
+              </div>
+              <div className="col-span-2">
+                <label className="block text-xs font-medium text-slate-600 mb-1">Asunto (texto del recibo)</label>
+                <input value={formData.matter || ''} onChange={(e) => setFormData({ ...formData, matter: e.target.value })} className={inputClass} placeholder="Ej: Divorcio contencioso 123/2024" />
+              </div>
+              <div className="col-span-2">
+                <label className="block text-xs font-medium text-slate-600 mb-1">Concepto</label>
+                <input required value={formData.concept} onChange={(e) => setFormData({ ...formData, concept: e.target.value })} className={inputClass} />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-slate-600 mb-1">Importe</label>
+                <input required type="number" step="0.01" min="0.01" value={formData.amount || ''} onChange={(e) => setFormData({ ...formData, amount: parseFloat(e.target.value) || 0 })} className={inputClass} />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-slate-600 mb-1">Forma de pago</label>
+                <select value={formData.method} onChange={(e) => setFormData({ ...formData, method: e.target.value as PaymentMethod })} className={`${inputClass} bg-white`}>
+                  {Object.entries(PAYMENT_METHODS).map(([key, label]) => <option key={key} value={key}>{label}</option>)}
+                </select>
+              </div>
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="secondary" onClick={() => setIsFormOpen(false)}>Cancelar</Button>
+              <Button type="submit">Guardar</Button>
+            </div>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+};
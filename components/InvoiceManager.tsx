@@ -1,14 +1,35 @@
 import React, { useState, useEffect, useRef, useMemo } from 'react';
-import { Invoice, InvoiceType, SavedEntity, ProfessionalProfile } from '../types';
-import { Plus, Trash2, Search, Wand2, AlertTriangle, Filter, Download, FileSpreadsheet, Upload, Save, Bookmark, X, ChevronDown, Edit, RefreshCw, Utensils, Plane, HelpCircle, UserPlus, Check, FileInput, FileText, CheckSquare, Square, ArrowUpDown, ArrowUp, ArrowDown, RotateCcw, ExternalLink, Calendar } from 'lucide-react';
+import { AuditAlert, FundProvision, Invoice, InvoiceDraft, InvoicePayment, InvoiceSeries, InvoiceType, PaymentStatus, PeriodLock, RectificationMethod, RectificationReason, SavedFilter, VerifactuRecord } from '../types';
+import { Plus, Trash2, Search, Wand2, AlertTriangle, Filter, Download, FileSpreadsheet, Upload, Save, Bookmark, X, ChevronDown, Edit, RefreshCw, Utensils, Plane, HelpCircle, UserPlus, Check, FileInput, FileText, CheckSquare, Square, ArrowUpDown, ArrowUp, ArrowDown, RotateCcw, ShieldCheck, Calendar, FileCode, KeyRound, FileMinus, Hash, Lock, Wallet, Clock, Ban } from 'lucide-react';
 import { Button } from './Button';
 import { analyzeExpenseDeductibility, auditInvoices, extractInvoiceData } from '../services/geminiService';
 import { parseFile } from '../services/importService';
+import { runLocalAudit } from '../services/auditService';
 import { generateInvoicePDF } from '../services/pdfGenerator';
+import { RENTAL_EXPENSE_TYPE, RENTAL_WITHHOLDING_RATE } from '../services/withholdingService';
+import { normalizeNif, validateCadastralRef } from '../services/validationService';
+import { fundProvisionRepository, getProfessionalProfile, matterRepository, quoteRepository, setChangeReason, timeEntryRepository } from '../services/storageService';
+import { saveEntity } from '../services/entityStore';
+import { cancelInvoice, generateVerifactuQr, getInvoiceVerifactuState, getVerifactuRecords, getVerifactuTransport, needsSubsanacion, registerInvoice, submitPendingRecords } from '../services/verifactuService';
+import { RECTIFICATION_METHODS, RECTIFICATION_REASONS, buildRectificationDraft, getDeletionBlocker, getIssuedDeletionBlocker, getIssuedEditBlocker, getRectificationAmounts, getRectificationsOf, validateRectification } from '../services/rectificationService';
+import { downloadFacturae, generateFacturaeXml, getFacturaeFileName, signFacturae } from '../services/facturaeService';
+import { useEntities } from '../hooks/useEntities';
+import { reportStorageError, useStoredCollection, useStoredSetting } from '../hooks/useStoredState';
+import { checkSeriesIntegrity, findSeriesOfNumber, getDefaultSeries, getNextSeriesNumber, getRectificationSeries, parseSeriesNumber } from '../services/seriesService';
+import { InvoiceSeriesManager } from './InvoiceSeriesManager';
+import { findPeriodLock, getPeriodLockBlocker } from '../services/periodLockService';
+import { PAYMENT_STATUS_LABELS, calculateDueDate, getDueDate, getOutstandingAmount, getPaymentStatus, getPaymentTermDays } from '../services/paymentService';
+import { InvoicePaymentsModal } from './InvoicePaymentsModal';
+import { getMatterLabel, getSelectableMatters } from '../services/matterService';
+import { getAvailableProvisions, getProvisionBalance, sumApplications, validateProvisionApplications } from '../services/provisionService';
 
 interface InvoiceManagerProps {
   invoices: Invoice[];
   setInvoices: React.Dispatch<React.SetStateAction<Invoice[]>>;
+  invoiceSeries: InvoiceSeries[]; // Shared with App, which numbers the iguala drafts
+  setInvoiceSeries: React.Dispatch<React.SetStateAction<InvoiceSeries[]>>;
+  drafts?: InvoiceDraft[]; // Opened one after another on arrival (see App)
+  onDraftsUsed?: () => void;
 }
 
 const escapeCsv = (str: string | number | undefined | boolean) => {
@@ -47,13 +68,12 @@ const formatNumber = (amount: number) => {
   return amount.toLocaleString('es-ES', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
 };
 
-interface SavedFilter {
-  name: string;
-  type: 'ALL' | 'INCOME' | 'EXPENSE';
-  category: string;
-  entity?: string;
-  nif?: string;
-}
+const PAYMENT_STATUS_STYLES: Record<PaymentStatus, string> = {
+  PAID: 'bg-emerald-50 text-emerald-700',
+  PARTIAL: 'bg-amber-50 text-amber-700',
+  PENDING: 'bg-slate-100 text-slate-600',
+  OVERDUE: 'bg-red-50 text-red-700'
+};
 
 // Spanish Tax Classification Constants
 const IRPF_INCOME_TYPES = [
@@ -130,7 +150,7 @@ const validateSpanishID = (value: string): string | null => {
   return "Formato español inválido. Esperado: DNI, CIF o NIE";
 };
 
-export const InvoiceManager: React.FC<InvoiceManagerProps> = ({ invoices, setInvoices }) => {
+export const InvoiceManager: React.FC<InvoiceManagerProps> = ({ invoices, setInvoices, invoiceSeries, setInvoiceSeries, drafts, onDraftsUsed }) => {
   const [activeTab, setActiveTab] = useState<'income' | 'expense' | 'list'>('income');
   const [formData, setFormData] = useState<Partial<Invoice>>({
     date: new Date().toISOString().split('T')[0],
@@ -172,6 +192,8 @@ export const InvoiceManager: React.FC<InvoiceManagerProps> = ({ invoices, setInv
 
   // Delete Confirmation State
   const [invoiceToDelete, setInvoiceToDelete] = useState<string | null>(null);
+  const [paymentsInvoiceId, setPaymentsInvoiceId] = useState<string | null>(null);
+  const [deleteReason, setDeleteReason] = useState(''); // Motivo para el historial de cambios
 
   // Validation State
   const [nifError, setNifError] = useState<string | null>(null);
@@ -186,6 +208,7 @@ export const InvoiceManager: React.FC<InvoiceManagerProps> = ({ invoices, setInv
   const [filterEntity, setFilterEntity] = useState<string>('');
   const [filterNif, setFilterNif] = useState<string>('');
   const [filterYear, setFilterYear] = useState<number>(new Date().getFullYear()); // Year Filter
+  const [filterPayment, setFilterPayment] = useState<'ALL' | 'UNPAID' | 'OVERDUE' | 'PAID'>('ALL');
 
   // Calculate available years
   const availableYears = useMemo(() => {
@@ -195,75 +218,118 @@ export const InvoiceManager: React.FC<InvoiceManagerProps> = ({ invoices, setInv
   }, [invoices]);
 
 
-  // Helper to calculate next number based on pattern Prefix-YY-Sequence
-  const calculateNextNumber = (type: InvoiceType): string => {
-    const yearFull = new Date().getFullYear();
-    const yearShort = yearFull.toString().slice(-2);
-    const prefix = type === InvoiceType.INCOME ? 'A' : 'R';
-    
-    // Regex to match Format: Prefix-YY-Number (e.g., A-25-1, R-25-10)
-    const regex = new RegExp(`^${prefix}-${yearShort}-(\\d+)$`);
+  // Series de numeración (A-YY-N, R-YY-N... configurable), held by App
+  const [isSeriesManagerOpen, setIsSeriesManagerOpen] = useState(false);
 
-    const relevantInvoices = invoices.filter(i => i.type === type && regex.test(i.number));
-    
-    // Find max sequence number
-    const maxSeq = relevantInvoices.reduce((max, inv) => {
-        const match = inv.number.match(regex);
-        if (match) {
-            const num = parseInt(match[1], 10);
-            return Math.max(max, num);
-        }
-        return max;
-    }, 0);
+  // Series of the form: the selected one if it matches the type, otherwise the default of the type
+  const getFormSeries = (type: InvoiceType, seriesId?: string) =>
+    invoiceSeries.find(s => s.id === seriesId && s.type === type) || getDefaultSeries(invoiceSeries, type);
 
-    const nextSeq = maxSeq + 1;
-    return `${prefix}-${yearShort}-${nextSeq}`;
+  // Helper to calculate the next number of a series (yearly series are numbered by the year of `date`)
+  const calculateNextNumber = (type: InvoiceType, seriesId?: string, date?: string): string => {
+    const series = getFormSeries(type, seriesId);
+    return series ? getNextSeriesNumber(series, invoices, date) : '';
   };
 
   // Suggest next invoice number logic
   useEffect(() => {
     if (editingId) return; // Don't overwrite if editing
-
-    if (activeTab === 'income') {
-      const nextNum = calculateNextNumber(InvoiceType.INCOME);
-      // Only update if field is empty or matches generated pattern (avoids overwriting manual custom input mid-typing)
-      if (!formData.number || formData.number.startsWith(`A-`)) {
-         setFormData(prev => ({ ...prev, number: nextNum, type: InvoiceType.INCOME }));
-      }
-    } else if (activeTab === 'expense') {
-      const nextNum = calculateNextNumber(InvoiceType.EXPENSE);
-      // For expenses, we now default to internal registration number R-YY-Z
-      if (!formData.number || formData.number.startsWith(`R-`) || formData.number === '') {
-         setFormData(prev => ({ ...prev, number: nextNum, type: InvoiceType.EXPENSE }));
-      }
+    if (activeTab === 'list') return;
+
+    const type = activeTab === 'income' ? InvoiceType.INCOME : InvoiceType.EXPENSE;
+    const series = getFormSeries(type, formData.seriesId);
+    if (!series) return;
+    // Only update if field is empty or follows the series pattern (avoids overwriting manual custom input mid-typing)
+    if (!formData.number || parseSeriesNumber(series, formData.number)) {
+       setFormData(prev => ({ ...prev, number: getNextSeriesNumber(series, invoices, prev.date), type, seriesId: series.id }));
     }
-  }, [activeTab, invoices, editingId]);
+  }, [activeTab, invoices, editingId, invoiceSeries, formData.seriesId, formData.date]);
+
+  const handleSeriesChange = (seriesId: string) => {
+    const type = activeTab === 'income' ? InvoiceType.INCOME : InvoiceType.EXPENSE;
+    setFormData(prev => ({ ...prev, seriesId, number: editingId ? prev.number : calculateNextNumber(type, seriesId, prev.date) }));
+  };
 
   // Saved Entities (Address Book)
-  const [savedEntities, setSavedEntities] = useState<SavedEntity[]>(() => {
-    try {
-        return JSON.parse(localStorage.getItem('savedEntities') || '[]');
-    } catch {
-        return [];
-    }
-  });
+  const savedEntities = useEntities();
+
+  // Contact of the form: its payment terms give the due date
+  const formContact = savedEntities.find(e => e.nif === formData.nif && e.type === (activeTab === 'income' ? 'CLIENT' : 'PROVIDER'));
+
+  // Expedientes the invoice can be charged to
+  const [matters] = useStoredCollection(matterRepository);
+  // Presupuestos, to show which one an invoice comes from
+  const [quotes] = useStoredCollection(quoteRepository);
+  const formMatters = getSelectableMatters(matters, activeTab === 'income' ? InvoiceType.INCOME : InvoiceType.EXPENSE, formData.nif, formData.matterId);
+
+  // Provisiones de fondos of the client that the minuta can discount
+  const [fundProvisions] = useStoredCollection(fundProvisionRepository);
+  const availableProvisions = activeTab === 'income' && formData.nif
+    ? getAvailableProvisions(fundProvisions, invoices, formData.nif, editingId || undefined)
+    : [];
+  // Provisions already applied stay listed even when nothing is left or the client changed
+  const provisionOptions = [
+    ...availableProvisions,
+    ...fundProvisions.filter(p => !availableProvisions.includes(p) && formData.appliedProvisions?.some(a => a.provisionId === p.id))
+  ];
+
+  // The retainer is the sum of the applied provisions
+  const setProvisionApplications = (applications: NonNullable<Invoice['appliedProvisions']>) => {
+    setFormData(prev => ({
+      ...prev,
+      appliedProvisions: applications.length > 0 ? applications : undefined,
+      retainer: applications.length > 0 ? sumApplications(applications) : 0
+    }));
+  };
 
-  // Saved Categories (Fiscal Categories)
-  const [savedCategories, setSavedCategories] = useState<string[]>(() => {
-    try {
-        return JSON.parse(localStorage.getItem('savedCategories') || '[]');
-    } catch {
-        return [];
+  const toggleProvision = (provision: FundProvision) => {
+    const applications = formData.appliedProvisions || [];
+    if (applications.some(a => a.provisionId === provision.id)) {
+      setProvisionApplications(applications.filter(a => a.provisionId !== provision.id));
+      return;
     }
-  });
+    // By default apply what the invoice still leaves to pay, up to the provision balance
+    const balance = getProvisionBalance(provision, invoices, editingId || undefined);
+    const stillDue = totalAmount - sumApplications(applications);
+    const amount = stillDue > 0 ? Math.min(balance, Math.round(stillDue * 100) / 100) : balance;
+    setProvisionApplications([...applications, { provisionId: provision.id, provisionNumber: provision.number, amount }]);
+  };
 
-  useEffect(() => {
-      localStorage.setItem('savedEntities', JSON.stringify(savedEntities));
-  }, [savedEntities]);
+  const updateProvisionAmount = (provisionId: string, amount: number) => {
+    setProvisionApplications((formData.appliedProvisions || []).map(a => a.provisionId === provisionId ? { ...a, amount } : a));
+  };
+
+  // Facturae export (the certificate and its password are never stored)
+  const [facturaeInvoice, setFacturaeInvoice] = useState<Invoice | null>(null);
+  const [facturaeSign, setFacturaeSign] = useState(true);
+  const [facturaeCertificate, setFacturaeCertificate] = useState<File | null>(null);
+  const [facturaePassword, setFacturaePassword] = useState('');
+
+  // Cadena de registros VERI*FACTU (se amplía desde syncVerifactu)
+  const [verifactuRecords, setVerifactuRecords] = useState<VerifactuRecord[]>([]);
+  const refreshVerifactu = () => getVerifactuRecords().then(setVerifactuRecords).catch(reportStorageError);
 
   useEffect(() => {
-      localStorage.setItem('savedCategories', JSON.stringify(savedCategories));
-  }, [savedCategories]);
+      refreshVerifactu();
+  }, []);
+
+  const registeredInvoiceIds = useMemo(() => new Set(
+      verifactuRecords
+          .map(r => r.invoiceId)
+          .filter(id => getInvoiceVerifactuState(verifactuRecords, id).isActive)
+  ), [verifactuRecords]);
+
+  // Saved Categories (Fiscal Categories)
+  const [savedCategories, setSavedCategories] = useStoredSetting('savedCategories', []);
+
+  // Periodos cerrados (se cierran y reabren desde Cierre de Ejercicio)
+  const [periodLocks] = useStoredSetting('periodLocks', [] as PeriodLock[]);
+
+  // Invoices drafted from Tiempos or Presupuestos: the first one is in the form, the rest open
+  // after saving it. Time entries of a draft are marked as billed when it is saved
+  const [, setTimeEntries] = useStoredCollection(timeEntryRepository);
+  const [draftQueue, setDraftQueue] = useState<InvoiceDraft[]>([]);
+  const currentDraft = draftQueue[0];
 
   // Handle Tab switching manually to ensure form reset only happens when explicitly requested
   const handleTabSwitch = (tab: 'income' | 'expense' | 'list') => {
@@ -273,6 +339,7 @@ export const InvoiceManager: React.FC<InvoiceManagerProps> = ({ invoices, setInv
       } else {
           // Reset for New Invoice
           setEditingId(null);
+          setDraftQueue([]);
           setNifError(null);
           setNifWarning(null);
           setSelectedIds(new Set());
@@ -304,7 +371,19 @@ export const InvoiceManager: React.FC<InvoiceManagerProps> = ({ invoices, setInv
       }
   };
 
-  const handleSaveEntity = () => {
+  const openDrafts = (queue: InvoiceDraft[]) => {
+      handleTabSwitch('income');
+      setFormData(prev => ({ ...prev, ...queue[0].invoice }));
+      setDraftQueue(queue);
+  };
+
+  useEffect(() => {
+      if (!drafts || drafts.length === 0) return;
+      openDrafts(drafts);
+      onDraftsUsed?.();
+  }, [drafts]);
+
+  const handleSaveEntity = async () => {
       if (!formData.entityName || !formData.nif) {
           alert("Debe introducir al menos el Nombre y el NIF para guardar.");
           return;
@@ -322,32 +401,20 @@ export const InvoiceManager: React.FC<InvoiceManagerProps> = ({ invoices, setInv
       }
 
       const type = activeTab === 'income' ? 'CLIENT' : 'PROVIDER';
-      
-      // 2. Generate Internal ID (C-X or P-X)
-      const prefix = type === 'CLIENT' ? 'C' : 'P';
-      const relevantEntities = savedEntities.filter(e => e.type === type && e.internalId?.startsWith(prefix));
-      
-      const maxId = relevantEntities.reduce((max, e) => {
-          if (!e.internalId) return max;
-          const numPart = parseInt(e.internalId.split('-')[1]);
-          return isNaN(numPart) ? max : Math.max(max, numPart);
-      }, 0);
-      
-      const nextInternalId = `${prefix}-${maxId + 1}`;
-
-      const newEntity: SavedEntity = {
-          internalId: nextInternalId,
-          name: formData.entityName,
-          nif: formData.nif,
-          fiscalAddress: formData.fiscalAddress || '',
-          type
-      };
-
-      setSavedEntities(prev => {
-          return [...prev, newEntity].sort((a, b) => a.name.localeCompare(b.name));
-      });
 
-      alert(`✅ ${type === 'CLIENT' ? 'Cliente' : 'Proveedor'} guardado correctamente.\n\nFicha creada: ${newEntity.name}\nNº Registro Interno: ${nextInternalId}`);
+      // 2. Save in the shared address book, which assigns the internal ID (C-X or P-X)
+      try {
+          const newEntity = await saveEntity({
+              name: formData.entityName,
+              nif: formData.nif,
+              fiscalAddress: formData.fiscalAddress || '',
+              type
+          });
+
+          alert(`✅ ${type === 'CLIENT' ? 'Cliente' : 'Proveedor'} guardado correctamente.\n\nFicha creada: ${newEntity.name}\nNº Registro Interno: ${newEntity.internalId}`);
+      } catch (err) {
+          reportStorageError(err);
+      }
   };
 
   // Calculate Known Entities for Dropdown/Auto-fill (Merge History + Saved)
@@ -410,20 +477,10 @@ export const InvoiceManager: React.FC<InvoiceManagerProps> = ({ invoices, setInv
   }, [invoices, activeTab]);
 
   // Saved Filters State
-  const [savedFilters, setSavedFilters] = useState<SavedFilter[]>(() => {
-      try {
-          return JSON.parse(localStorage.getItem('savedFilters') || '[]');
-      } catch {
-          return [];
-      }
-  });
+  const [savedFilters, setSavedFilters] = useStoredSetting('savedFilters', [] as SavedFilter[]);
   const [showSaveFilter, setShowSaveFilter] = useState(false);
   const [newFilterName, setNewFilterName] = useState('');
 
-  useEffect(() => {
-      localStorage.setItem('savedFilters', JSON.stringify(savedFilters));
-  }, [savedFilters]);
-
   const handleSaveFilter = () => {
       if (!newFilterName.trim()) return;
       setSavedFilters(prev => [...prev, { 
@@ -431,7 +488,8 @@ export const InvoiceManager: React.FC<InvoiceManagerProps> = ({ invoices, setInv
           type: filterType, 
           category: filterCategory,
           entity: filterEntity,
-          nif: filterNif
+          nif: filterNif,
+          payment: filterPayment
       }]);
       setNewFilterName('');
       setShowSaveFilter(false);
@@ -442,6 +500,7 @@ export const InvoiceManager: React.FC<InvoiceManagerProps> = ({ invoices, setInv
       setFilterCategory(filter.category);
       setFilterEntity(filter.entity || '');
       setFilterNif(filter.nif || '');
+      setFilterPayment(filter.payment || 'ALL');
   };
   
   const deleteSavedFilter = (index: number, e: React.MouseEvent) => {
@@ -466,7 +525,8 @@ export const InvoiceManager: React.FC<InvoiceManagerProps> = ({ invoices, setInv
   const [aiAnalysis, setAiAnalysis] = useState<{deductible: boolean, reason: string} | null>(null);
   
   // Audit State
-  const [auditResults, setAuditResults] = useState<any[]>([]);
+  // null: audit not run yet
+  const [auditResults, setAuditResults] = useState<AuditAlert[] | null>(null);
   const [isAuditing, setIsAuditing] = useState(false);
 
   // Filter Logic
@@ -492,6 +552,12 @@ export const InvoiceManager: React.FC<InvoiceManagerProps> = ({ invoices, setInv
         if (filterCategory && inv.category !== filterCategory) return false;
         if (filterEntity && !inv.entityName.toLowerCase().includes(filterEntity.toLowerCase())) return false;
         if (filterNif && !inv.nif.toLowerCase().includes(filterNif.toLowerCase())) return false;
+        if (filterPayment !== 'ALL') {
+            const status = getPaymentStatus(inv, invoices);
+            if (filterPayment === 'PAID' && status !== 'PAID') return false;
+            if (filterPayment === 'UNPAID' && status === 'PAID') return false;
+            if (filterPayment === 'OVERDUE' && status !== 'OVERDUE') return false;
+        }
         // Year Filter
         const invYear = new Date(inv.date).getFullYear();
         if (filterYear && invYear !== filterYear) return false;
@@ -528,7 +594,7 @@ export const InvoiceManager: React.FC<InvoiceManagerProps> = ({ invoices, setInv
       });
 
       return result;
-  }, [invoices, filterType, filterCategory, filterEntity, filterNif, filterYear, sortConfig]);
+  }, [invoices, filterType, filterCategory, filterEntity, filterNif, filterYear, filterPayment, sortConfig]);
 
   // Selection Logic
   const toggleSelection = (id: string) => {
@@ -554,9 +620,19 @@ export const InvoiceManager: React.FC<InvoiceManagerProps> = ({ invoices, setInv
   };
 
   const confirmBulkDelete = () => {
+      const blocker = getIssuedDeletionBlocker(invoices, selectedIds, registeredInvoiceIds)
+          || getDeletionBlocker(invoices, selectedIds)
+          || getPeriodLockBlocker(periodLocks, invoices.filter(inv => selectedIds.has(inv.id)).map(inv => inv.date), 'eliminar las facturas seleccionadas');
+      if (blocker) {
+          alert(blocker);
+          setShowBulkDeleteConfirm(false);
+          return;
+      }
+      setChangeReason(deleteReason);
       setInvoices(prev => prev.filter(inv => !selectedIds.has(inv.id)));
       setSelectedIds(new Set());
       setShowBulkDeleteConfirm(false);
+      setDeleteReason('');
   };
 
   // Handlers
@@ -622,6 +698,11 @@ export const InvoiceManager: React.FC<InvoiceManagerProps> = ({ invoices, setInv
       }
     }
 
+    // Alquiler del despacho: retención del 19% (Modelo 115) por defecto
+    if (name === 'irpfExpenseType' && value === RENTAL_EXPENSE_TYPE) {
+        newFormData.irpfRate = RENTAL_WITHHOLDING_RATE;
+    }
+
     // Number conversion for specific fields
     if (['baseAmount', 'ivaRate', 'irpfRate', 'fees', 'taxableExpenses', 'retainer', 'supplies'].includes(name)) {
       newFormData[name] = parseFloat(value) || 0;
@@ -815,6 +896,7 @@ export const InvoiceManager: React.FC<InvoiceManagerProps> = ({ invoices, setInv
 
   const cancelEdit = () => {
       setEditingId(null);
+      setDraftQueue([]);
       // Recalculate next number for current tab
       const nextNum = activeTab === 'income' 
         ? calculateNextNumber(InvoiceType.INCOME) 
@@ -852,10 +934,42 @@ export const InvoiceManager: React.FC<InvoiceManagerProps> = ({ invoices, setInv
         return;
     }
 
+    const isRentalExpense = activeTab === 'expense' && formData.irpfExpenseType === RENTAL_EXPENSE_TYPE;
+    if (isRentalExpense && formData.propertyCadastralRef) {
+        const cadastralError = validateCadastralRef(formData.propertyCadastralRef);
+        if (cadastralError) {
+            alert(cadastralError);
+            return;
+        }
+    }
+
+    const matter = matters.find(m => m.id === formData.matterId);
+    if (activeTab === 'income' && matter && normalizeNif(matter.nif) !== normalizeNif(formData.nif || '')) {
+        alert(`El expediente ${matter.reference} es de ${matter.clientName}: una minuta solo puede imputarse a un expediente de su cliente.`);
+        return;
+    }
+
+    if (activeTab === 'income' && formData.appliedProvisions?.length) {
+        const provisionError = validateProvisionApplications(
+            { id: editingId || '', nif: formData.nif!, appliedProvisions: formData.appliedProvisions },
+            fundProvisions,
+            invoices
+        );
+        if (provisionError) {
+            alert(provisionError);
+            return;
+        }
+    }
+
+    const type = activeTab === 'income' ? InvoiceType.INCOME : InvoiceType.EXPENSE;
+    const series = invoiceSeries.find(s => s.id === formData.seriesId && s.type === type && parseSeriesNumber(s, formData.number!))
+        || findSeriesOfNumber(invoiceSeries, type, formData.number!);
+
     const invoiceData: Invoice = {
       id: editingId || crypto.randomUUID(),
-      type: activeTab === 'income' ? InvoiceType.INCOME : InvoiceType.EXPENSE,
+      type,
       number: formData.number!,
+      seriesId: series?.id,
       date: formData.date!,
       registrationDate: activeTab === 'expense' ? formData.registrationDate : undefined,
       nif: formData.nif!,
@@ -868,6 +982,7 @@ export const InvoiceManager: React.FC<InvoiceManagerProps> = ({ invoices, setInv
       taxableExpenses: activeTab === 'income' ? (formData.taxableExpenses || 0) : undefined,
       supplies: activeTab === 'income' ? (formData.supplies || 0) : undefined,
       retainer: activeTab === 'income' ? (formData.retainer || 0) : undefined,
+      appliedProvisions: activeTab === 'income' ? formData.appliedProvisions : undefined,
       ivaRate: formData.ivaRate!,
       ivaAmount: ivaAmount,
       irpfRate: formData.irpfRate!,
@@ -875,11 +990,42 @@ export const InvoiceManager: React.FC<InvoiceManagerProps> = ({ invoices, setInv
       totalAmount: totalAmount,
       deductible: activeTab === 'expense' ? formData.deductible : undefined,
       category: formData.category,
+      matterId: formData.matterId,
+      quoteId: activeTab === 'income' ? formData.quoteId : undefined,
+      recurringId: activeTab === 'income' ? formData.recurringId : undefined,
+      recurringPeriod: activeTab === 'income' ? formData.recurringPeriod : undefined,
       irpfIncomeType: activeTab === 'income' ? formData.irpfIncomeType : undefined,
       irpfExpenseType: activeTab === 'expense' ? formData.irpfExpenseType : undefined,
       ivaExpenseType: activeTab === 'expense' ? formData.ivaExpenseType : undefined,
+      propertyCadastralRef: isRentalExpense ? formData.propertyCadastralRef : undefined,
+      propertyAddress: isRentalExpense ? formData.propertyAddress : undefined,
+      rectifiedInvoiceId: activeTab === 'income' ? formData.rectifiedInvoiceId : undefined,
+      rectifiedInvoiceNumber: activeTab === 'income' ? formData.rectifiedInvoiceNumber : undefined,
+      rectifiedInvoiceDate: activeTab === 'income' ? formData.rectifiedInvoiceDate : undefined,
+      rectificationReason: activeTab === 'income' ? formData.rectificationReason : undefined,
+      rectificationMethod: activeTab === 'income' ? formData.rectificationMethod : undefined,
+      dueDate: formData.dueDate || calculateDueDate(formData.date!, formContact),
+      payments: editingId ? formData.payments : undefined,
     };
 
+    // Both the current and the new date must be in open periods
+    const original = editingId ? invoices.find(i => i.id === editingId) : undefined;
+    const lockBlocker = getPeriodLockBlocker(
+        periodLocks,
+        [invoiceData.date, original?.date],
+        original ? `modificar la factura ${original.number}` : `registrar una factura con fecha ${formatDate(invoiceData.date)}`
+    );
+    if (lockBlocker) {
+        alert(lockBlocker);
+        return;
+    }
+
+    const rectificationError = validateRectification(invoiceData, invoices);
+    if (rectificationError) {
+        alert(rectificationError);
+        return;
+    }
+
     // Check for duplicates globally (for current type)
     // Exclude the current invoice if we are in edit mode
     const duplicate = invoices.find(i => 
@@ -893,6 +1039,29 @@ export const InvoiceManager: React.FC<InvoiceManagerProps> = ({ invoices, setInv
         return;
     }
 
+    // The series must stay correlative: only problems introduced by this invoice are reported
+    if (series) {
+        const year = parseSeriesNumber(series, invoiceData.number)?.year ?? Number(invoiceData.date.slice(0, 4));
+        const before = checkSeriesIntegrity(series, invoices, year);
+        const after = checkSeriesIntegrity(series, [...invoices.filter(i => i.id !== invoiceData.id), invoiceData], year);
+        if (after.duplicateCount > before.duplicateCount) {
+            alert(`${after.duplicates.join('\n')}\n\nCada número solo puede usarse una vez dentro de la serie.`);
+            return;
+        }
+        if (after.missingCount > before.missingCount && !window.confirm(`La numeración de la serie quedará con saltos:\n\n${after.gaps.join('\n')}\n\n¿Deseas guardar la factura de todos modos?`)) {
+            return;
+        }
+    }
+
+    // Issued invoices must be corrected with a rectificativa, not edited in place
+    const issuedBlocker = original && invoiceData.type === InvoiceType.INCOME && registeredInvoiceIds.has(original.id)
+        ? getIssuedEditBlocker(original, invoiceData)
+        : null;
+    if (issuedBlocker) {
+        alert(issuedBlocker);
+        return;
+    }
+
     // Auto-save new category if it exists and isn't already saved
     if (formData.category && !savedCategories.includes(formData.category)) {
         setSavedCategories(prev => [...prev, formData.category!].sort());
@@ -901,10 +1070,13 @@ export const InvoiceManager: React.FC<InvoiceManagerProps> = ({ invoices, setInv
     if (editingId) {
         // Update existing invoice
         try {
-            if (window.confirm("¿Estás seguro de que deseas guardar la edición de esta factura?")) {
+            const reason = window.prompt(`¿Estás seguro de que deseas guardar la edición de esta factura?\n\nMotivo del cambio (opcional, se guarda en el historial):`, '');
+            if (reason !== null) {
+                setChangeReason(reason);
                 setInvoices(prev => prev.map(inv => inv.id === editingId ? invoiceData : inv));
                 alert("Edición guardada correctamente.");
                 cancelEdit(); // Exit edit mode
+                syncVerifactu(invoiceData);
             }
         } catch (e) {
             console.error("Error al guardar edición:", e);
@@ -912,12 +1084,21 @@ export const InvoiceManager: React.FC<InvoiceManagerProps> = ({ invoices, setInv
     } else {
         // Create new invoice
         setInvoices(prev => [...prev, invoiceData]);
-        alert("Factura guardada correctamente.");
+        const billedEntryIds = currentDraft?.timeEntryIds || [];
+        if (billedEntryIds.length > 0) {
+            setTimeEntries(prev => prev.map(entry => billedEntryIds.includes(entry.id) ? { ...entry, invoiceId: invoiceData.id } : entry));
+        }
+        const remainingDrafts = draftQueue.slice(1);
+        alert(remainingDrafts.length > 0
+            ? `Factura guardada correctamente. Se abre la siguiente (quedan ${remainingDrafts.length}).`
+            : "Factura guardada correctamente.");
         cancelEdit(); // Reset form
+        if (remainingDrafts.length > 0) openDrafts(remainingDrafts);
+        syncVerifactu(invoiceData);
     }
   };
 
-  const handleGeneratePDF = () => {
+  const handleGeneratePDF = async () => {
     if (!formData.entityName || !formData.nif) {
         alert("Rellena los datos básicos (Cliente, NIF) antes de generar el PDF.");
         return;
@@ -935,9 +1116,7 @@ export const InvoiceManager: React.FC<InvoiceManagerProps> = ({ invoices, setInv
         totalAmount: currentTotal
     };
 
-    // Get Professional Profile from localStorage
-    const savedProfile = localStorage.getItem('professionalProfile');
-    const profile: ProfessionalProfile = savedProfile ? JSON.parse(savedProfile) : { name: '' } as any;
+    const profile = await getProfessionalProfile();
 
     if (!profile.name) {
         if(!window.confirm("No has configurado tus 'Datos del Profesional'. El PDF saldrá incompleto. ¿Deseas continuar?")) {
@@ -946,52 +1125,186 @@ export const InvoiceManager: React.FC<InvoiceManagerProps> = ({ invoices, setInv
     }
 
     try {
-        generateInvoicePDF(previewInvoice, profile);
+        // The QR is printed only for a saved invoice whose alta matches what is being printed
+        const { alta, isActive } = getInvoiceVerifactuState(verifactuRecords, editingId || '');
+        const qr = alta && isActive && !needsSubsanacion(alta, previewInvoice as Invoice)
+            ? await generateVerifactuQr(alta)
+            : undefined;
+        generateInvoicePDF(previewInvoice, profile, qr);
     } catch (e) {
         console.error("PDF Error:", e);
         alert("Ocurrió un error al generar el PDF. Verifica los datos introducidos.");
     }
   };
 
-  const handleLinkToAEAT = () => {
-      // 1. Copy data to clipboard for easy pasting
-      const summary = `
-DATOS FACTURA (VERIFACTU):
---------------------------
-Nº Factura: ${formData.number}
-Fecha Expedición: ${formatDate(formData.date)}
-NIF Cliente: ${formData.nif}
-Nombre Cliente: ${formData.entityName}
-Descripción: ${formData.concept}
-Base Imponible: ${formatNumber(baseAmount)}
-Cuota IVA (${formData.ivaRate}%): ${formatNumber(ivaAmount)}
-Cuota IRPF (${formData.irpfRate}%): ${formatNumber(irpfAmount)}
-Total Factura: ${formatNumber(totalAmount)}
---------------------------
-      `.trim();
-
-      navigator.clipboard.writeText(summary).then(() => {
-          alert("📋 Datos copiados al portapapeles.\n\nSe abrirá la web de la AEAT en una nueva pestaña. Puedes pegar estos datos (Ctrl+V) en un bloc de notas o usarlos de referencia para rellenar el formulario.");
-          // 2. Open AEAT Invoice App in new tab
-          window.open("https://www1.agenciatributaria.gob.es/wlpl/TIKE-CONT/MenuAplicacionFacturacion", "_blank");
-      }).catch(err => {
-          console.error("Error al copiar: ", err);
-          window.open("https://www1.agenciatributaria.gob.es/wlpl/TIKE-CONT/MenuAplicacionFacturacion", "_blank");
+  // VERI*FACTU: alta al emitir. The registered data of an issued invoice cannot be edited
+  // (getIssuedEditBlocker) and is corrected only with rectificativas, so there is no subsanación
+  const syncVerifactu = async (invoice: Invoice) => {
+      if (invoice.type !== InvoiceType.INCOME) return;
+      if (getInvoiceVerifactuState(verifactuRecords, invoice.id).isActive) return;
+
+      try {
+          const profile = await getProfessionalProfile();
+          const rectifiedInvoice = invoices.find(i => i.id === invoice.rectifiedInvoiceId);
+          await registerInvoice(invoice, profile, { rectifiedInvoice });
+      } catch (e: any) {
+          console.error(e);
+          alert(`La factura ${invoice.number} se ha guardado, pero no se ha generado su registro VERI*FACTU:\n\n${e.message}`);
+      } finally {
+          await refreshVerifactu();
+      }
+  };
+
+  // Registro de anulación, for an invoice issued by mistake (it should never have existed).
+  // Afterwards it can be deleted, or saved again with a new alta
+  const handleCancelRegistration = async (invoice: Invoice) => {
+      const rectifications = getRectificationsOf(invoices, invoice.id);
+      if (rectifications.length > 0) {
+          alert(`La factura ${invoice.number} tiene rectificativas (${rectifications.map(r => r.number).join(', ')}): no se puede anular su registro.`);
+          return;
+      }
+      if (!window.confirm(`¿Anular el registro VERI*FACTU de la factura ${invoice.number}?\n\nSolo procede si la factura se expidió por error. Para corregir una factura emitida, emite una factura rectificativa.`)) return;
+
+      try {
+          const profile = await getProfessionalProfile();
+          await cancelInvoice(invoice, profile);
+      } catch (e: any) {
+          console.error(e);
+          alert(`No se ha generado el registro de anulación de la factura ${invoice.number}:\n\n${e.message}`);
+      } finally {
+          await refreshVerifactu();
+      }
+  };
+
+  const handleVerifactuSubmit = async () => {
+      try {
+          const profile = await getProfessionalProfile();
+          const results = await submitPendingRecords(profile);
+          await refreshVerifactu();
+
+          if (results.length === 0) {
+              alert("No hay registros VERI*FACTU pendientes de envío.");
+              return;
+          }
+          const rejected = results.filter(r => r.status === 'RECHAZADO');
+          alert(
+              `Enviados ${results.length} registros a ${getVerifactuTransport().name}.\n` +
+              `Aceptados: ${results.length - rejected.length}` +
+              (rejected.length > 0 ? `\nRechazados:\n${rejected.map(r => `- Registro nº ${r.sequence}: ${r.error}`).join('\n')}` : '')
+          );
+      } catch (e: any) {
+          console.error(e);
+          alert(e.message);
+      }
+  };
+
+  // Facturae (FACe): exports the saved version of the invoice being edited
+  const openFacturaeModal = () => {
+      const saved = invoices.find(i => i.id === editingId);
+      if (!saved) return;
+      const entity = savedEntities.find(e => e.nif === saved.nif);
+      if (!entity?.dir3 && !window.confirm(`El cliente ${saved.entityName} no tiene códigos DIR3 en la agenda y FACe rechazará la factura. ¿Exportar igualmente?`)) {
+          return;
+      }
+      setFacturaeInvoice(saved);
+      setFacturaePassword('');
+  };
+
+  const handleFacturaeExport = async () => {
+      if (!facturaeInvoice) return;
+      try {
+          const profile = await getProfessionalProfile();
+          const entity = savedEntities.find(e => e.nif === facturaeInvoice.nif);
+          let content = generateFacturaeXml(facturaeInvoice, profile, entity);
+
+          const signed = facturaeSign;
+          if (signed) {
+              if (!facturaeCertificate) throw new Error('Selecciona el certificado (.p12 / .pfx) con el que firmar la factura.');
+              content = signFacturae(content, await facturaeCertificate.arrayBuffer(), facturaePassword);
+          }
+
+          downloadFacturae(content, getFacturaeFileName(facturaeInvoice, signed));
+          setFacturaeInvoice(null);
+          setFacturaePassword('');
+      } catch (e: any) {
+          console.error(e);
+          alert(e.message);
+      }
+  };
+
+  // Rectificativa: new invoice of the rectificativas series referencing the original, which is left untouched
+  const startRectification = (original: Invoice) => {
+      const series = getRectificationSeries(invoiceSeries);
+      const date = new Date().toISOString().split('T')[0];
+      setInvoiceToDelete(null);
+      setActiveTab('income');
+      setEditingId(null);
+      setNifError(null);
+      setNifWarning(null);
+      setFormData({
+          ...buildRectificationDraft(original, series ? getNextSeriesNumber(series, invoices, date) : '', date),
+          seriesId: series?.id
       });
   };
 
+  const handleRectificationMethodChange = (method: RectificationMethod) => {
+      const original = invoices.find(i => i.id === formData.rectifiedInvoiceId);
+      if (!original) return;
+      setFormData(prev => ({ ...prev, rectificationMethod: method, ...getRectificationAmounts(original, method) }));
+  };
+
+  // Cobros y pagos: not fiscal data, so they can be registered in closed periods too
+  const paymentsInvoice = invoices.find(inv => inv.id === paymentsInvoiceId);
+
+  const savePayments = (payments: InvoicePayment[]) => {
+    setChangeReason(paymentsInvoice?.type === InvoiceType.INCOME ? 'Registro de cobros' : 'Registro de pagos');
+    setInvoices(prev => prev.map(inv => inv.id === paymentsInvoiceId
+      ? { ...inv, payments: payments.length > 0 ? payments : undefined }
+      : inv
+    ));
+    setPaymentsInvoiceId(null);
+  };
+
   const confirmDelete = () => {
+    const target = invoices.find(i => i.id === invoiceToDelete);
+    const blocker = target
+      ? getPeriodLockBlocker(periodLocks, [target.date], `eliminar la factura ${target.number}`)
+        || getIssuedDeletionBlocker(invoices, new Set([target.id]), registeredInvoiceIds)
+        || getDeletionBlocker(invoices, new Set([target.id]))
+      : null;
+    if (blocker) {
+      alert(blocker);
+      setInvoiceToDelete(null);
+      return;
+    }
     if (invoiceToDelete) {
+      setChangeReason(deleteReason);
       setInvoices(prev => prev.filter(i => i.id !== invoiceToDelete));
       setInvoiceToDelete(null);
+      setDeleteReason('');
     }
   };
 
-  const runAudit = async () => {
+  // Local rules first; the AI review is an optional second pass on top of them
+  const runAudit = () => {
+    setAuditResults(runLocalAudit(invoices, invoiceSeries));
+  };
+
+  const runAiAudit = async () => {
+    const localAlerts = auditResults || runLocalAudit(invoices, invoiceSeries);
     setIsAuditing(true);
-    const results = await auditInvoices(invoices);
-    setAuditResults(results.alerts || []);
-    setIsAuditing(false);
+    try {
+      const results = await auditInvoices(invoices, localAlerts);
+      setAuditResults([
+        ...localAlerts.filter(alert => alert.source !== 'AI'),
+        ...(results.alerts || []).map(alert => ({ ...alert, source: 'AI' as const }))
+      ]);
+    } catch (e: any) {
+      console.error(e);
+      alert(`No se ha podido completar la revisión con IA: ${e.message}`);
+    } finally {
+      setIsAuditing(false);
+    }
   };
 
   const renderSortIcon = (columnKey: string) => {
@@ -1112,7 +1425,14 @@ Total Factura: ${formatNumber(totalAmount)}
               return;
           }
 
+          const lockBlocker = getPeriodLockBlocker(periodLocks, newInvoices.map(inv => inv.date), 'importar el archivo');
+          if (lockBlocker) {
+              alert(lockBlocker);
+              return;
+          }
+
           if (window.confirm(`Se han encontrado ${newInvoices.length} facturas. ¿Deseas importarlas al sistema?`)) {
+              setChangeReason(`Importación de ${file.name}`);
               setInvoices(prev => [...prev, ...newInvoices]);
               alert("Importación completada con éxito.");
               setIsBulkImportOpen(false);
@@ -1179,11 +1499,88 @@ Total Factura: ${formatNumber(totalAmount)}
           </div>
 
           <form onSubmit={handleSubmit} className="space-y-6">
+            {activeTab === 'income' && editingId && registeredInvoiceIds.has(editingId) && (
+              <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-900 flex items-center gap-2">
+                <Lock className="h-4 w-4 shrink-0" />
+                Factura emitida y registrada en VERI*FACTU: solo se pueden cambiar los datos que no son fiscales (concepto, categoría, expediente...). El número, la fecha, el NIF y los importes se corrigen con una factura rectificativa.
+              </div>
+            )}
+            {activeTab === 'income' && currentDraft && (
+              <div className="p-3 bg-indigo-50 border border-indigo-100 rounded-lg text-sm text-indigo-800 flex items-center gap-2">
+                <Clock className="h-4 w-4 shrink-0" />
+                <span>
+                  {currentDraft.label || 'Factura generada automáticamente'}.
+                  {draftQueue.length > 1 && ` Al guardarla se abrirá la siguiente (${draftQueue.length - 1} pendiente${draftQueue.length > 2 ? 's' : ''}).`}
+                </span>
+              </div>
+            )}
+            {activeTab === 'income' && formData.rectifiedInvoiceId && (
+              <div className="p-4 bg-amber-50 border border-amber-200 rounded-lg space-y-3">
+                <div className="flex items-center gap-2 text-sm font-semibold text-amber-900">
+                  <FileMinus className="h-4 w-4" />
+                  Factura rectificativa de la nº {formData.rectifiedInvoiceNumber} ({formatDate(formData.rectifiedInvoiceDate)})
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-xs text-amber-800 mb-1">Causa de la rectificación</label>
+                    <select
+                      value={formData.rectificationReason || 'R1'}
+                      onChange={(e) => setFormData(prev => ({ ...prev, rectificationReason: e.target.value as RectificationReason }))}
+                      className="w-full px-3 py-2 border border-amber-300 rounded-lg bg-white text-sm focus:outline-none focus:ring-2 focus:ring-amber-500"
+                    >
+                      {(Object.keys(RECTIFICATION_REASONS) as RectificationReason[]).map(reason => (
+                        <option key={reason} value={reason}>{RECTIFICATION_REASONS[reason]}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-xs text-amber-800 mb-1">Tipo de rectificación</label>
+                    <select
+                      value={formData.rectificationMethod || 'DIFFERENCES'}
+                      onChange={(e) => handleRectificationMethodChange(e.target.value as RectificationMethod)}
+                      className="w-full px-3 py-2 border border-amber-300 rounded-lg bg-white text-sm focus:outline-none focus:ring-2 focus:ring-amber-500"
+                    >
+                      {(Object.keys(RECTIFICATION_METHODS) as RectificationMethod[]).map(method => (
+                        <option key={method} value={method}>{RECTIFICATION_METHODS[method]}</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+                <p className="text-xs text-amber-800">
+                  {formData.rectificationMethod === 'SUBSTITUTION'
+                    ? 'Indica los importes correctos completos: sustituyen a los de la factura original.'
+                    : 'Indica solo la diferencia (en negativo si reduce). Por defecto se anula la factura completa.'}
+                </p>
+              </div>
+            )}
             <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
               <div>
-                <label className="block text-sm font-medium text-slate-700 mb-1">
-                  {activeTab === 'income' ? 'Número Factura' : 'Nº Registro Interno'}
-                </label>
+                <div className="flex justify-between items-center mb-1">
+                  <label className="block text-sm font-medium text-slate-700">
+                    {activeTab === 'income' ? 'Número Factura' : 'Nº Registro Interno'}
+                  </label>
+                  <div className="flex items-center gap-1">
+                    <select
+                      value={(formData.seriesId && invoiceSeries.some(s => s.id === formData.seriesId) ? formData.seriesId : findSeriesOfNumber(invoiceSeries, formData.type || InvoiceType.INCOME, formData.number || '')?.id) || ''}
+                      onChange={(e) => handleSeriesChange(e.target.value)}
+                      className="text-xs border border-slate-200 rounded px-1 py-0.5 text-slate-600 bg-white"
+                      title="Serie de numeración"
+                    >
+                      <option value="" disabled>Sin serie</option>
+                      {invoiceSeries
+                        .filter(s => s.type === (activeTab === 'income' ? InvoiceType.INCOME : InvoiceType.EXPENSE))
+                        .map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                    </select>
+                    <button
+                      type="button"
+                      onClick={() => setIsSeriesManagerOpen(true)}
+                      className="p-1 text-slate-400 hover:text-indigo-600"
+                      title="Configurar series"
+                    >
+                      <Hash className="h-3.5 w-3.5" />
+                    </button>
+                  </div>
+                </div>
                 <div className="relative">
                     <input
                     type="text"
@@ -1193,7 +1590,7 @@ Total Factura: ${formatNumber(totalAmount)}
                     onChange={handleInputChange}
                     className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500"
                     required
-                    placeholder={activeTab === 'income' ? "A-25-1" : "R-25-1"}
+                    placeholder={calculateNextNumber(activeTab === 'income' ? InvoiceType.INCOME : InvoiceType.EXPENSE, formData.seriesId, formData.date)}
                     autoComplete="off"
                     />
                     <datalist id="invoiceNumbers">
@@ -1245,6 +1642,22 @@ Total Factura: ${formatNumber(totalAmount)}
                   required
                 />
               </div>
+
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Vencimiento</label>
+                <input
+                  type="date"
+                  name="dueDate"
+                  value={formData.dueDate || ''}
+                  onChange={handleInputChange}
+                  className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                />
+                {!formData.dueDate && formData.date && (
+                  <p className="text-xs text-slate-400 mt-1">
+                    Vacío: {formatDate(calculateDueDate(formData.date, formContact))} ({getPaymentTermDays(formContact)} días{formContact?.paymentTermDays === undefined ? ' por defecto' : ' del contacto'})
+                  </p>
+                )}
+              </div>
             </div>
 
             <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
@@ -1325,6 +1738,21 @@ Total Factura: ${formatNumber(totalAmount)}
               />
             </div>
 
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Expediente</label>
+              <select
+                name="matterId"
+                value={formData.matterId || ''}
+                onChange={(e) => setFormData({ ...formData, matterId: e.target.value || undefined })}
+                className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              >
+                <option value="">Sin expediente</option>
+                {formMatters.map(m => (
+                  <option key={m.id} value={m.id}>{getMatterLabel(m)}{activeTab === 'expense' ? ` (${m.clientName})` : ''}</option>
+                ))}
+              </select>
+            </div>
+
             <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
                 <div>
                     <label className="block text-sm font-medium text-slate-700 mb-1">Categoría (Etiqueta)</label>
@@ -1378,6 +1806,33 @@ Total Factura: ${formatNumber(totalAmount)}
                                 {IVA_EXPENSE_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
                             </select>
                         </div>
+                        {formData.irpfExpenseType === RENTAL_EXPENSE_TYPE && (
+                            <>
+                                <div>
+                                    <label className="block text-sm font-medium text-slate-700 mb-1">Referencia Catastral</label>
+                                    <input
+                                        type="text"
+                                        name="propertyCadastralRef"
+                                        value={formData.propertyCadastralRef || ''}
+                                        onChange={handleInputChange}
+                                        maxLength={20}
+                                        placeholder="20 caracteres"
+                                        className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 text-sm uppercase"
+                                    />
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-medium text-slate-700 mb-1">Dirección del Inmueble</label>
+                                    <input
+                                        type="text"
+                                        name="propertyAddress"
+                                        value={formData.propertyAddress || ''}
+                                        onChange={handleInputChange}
+                                        placeholder="Calle, número, CP y municipio del despacho"
+                                        className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 text-sm"
+                                    />
+                                </div>
+                            </>
+                        )}
                     </>
                 )}
             </div>
@@ -1506,7 +1961,9 @@ Total Factura: ${formatNumber(totalAmount)}
                                 name="retainer"
                                 value={formData.retainer || 0}
                                 onChange={handleInputChange}
-                                className="w-full pl-2 pr-6 py-1 border border-slate-300 rounded focus:outline-none focus:ring-2 focus:ring-indigo-500 text-red-600"
+                                readOnly={!!formData.appliedProvisions?.length}
+                                title={formData.appliedProvisions?.length ? 'Suma de las provisiones aplicadas' : undefined}
+                                className="w-full pl-2 pr-6 py-1 border border-slate-300 rounded focus:outline-none focus:ring-2 focus:ring-indigo-500 text-red-600 read-only:bg-slate-50"
                             />
                              <span className="absolute right-2 top-1 text-slate-400">€</span>
                          </div>
@@ -1519,6 +1976,45 @@ Total Factura: ${formatNumber(totalAmount)}
                )}
             </div>
 
+            {activeTab === 'income' && provisionOptions.length > 0 && (
+              <div className="p-3 bg-indigo-50 border border-indigo-100 rounded-lg space-y-2">
+                <div className="text-xs font-semibold text-indigo-800">Provisiones de fondos del cliente pendientes de aplicar</div>
+                {provisionOptions.map(provision => {
+                  const application = formData.appliedProvisions?.find(a => a.provisionId === provision.id);
+                  return (
+                    <div key={provision.id} className="flex flex-wrap items-center gap-3 text-sm">
+                      <label className="flex items-center gap-2 flex-1 min-w-[240px] cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={!!application}
+                          onChange={() => toggleProvision(provision)}
+                          className="w-4 h-4 text-indigo-600 rounded focus:ring-indigo-500"
+                        />
+                        <span className="font-mono text-xs">{provision.number}</span>
+                        <span className="text-slate-500">{provision.date.split('-').reverse().join('/')}</span>
+                        <span className="text-slate-700 truncate">{provision.matter || provision.concept}</span>
+                      </label>
+                      <span className="text-xs text-slate-500">
+                        Pendiente {formatCurrency(getProvisionBalance(provision, invoices, editingId || undefined))}
+                      </span>
+                      {application && (
+                        <div className="relative w-28">
+                          <input
+                            type="number"
+                            step="0.01"
+                            value={application.amount}
+                            onChange={(e) => updateProvisionAmount(provision.id, parseFloat(e.target.value) || 0)}
+                            className="w-full pl-2 pr-6 py-1 border border-slate-300 rounded focus:outline-none focus:ring-2 focus:ring-indigo-500 text-right"
+                          />
+                          <span className="absolute right-2 top-1 text-slate-400">€</span>
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
             {activeTab === 'expense' && (
               <div className="flex items-center gap-4">
                  <div className="flex items-center gap-2 p-3 bg-slate-50 rounded-lg border border-slate-200">
@@ -1554,9 +2050,14 @@ Total Factura: ${formatNumber(totalAmount)}
                     <Button type="button" variant="secondary" onClick={handleGeneratePDF}>
                         <FileText className="h-5 w-5" /> Generar PDF
                     </Button>
-                    <Button type="button" variant="secondary" onClick={handleLinkToAEAT} title="Copiar datos y abrir web AEAT">
-                        <ExternalLink className="h-5 w-5 text-indigo-600" /> AEAT/Verifactu
+                    <Button type="button" variant="secondary" onClick={handleVerifactuSubmit} title="Enviar los registros VERI*FACTU pendientes">
+                        <ShieldCheck className="h-5 w-5 text-indigo-600" /> Enviar VERI*FACTU
                     </Button>
+                    {editingId && (
+                        <Button type="button" variant="secondary" onClick={openFacturaeModal} title="Factura electrónica Facturae 3.2.2 para FACe (versión guardada)">
+                            <FileCode className="h-5 w-5 text-indigo-600" /> Facturae
+                        </Button>
+                    )}
                   </>
               )}
               <Button type="submit" className="flex-1">
@@ -1605,6 +2106,18 @@ Total Factura: ${formatNumber(totalAmount)}
                     <option value="EXPENSE">Gastos</option>
                 </select>
 
+                <select
+                    value={filterPayment}
+                    onChange={(e) => setFilterPayment(e.target.value as typeof filterPayment)}
+                    className="text-sm border-slate-300 rounded-lg focus:ring-indigo-500 min-w-[140px]"
+                    title="Situación de cobro / pago"
+                >
+                    <option value="ALL">Cobradas y pendientes</option>
+                    <option value="UNPAID">Pendientes de cobro/pago</option>
+                    <option value="OVERDUE">Vencidas</option>
+                    <option value="PAID">Cobradas / pagadas</option>
+                </select>
+
                 <input
                     type="text"
                     placeholder="Filtrar categoría..."
@@ -1629,13 +2142,14 @@ Total Factura: ${formatNumber(totalAmount)}
                     className="text-sm border-slate-300 rounded-lg focus:ring-indigo-500 px-2 py-1 min-w-[120px]"
                 />
                 
-                {(filterCategory || filterEntity || filterNif || filterType !== 'ALL' || filterYear !== new Date().getFullYear()) && (
+                {(filterCategory || filterEntity || filterNif || filterType !== 'ALL' || filterPayment !== 'ALL' || filterYear !== new Date().getFullYear()) && (
                     <button 
                         onClick={() => {
                             setFilterType('ALL');
                             setFilterCategory('');
                             setFilterEntity('');
                             setFilterNif('');
+                            setFilterPayment('ALL');
                             setFilterYear(new Date().getFullYear());
                         }}
                         className="flex items-center text-xs text-slate-500 hover:text-indigo-600 underline ml-1"
@@ -1675,8 +2189,8 @@ Total Factura: ${formatNumber(totalAmount)}
                 <Button onClick={() => setIsBulkImportOpen(true)} variant="secondary" className="text-xs h-8">
                     <Upload className="h-3 w-3" /> Importar CSV/Excel
                 </Button>
-                <Button onClick={runAudit} variant="secondary" className="text-xs h-8" disabled={isAuditing}>
-                    {isAuditing ? 'Auditando...' : 'Auditar Libros'}
+                <Button onClick={runAudit} variant="secondary" className="text-xs h-8">
+                    <ShieldCheck className="h-3 w-3" /> Auditar Libros
                 </Button>
                 <Button onClick={exportToCSV} variant="secondary" className="text-xs h-8">
                     <Download className="h-3 w-3" /> Exportar CSV
@@ -1705,18 +2219,34 @@ Total Factura: ${formatNumber(totalAmount)}
           )}
             
           {/* Audit Results */}
-          {auditResults.length > 0 && (
-             <div className="p-4 bg-amber-50 border-b border-amber-100">
-                <h4 className="text-sm font-bold text-amber-800 mb-2 flex items-center gap-2">
-                    <AlertTriangle className="h-4 w-4"/> Auditoría IA: Alertas Detectadas
-                </h4>
+          {auditResults && (
+             <div className={`p-4 border-b ${auditResults.length > 0 ? 'bg-amber-50 border-amber-100' : 'bg-emerald-50 border-emerald-100'}`}>
+                <div className="flex justify-between items-center mb-2">
+                    <h4 className={`text-sm font-bold flex items-center gap-2 ${auditResults.length > 0 ? 'text-amber-800' : 'text-emerald-800'}`}>
+                        {auditResults.length > 0
+                            ? <><AlertTriangle className="h-4 w-4"/> Auditoría: {auditResults.length} alertas detectadas</>
+                            : <><Check className="h-4 w-4"/> Auditoría: sin incidencias en las reglas automáticas</>}
+                    </h4>
+                    <div className="flex items-center gap-2">
+                        <Button onClick={runAiAudit} variant="secondary" className="text-xs h-7" disabled={isAuditing}>
+                            <Wand2 className="h-3 w-3" /> {isAuditing ? 'Revisando...' : 'Segunda revisión con IA'}
+                        </Button>
+                        <button onClick={() => setAuditResults(null)} className="text-slate-400 hover:text-slate-600">
+                            <X className="h-4 w-4" />
+                        </button>
+                    </div>
+                </div>
                 <ul className="space-y-1">
                     {auditResults.map((alert, i) => (
                         <li key={i} className="text-xs text-amber-700 flex items-start gap-2">
                             <span className={`px-1.5 rounded text-[10px] font-bold ${alert.severity === 'HIGH' ? 'bg-red-200 text-red-800' : 'bg-amber-200 text-amber-800'}`}>
                                 {alert.severity}
                             </span>
-                            {alert.message} (ID: {alert.invoiceId})
+                            <span className="px-1.5 rounded text-[10px] font-bold bg-slate-200 text-slate-700">
+                                {alert.source === 'AI' ? 'IA' : 'REGLA'}
+                            </span>
+                            {alert.message}
+                            {alert.source === 'AI' && ` (${invoices.find(inv => inv.id === alert.invoiceId)?.number || alert.invoiceId})`}
                         </li>
                     ))}
                 </ul>
@@ -1769,6 +2299,7 @@ Total Factura: ${formatNumber(totalAmount)}
                   <th className="p-4 min-w-[110px] text-right">Cuota IVA</th>
                   <th className="p-4 min-w-[110px] text-right">Cuota IRPF</th>
                   <th className="p-4 min-w-[120px] text-right">Total</th>
+                  <th className="p-4 min-w-[120px]">Cobro / Pago</th>
                   <th className="p-4 text-center">Deducible</th>
                   <th className="p-4 text-right">Acciones</th>
                 </tr>
@@ -1784,16 +2315,36 @@ Total Factura: ${formatNumber(totalAmount)}
                             className="w-4 h-4 text-indigo-600 rounded focus:ring-indigo-500 cursor-pointer"
                         />
                     </td>
-                    <td className="p-4 text-slate-500 whitespace-nowrap">{formatDate(inv.date)}</td>
+                    <td className="p-4 text-slate-500 whitespace-nowrap">
+                        {formatDate(inv.date)}
+                        {findPeriodLock(periodLocks, inv.date) && <Lock className="inline h-3 w-3 ml-1 text-slate-400" aria-label="Periodo cerrado" />}
+                    </td>
                     <td className="p-4 font-medium text-indigo-600 whitespace-nowrap">
                         {inv.number}
+                        {registeredInvoiceIds.has(inv.id) && (
+                            <span className="ml-2 px-1.5 py-0.5 bg-emerald-50 text-emerald-700 rounded text-[10px] font-bold" title="Registro de alta VERI*FACTU generado">VF</span>
+                        )}
+                        {inv.rectifiedInvoiceId && (
+                            <div className="text-[10px] text-amber-700">Rectifica {inv.rectifiedInvoiceNumber} ({inv.rectificationReason})</div>
+                        )}
+                        {inv.type === InvoiceType.INCOME && getRectificationsOf(invoices, inv.id).length > 0 && (
+                            <div className="text-[10px] text-amber-700">Rectificada por {getRectificationsOf(invoices, inv.id).map(r => r.number).join(', ')}</div>
+                        )}
                         {inv.supplierNumber && <div className="text-[10px] text-slate-400">Prov: {inv.supplierNumber}</div>}
                     </td>
                     <td className="p-4">
                         <div className="font-medium text-slate-900">{inv.entityName}</div>
                         <div className="text-xs text-slate-400">{inv.nif}</div>
                     </td>
-                    <td className="p-4 text-slate-600 max-w-xs truncate">{inv.concept}</td>
+                    <td className="p-4 text-slate-600 max-w-xs truncate">
+                        {inv.concept}
+                        {inv.matterId && matters.find(m => m.id === inv.matterId) && (
+                            <div className="text-[10px] text-indigo-600">{matters.find(m => m.id === inv.matterId)!.reference}</div>
+                        )}
+                        {inv.quoteId && quotes.find(q => q.id === inv.quoteId) && (
+                            <div className="text-[10px] text-emerald-600">Presupuesto {quotes.find(q => q.id === inv.quoteId)!.number}</div>
+                        )}
+                    </td>
                     <td className="p-4">
                         {inv.category && (
                             <span className="px-2 py-1 bg-slate-100 text-slate-600 rounded-full text-xs">
@@ -1805,6 +2356,16 @@ Total Factura: ${formatNumber(totalAmount)}
                     <td className="p-4 text-right font-mono text-slate-500 whitespace-nowrap">{formatCurrency(inv.ivaAmount)}</td>
                     <td className="p-4 text-right font-mono text-slate-500 whitespace-nowrap">{formatCurrency(inv.irpfAmount)}</td>
                     <td className="p-4 text-right font-bold font-mono whitespace-nowrap">{formatCurrency(inv.totalAmount)}</td>
+                    <td className="p-4 whitespace-nowrap">
+                        <span className={`px-2 py-0.5 rounded text-xs font-semibold ${PAYMENT_STATUS_STYLES[getPaymentStatus(inv, invoices)]}`}>
+                            {PAYMENT_STATUS_LABELS[inv.type][getPaymentStatus(inv, invoices)]}
+                        </span>
+                        {getPaymentStatus(inv, invoices) !== 'PAID' && (
+                            <div className="text-[10px] text-slate-400 mt-1">
+                                {formatCurrency(getOutstandingAmount(inv, invoices))} · vence {formatDate(getDueDate(inv))}
+                            </div>
+                        )}
+                    </td>
                     <td className="p-4 text-center">
                         {inv.type === InvoiceType.EXPENSE && (
                             inv.deductible 
@@ -1853,6 +2414,31 @@ Total Factura: ${formatNumber(totalAmount)}
                          >
                              <Edit className="h-4 w-4" />
                          </button>
+                         <button
+                            onClick={() => setPaymentsInvoiceId(inv.id)}
+                            className="p-1 hover:bg-emerald-50 text-emerald-600 rounded"
+                            title={inv.type === InvoiceType.INCOME ? 'Cobros' : 'Pagos'}
+                         >
+                             <Wallet className="h-4 w-4" />
+                         </button>
+                         {inv.type === InvoiceType.INCOME && (
+                             <button
+                                onClick={() => startRectification(inv)}
+                                className="p-1 hover:bg-amber-50 text-amber-600 rounded"
+                                title="Emitir factura rectificativa"
+                             >
+                                 <FileMinus className="h-4 w-4" />
+                             </button>
+                         )}
+                         {registeredInvoiceIds.has(inv.id) && (
+                             <button
+                                onClick={() => handleCancelRegistration(inv)}
+                                className="p-1 hover:bg-red-50 text-red-500 rounded"
+                                title="Anular registro VERI*FACTU"
+                             >
+                                 <Ban className="h-4 w-4" />
+                             </button>
+                         )}
                          <button 
                             onClick={() => setInvoiceToDelete(inv.id)}
                             className="p-1 hover:bg-red-50 text-red-500 rounded"
@@ -1866,7 +2452,7 @@ Total Factura: ${formatNumber(totalAmount)}
                 ))}
                 {filteredInvoices.length === 0 && (
                     <tr>
-                        <td colSpan={12} className="p-8 text-center text-slate-400">
+                        <td colSpan={13} className="p-8 text-center text-slate-400">
                             No se encontraron facturas con los filtros actuales.
                         </td>
                     </tr>
@@ -1993,6 +2579,83 @@ Total Factura: ${formatNumber(totalAmount)}
         </div>
       )}
 
+      {/* Invoice Series Modal */}
+      {paymentsInvoice && (
+        <InvoicePaymentsModal
+          invoice={paymentsInvoice}
+          invoices={invoices}
+          onSave={savePayments}
+          onClose={() => setPaymentsInvoiceId(null)}
+        />
+      )}
+
+      {isSeriesManagerOpen && (
+        <InvoiceSeriesManager
+          series={invoiceSeries}
+          invoices={invoices}
+          onSave={setInvoiceSeries}
+          onClose={() => setIsSeriesManagerOpen(false)}
+        />
+      )}
+
+      {/* Facturae Export Modal */}
+      {facturaeInvoice && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4 animate-in fade-in duration-200">
+             <div className="bg-white rounded-xl shadow-2xl max-w-md w-full p-6 space-y-4">
+                 <div className="flex justify-between items-center">
+                     <h3 className="text-lg font-bold text-slate-900 flex items-center gap-2">
+                         <FileCode className="h-5 w-5 text-indigo-600" /> Exportar Facturae 3.2.2
+                     </h3>
+                     <button onClick={() => setFacturaeInvoice(null)} className="text-slate-400 hover:text-slate-600">
+                         <X className="h-5 w-5" />
+                     </button>
+                 </div>
+                 <p className="text-sm text-slate-600">
+                     Factura <span className="font-semibold">{facturaeInvoice.number}</span> a {facturaeInvoice.entityName}.
+                 </p>
+                 <label className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer">
+                     <input type="checkbox" checked={facturaeSign} onChange={(e) => setFacturaeSign(e.target.checked)} />
+                     Firmar con certificado electrónico (XAdES), necesario para FACe
+                 </label>
+                 {facturaeSign && (
+                     <div className="space-y-3 border border-slate-200 rounded-lg p-3 bg-slate-50">
+                         <div>
+                             <label className="block text-xs font-medium text-slate-600 mb-1">Certificado (.p12 / .pfx)</label>
+                             <input
+                                 type="file"
+                                 accept=".p12,.pfx"
+                                 onChange={(e) => setFacturaeCertificate(e.target.files?.[0] || null)}
+                                 className="w-full text-sm"
+                             />
+                         </div>
+                         <div>
+                             <label className="block text-xs font-medium text-slate-600 mb-1">Contraseña del certificado</label>
+                             <div className="relative">
+                                 <KeyRound className="absolute left-3 top-2.5 h-4 w-4 text-slate-400" />
+                                 <input
+                                     type="password"
+                                     value={facturaePassword}
+                                     onChange={(e) => setFacturaePassword(e.target.value)}
+                                     className="w-full pl-9 pr-3 py-2 border border-slate-300 rounded-lg focus:ring-indigo-500 focus:border-indigo-500"
+                                     autoComplete="off"
+                                 />
+                             </div>
+                         </div>
+                         <p className="text-xs text-slate-500">El certificado se usa solo en este navegador y no se guarda.</p>
+                     </div>
+                 )}
+                 <div className="flex gap-3 pt-2">
+                     <Button variant="secondary" onClick={() => setFacturaeInvoice(null)} className="flex-1">
+                         Cancelar
+                     </Button>
+                     <Button onClick={handleFacturaeExport} className="flex-1">
+                         <Download className="h-4 w-4" /> {facturaeSign ? 'Firmar y descargar' : 'Descargar XML'}
+                     </Button>
+                 </div>
+             </div>
+        </div>
+      )}
+
       {/* Delete Confirmation Modal (Single) */}
       {invoiceToDelete && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4 animate-in fade-in duration-200">
@@ -2005,8 +2668,26 @@ Total Factura: ${formatNumber(totalAmount)}
                      <p className="text-slate-600">
                          ¿Estás seguro de que deseas eliminar esta factura? Esta acción no se puede deshacer.
                      </p>
+                     {invoices.find(i => i.id === invoiceToDelete)?.type === InvoiceType.INCOME && (
+                         <div className="w-full p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-900 text-left">
+                             Una factura emitida no debe eliminarse para anularla: emite una rectificativa que la anule.
+                             <button
+                                 onClick={() => startRectification(invoices.find(i => i.id === invoiceToDelete)!)}
+                                 className="mt-2 flex items-center gap-1 font-semibold text-amber-700 hover:text-amber-900"
+                             >
+                                 <FileMinus className="h-4 w-4" /> Emitir rectificativa
+                             </button>
+                         </div>
+                     )}
+                     <input
+                         type="text"
+                         value={deleteReason}
+                         onChange={(e) => setDeleteReason(e.target.value)}
+                         placeholder="Motivo (se guarda en el historial de cambios)"
+                         className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-red-500"
+                     />
                      <div className="flex gap-3 w-full mt-4">
-                         <Button variant="secondary" onClick={() => setInvoiceToDelete(null)} className="flex-1">
+                         <Button variant="secondary" onClick={() => { setInvoiceToDelete(null); setDeleteReason(''); }} className="flex-1">
                              Cancelar
                          </Button>
                          <Button variant="danger" onClick={confirmDelete} className="flex-1">
@@ -2032,8 +2713,15 @@ Total Factura: ${formatNumber(totalAmount)}
                          <br/><br/>
                          ¿Deseas continuar?
                      </p>
+                     <input
+                         type="text"
+                         value={deleteReason}
+                         onChange={(e) => setDeleteReason(e.target.value)}
+                         placeholder="Motivo (se guarda en el historial de cambios)"
+                         className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-red-500"
+                     />
                      <div className="flex gap-3 w-full mt-4">
-                         <Button variant="secondary" onClick={() => setShowBulkDeleteConfirm(false)} className="flex-1">
+                         <Button variant="secondary" onClick={() => { setShowBulkDeleteConfirm(false); setDeleteReason(''); }} className="flex-1">
                              Cancelar
                          </Button>
                          <Button variant="danger" onClick={confirmBulkDelete} className="flex-1">
@@ -0,0 +1,144 @@
+import React, { useState } from 'react';
+import { Invoice, InvoicePayment, InvoiceType, PaymentMethod } from '../types';
+import { Wallet, Plus, Trash2, X, Landmark } from 'lucide-react';
+import { Button } from './Button';
+import { PAYMENT_METHODS, getDueDate, getOutstandingAmount } from '../services/paymentService';
+import { roundAmount } from '../services/taxService';
+
+interface InvoicePaymentsModalProps {
+  invoice: Invoice;
+  invoices: Invoice[]; // The book, to net the invoice with its rectificativas
+  onSave: (payments: InvoicePayment[]) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full px-2 py-1.5 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+const formatCurrency = (val: number) =>
+  new Intl.NumberFormat('es-ES', { style: 'currency', currency: 'EUR' }).format(val);
+
+const formatDate = (date: string) => date.split('-').reverse().join('/');
+
+export const InvoicePaymentsModal: React.FC<InvoicePaymentsModalProps> = ({ invoice, invoices, onSave, onClose }) => {
+  const [draft, setDraft] = useState<InvoicePayment[]>(invoice.payments || []);
+  const outstanding = getOutstandingAmount({ ...invoice, payments: draft }, invoices);
+  const [newPayment, setNewPayment] = useState({
+    date: new Date().toISOString().split('T')[0],
+    amount: outstanding,
+    method: 'TRANSFER' as PaymentMethod,
+    note: ''
+  });
+
+  const isIncome = invoice.type === InvoiceType.INCOME;
+
+  const addPayment = () => {
+    const amount = roundAmount(newPayment.amount);
+    if (!amount) return;
+    if (Math.abs(amount) > Math.abs(outstanding) + 0.01 &&
+        !window.confirm(`El importe supera lo pendiente (${formatCurrency(outstanding)}). ¿Registrarlo igualmente?`)) return;
+
+    const next = [...draft, { id: crypto.randomUUID(), date: newPayment.date, amount, method: newPayment.method, note: newPayment.note.trim() || undefined }];
+    setDraft(next);
+    setNewPayment(prev => ({ ...prev, amount: getOutstandingAmount({ ...invoice, payments: next }, invoices), note: '' }));
+  };
+
+  const removePayment = (id: string) => {
+    const next = draft.filter(p => p.id !== id);
+    setDraft(next);
+    setNewPayment(prev => ({ ...prev, amount: getOutstandingAmount({ ...invoice, payments: next }, invoices) }));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4 animate-in fade-in duration-200">
+      <div className="bg-white rounded-xl shadow-2xl max-w-2xl w-full p-6 space-y-5 max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center">
+          <h3 className="text-lg font-bold text-slate-900 flex items-center gap-2">
+            <Wallet className="h-5 w-5 text-emerald-600" /> {isIncome ? 'Cobros' : 'Pagos'} de {invoice.number}
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-3 gap-3 text-sm">
+          <div className="p-3 bg-slate-50 rounded-lg">
+            <div className="text-xs text-slate-500">{isIncome && invoice.retainer ? 'Total - provisión de fondos' : 'Total'}</div>
+            <div className="font-bold text-slate-800">{formatCurrency(roundAmount(invoice.totalAmount - (isIncome ? invoice.retainer || 0 : 0)))}</div>
+          </div>
+          <div className="p-3 bg-slate-50 rounded-lg">
+            <div className="text-xs text-slate-500">Pendiente</div>
+            <div className={`font-bold ${Math.abs(outstanding) > 0.01 ? 'text-amber-600' : 'text-emerald-600'}`}>{formatCurrency(outstanding)}</div>
+          </div>
+          <div className="p-3 bg-slate-50 rounded-lg">
+            <div className="text-xs text-slate-500">Vencimiento</div>
+            <div className="font-bold text-slate-800">{formatDate(getDueDate(invoice))}</div>
+          </div>
+        </div>
+
+        {draft.length === 0 ? (
+          <p className="text-sm text-slate-400 text-center py-4">Sin {isIncome ? 'cobros' : 'pagos'} registrados.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="bg-slate-50 text-xs text-slate-500 uppercase">
+              <tr>
+                <th className="text-left p-2">Fecha</th>
+                <th className="text-left p-2">Forma de pago</th>
+                <th className="text-left p-2">Nota</th>
+                <th className="text-right p-2">Importe</th>
+                <th className="p-2 w-8"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {draft.map(payment => (
+                <tr key={payment.id}>
+                  <td className="p-2 font-mono text-xs">{formatDate(payment.date)}</td>
+                  <td className="p-2">{PAYMENT_METHODS[payment.method]}</td>
+                  <td className="p-2 text-slate-500 truncate max-w-[200px]" title={payment.note}>{payment.note}</td>
+                  <td className="p-2 text-right font-mono">{formatCurrency(payment.amount)}</td>
+                  <td className="p-2 text-center">
+                    {payment.bankMovementId ? (
+                      <span title="Conciliado con el banco: se deshace desde Banco"><Landmark className="h-4 w-4 text-slate-400" /></span>
+                    ) : (
+                      <button onClick={() => removePayment(payment.id)} className="text-red-500 hover:text-red-700" title="Eliminar">
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        <div className="border border-slate-200 rounded-lg p-3 bg-slate-50 grid grid-cols-2 md:grid-cols-5 gap-2 items-end">
+          <div>
+            <label className="block text-xs text-slate-500 mb-1">Fecha</label>
+            <input type="date" value={newPayment.date} onChange={(e) => setNewPayment({ ...newPayment, date: e.target.value })} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-xs text-slate-500 mb-1">Importe</label>
+            <input type="number" step="0.01" value={newPayment.amount} onChange={(e) => setNewPayment({ ...newPayment, amount: parseFloat(e.target.value) || 0 })} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-xs text-slate-500 mb-1">Forma de pago</label>
+            <select value={newPayment.method} onChange={(e) => setNewPayment({ ...newPayment, method: e.target.value as PaymentMethod })} className={`${inputClass} bg-white`}>
+              {Object.entries(PAYMENT_METHODS).map(([key, label]) => <option key={key} value={key}>{label}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs text-slate-500 mb-1">Nota</label>
+            <input value={newPayment.note} onChange={(e) => setNewPayment({ ...newPayment, note: e.target.value })} className={inputClass} />
+          </div>
+          <Button variant="secondary" onClick={addPayment} className="text-sm">
+            <Plus className="h-4 w-4" /> Añadir
+          </Button>
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="secondary" onClick={onClose}>Cancelar</Button>
+          <Button onClick={() => onSave(draft)}>Guardar</Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,179 @@
+import React, { useState } from 'react';
+import { Invoice, InvoiceSeries, InvoiceType } from '../types';
+import { Hash, Plus, Trash2, X, AlertTriangle, Check } from 'lucide-react';
+import { Button } from './Button';
+import { SERIES_TOKENS, checkSeriesIntegrity, getNextSeriesNumber, isSeriesInUse, validateSeriesList } from '../services/seriesService';
+
+interface InvoiceSeriesManagerProps {
+  series: InvoiceSeries[];
+  invoices: Invoice[];
+  onSave: (series: InvoiceSeries[]) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full px-2 py-1.5 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+export const InvoiceSeriesManager: React.FC<InvoiceSeriesManagerProps> = ({ series, invoices, onSave, onClose }) => {
+  const [draft, setDraft] = useState<InvoiceSeries[]>(series);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  // Series with invoices cannot be deleted: their numbers would stop being checked
+  const usedIds = new Set(series.filter(s => isSeriesInUse(s, invoices)).map(s => s.id));
+
+  const updateSeries = (id: string, changes: Partial<InvoiceSeries>) => {
+    setDraft(prev => prev.map(s => {
+      if (s.id === id) return { ...s, ...changes };
+      // Only one default per type and one rectificativas series
+      if (changes.isDefault && s.type === prev.find(t => t.id === id)!.type) return { ...s, isDefault: false };
+      if (changes.isRectification) return { ...s, isRectification: false };
+      return s;
+    }));
+  };
+
+  const addSeries = (type: InvoiceType) => {
+    setDraft(prev => [...prev, {
+      id: crypto.randomUUID(),
+      name: '',
+      type,
+      prefix: '',
+      pattern: '{SERIE}-{AA}-{N}',
+      sequencePadding: 0,
+      reset: 'YEARLY',
+      isDefault: !prev.some(s => s.type === type)
+    }]);
+  };
+
+  const removeSeries = (id: string) => {
+    setDraft(prev => prev.filter(s => s.id !== id));
+  };
+
+  const handleSave = () => {
+    const validation = validateSeriesList(draft);
+    setErrors(validation);
+    if (validation.length > 0) return;
+    onSave(draft);
+    onClose();
+  };
+
+  const renderGroup = (type: InvoiceType, title: string) => (
+    <div className="space-y-3">
+      <div className="flex justify-between items-center">
+        <h4 className="text-sm font-bold text-slate-400 uppercase tracking-wider">{title}</h4>
+        <button onClick={() => addSeries(type)} className="text-xs font-semibold text-indigo-600 hover:text-indigo-800 flex items-center gap-1">
+          <Plus className="h-3 w-3" /> Añadir serie
+        </button>
+      </div>
+      {draft.filter(s => s.type === type).map(s => {
+        const saved = series.find(original => original.id === s.id);
+        const integrity = saved && checkSeriesIntegrity(saved, invoices);
+        const isValid = s.pattern.includes('{N}');
+        return (
+          <div key={s.id} className="border border-slate-200 rounded-lg p-3 space-y-3 bg-slate-50">
+            <div className="grid grid-cols-2 md:grid-cols-6 gap-2">
+              <div className="md:col-span-2">
+                <label className="block text-xs text-slate-500 mb-1">Nombre</label>
+                <input value={s.name} onChange={(e) => updateSeries(s.id, { name: e.target.value })} className={inputClass} />
+              </div>
+              <div>
+                <label className="block text-xs text-slate-500 mb-1">Prefijo</label>
+                <input value={s.prefix} onChange={(e) => updateSeries(s.id, { prefix: e.target.value.toUpperCase() })} className={inputClass} />
+              </div>
+              <div className="md:col-span-2">
+                <label className="block text-xs text-slate-500 mb-1">Patrón</label>
+                <input value={s.pattern} onChange={(e) => updateSeries(s.id, { pattern: e.target.value })} className={`${inputClass} font-mono`} />
+              </div>
+              <div>
+                <label className="block text-xs text-slate-500 mb-1">Dígitos nº</label>
+                <input
+                  type="number"
+                  min={0}
+                  max={10}
+                  value={s.sequencePadding}
+                  onChange={(e) => updateSeries(s.id, { sequencePadding: Math.max(0, Math.min(10, parseInt(e.target.value, 10) || 0)) })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+            <div className="flex flex-wrap items-center gap-4 text-sm text-slate-700">
+              <select
+                value={s.reset}
+                onChange={(e) => updateSeries(s.id, { reset: e.target.value as InvoiceSeries['reset'] })}
+                className="px-2 py-1 border border-slate-300 rounded-lg text-sm bg-white"
+              >
+                <option value="YEARLY">Reinicia cada año</option>
+                <option value="NEVER">Numeración continua</option>
+              </select>
+              <label className="flex items-center gap-1 cursor-pointer">
+                <input type="radio" checked={!!s.isDefault} onChange={() => updateSeries(s.id, { isDefault: true })} />
+                Por defecto
+              </label>
+              {type === InvoiceType.INCOME && (
+                <label className="flex items-center gap-1 cursor-pointer">
+                  <input type="checkbox" checked={!!s.isRectification} onChange={(e) => updateSeries(s.id, { isRectification: e.target.checked })} />
+                  Rectificativas
+                </label>
+              )}
+              <span className="text-xs text-slate-500">
+                Siguiente: <span className="font-mono font-semibold text-slate-700">{isValid ? getNextSeriesNumber(s, invoices) : '—'}</span>
+              </span>
+              <button
+                onClick={() => removeSeries(s.id)}
+                disabled={usedIds.has(s.id)}
+                title={usedIds.has(s.id) ? 'La serie tiene facturas' : 'Eliminar serie'}
+                className="ml-auto text-slate-400 hover:text-red-600 disabled:opacity-30 disabled:hover:text-slate-400"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+            {integrity && (integrity.duplicateCount > 0 || integrity.missingCount > 0 ? (
+              <div className="text-xs text-amber-800 bg-amber-50 border border-amber-200 rounded p-2 space-y-1">
+                {[...integrity.duplicates, ...integrity.gaps].map(message => (
+                  <div key={message} className="flex gap-1"><AlertTriangle className="h-3 w-3 mt-0.5 shrink-0" /> {message}</div>
+                ))}
+              </div>
+            ) : (
+              <div className="text-xs text-emerald-700 flex items-center gap-1"><Check className="h-3 w-3" /> Numeración correlativa, sin saltos ni duplicados.</div>
+            ))}
+          </div>
+        );
+      })}
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4 animate-in fade-in duration-200">
+      <div className="bg-white rounded-xl shadow-2xl max-w-3xl w-full p-6 space-y-5 max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center">
+          <h3 className="text-lg font-bold text-slate-900 flex items-center gap-2">
+            <Hash className="h-5 w-5 text-indigo-600" /> Series de facturación
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+        <p className="text-xs text-slate-500">
+          Variables del patrón: {SERIES_TOKENS.join(', ')} (prefijo, año con 4 o 2 cifras y número secuencial).
+          Cada serie debe ser correlativa dentro de su periodo de numeración.
+        </p>
+
+        {renderGroup(InvoiceType.INCOME, 'Facturas emitidas')}
+        {renderGroup(InvoiceType.EXPENSE, 'Registro de facturas recibidas')}
+
+        {errors.length > 0 && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700 space-y-1">
+            {errors.map(error => <div key={error}>{error}</div>)}
+          </div>
+        )}
+
+        <div className="flex gap-3 pt-2">
+          <Button variant="secondary" onClick={onClose} className="flex-1">
+            Cancelar
+          </Button>
+          <Button onClick={handleSave} className="flex-1">
+            Guardar series
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,433 @@
+import React, { useMemo, useState } from 'react';
+import { Invoice, InvoiceType, Matter, MatterStatus } from '../types';
+import { FolderOpen, Plus, Search, Edit, Trash2, X } from 'lucide-react';
+import { Button } from './Button';
+import { fundProvisionRepository, matterRepository, timeEntryRepository } from '../services/storageService';
+import { MATTER_STATUS_LABELS, getMatterSummary, getNextMatterReference, isMatterInUse } from '../services/matterService';
+import { getOutstandingAmount } from '../services/paymentService';
+import { normalizeNif, validateSpanishNif } from '../services/validationService';
+import { useEntities } from '../hooks/useEntities';
+import { useStoredCollection } from '../hooks/useStoredState';
+
+interface MattersManagerProps {
+  invoices: Invoice[];
+}
+
+const formatCurrency = (val: number) =>
+  new Intl.NumberFormat('es-ES', { style: 'currency', currency: 'EUR' }).format(val);
+
+const formatDate = (date: string) => date.split('-').reverse().join('/');
+
+const inputClass = "w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+const STATUS_STYLES: Record<MatterStatus, string> = {
+  OPEN: 'bg-emerald-100 text-emerald-700',
+  SUSPENDED: 'bg-amber-100 text-amber-700',
+  CLOSED: 'bg-slate-100 text-slate-500'
+};
+
+const emptyMatter = (): Omit<Matter, 'id' | 'reference'> => ({
+  title: '',
+  nif: '',
+  clientName: '',
+  opposingParty: '',
+  court: '',
+  procedureNumber: '',
+  status: 'OPEN',
+  openingDate: new Date().toISOString().split('T')[0],
+  closingDate: '',
+  notes: ''
+});
+
+export const MattersManager: React.FC<MattersManagerProps> = ({ invoices }) => {
+  const [matters, setMatters] = useStoredCollection(matterRepository);
+  const [provisions] = useStoredCollection(fundProvisionRepository);
+  const [timeEntries] = useStoredCollection(timeEntryRepository);
+  const entities = useEntities();
+  const clients = entities.filter(e => e.type === 'CLIENT');
+
+  const [searchTerm, setSearchTerm] = useState('');
+  const [filterStatus, setFilterStatus] = useState<'ALL' | MatterStatus>('OPEN');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [editing, setEditing] = useState<Matter | null>(null);
+  const [formData, setFormData] = useState(emptyMatter());
+  const [isFormOpen, setIsFormOpen] = useState(false);
+
+  const filteredMatters = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+    return matters
+      .filter(m => filterStatus === 'ALL' || m.status === filterStatus)
+      .filter(m => !term || [m.reference, m.title, m.clientName, m.nif, m.opposingParty || '', m.court || '', m.procedureNumber || '']
+        .some(value => value.toLowerCase().includes(term)))
+      .sort((a, b) => b.openingDate.localeCompare(a.openingDate) || b.reference.localeCompare(a.reference, undefined, { numeric: true }));
+  }, [matters, searchTerm, filterStatus]);
+
+  const summaries = useMemo(
+    () => new Map(matters.map(m => [m.id, getMatterSummary(m, invoices, provisions)])),
+    [matters, invoices, provisions]
+  );
+
+  const selected = matters.find(m => m.id === selectedId);
+  const selectedSummary = selected ? summaries.get(selected.id) : undefined;
+  const selectedInvoices = selected
+    ? invoices.filter(inv => inv.matterId === selected.id).sort((a, b) => a.date.localeCompare(b.date))
+    : [];
+  const selectedProvisions = selected
+    ? provisions.filter(p => p.matterId === selected.id).sort((a, b) => a.date.localeCompare(b.date))
+    : [];
+
+  const openForm = (matter?: Matter) => {
+    setEditing(matter || null);
+    setFormData(matter ? { ...emptyMatter(), ...matter } : emptyMatter());
+    setIsFormOpen(true);
+  };
+
+  const handleClientName = (name: string) => {
+    const client = clients.find(c => c.name === name);
+    setFormData(prev => ({ ...prev, clientName: name, nif: client ? client.nif : prev.nif }));
+  };
+
+  const handleStatus = (status: MatterStatus) => {
+    setFormData(prev => ({
+      ...prev,
+      status,
+      closingDate: status === 'CLOSED' ? prev.closingDate || new Date().toISOString().split('T')[0] : ''
+    }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const nifError = validateSpanishNif(formData.nif);
+    if (nifError) {
+      alert(`NIF del cliente: ${nifError}`);
+      return;
+    }
+    if (editing && normalizeNif(formData.nif) !== normalizeNif(editing.nif) &&
+        invoices.some(inv => inv.matterId === editing.id && inv.type === InvoiceType.INCOME)) {
+      alert('El expediente ya tiene minutas emitidas a este cliente: no se puede cambiar de cliente.');
+      return;
+    }
+    if (formData.closingDate && formData.closingDate < formData.openingDate) {
+      alert('La fecha de cierre no puede ser anterior a la de apertura.');
+      return;
+    }
+
+    const matter: Matter = {
+      id: editing?.id || crypto.randomUUID(),
+      reference: editing?.reference || getNextMatterReference(matters, formData.openingDate),
+      title: formData.title.trim(),
+      nif: normalizeNif(formData.nif),
+      clientName: formData.clientName.trim(),
+      opposingParty: formData.opposingParty?.trim() || undefined,
+      court: formData.court?.trim() || undefined,
+      procedureNumber: formData.procedureNumber?.trim() || undefined,
+      status: formData.status,
+      openingDate: formData.openingDate,
+      closingDate: formData.status === 'CLOSED' ? formData.closingDate || undefined : undefined,
+      notes: formData.notes?.trim() || undefined
+    };
+    setMatters(prev => editing ? prev.map(m => m.id === editing.id ? matter : m) : [...prev, matter]);
+    setSelectedId(matter.id);
+    setIsFormOpen(false);
+  };
+
+  const handleDelete = (matter: Matter) => {
+    if (isMatterInUse(matter, invoices, provisions, timeEntries)) {
+      alert(`El expediente ${matter.reference} tiene facturas, provisiones o tiempos imputados. Ciérralo en lugar de eliminarlo.`);
+      return;
+    }
+    if (!window.confirm(`¿Eliminar el expediente ${matter.reference}?`)) return;
+    setMatters(prev => prev.filter(m => m.id !== matter.id));
+    if (selectedId === matter.id) setSelectedId(null);
+  };
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500">
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <div className="p-3 bg-slate-100 rounded-lg">
+            <FolderOpen className="h-6 w-6 text-slate-700" />
+          </div>
+          <div>
+            <h2 className="text-xl font-bold text-slate-800">Expedientes</h2>
+            <p className="text-sm text-slate-500">Asuntos por cliente con sus minutas, gastos y provisiones de fondos, y la rentabilidad de cada uno.</p>
+          </div>
+        </div>
+        <Button onClick={() => openForm()}>
+          <Plus className="h-4 w-4" /> Nuevo expediente
+        </Button>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="p-4 border-b border-slate-100 flex flex-col md:flex-row gap-3">
+          <div className="relative flex-1 max-w-md">
+            <Search className="absolute left-3 top-2.5 h-4 w-4 text-slate-400" />
+            <input
+              type="text"
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              placeholder="Buscar por expediente, cliente, contrario, juzgado o autos..."
+              className="w-full pl-9 pr-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+          </div>
+          <select
+            value={filterStatus}
+            onChange={(e) => setFilterStatus(e.target.value as 'ALL' | MatterStatus)}
+            className="px-3 py-2 border border-slate-300 rounded-lg bg-white text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          >
+            <option value="ALL">Todos los estados</option>
+            {Object.entries(MATTER_STATUS_LABELS).map(([key, label]) => <option key={key} value={key}>{label}</option>)}
+          </select>
+        </div>
+        {filteredMatters.length === 0 ? (
+          <div className="p-8 text-center text-slate-400 text-sm">No hay expedientes.</div>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="bg-slate-50 text-xs text-slate-500 uppercase">
+              <tr>
+                <th className="text-left p-3">Expediente</th>
+                <th className="text-left p-3">Cliente</th>
+                <th className="text-left p-3">Juzgado / Autos</th>
+                <th className="text-left p-3">Estado</th>
+                <th className="text-right p-3">Facturado</th>
+                <th className="text-right p-3">Gastos</th>
+                <th className="text-right p-3">Rentabilidad</th>
+                <th className="p-3"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {filteredMatters.map(m => {
+                const summary = summaries.get(m.id)!;
+                return (
+                  <tr
+                    key={m.id}
+                    onClick={() => setSelectedId(m.id)}
+                    className={`cursor-pointer group ${selectedId === m.id ? 'bg-indigo-50' : 'hover:bg-slate-50'}`}
+                  >
+                    <td className="p-3">
+                      <div className="font-medium text-indigo-600 whitespace-nowrap">{m.reference}</div>
+                      <div className="text-xs text-slate-600">{m.title}</div>
+                    </td>
+                    <td className="p-3">
+                      <div className="font-medium text-slate-900">{m.clientName}</div>
+                      {m.opposingParty && <div className="text-xs text-slate-400">c/ {m.opposingParty}</div>}
+                    </td>
+                    <td className="p-3 text-slate-600">
+                      <div>{m.court}</div>
+                      {m.procedureNumber && <div className="text-xs text-slate-400">{m.procedureNumber}</div>}
+                    </td>
+                    <td className="p-3">
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_STYLES[m.status]}`}>{MATTER_STATUS_LABELS[m.status]}</span>
+                    </td>
+                    <td className="p-3 text-right font-mono">{formatCurrency(summary.fees + summary.billedExpenses)}</td>
+                    <td className="p-3 text-right font-mono text-slate-500">{formatCurrency(summary.expenses)}</td>
+                    <td className={`p-3 text-right font-mono font-semibold ${summary.profit < 0 ? 'text-red-600' : 'text-emerald-700'}`}>
+                      {formatCurrency(summary.profit)}
+                      {summary.margin !== null && <div className="text-xs font-normal text-slate-400">{summary.margin.toFixed(1)} %</div>}
+                    </td>
+                    <td className="p-3">
+                      <div className="flex justify-end gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                        <button onClick={(e) => { e.stopPropagation(); openForm(m); }} className="p-1 hover:bg-indigo-50 text-indigo-600 rounded" title="Editar">
+                          <Edit className="h-4 w-4" />
+                        </button>
+                        <button onClick={(e) => { e.stopPropagation(); handleDelete(m); }} className="p-1 hover:bg-red-50 text-red-500 rounded" title="Eliminar">
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* Detalle del expediente */}
+      {selected && selectedSummary && (
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+          <div className="p-4 border-b border-slate-100 flex justify-between items-start gap-3">
+            <div>
+              <h3 className="font-semibold text-slate-800">{selected.reference} · {selected.title}</h3>
+              <p className="text-xs text-slate-500">
+                {selected.clientName} ({selected.nif}) · Abierto el {formatDate(selected.openingDate)}
+                {selected.closingDate && ` · Cerrado el ${formatDate(selected.closingDate)}`}
+              </p>
+              {selected.notes && <p className="text-xs text-slate-500 mt-1 whitespace-pre-wrap">{selected.notes}</p>}
+            </div>
+            <button onClick={() => setSelectedId(null)} className="text-slate-400 hover:text-slate-600">
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 p-4 text-sm">
+            <div className="p-3 bg-slate-50 rounded-lg">
+              <div className="text-xs text-slate-500">Honorarios facturados</div>
+              <div className="font-bold text-slate-800">{formatCurrency(selectedSummary.fees)}</div>
+              {selectedSummary.billedExpenses !== 0 && (
+                <div className="text-xs text-slate-400">+ {formatCurrency(selectedSummary.billedExpenses)} gastos repercutidos</div>
+              )}
+            </div>
+            <div className="p-3 bg-slate-50 rounded-lg">
+              <div className="text-xs text-slate-500">Suplidos facturados</div>
+              <div className="font-bold text-slate-800">{formatCurrency(selectedSummary.supplies)}</div>
+            </div>
+            <div className="p-3 bg-slate-50 rounded-lg">
+              <div className="text-xs text-slate-500">Gastos imputados</div>
+              <div className="font-bold text-slate-800">{formatCurrency(selectedSummary.expenses)}</div>
+            </div>
+            <div className={`p-3 rounded-lg ${selectedSummary.profit < 0 ? 'bg-red-50' : 'bg-emerald-50'}`}>
+              <div className={`text-xs ${selectedSummary.profit < 0 ? 'text-red-700' : 'text-emerald-700'}`}>Rentabilidad</div>
+              <div className={`font-bold ${selectedSummary.profit < 0 ? 'text-red-700' : 'text-emerald-700'}`}>
+                {formatCurrency(selectedSummary.profit)}
+                {selectedSummary.margin !== null && <span className="text-xs font-normal"> ({selectedSummary.margin.toFixed(1)} %)</span>}
+              </div>
+            </div>
+            <div className="p-3 bg-slate-50 rounded-lg">
+              <div className="text-xs text-slate-500">Provisiones recibidas</div>
+              <div className="font-bold text-slate-800">{formatCurrency(selectedSummary.provisionsReceived)}</div>
+            </div>
+            <div className="p-3 bg-amber-50 rounded-lg">
+              <div className="text-xs text-amber-700">Provisiones sin aplicar</div>
+              <div className="font-bold text-amber-700">{formatCurrency(selectedSummary.provisionsPending)}</div>
+            </div>
+            <div className="p-3 bg-slate-50 rounded-lg">
+              <div className="text-xs text-slate-500">Cobrado</div>
+              <div className="font-bold text-slate-800">{formatCurrency(selectedSummary.collected)}</div>
+            </div>
+            <div className="p-3 bg-slate-50 rounded-lg">
+              <div className="text-xs text-slate-500">Pendiente de cobro</div>
+              <div className={`font-bold ${selectedSummary.outstanding > 0.01 ? 'text-amber-600' : 'text-slate-800'}`}>{formatCurrency(selectedSummary.outstanding)}</div>
+            </div>
+          </div>
+
+          {selectedInvoices.length === 0 && selectedProvisions.length === 0 ? (
+            <div className="p-8 text-center text-slate-400 text-sm">
+              Sin facturas ni provisiones imputadas. Asigna el expediente desde el formulario de la factura o de la provisión.
+            </div>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50 text-xs text-slate-500 uppercase">
+                <tr>
+                  <th className="text-left p-3">Fecha</th>
+                  <th className="text-left p-3">Documento</th>
+                  <th className="text-left p-3">Concepto</th>
+                  <th className="text-right p-3">Honorarios / Base</th>
+                  <th className="text-right p-3">Suplidos</th>
+                  <th className="text-right p-3">Total</th>
+                  <th className="text-right p-3">Pendiente</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {selectedInvoices.map(inv => (
+                  <tr key={inv.id}>
+                    <td className="p-3 font-mono text-xs text-slate-500">{formatDate(inv.date)}</td>
+                    <td className="p-3">
+                      <div className="font-medium text-slate-700">{inv.number}</div>
+                      <div className={`text-xs ${inv.type === InvoiceType.INCOME ? 'text-emerald-600' : 'text-red-500'}`}>
+                        {inv.type === InvoiceType.INCOME ? 'Minuta' : `Gasto · ${inv.entityName}`}
+                      </div>
+                    </td>
+                    <td className="p-3 text-slate-600 max-w-xs truncate">{inv.concept}</td>
+                    <td className="p-3 text-right font-mono">{formatCurrency(inv.type === InvoiceType.INCOME ? inv.baseAmount : -inv.baseAmount)}</td>
+                    <td className="p-3 text-right font-mono text-slate-500">{inv.supplies ? formatCurrency(inv.supplies) : ''}</td>
+                    <td className="p-3 text-right font-mono">{formatCurrency(inv.totalAmount)}</td>
+                    <td className="p-3 text-right font-mono text-slate-500">{formatCurrency(getOutstandingAmount(inv, invoices))}</td>
+                  </tr>
+                ))}
+                {selectedProvisions.map(p => (
+                  <tr key={p.id} className="bg-indigo-50/40">
+                    <td className="p-3 font-mono text-xs text-slate-500">{formatDate(p.date)}</td>
+                    <td className="p-3">
+                      <div className="font-medium text-slate-700">{p.number}</div>
+                      <div className="text-xs text-indigo-600">Provisión de fondos</div>
+                    </td>
+                    <td className="p-3 text-slate-600 max-w-xs truncate">{p.concept}</td>
+                    <td className="p-3"></td>
+                    <td className="p-3"></td>
+                    <td className="p-3 text-right font-mono">{formatCurrency(p.amount)}</td>
+                    <td className="p-3"></td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+
+      {isFormOpen && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4 animate-in fade-in duration-200">
+          <form onSubmit={handleSubmit} className="bg-white rounded-xl shadow-2xl max-w-2xl w-full p-6 space-y-4 max-h-[90vh] overflow-y-auto">
+            <div className="flex justify-between items-center">
+              <h3 className="text-lg font-bold text-slate-900 flex items-center gap-2">
+                <FolderOpen className="h-5 w-5 text-indigo-600" /> {editing ? `Expediente ${editing.reference}` : 'Nuevo expediente'}
+              </h3>
+              <button type="button" onClick={() => setIsFormOpen(false)} className="text-slate-400 hover:text-slate-600">
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="col-span-2">
+                <label className="block text-xs font-medium text-slate-600 mb-1">Asunto</label>
+                <input required value={formData.title} onChange={(e) => setFormData({ ...formData, title: e.target.value })} className={inputClass} placeholder="Ej: Reclamación de cantidad" />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-slate-600 mb-1">Cliente</label>
+                <input required list="matter-clients" value={formData.clientName} onChange={(e) => handleClientName(e.target.value)} className={inputClass} autoComplete="off" />
+                <datalist id="matter-clients">
+                  {clients.map(c => <option key={c.nif} value={c.name}>{c.nif}</option>)}
+                </datalist>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-slate-600 mb-1">NIF del cliente</label>
+                <input required value={formData.nif} onChange={(e) => setFormData({ ...formData, nif: e.target.value })} className={inputClass} />
+              </div>
+              <div className="col-span-2">
+                <label className="block text-xs font-medium text-slate-600 mb-1">Parte contraria</label>
+                <input value={formData.opposingParty || ''} onChange={(e) => setFormData({ ...formData, opposingParty: e.target.value })} className={inputClass} />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-slate-600 mb-1">Juzgado / Tribunal</label>
+                <input value={formData.court || ''} onChange={(e) => setFormData({ ...formData, court: e.target.value })} className={inputClass} placeholder="Ej: JPI nº 3 de Sevilla" />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-slate-600 mb-1">Nº de procedimiento</label>
+                <input value={formData.procedureNumber || ''} onChange={(e) => setFormData({ ...formData, procedureNumber: e.target.value })} className={inputClass} placeholder="Ej: Juicio verbal 123/2025" />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-slate-600 mb-1">Estado</label>
+                <select value={formData.status} onChange={(e) => handleStatus(e.target.value as MatterStatus)} className={`${inputClass} bg-white`}>
+                  {Object.entries(MATTER_STATUS_LABELS).map(([key, label]) => <option key={key} value={key}>{label}</option>)}
+                </select>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <label className="block text-xs font-medium text-slate-600 mb-1">Apertura</label>
+                  <input required type="date" value={formData.openingDate} onChange={(e) => setFormData({ ...formData, openingDate: e.target.value })} className={inputClass} />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-slate-600 mb-1">Cierre</label>
+                  <input
+                    type="date"
+                    value={formData.closingDate || ''}
+                    onChange={(e) => setFormData({ ...formData, closingDate: e.target.value })}
+                    disabled={formData.status !== 'CLOSED'}
+                    className={`${inputClass} disabled:bg-slate-50`}
+                  />
+                </div>
+              </div>
+              <div className="col-span-2">
+                <label className="block text-xs font-medium text-slate-600 mb-1">Notas</label>
+                <textarea rows={3} value={formData.notes || ''} onChange={(e) => setFormData({ ...formData, notes: e.target.value })} className={inputClass} />
+              </div>
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="secondary" onClick={() => setIsFormOpen(false)}>Cancelar</Button>
+              <Button type="submit">Guardar</Button>
+            </div>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,60 @@
+import React from 'react';
+import { Calendar } from 'lucide-react';
+import { TaxPeriod } from '../types';
+
+interface PeriodSelectorProps {
+  period: TaxPeriod;
+  onChange: (period: TaxPeriod) => void;
+  years: number[];
+  allowAnnual?: boolean;
+  className?: string;
+}
+
+const MONTHS = ['Ene', 'Feb', 'Mar', 'Abr', 'May', 'Jun', 'Jul', 'Ago', 'Sep', 'Oct', 'Nov', 'Dic'];
+
+// Encodes the sub-period of the year in a single select value: Q1..Q4, M1..M12 or ANNUAL
+const toValue = (period: TaxPeriod) => period.month ? `M${period.month}` : period.quarter ? `Q${period.quarter}` : 'ANNUAL';
+
+export const PeriodSelector: React.FC<PeriodSelectorProps> = ({ period, onChange, years, allowAnnual = false, className = '' }) => {
+  const yearOptions = years.includes(period.year) ? years : [period.year, ...years].sort((a, b) => b - a);
+
+  const handleSubPeriodChange = (value: string) => {
+    if (value === 'ANNUAL') {
+      onChange({ year: period.year });
+    } else if (value.startsWith('Q')) {
+      onChange({ year: period.year, quarter: Number(value.slice(1)) as TaxPeriod['quarter'] });
+    } else {
+      onChange({ year: period.year, month: Number(value.slice(1)) });
+    }
+  };
+
+  return (
+    <div className={`flex items-center gap-2 ${className}`}>
+      <div className="relative">
+        <Calendar className="absolute left-2 top-2 h-3.5 w-3.5 text-slate-400" />
+        <select
+          value={period.year}
+          onChange={(e) => onChange({ ...period, year: Number(e.target.value) })}
+          className="text-sm border border-slate-300 rounded-lg focus:ring-indigo-500 pl-7 pr-2 py-1 bg-white text-slate-700"
+          title="Ejercicio"
+        >
+          {yearOptions.map(year => <option key={year} value={year}>{year}</option>)}
+        </select>
+      </div>
+      <select
+        value={toValue(period)}
+        onChange={(e) => handleSubPeriodChange(e.target.value)}
+        className="text-sm border border-slate-300 rounded-lg focus:ring-indigo-500 px-2 py-1 bg-white text-slate-700"
+        title="Periodo"
+      >
+        <optgroup label="Trimestral">
+          {[1, 2, 3, 4].map(q => <option key={q} value={`Q${q}`}>{q}T</option>)}
+        </optgroup>
+        <optgroup label="Mensual">
+          {MONTHS.map((m, i) => <option key={m} value={`M${i + 1}`}>{m}</option>)}
+        </optgroup>
+        {allowAnnual && <option value="ANNUAL">Anual</option>}
+      </select>
+    </div>
+  );
+};
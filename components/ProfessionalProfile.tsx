@@ -3,36 +3,45 @@ import React, { useState, useEffect } from 'react';
 import { ProfessionalProfile as ProfileType } from '../types';
 import { UserCog, Save, Edit2, MapPin, Phone, Mail, Globe, Building2, Briefcase, FileText, CreditCard } from 'lucide-react';
 import { Button } from './Button';
+import { getSetting, setSetting } from '../services/storageService';
+import { reportStorageError } from '../hooks/useStoredState';
 
 export const ProfessionalProfile: React.FC = () => {
   const [isEditing, setIsEditing] = useState(false);
-  const [profile, setProfile] = useState<ProfileType>(() => {
-    const saved = localStorage.getItem('professionalProfile');
-    return saved ? JSON.parse(saved) : {
-      name: '',
-      nif: '',
-      address: '',
-      city: '',
-      zipCode: '',
-      province: '',
-      barAssociation: '',
-      collegiateNumber: '',
-      phone: '',
-      email: '',
-      website: '',
-      iban: ''
-    };
+  const [profile, setProfile] = useState<ProfileType>({
+    name: '',
+    nif: '',
+    address: '',
+    city: '',
+    zipCode: '',
+    province: '',
+    barAssociation: '',
+    collegiateNumber: '',
+    phone: '',
+    email: '',
+    website: '',
+    iban: ''
   });
 
+  useEffect(() => {
+    getSetting('professionalProfile')
+      .then(saved => { if (saved) setProfile(saved); })
+      .catch(reportStorageError);
+  }, []);
+
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setProfile({ ...profile, [e.target.name]: e.target.value });
   };
 
-  const handleSave = (e: React.FormEvent) => {
+  const handleSave = async (e: React.FormEvent) => {
     e.preventDefault();
-    localStorage.setItem('professionalProfile', JSON.stringify(profile));
-    setIsEditing(false);
-    alert('Datos profesionales guardados correctamente.');
+    try {
+      await setSetting('professionalProfile', profile);
+      setIsEditing(false);
+      alert('Datos profesionales guardados correctamente.');
+    } catch (err) {
+      reportStorageError(err);
+    }
   };
 
   return (
@@ -0,0 +1,156 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { FeeProcedure, FeeSchedule, QuoteLine } from '../types';
+import { Calculator, Upload, Download, Trash2, Plus } from 'lucide-react';
+import { Button } from './Button';
+import { EXAMPLE_FEE_SCHEDULE, calculateProcedureFee, parseFeeSchedule, procedureNeedsAmount } from '../services/feeScheduleService';
+import { useStoredSetting } from '../hooks/useStoredState';
+
+interface QuoteCalculatorProps {
+  // Adds the calculated fee as a line of the quote being edited
+  onAdd: (line: QuoteLine, procedureName: string) => void;
+}
+
+const formatCurrency = (val: number) =>
+  new Intl.NumberFormat('es-ES', { style: 'currency', currency: 'EUR' }).format(val);
+
+const inputClass = "w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+export const QuoteCalculator: React.FC<QuoteCalculatorProps> = ({ onAdd }) => {
+  const [feeSchedules, setFeeSchedules] = useStoredSetting('feeSchedules', [] as FeeSchedule[]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [scheduleId, setScheduleId] = useState('');
+  const [procedureId, setProcedureId] = useState('');
+  const [amount, setAmount] = useState(0);
+
+  const schedule = feeSchedules.find(s => s.id === scheduleId) || feeSchedules[0];
+  const procedure = schedule?.procedures.find(p => p.id === procedureId);
+
+  // Procedures grouped by category for the selector
+  const procedureGroups = useMemo(() => {
+    const groups = new Map<string, FeeProcedure[]>();
+    schedule?.procedures.forEach(p => groups.set(p.category || 'Otros', [...(groups.get(p.category || 'Otros') || []), p]));
+    return Array.from(groups.entries());
+  }, [schedule]);
+
+  const calculation = useMemo(() => {
+    if (!schedule || !procedure) return null;
+    try {
+      return { result: calculateProcedureFee(schedule, procedure, amount) };
+    } catch (e: any) {
+      return { error: e.message as string };
+    }
+  }, [schedule, procedure, amount]);
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseFeeSchedule(await file.text());
+      const existing = feeSchedules.find(s => s.id === imported.id);
+      if (existing && !window.confirm(`Ya hay criterios con el identificador "${imported.id}" (${existing.colegio}). ¿Sustituirlos?`)) return;
+      setFeeSchedules(prev => [...prev.filter(s => s.id !== imported.id), imported]);
+      setScheduleId(imported.id);
+      setProcedureId('');
+      alert(`Importados ${imported.procedures.length} procedimientos de ${imported.colegio}.`);
+    } catch (err: any) {
+      alert(`No se ha podido importar el archivo: ${err.message}`);
+    }
+  };
+
+  const downloadExample = () => {
+    const blob = new Blob([JSON.stringify(EXAMPLE_FEE_SCHEDULE, null, 2)], { type: 'application/json' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = 'criterios_honorarios_ejemplo.json';
+    link.click();
+    URL.revokeObjectURL(link.href);
+  };
+
+  const deleteSchedule = () => {
+    if (!schedule || !window.confirm(`¿Eliminar los criterios de ${schedule.colegio}?`)) return;
+    setFeeSchedules(prev => prev.filter(s => s.id !== schedule.id));
+    setScheduleId('');
+    setProcedureId('');
+  };
+
+  const addCalculatedLine = () => {
+    if (!procedure || !calculation?.result) return;
+    const description = procedureNeedsAmount(procedure)
+      ? `${procedure.name} (cuantía ${formatCurrency(amount)})`
+      : procedure.name;
+    onAdd({ description, amount: calculation.result.fee }, procedure.name);
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 p-4 space-y-4">
+      <div className="flex justify-between items-center gap-2">
+        <h3 className="font-semibold text-slate-800 flex items-center gap-2">
+          <Calculator className="h-4 w-4 text-indigo-600" /> Calculadora de honorarios
+        </h3>
+        <div className="flex gap-1">
+          <button type="button" onClick={downloadExample} className="p-1.5 hover:bg-slate-100 text-slate-500 rounded" title="Descargar ejemplo JSON">
+            <Download className="h-4 w-4" />
+          </button>
+          <button type="button" onClick={() => fileInputRef.current?.click()} className="p-1.5 hover:bg-slate-100 text-slate-500 rounded" title="Importar criterios">
+            <Upload className="h-4 w-4" />
+          </button>
+          <input ref={fileInputRef} type="file" accept=".json,application/json" onChange={handleImport} className="hidden" />
+        </div>
+      </div>
+      {feeSchedules.length === 0 ? (
+        <p className="text-sm text-slate-500">
+          Importa el archivo JSON con los criterios de tu Colegio. Descarga el ejemplo para ver el formato: escalas por tramos de cuantía y procedimientos con importe fijo, % de la escala y mínimo.
+        </p>
+      ) : (
+        <>
+          <div className="flex gap-2 items-end">
+            <div className="flex-1">
+              <label className="block text-xs font-medium text-slate-600 mb-1">Criterios</label>
+              <select
+                value={schedule?.id || ''}
+                onChange={(e) => { setScheduleId(e.target.value); setProcedureId(''); }}
+                className={`${inputClass} bg-white`}
+              >
+                {feeSchedules.map(s => <option key={s.id} value={s.id}>{s.colegio}{s.name ? ` · ${s.name}` : ''}</option>)}
+              </select>
+            </div>
+            <button type="button" onClick={deleteSchedule} className="p-2 mb-0.5 hover:bg-red-50 text-red-500 rounded" title="Eliminar criterios">
+              <Trash2 className="h-4 w-4" />
+            </button>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-600 mb-1">Procedimiento</label>
+            <select value={procedureId} onChange={(e) => setProcedureId(e.target.value)} className={`${inputClass} bg-white`}>
+              <option value="">Selecciona...</option>
+              {procedureGroups.map(([category, procedures]) => (
+                <optgroup key={category} label={category}>
+                  {procedures.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                </optgroup>
+              ))}
+            </select>
+          </div>
+          {procedure && procedureNeedsAmount(procedure) && (
+            <div>
+              <label className="block text-xs font-medium text-slate-600 mb-1">Cuantía del asunto (€)</label>
+              <input type="number" min="0" step="0.01" value={amount || ''} onChange={(e) => setAmount(parseFloat(e.target.value) || 0)} className={inputClass} />
+            </div>
+          )}
+          {calculation?.error && <p className="text-sm text-amber-700">{calculation.error}</p>}
+          {calculation?.result && (
+            <div className="p-4 bg-indigo-50 border border-indigo-100 rounded-lg flex items-center justify-between gap-3">
+              <div>
+                <div className="text-2xl font-bold text-indigo-700 font-mono">{formatCurrency(calculation.result.fee)}</div>
+                <div className="text-xs text-indigo-800">{calculation.result.detail}</div>
+              </div>
+              <Button type="button" variant="secondary" onClick={addCalculatedLine} className="text-sm">
+                <Plus className="h-4 w-4" /> Añadir al presupuesto
+              </Button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,517 @@
+import React, { useMemo, useState } from 'react';
+import { Invoice, InvoiceDraft, InvoiceType, Quote, QuoteLine, QuoteStatus } from '../types';
+import { FileSignature, Plus, Search, Edit, Trash2, X, FileText, Send, CheckCircle, XCircle, Receipt } from 'lucide-react';
+import { Button } from './Button';
+import { QuoteCalculator } from './QuoteCalculator';
+import { getProfessionalProfile, matterRepository, quoteRepository } from '../services/storageService';
+import {
+  DEFAULT_QUOTE_TERMS, QUOTE_STATUS_LABELS, QuoteBillingMode, buildQuoteInvoiceDrafts, getDefaultValidUntil,
+  getInvoicedAmount, getNextQuoteNumber, getQuoteInvoices, getQuoteTotals, isQuoteExpired
+} from '../services/quoteService';
+import { getMatterLabel, getSelectableMatters } from '../services/matterService';
+import { generateQuotePDF } from '../services/pdfGenerator';
+import { normalizeNif, validateSpanishNif } from '../services/validationService';
+import { useEntities } from '../hooks/useEntities';
+import { reportStorageError, useStoredCollection } from '../hooks/useStoredState';
+
+interface QuotesManagerProps {
+  invoices: Invoice[];
+  onInvoice: (drafts: InvoiceDraft[]) => void;
+}
+
+const formatCurrency = (val: number) =>
+  new Intl.NumberFormat('es-ES', { style: 'currency', currency: 'EUR' }).format(val);
+
+const formatDate = (date: string) => date.split('-').reverse().join('/');
+
+const inputClass = "w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+const STATUS_STYLES: Record<QuoteStatus, string> = {
+  DRAFT: 'bg-slate-100 text-slate-600',
+  SENT: 'bg-blue-100 text-blue-700',
+  ACCEPTED: 'bg-emerald-100 text-emerald-700',
+  REJECTED: 'bg-red-100 text-red-600'
+};
+
+const BILLING_MODES: Record<QuoteBillingMode, string> = {
+  SINGLE: 'Una sola factura por el total',
+  PER_LINE: 'Una factura por cada línea del presupuesto',
+  INSTALLMENTS: 'En plazos iguales'
+};
+
+const emptyQuote = (): Omit<Quote, 'id' | 'number'> => {
+  const date = new Date().toISOString().split('T')[0];
+  return {
+    date,
+    validUntil: getDefaultValidUntil(date),
+    status: 'DRAFT',
+    clientName: '',
+    nif: '',
+    fiscalAddress: '',
+    matterId: undefined,
+    subject: '',
+    lines: [],
+    ivaRate: 21,
+    irpfRate: 15,
+    notes: '',
+    terms: DEFAULT_QUOTE_TERMS
+  };
+};
+
+export const QuotesManager: React.FC<QuotesManagerProps> = ({ invoices, onInvoice }) => {
+  const [quotes, setQuotes] = useStoredCollection(quoteRepository);
+  const [matters] = useStoredCollection(matterRepository);
+  const entities = useEntities();
+  const clients = entities.filter(e => e.type === 'CLIENT');
+
+  const [searchTerm, setSearchTerm] = useState('');
+  const [filterStatus, setFilterStatus] = useState<'ALL' | QuoteStatus>('ALL');
+  const [editing, setEditing] = useState<Quote | null>(null);
+  const [formData, setFormData] = useState(emptyQuote());
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [billing, setBilling] = useState<Quote | null>(null);
+  const [billingMode, setBillingMode] = useState<QuoteBillingMode>('SINGLE');
+  const [installments, setInstallments] = useState(2);
+
+  const today = new Date().toISOString().split('T')[0];
+
+  const filteredQuotes = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+    return quotes
+      .filter(q => filterStatus === 'ALL' || q.status === filterStatus)
+      .filter(q => !term || [q.number, q.clientName, q.nif, q.subject].some(value => value.toLowerCase().includes(term)))
+      .sort((a, b) => b.date.localeCompare(a.date) || b.number.localeCompare(a.number, undefined, { numeric: true }));
+  }, [quotes, searchTerm, filterStatus]);
+
+  const formTotals = getQuoteTotals(formData);
+  const selectableMatters = getSelectableMatters(matters, InvoiceType.INCOME, formData.nif, formData.matterId);
+
+  const billingPreview = useMemo(() => {
+    if (!billing) return null;
+    try {
+      return { drafts: buildQuoteInvoiceDrafts(billing, billingMode, installments) };
+    } catch (e: any) {
+      return { error: e.message as string };
+    }
+  }, [billing, billingMode, installments]);
+
+  const openForm = (quote?: Quote) => {
+    if (quote && getQuoteInvoices(quote, invoices).length > 0) {
+      alert(`El presupuesto ${quote.number} ya está facturado: no se puede modificar.`);
+      return;
+    }
+    setEditing(quote || null);
+    setFormData(quote ? { ...emptyQuote(), ...quote } : emptyQuote());
+    setIsFormOpen(true);
+  };
+
+  const handleClientName = (name: string) => {
+    const client = clients.find(c => c.name === name);
+    setFormData(prev => ({
+      ...prev,
+      clientName: name,
+      nif: client ? client.nif : prev.nif,
+      fiscalAddress: client ? client.fiscalAddress : prev.fiscalAddress
+    }));
+  };
+
+  const handleDate = (date: string) => {
+    // The validity keeps following the date until it is changed by hand
+    setFormData(prev => ({
+      ...prev,
+      date,
+      validUntil: prev.validUntil === getDefaultValidUntil(prev.date) ? getDefaultValidUntil(date) : prev.validUntil
+    }));
+  };
+
+  const addLine = (line: QuoteLine, procedureName: string) => {
+    setFormData(prev => ({ ...prev, subject: prev.subject || procedureName, lines: [...prev.lines, line] }));
+  };
+
+  const updateLine = (index: number, changes: Partial<QuoteLine>) => {
+    setFormData(prev => ({ ...prev, lines: prev.lines.map((line, i) => i === index ? { ...line, ...changes } : line) }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (formData.lines.length === 0) {
+      alert('Añade al menos una línea al presupuesto.');
+      return;
+    }
+    if (formData.lines.some(line => !line.description.trim())) {
+      alert('Todas las líneas necesitan una descripción.');
+      return;
+    }
+    if (formData.validUntil < formData.date) {
+      alert('La fecha de validez no puede ser anterior a la del presupuesto.');
+      return;
+    }
+    if (formData.nif.trim()) {
+      const nifError = validateSpanishNif(formData.nif);
+      if (nifError) {
+        alert(`NIF del cliente: ${nifError}`);
+        return;
+      }
+    }
+
+    const quote: Quote = {
+      ...formData,
+      id: editing?.id || crypto.randomUUID(),
+      number: editing?.number || getNextQuoteNumber(quotes, formData.date),
+      clientName: formData.clientName.trim(),
+      nif: formData.nif.trim() ? normalizeNif(formData.nif) : '',
+      fiscalAddress: formData.fiscalAddress?.trim() || undefined,
+      matterId: formData.matterId || undefined,
+      subject: formData.subject.trim(),
+      lines: formData.lines.map(line => ({ description: line.description.trim(), amount: line.amount })),
+      notes: formData.notes?.trim() || undefined,
+      terms: formData.terms?.trim() || undefined
+    };
+    setQuotes(prev => editing ? prev.map(q => q.id === editing.id ? quote : q) : [...prev, quote]);
+    setIsFormOpen(false);
+  };
+
+  const changeStatus = (quote: Quote, status: QuoteStatus) => {
+    if (status === 'ACCEPTED' && isQuoteExpired(quote, today) &&
+        !window.confirm(`El presupuesto ${quote.number} venció el ${formatDate(quote.validUntil)}. ¿Registrar igualmente la aceptación?`)) return;
+    if (status === 'REJECTED' && !window.confirm(`¿Marcar el presupuesto ${quote.number} como rechazado?`)) return;
+    setQuotes(prev => prev.map(q => q.id === quote.id ? { ...q, status, statusDate: today } : q));
+  };
+
+  const downloadPDF = async (quote: Quote) => {
+    try {
+      const profile = await getProfessionalProfile();
+      if (!profile.name && !window.confirm("No has configurado tus 'Datos del Profesional'. El presupuesto saldrá incompleto. ¿Deseas continuar?")) return;
+      generateQuotePDF(quote, profile, matters.find(m => m.id === quote.matterId));
+    } catch (e) {
+      reportStorageError(e);
+    }
+  };
+
+  const openBilling = (quote: Quote) => {
+    const nifError = validateSpanishNif(quote.nif);
+    if (nifError) {
+      alert(`NIF del cliente: ${nifError}. Corrígelo en el presupuesto antes de facturarlo.`);
+      return;
+    }
+    const invoiced = getInvoicedAmount(quote, invoices);
+    if (invoiced !== 0 && !window.confirm(`Ya se han facturado ${formatCurrency(invoiced)} de este presupuesto. ¿Facturarlo de nuevo?`)) return;
+    setBillingMode(quote.lines.length > 1 ? billingMode : 'SINGLE');
+    setBilling(quote);
+  };
+
+  const confirmBilling = () => {
+    if (!billingPreview?.drafts) return;
+    setBilling(null);
+    onInvoice(billingPreview.drafts);
+  };
+
+  const handleDelete = (quote: Quote) => {
+    if (getQuoteInvoices(quote, invoices).length > 0) {
+      alert(`El presupuesto ${quote.number} tiene facturas vinculadas y no se puede eliminar.`);
+      return;
+    }
+    if (!window.confirm(`¿Eliminar el presupuesto ${quote.number}?`)) return;
+    setQuotes(prev => prev.filter(q => q.id !== quote.id));
+  };
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500">
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <div className="p-3 bg-slate-100 rounded-lg">
+            <FileSignature className="h-6 w-6 text-slate-700" />
+          </div>
+          <div>
+            <h2 className="text-xl font-bold text-slate-800">Presupuestos</h2>
+            <p className="text-sm text-slate-500">Hojas de encargo con los criterios de tu Colegio, su aceptación por el cliente y las facturas que generan.</p>
+          </div>
+        </div>
+        <Button onClick={() => openForm()}>
+          <Plus className="h-4 w-4" /> Nuevo presupuesto
+        </Button>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="p-4 border-b border-slate-100 flex flex-col md:flex-row gap-3">
+          <div className="relative flex-1 max-w-md">
+            <Search className="absolute left-3 top-2.5 h-4 w-4 text-slate-400" />
+            <input
+              type="text"
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              placeholder="Buscar por número, cliente o asunto..."
+              className="w-full pl-9 pr-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+          </div>
+          <select
+            value={filterStatus}
+            onChange={(e) => setFilterStatus(e.target.value as 'ALL' | QuoteStatus)}
+            className="px-3 py-2 border border-slate-300 rounded-lg bg-white text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          >
+            <option value="ALL">Todos los estados</option>
+            {Object.entries(QUOTE_STATUS_LABELS).map(([key, label]) => <option key={key} value={key}>{label}</option>)}
+          </select>
+        </div>
+        {filteredQuotes.length === 0 ? (
+          <div className="p-8 text-center text-slate-400 text-sm">No hay presupuestos.</div>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="bg-slate-50 text-xs text-slate-500 uppercase">
+              <tr>
+                <th className="text-left p-3">Presupuesto</th>
+                <th className="text-left p-3">Cliente</th>
+                <th className="text-left p-3">Validez</th>
+                <th className="text-left p-3">Estado</th>
+                <th className="text-right p-3">Total</th>
+                <th className="text-right p-3">Facturado</th>
+                <th className="p-3"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {filteredQuotes.map(q => {
+                const totals = getQuoteTotals(q);
+                const invoiced = getInvoicedAmount(q, invoices);
+                const expired = isQuoteExpired(q, today);
+                return (
+                  <tr key={q.id} className="hover:bg-slate-50 group">
+                    <td className="p-3">
+                      <div className="font-medium text-indigo-600 whitespace-nowrap">{q.number}</div>
+                      <div className="text-xs text-slate-600">{q.subject}</div>
+                      <div className="text-xs text-slate-400 font-mono">{formatDate(q.date)}</div>
+                    </td>
+                    <td className="p-3">
+                      <div className="font-medium text-slate-900">{q.clientName}</div>
+                      <div className="text-xs text-slate-400">{q.nif}</div>
+                    </td>
+                    <td className="p-3">
+                      <div className={`font-mono text-xs ${expired ? 'text-red-600' : 'text-slate-500'}`}>{formatDate(q.validUntil)}</div>
+                      {expired && <div className="text-xs text-red-600 font-medium">Vencido</div>}
+                    </td>
+                    <td className="p-3">
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_STYLES[q.status]}`}>{QUOTE_STATUS_LABELS[q.status]}</span>
+                      {q.statusDate && q.status !== 'DRAFT' && <div className="text-xs text-slate-400 mt-1">{formatDate(q.statusDate)}</div>}
+                    </td>
+                    <td className="p-3 text-right font-mono">
+                      {formatCurrency(totals.totalAmount)}
+                      <div className="text-xs text-slate-400">Base {formatCurrency(totals.baseAmount)}</div>
+                    </td>
+                    <td className="p-3 text-right font-mono">
+                      {invoiced !== 0 ? (
+                        <>
+                          <div className={Math.abs(invoiced - totals.baseAmount) < 0.01 ? 'text-emerald-700' : 'text-amber-600'}>{formatCurrency(invoiced)}</div>
+                          <div className="text-xs text-slate-400">{getQuoteInvoices(q, invoices).map(inv => inv.number).join(', ')}</div>
+                        </>
+                      ) : <span className="text-slate-300">-</span>}
+                    </td>
+                    <td className="p-3">
+                      <div className="flex justify-end gap-1">
+                        {q.status === 'ACCEPTED' && (
+                          <button onClick={() => openBilling(q)} className="p-1 hover:bg-emerald-50 text-emerald-600 rounded" title="Facturar">
+                            <Receipt className="h-4 w-4" />
+                          </button>
+                        )}
+                        {q.status === 'DRAFT' && (
+                          <button onClick={() => changeStatus(q, 'SENT')} className="p-1 hover:bg-blue-50 text-blue-600 rounded" title="Marcar como enviado">
+                            <Send className="h-4 w-4" />
+                          </button>
+                        )}
+                        {(q.status === 'DRAFT' || q.status === 'SENT') && (
+                          <>
+                            <button onClick={() => changeStatus(q, 'ACCEPTED')} className="p-1 hover:bg-emerald-50 text-emerald-600 rounded" title="Aceptado por el cliente">
+                              <CheckCircle className="h-4 w-4" />
+                            </button>
+                            <button onClick={() => changeStatus(q, 'REJECTED')} className="p-1 hover:bg-red-50 text-red-500 rounded" title="Rechazado por el cliente">
+                              <XCircle className="h-4 w-4" />
+                            </button>
+                          </>
+                        )}
+                        <button onClick={() => downloadPDF(q)} className="p-1 hover:bg-slate-100 text-slate-600 rounded" title="Hoja de encargo en PDF">
+                          <FileText className="h-4 w-4" />
+                        </button>
+                        <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                          <button onClick={() => openForm(q)} className="p-1 hover:bg-indigo-50 text-indigo-600 rounded" title="Editar">
+                            <Edit className="h-4 w-4" />
+                          </button>
+                          <button onClick={() => handleDelete(q)} className="p-1 hover:bg-red-50 text-red-500 rounded" title="Eliminar">
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        </div>
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {isFormOpen && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4 animate-in fade-in duration-200">
+          <form onSubmit={handleSubmit} className="bg-white rounded-xl shadow-2xl max-w-5xl w-full p-6 space-y-4 max-h-[90vh] overflow-y-auto">
+            <div className="flex justify-between items-center">
+              <h3 className="text-lg font-bold text-slate-900 flex items-center gap-2">
+                <FileSignature className="h-5 w-5 text-indigo-600" /> {editing ? `Presupuesto ${editing.number}` : 'Nuevo presupuesto'}
+              </h3>
+              <button type="button" onClick={() => setIsFormOpen(false)} className="text-slate-400 hover:text-slate-600">
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-5 gap-6">
+              <div className="lg:col-span-2">
+                <QuoteCalculator onAdd={addLine} />
+              </div>
+
+              <div className="lg:col-span-3 space-y-4">
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-xs font-medium text-slate-600 mb-1">Cliente</label>
+                    <input required list="quote-clients" value={formData.clientName} onChange={(e) => handleClientName(e.target.value)} className={inputClass} autoComplete="off" />
+                    <datalist id="quote-clients">
+                      {clients.map(c => <option key={c.nif} value={c.name}>{c.nif}</option>)}
+                    </datalist>
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-slate-600 mb-1">NIF</label>
+                    <input value={formData.nif} onChange={(e) => setFormData({ ...formData, nif: e.target.value })} className={inputClass} placeholder="Necesario para facturar" />
+                  </div>
+                  <div className="col-span-2">
+                    <label className="block text-xs font-medium text-slate-600 mb-1">Asunto</label>
+                    <input required value={formData.subject} onChange={(e) => setFormData({ ...formData, subject: e.target.value })} className={inputClass} />
+                  </div>
+                  <div className="col-span-2">
+                    <label className="block text-xs font-medium text-slate-600 mb-1">Expediente</label>
+                    <select value={formData.matterId || ''} onChange={(e) => setFormData({ ...formData, matterId: e.target.value || undefined })} className={`${inputClass} bg-white`}>
+                      <option value="">Sin expediente</option>
+                      {selectableMatters.map(m => <option key={m.id} value={m.id}>{getMatterLabel(m)}</option>)}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-slate-600 mb-1">Fecha</label>
+                    <input required type="date" value={formData.date} onChange={(e) => handleDate(e.target.value)} className={inputClass} />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-slate-600 mb-1">Válido hasta</label>
+                    <input required type="date" value={formData.validUntil} onChange={(e) => setFormData({ ...formData, validUntil: e.target.value })} className={inputClass} />
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <label className="block text-xs font-medium text-slate-600">Honorarios</label>
+                  {formData.lines.map((line, i) => (
+                    <div key={i} className="flex gap-2 items-center">
+                      <input value={line.description} onChange={(e) => updateLine(i, { description: e.target.value })} className={`${inputClass} text-sm`} />
+                      <input
+                        type="number"
+                        step="0.01"
+                        value={line.amount}
+                        onChange={(e) => updateLine(i, { amount: parseFloat(e.target.value) || 0 })}
+                        className={`${inputClass} text-sm text-right w-32`}
+                      />
+                      <button type="button" onClick={() => setFormData(prev => ({ ...prev, lines: prev.lines.filter((_, j) => j !== i) }))} className="text-slate-400 hover:text-red-500" title="Quitar">
+                        <X className="h-4 w-4" />
+                      </button>
+                    </div>
+                  ))}
+                  <button
+                    type="button"
+                    onClick={() => setFormData(prev => ({ ...prev, lines: [...prev.lines, { description: '', amount: 0 }] }))}
+                    className="text-sm text-indigo-600 hover:text-indigo-800 flex items-center gap-1"
+                  >
+                    <Plus className="h-4 w-4" /> Línea manual
+                  </button>
+                </div>
+
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-xs font-medium text-slate-600 mb-1">IVA (%)</label>
+                    <input type="number" step="0.01" value={formData.ivaRate} onChange={(e) => setFormData({ ...formData, ivaRate: parseFloat(e.target.value) || 0 })} className={inputClass} />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-slate-600 mb-1">Retención IRPF (%)</label>
+                    <input type="number" step="0.01" value={formData.irpfRate} onChange={(e) => setFormData({ ...formData, irpfRate: parseFloat(e.target.value) || 0 })} className={inputClass} />
+                  </div>
+                  <div className="col-span-2">
+                    <label className="block text-xs font-medium text-slate-600 mb-1">Observaciones</label>
+                    <textarea rows={2} value={formData.notes || ''} onChange={(e) => setFormData({ ...formData, notes: e.target.value })} className={inputClass} />
+                  </div>
+                  <div className="col-span-2">
+                    <label className="block text-xs font-medium text-slate-600 mb-1">Condiciones del encargo</label>
+                    <textarea rows={5} value={formData.terms || ''} onChange={(e) => setFormData({ ...formData, terms: e.target.value })} className={`${inputClass} text-sm`} />
+                  </div>
+                </div>
+
+                <div className="text-sm space-y-1 border-t border-slate-100 pt-3">
+                  <div className="flex justify-between"><span className="text-slate-500">Base imponible</span><span className="font-mono">{formatCurrency(formTotals.baseAmount)}</span></div>
+                  <div className="flex justify-between"><span className="text-slate-500">IVA</span><span className="font-mono">{formatCurrency(formTotals.ivaAmount)}</span></div>
+                  <div className="flex justify-between"><span className="text-slate-500">Retención IRPF</span><span className="font-mono">- {formatCurrency(formTotals.irpfAmount)}</span></div>
+                  <div className="flex justify-between font-bold text-slate-800"><span>Total</span><span className="font-mono">{formatCurrency(formTotals.totalAmount)}</span></div>
+                </div>
+              </div>
+            </div>
+
+            <div className="flex justify-end gap-2 pt-2">
+              <Button type="button" variant="secondary" onClick={() => setIsFormOpen(false)}>Cancelar</Button>
+              <Button type="submit">Guardar presupuesto</Button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      {billing && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4 animate-in fade-in duration-200">
+          <div className="bg-white rounded-xl shadow-2xl max-w-lg w-full p-6 space-y-4">
+            <div className="flex justify-between items-center">
+              <h3 className="text-lg font-bold text-slate-900 flex items-center gap-2">
+                <Receipt className="h-5 w-5 text-indigo-600" /> Facturar {billing.number}
+              </h3>
+              <button onClick={() => setBilling(null)} className="text-slate-400 hover:text-slate-600">
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+            <div className="space-y-2">
+              {(Object.keys(BILLING_MODES) as QuoteBillingMode[]).map(mode => (
+                <label key={mode} className="flex items-center gap-2 text-sm text-slate-700">
+                  <input type="radio" name="billingMode" checked={billingMode === mode} onChange={() => setBillingMode(mode)} />
+                  {BILLING_MODES[mode]}
+                  {mode === 'INSTALLMENTS' && billingMode === 'INSTALLMENTS' && (
+                    <input
+                      type="number"
+                      min="2"
+                      max="24"
+                      value={installments}
+                      onChange={(e) => setInstallments(Math.max(2, parseInt(e.target.value) || 2))}
+                      className="w-16 px-2 py-1 border border-slate-300 rounded text-sm"
+                    />
+                  )}
+                </label>
+              ))}
+            </div>
+            {billingPreview?.error && <p className="text-sm text-red-600">{billingPreview.error}</p>}
+            {billingPreview?.drafts && (
+              <div className="text-sm border border-slate-100 rounded-lg divide-y divide-slate-100">
+                {billingPreview.drafts.map((draft, i) => (
+                  <div key={i} className="flex justify-between p-2">
+                    <span className="text-slate-600">{draft.label}</span>
+                    <span className="font-mono">{formatCurrency(draft.invoice.baseAmount || 0)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+            <p className="text-xs text-slate-500">
+              Las facturas se abren una tras otra en Facturación para revisarlas y emitirlas con su número correlativo.
+            </p>
+            <div className="flex justify-end gap-2">
+              <Button variant="secondary" onClick={() => setBilling(null)}>Cancelar</Button>
+              <Button onClick={confirmBilling} disabled={!billingPreview?.drafts}>
+                <Receipt className="h-4 w-4" /> Abrir facturas
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
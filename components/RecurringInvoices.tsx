@@ -0,0 +1,376 @@
+import React, { useMemo, useState } from 'react';
+import { Invoice, InvoiceDraft, InvoiceSeries, InvoiceType, RecurrenceFrequency, RecurringInvoice } from '../types';
+import { Repeat, Plus, Edit, Trash2, X, Receipt, AlertCircle } from 'lucide-react';
+import { Button } from './Button';
+import { matterRepository } from '../services/storageService';
+import { FREQUENCY_LABELS, formatPeriod, getRecurringInvoices, getRecurringTotals } from '../services/recurringService';
+import { getDefaultSeries, getNextSeriesNumbers } from '../services/seriesService';
+import { getMatterLabel, getSelectableMatters } from '../services/matterService';
+import { normalizeNif, validateSpanishNif } from '../services/validationService';
+import { useEntities } from '../hooks/useEntities';
+import { useStoredCollection } from '../hooks/useStoredState';
+
+interface RecurringInvoicesProps {
+  invoices: Invoice[];
+  templates: RecurringInvoice[];
+  setTemplates: React.Dispatch<React.SetStateAction<RecurringInvoice[]>>;
+  invoiceSeries: InvoiceSeries[];
+  drafts: InvoiceDraft[]; // Generated by App for the periods due, not issued yet
+  onInvoice: (drafts: InvoiceDraft[]) => void;
+}
+
+const formatCurrency = (val: number) =>
+  new Intl.NumberFormat('es-ES', { style: 'currency', currency: 'EUR' }).format(val);
+
+const formatDate = (date: string) => date.split('-').reverse().join('/');
+
+const inputClass = "w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+const dueKey = (templateId: string, period: string) => `${templateId}|${period}`;
+
+const emptyTemplate = (): Omit<RecurringInvoice, 'id'> => ({
+  nif: '',
+  clientName: '',
+  fiscalAddress: '',
+  matterId: undefined,
+  concept: 'Iguala de asesoramiento jurídico',
+  amount: 0,
+  ivaRate: 21,
+  irpfRate: 15,
+  frequency: 'MONTHLY',
+  startDate: new Date().toISOString().split('T')[0].slice(0, 8) + '01',
+  endDate: '',
+  active: true
+});
+
+export const RecurringInvoices: React.FC<RecurringInvoicesProps> = ({ invoices, templates, setTemplates, invoiceSeries, drafts, onInvoice }) => {
+  const [matters] = useStoredCollection(matterRepository);
+  const entities = useEntities();
+  const clients = entities.filter(e => e.type === 'CLIENT');
+
+  const [editing, setEditing] = useState<RecurringInvoice | null>(null);
+  const [formData, setFormData] = useState(emptyTemplate());
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  // Drafts left out of the next issue (all are selected by default)
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+
+  const today = new Date().toISOString().split('T')[0];
+  const due = drafts.flatMap(draft => {
+    const template = templates.find(t => t.id === draft.invoice.recurringId);
+    return template && draft.invoice.recurringPeriod ? [{ draft, template, period: draft.invoice.recurringPeriod }] : [];
+  });
+  const selectedDue = due.filter(d => !excluded.has(dueKey(d.template.id, d.period)));
+
+  // Numbers the selected invoices will take if they are issued today in the default series
+  const previewNumbers = useMemo(() => {
+    const series = getDefaultSeries(invoiceSeries, InvoiceType.INCOME);
+    const numbers = series ? getNextSeriesNumbers(series, invoices, selectedDue.length, today) : [];
+    return new Map(selectedDue.map((d, i) => [dueKey(d.template.id, d.period), numbers[i]]));
+  }, [invoiceSeries, invoices, selectedDue, today]);
+
+  const sortedTemplates = [...templates].sort((a, b) => Number(b.active) - Number(a.active) || a.clientName.localeCompare(b.clientName));
+  const selectableMatters = getSelectableMatters(matters, InvoiceType.INCOME, formData.nif, formData.matterId);
+
+  const toggleDue = (key: string) => {
+    setExcluded(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key); else next.add(key);
+      return next;
+    });
+  };
+
+  const issueSelected = () => {
+    if (selectedDue.length === 0) return;
+    onInvoice(selectedDue.map(d => d.draft));
+  };
+
+  const openForm = (template?: RecurringInvoice) => {
+    setEditing(template || null);
+    setFormData(template ? { ...emptyTemplate(), ...template } : emptyTemplate());
+    setIsFormOpen(true);
+  };
+
+  const handleClientName = (name: string) => {
+    const client = clients.find(c => c.name === name);
+    setFormData(prev => ({
+      ...prev,
+      clientName: name,
+      nif: client ? client.nif : prev.nif,
+      fiscalAddress: client ? client.fiscalAddress : prev.fiscalAddress
+    }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const nifError = validateSpanishNif(formData.nif);
+    if (nifError) {
+      alert(`NIF del cliente: ${nifError}`);
+      return;
+    }
+    if (!(formData.amount > 0)) {
+      alert('Indica el importe de la iguala.');
+      return;
+    }
+    if (formData.endDate && formData.endDate < formData.startDate) {
+      alert('La fecha de fin no puede ser anterior a la de inicio.');
+      return;
+    }
+    // Issued invoices are matched to their period by its start date
+    if (editing && getRecurringInvoices(editing, invoices).length > 0 &&
+        (editing.startDate !== formData.startDate || editing.frequency !== formData.frequency || normalizeNif(editing.nif) !== normalizeNif(formData.nif))) {
+      alert('Esta iguala ya tiene facturas: no se puede cambiar de cliente, de periodicidad ni de fecha de inicio. Indica una fecha de fin y crea una iguala nueva.');
+      return;
+    }
+
+    const template: RecurringInvoice = {
+      ...formData,
+      id: editing?.id || crypto.randomUUID(),
+      nif: normalizeNif(formData.nif),
+      clientName: formData.clientName.trim(),
+      fiscalAddress: formData.fiscalAddress?.trim() || undefined,
+      matterId: formData.matterId || undefined,
+      concept: formData.concept.trim(),
+      endDate: formData.endDate || undefined
+    };
+    setTemplates(prev => editing ? prev.map(t => t.id === editing.id ? template : t) : [...prev, template]);
+    setIsFormOpen(false);
+  };
+
+  const toggleActive = (template: RecurringInvoice) => {
+    setTemplates(prev => prev.map(t => t.id === template.id ? { ...t, active: !t.active } : t));
+  };
+
+  const handleDelete = (template: RecurringInvoice) => {
+    if (getRecurringInvoices(template, invoices).length > 0) {
+      alert(`La iguala de ${template.clientName} tiene facturas emitidas. Indica una fecha de fin o ponla en pausa en lugar de eliminarla.`);
+      return;
+    }
+    if (!window.confirm(`¿Eliminar la iguala de ${template.clientName}?`)) return;
+    setTemplates(prev => prev.filter(t => t.id !== template.id));
+  };
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500">
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <div className="p-3 bg-slate-100 rounded-lg">
+            <Repeat className="h-6 w-6 text-slate-700" />
+          </div>
+          <div>
+            <h2 className="text-xl font-bold text-slate-800">Igualas</h2>
+            <p className="text-sm text-slate-500">Honorarios periódicos de tus clientes: las facturas de cada periodo vencido quedan preparadas para revisarlas y emitirlas.</p>
+          </div>
+        </div>
+        <Button onClick={() => openForm()}>
+          <Plus className="h-4 w-4" /> Nueva iguala
+        </Button>
+      </div>
+
+      {due.length > 0 && (
+        <div className="bg-white rounded-xl shadow-sm border border-amber-200 overflow-hidden">
+          <div className="p-4 bg-amber-50 border-b border-amber-100 flex flex-col md:flex-row md:items-center justify-between gap-3">
+            <div className="flex items-center gap-2 text-amber-900">
+              <AlertCircle className="h-5 w-5 shrink-0" />
+              <div>
+                <h3 className="font-semibold">Borradores pendientes de emitir ({due.length})</h3>
+                <p className="text-xs text-amber-800">Generados al abrir la aplicación para los periodos ya iniciados sin factura. Se abrirán uno tras otro en Facturación para revisarlos antes de guardarlos.</p>
+              </div>
+            </div>
+            <Button onClick={issueSelected} disabled={selectedDue.length === 0}>
+              <Receipt className="h-4 w-4" /> Revisar y emitir ({selectedDue.length})
+            </Button>
+          </div>
+          <table className="w-full text-sm">
+            <thead className="bg-slate-50 text-xs text-slate-500 uppercase">
+              <tr>
+                <th className="p-3 w-8"></th>
+                <th className="text-left p-3">Cliente</th>
+                <th className="text-left p-3">Periodo</th>
+                <th className="text-left p-3">Concepto</th>
+                <th className="text-right p-3">Base</th>
+                <th className="text-right p-3">Total</th>
+                <th className="text-left p-3">Nº previsto</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {due.map(({ template, period }) => {
+                const key = dueKey(template.id, period);
+                const selected = !excluded.has(key);
+                return (
+                  <tr key={key} className={selected ? '' : 'opacity-50'}>
+                    <td className="p-3">
+                      <input type="checkbox" checked={selected} onChange={() => toggleDue(key)} />
+                    </td>
+                    <td className="p-3">
+                      <div className="font-medium text-slate-900">{template.clientName}</div>
+                      <div className="text-xs text-slate-400">{template.nif}</div>
+                    </td>
+                    <td className="p-3 text-slate-600">{formatPeriod(template, period)}</td>
+                    <td className="p-3 text-slate-600 max-w-xs truncate">{template.concept}</td>
+                    <td className="p-3 text-right font-mono">{formatCurrency(template.amount)}</td>
+                    <td className="p-3 text-right font-mono">{formatCurrency(getRecurringTotals(template).totalAmount)}</td>
+                    <td className="p-3 font-mono text-xs text-slate-500">{selected ? previewNumbers.get(key) : ''}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        {sortedTemplates.length === 0 ? (
+          <div className="p-8 text-center text-slate-400 text-sm">No hay igualas. Crea una por cada cliente que te paga una cantidad fija periódica.</div>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="bg-slate-50 text-xs text-slate-500 uppercase">
+              <tr>
+                <th className="text-left p-3">Cliente</th>
+                <th className="text-left p-3">Concepto</th>
+                <th className="text-left p-3">Periodicidad</th>
+                <th className="text-left p-3">Vigencia</th>
+                <th className="text-right p-3">Importe</th>
+                <th className="text-left p-3">Última factura</th>
+                <th className="text-left p-3">Estado</th>
+                <th className="p-3"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {sortedTemplates.map(t => {
+                const issued = getRecurringInvoices(t, invoices);
+                const last = issued[issued.length - 1];
+                return (
+                  <tr key={t.id} className="hover:bg-slate-50 group">
+                    <td className="p-3">
+                      <div className="font-medium text-slate-900">{t.clientName}</div>
+                      <div className="text-xs text-slate-400">{t.nif}</div>
+                    </td>
+                    <td className="p-3 text-slate-600">
+                      <div className="max-w-xs truncate">{t.concept}</div>
+                      {t.matterId && matters.find(m => m.id === t.matterId) && (
+                        <div className="text-[10px] text-indigo-600">{matters.find(m => m.id === t.matterId)!.reference}</div>
+                      )}
+                    </td>
+                    <td className="p-3 text-slate-600">{FREQUENCY_LABELS[t.frequency]}</td>
+                    <td className="p-3 font-mono text-xs text-slate-500">
+                      {formatDate(t.startDate)}{t.endDate ? ` - ${formatDate(t.endDate)}` : ' - indefinida'}
+                    </td>
+                    <td className="p-3 text-right font-mono">
+                      {formatCurrency(t.amount)}
+                      <div className="text-xs text-slate-400">Total {formatCurrency(getRecurringTotals(t).totalAmount)}</div>
+                    </td>
+                    <td className="p-3 text-xs text-slate-500">
+                      {last ? (
+                        <>
+                          <div className="font-medium text-slate-700">{last.number}</div>
+                          <div>{last.recurringPeriod && formatPeriod(t, last.recurringPeriod)}</div>
+                        </>
+                      ) : '-'}
+                    </td>
+                    <td className="p-3">
+                      <button
+                        onClick={() => toggleActive(t)}
+                        className={`px-2 py-1 rounded-full text-xs font-medium ${t.active ? 'bg-emerald-100 text-emerald-700' : 'bg-slate-100 text-slate-500'}`}
+                        title={t.active ? 'Poner en pausa' : 'Reanudar'}
+                      >
+                        {t.active ? 'Activa' : 'En pausa'}
+                      </button>
+                    </td>
+                    <td className="p-3">
+                      <div className="flex justify-end gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                        <button onClick={() => openForm(t)} className="p-1 hover:bg-indigo-50 text-indigo-600 rounded" title="Editar">
+                          <Edit className="h-4 w-4" />
+                        </button>
+                        <button onClick={() => handleDelete(t)} className="p-1 hover:bg-red-50 text-red-500 rounded" title="Eliminar">
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {isFormOpen && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4 animate-in fade-in duration-200">
+          <form onSubmit={handleSubmit} className="bg-white rounded-xl shadow-2xl max-w-2xl w-full p-6 space-y-4 max-h-[90vh] overflow-y-auto">
+            <div className="flex justify-between items-center">
+              <h3 className="text-lg font-bold text-slate-900 flex items-center gap-2">
+                <Repeat className="h-5 w-5 text-indigo-600" /> {editing ? `Iguala de ${editing.clientName}` : 'Nueva iguala'}
+              </h3>
+              <button type="button" onClick={() => setIsFormOpen(false)} className="text-slate-400 hover:text-slate-600">
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-xs font-medium text-slate-600 mb-1">Cliente</label>
+                <input required list="recurring-clients" value={formData.clientName} onChange={(e) => handleClientName(e.target.value)} className={inputClass} autoComplete="off" />
+                <datalist id="recurring-clients">
+                  {clients.map(c => <option key={c.nif} value={c.name}>{c.nif}</option>)}
+                </datalist>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-slate-600 mb-1">NIF del cliente</label>
+                <input required value={formData.nif} onChange={(e) => setFormData({ ...formData, nif: e.target.value })} className={inputClass} />
+              </div>
+              <div className="col-span-2">
+                <label className="block text-xs font-medium text-slate-600 mb-1">Domicilio fiscal</label>
+                <input value={formData.fiscalAddress || ''} onChange={(e) => setFormData({ ...formData, fiscalAddress: e.target.value })} className={inputClass} />
+              </div>
+              <div className="col-span-2">
+                <label className="block text-xs font-medium text-slate-600 mb-1">Concepto</label>
+                <input required value={formData.concept} onChange={(e) => setFormData({ ...formData, concept: e.target.value })} className={inputClass} />
+                <p className="text-xs text-slate-400 mt-1">Cada factura añade el periodo al concepto.</p>
+              </div>
+              <div className="col-span-2">
+                <label className="block text-xs font-medium text-slate-600 mb-1">Expediente</label>
+                <select value={formData.matterId || ''} onChange={(e) => setFormData({ ...formData, matterId: e.target.value || undefined })} className={`${inputClass} bg-white`}>
+                  <option value="">Sin expediente</option>
+                  {selectableMatters.map(m => <option key={m.id} value={m.id}>{getMatterLabel(m)}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-slate-600 mb-1">Importe por periodo (€)</label>
+                <input required type="number" min="0" step="0.01" value={formData.amount || ''} onChange={(e) => setFormData({ ...formData, amount: parseFloat(e.target.value) || 0 })} className={inputClass} />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-slate-600 mb-1">Periodicidad</label>
+                <select value={formData.frequency} onChange={(e) => setFormData({ ...formData, frequency: e.target.value as RecurrenceFrequency })} className={`${inputClass} bg-white`}>
+                  {Object.entries(FREQUENCY_LABELS).map(([key, label]) => <option key={key} value={key}>{label}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-slate-600 mb-1">IVA (%)</label>
+                <input type="number" step="0.01" value={formData.ivaRate} onChange={(e) => setFormData({ ...formData, ivaRate: parseFloat(e.target.value) || 0 })} className={inputClass} />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-slate-600 mb-1">Retención IRPF (%)</label>
+                <input type="number" step="0.01" value={formData.irpfRate} onChange={(e) => setFormData({ ...formData, irpfRate: parseFloat(e.target.value) || 0 })} className={inputClass} />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-slate-600 mb-1">Inicio del primer periodo</label>
+                <input required type="date" value={formData.startDate} onChange={(e) => setFormData({ ...formData, startDate: e.target.value })} className={inputClass} />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-slate-600 mb-1">Fecha de fin (opcional)</label>
+                <input type="date" value={formData.endDate || ''} onChange={(e) => setFormData({ ...formData, endDate: e.target.value })} className={inputClass} />
+              </div>
+              <label className="col-span-2 flex items-center gap-2 text-sm text-slate-700">
+                <input type="checkbox" checked={formData.active} onChange={(e) => setFormData({ ...formData, active: e.target.checked })} />
+                Activa (genera facturas en cada periodo)
+              </label>
+            </div>
+            <div className="flex justify-end gap-2 pt-2">
+              <Button type="button" variant="secondary" onClick={() => setIsFormOpen(false)}>Cancelar</Button>
+              <Button type="submit">Guardar iguala</Button>
+            </div>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,58 +1,123 @@
-import React, { useMemo } from 'react';
-import { Invoice, InvoiceType } from '../types';
-import { FileBarChart, Calendar, Calculator, TrendingUp, TrendingDown, Scale, FileText, Download, PiggyBank, Users, Sparkles, PieChart } from 'lucide-react';
+import React, { useMemo, useState } from 'react';
+import { Invoice, InvoiceType, TaxPeriod, Model130Payment, InvestmentAsset } from '../types';
+import { FileBarChart, Calendar, Calculator, TrendingUp, TrendingDown, Scale, FileText, Download, PiggyBank, Users, Sparkles, PieChart, FileCode, Save, Trash2 } from 'lucide-react';
 import { Button } from './Button';
 import { jsPDF } from "jspdf";
 import autoTable from "jspdf-autotable";
+import { PeriodSelector } from './PeriodSelector';
+import { computeModel303, getPendingCompensation, computeModel130, computeModel347, computeModel390, computeNetYield, MODEL_130_CASILLAS, getCurrentPeriod, getPeriodLabel, isDateInPeriod } from '../services/taxService';
+import { computeModel111, computeModel115, computeAnnualWithholdingSummary } from '../services/withholdingService';
+import {
+  downloadAeatFile,
+  generateModel303File,
+  getModel303FileName,
+  generateModel347File,
+  getModel347FileName,
+  generateModel115File,
+  getModel115FileName,
+  generateModel180File,
+  getModel180FileName,
+  generateModel390File,
+  getModel390FileName
+} from '../services/aeatFileService';
+import { generateModel115PDF, generateModel180PDF } from '../services/pdfGenerator';
+import { getProfessionalProfile } from '../services/storageService';
+import { useStoredSetting } from '../hooks/useStoredState';
 
 interface TaxModelsProps {
   invoices: Invoice[];
+  assets?: InvestmentAsset[];
   onAskAi?: (prompt: string) => void;
 }
 
-export const TaxModels: React.FC<TaxModelsProps> = ({ invoices, onAskAi }) => {
-  const currentYear = new Date().getFullYear();
+export const TaxModels: React.FC<TaxModelsProps> = ({ invoices, assets = [], onAskAi }) => {
+  // Selected liquidation period (year + quarter or month). Annual models use its year.
+  const [period, setPeriod] = useState<TaxPeriod>(() => getCurrentPeriod());
+  const currentYear = period.year;
+
+  const availableYears = useMemo(() => {
+    const years = new Set(invoices.map(inv => new Date(inv.date).getFullYear()));
+    years.add(new Date().getFullYear());
+    return Array.from(years).sort((a: number, b: number) => b - a);
+  }, [invoices]);
+
+  // Modelo 303 of the selected period, compensating the negative results of the earlier ones
+  const model303 = useMemo(
+    () => computeModel303(invoices, period, { pendingCompensation: getPendingCompensation(invoices, period) }),
+    [invoices, period]
+  );
+
+  // Modelo 130: pagos fraccionados ya presentados (lo realmente declarado e ingresado)
+  const [model130Payments, setModel130Payments] = useStoredSetting('model130Payments', [] as Model130Payment[]);
+  const [paymentForm, setPaymentForm] = useState({ paidAmount: '', paidDate: '', receiptNumber: '' });
+
+  // 130, 111 and 115 are quarterly: a monthly period uses its quarter and the annual view the 4T
+  const selectedQuarter = (period.quarter ?? (period.month ? Math.ceil(period.month / 3) : 4)) as 1 | 2 | 3 | 4;
+  const model130 = useMemo(
+    () => computeModel130(invoices, currentYear, selectedQuarter, model130Payments, { assets }),
+    [invoices, currentYear, selectedQuarter, model130Payments, assets]
+  );
+  const model111 = useMemo(() => computeModel111(invoices, currentYear, selectedQuarter), [invoices, currentYear, selectedQuarter]);
+  const model115 = useMemo(() => computeModel115(invoices, currentYear, selectedQuarter), [invoices, currentYear, selectedQuarter]);
+  const registered130 = model130Payments.find(p => p.year === currentYear && p.quarter === selectedQuarter);
+
+  const handleRegister130Payment = () => {
+    const paidAmount = paymentForm.paidAmount === '' ? Math.max(0, model130.result) : parseFloat(paymentForm.paidAmount);
+    if (isNaN(paidAmount) || paidAmount < 0) {
+      alert("El importe ingresado no es válido.");
+      return;
+    }
+
+    const payment: Model130Payment = {
+      year: currentYear,
+      quarter: selectedQuarter,
+      casilla07: model130.casillas['07'],
+      casilla13: model130.casillas['13'],
+      casilla15: model130.casillas['15'],
+      result: model130.result,
+      paidAmount,
+      paidDate: paymentForm.paidDate || undefined,
+      receiptNumber: paymentForm.receiptNumber || undefined
+    };
+
+    setModel130Payments([
+      ...model130Payments.filter(p => !(p.year === currentYear && p.quarter === selectedQuarter)),
+      payment
+    ]);
+    setPaymentForm({ paidAmount: '', paidDate: '', receiptNumber: '' });
+  };
+
+  const handleDelete130Payment = () => {
+    if (!window.confirm(`¿Eliminar el pago registrado del ${selectedQuarter}T ${currentYear}? Se volverá a calcular a partir de las facturas.`)) return;
+    setModel130Payments(model130Payments.filter(p => !(p.year === currentYear && p.quarter === selectedQuarter)));
+  };
 
   const calculations = useMemo(() => {
-    // Filter invoices for the current year to ensure "Annual" and current models are accurate
-    const yearInvoices = invoices.filter(inv => new Date(inv.date).getFullYear() === currentYear);
+    // Filter invoices for the selected year to ensure "Annual" and current models are accurate
+    const yearInvoices = invoices.filter(inv => isDateInPeriod(inv.date, { year: currentYear }));
 
-    // Model 303 (IVA) & 390 (Resumen Anual)
+    // Model 303 (IVA) & 390 (Resumen Anual): same engine as the quarterly 303, over the whole year
+    const annual303 = computeModel303(invoices, { year: currentYear });
     const incomes = yearInvoices.filter(i => i.type === InvoiceType.INCOME);
-    const expenses = yearInvoices.filter(i => i.type === InvoiceType.EXPENSE && i.deductible);
     
-    const ivaDevengado = incomes.reduce((sum, i) => sum + i.ivaAmount, 0);
-    const baseDevengado = incomes.reduce((sum, i) => sum + i.baseAmount, 0);
+    const ivaDevengado = annual303.totalDevengado;
+    const baseDevengado = annual303.devengadoByRate.reduce((sum, d) => sum + d.base, 0) + annual303.casillas['14'];
     
-    const ivaSoportado = expenses.reduce((sum, i) => sum + i.ivaAmount, 0);
-    const baseSoportado = expenses.reduce((sum, i) => sum + i.baseAmount, 0);
+    const ivaSoportado = annual303.totalDeducible;
+    const baseSoportado = annual303.deducibleByRate.reduce((sum, d) => sum + d.base, 0);
     
-    const result303 = ivaDevengado - ivaSoportado;
-
-    // Desglose por tipos de IVA para el Modelo 390 (Gastos)
-    const desgloseSoportado = expenses.reduce((acc, inv) => {
-        const rate = inv.ivaRate;
-        if (!acc[rate]) {
-            acc[rate] = { base: 0, quota: 0 };
-        }
-        acc[rate].base += inv.baseAmount;
-        acc[rate].quota += inv.ivaAmount;
-        return acc;
-    }, {} as Record<number, { base: number, quota: number }>);
+    const result303 = annual303.result;
 
-    // Convertir a array y ordenar por tipo de IVA descendente
-    const listadoDesgloseSoportado = Object.entries(desgloseSoportado)
-        .map(([rate, data]) => {
-            const d = data as { base: number, quota: number };
-            return { rate: Number(rate), base: d.base, quota: d.quota };
-        })
-        .sort((a, b) => b.rate - a.rate);
+    // Modelo 390: devengado por tipos, deducible por naturaleza y conciliación con los 303
+    const model390 = computeModel390(invoices, currentYear);
 
 
-    // Model 130 (IRPF) - Estimación Directa Simplificada
-    const totalIngresos = incomes.reduce((sum, i) => sum + i.baseAmount, 0);
-    const totalGastos = expenses.reduce((sum, i) => sum + i.baseAmount, 0);
-    const rendimientoNeto = totalIngresos - totalGastos;
+    // Model 130 (IRPF) - Estimación Directa Simplificada. Bienes de inversión vía amortización
+    const annualYield = computeNetYield(invoices, `${currentYear}-01-01`, `${currentYear}-12-31`, assets);
+    const totalIngresos = annualYield.income;
+    const totalGastos = annualYield.expenses;
+    const amortizaciones = annualYield.depreciation;
+    const rendimientoNeto = annualYield.netYield;
     
     // 1. Cálculo de la cuota teórica (20% del rendimiento neto)
     const pagoTeorico = rendimientoNeto > 0 ? rendimientoNeto * 0.20 : 0;
@@ -64,25 +129,15 @@ export const TaxModels: React.FC<TaxModelsProps> = ({ invoices, onAskAi }) => {
     const resultadoIrpfAnual = pagoTeorico - retencionesSoportadas;
 
 
-    // Model 111 (Retenciones a profesionales/trabajadores - Gastos)
-    // Assuming expenses with IRPF are from professionals checking invoices received
-    const retencionesPracticadas = expenses.reduce((sum, i) => sum + i.irpfAmount, 0);
+    // Retenciones practicadas (111/115 trimestrales, resúmenes anuales 190/180)
+    const model190 = computeAnnualWithholdingSummary(invoices, currentYear, '190');
+    const model180 = computeAnnualWithholdingSummary(invoices, currentYear, '180');
 
-    // Model 347 (Operations > 3005.06€)
-    const operationsByNif = yearInvoices.reduce((acc, curr) => {
-      if (!acc[curr.nif]) {
-        acc[curr.nif] = { name: curr.entityName, total: 0, type: curr.type };
-      }
-      acc[curr.nif].total += Math.abs(curr.totalAmount);
-      return acc;
-    }, {} as Record<string, {name: string, total: number, type: InvoiceType}>);
-
-    const model347List = (Object.entries(operationsByNif) as [string, { name: string; total: number; type: InvoiceType }][])
-      .filter(([_, data]) => data.total > 3005.06)
-      .map(([nif, data]) => ({ nif, ...data }));
+    // Model 347 (Operations > 3005.06€): clave A/B, por trimestres y con exclusiones
+    const model347 = computeModel347(invoices, currentYear);
+    const model347List = model347.entries;
 
-    // Model 190 (Annual Summary of Withholdings Suffered / Retenciones Soportadas)
-    // Grouping clients who withheld tax from us
+    // Retenciones SOPORTADAS: clientes que nos han retenido (las declaran ellos en su 190)
     const incomesWithWithholding = incomes.filter(i => i.irpfAmount > 0);
     const model190Map = incomesWithWithholding.reduce((acc, curr) => {
         if (!acc[curr.nif]) {
@@ -93,30 +148,35 @@ export const TaxModels: React.FC<TaxModelsProps> = ({ invoices, onAskAi }) => {
         return acc;
     }, {} as Record<string, {name: string, nif: string, base: number, retention: number}>);
     
-    const model190List = Object.values(model190Map);
+    const retencionesSoportadasList = Object.values(model190Map);
 
     return { 
         ivaDevengado, 
         baseDevengado,
         ivaSoportado, 
         baseSoportado,
-        listadoDesgloseSoportado,
+        model390,
         result303, 
         totalIngresos, 
         totalGastos, 
+        amortizaciones,
         rendimientoNeto, 
         pagoTeorico,
         retencionesSoportadas,
         resultadoIrpfAnual,
-        retencionesPracticadas, 
+        model190,
+        model180,
+        model347,
         model347List,
-        model190List
+        retencionesSoportadasList
     };
-  }, [invoices, currentYear]);
+  }, [invoices, currentYear, assets]);
 
   const generatePDFReport = (modelType: 'ALL' | '303' | '390' | '130' | '111' | '347' | '190' = 'ALL') => {
     const doc = new jsPDF();
-    const currentQuarter = Math.floor((new Date().getMonth() + 3) / 3);
+    const today = getCurrentPeriod();
+    // Past years are reported in full; the running year only up to the current quarter
+    const currentQuarter = currentYear < today.year ? 4 : currentYear > today.year ? 0 : today.quarter!;
     
     let title = `Informe Fiscal ${currentYear}`;
     if (modelType === '303') title = `Modelo 303 (IVA) - ${currentYear}`;
@@ -124,7 +184,7 @@ export const TaxModels: React.FC<TaxModelsProps> = ({ invoices, onAskAi }) => {
     if (modelType === '130') title = `Modelo 130 (IRPF) - ${currentYear}`;
     if (modelType === '111') title = `Modelo 111 (Retenciones Practicadas) - ${currentYear}`;
     if (modelType === '347') title = `Modelo 347 (Operaciones con Terceros) - ${currentYear}`;
-    if (modelType === '190') title = `Modelo 190 (Retenciones Soportadas) - ${currentYear}`;
+    if (modelType === '190') title = `Modelos 190 y 180 (Resumen Anual de Retenciones) - ${currentYear}`;
 
     doc.setFontSize(18);
     doc.text(title, 14, 20);
@@ -140,44 +200,27 @@ export const TaxModels: React.FC<TaxModelsProps> = ({ invoices, onAskAi }) => {
     const quarters = [1, 2, 3, 4].filter(q => q <= currentQuarter);
     
     const quarterData = quarters.map(q => {
-        const startMonth = (q - 1) * 3;
-        const endMonth = startMonth + 2;
-        
-        const qInvoices = invoices.filter(inv => {
-            const d = new Date(inv.date);
-            return d.getFullYear() === currentYear && d.getMonth() >= startMonth && d.getMonth() <= endMonth;
-        });
-        
-        const qIncomes = qInvoices.filter(i => i.type === InvoiceType.INCOME);
-        const qExpenses = qInvoices.filter(i => i.type === InvoiceType.EXPENSE && i.deductible);
-        
-        const devengado = qIncomes.reduce((s, i) => s + i.ivaAmount, 0);
-        const soportado = qExpenses.reduce((s, i) => s + i.ivaAmount, 0);
-        
-        const ingresos = qIncomes.reduce((s, i) => s + i.baseAmount, 0);
-        const gastos = qExpenses.reduce((s, i) => s + i.baseAmount, 0);
-        const rend = ingresos - gastos;
-        
-        // Cálculo aproximado trimestre
-        const pagoCuenta = rend > 0 ? rend * 0.20 : 0;
-        const retenciones = qIncomes.reduce((s, i) => s + i.irpfAmount, 0);
-        const result130 = pagoCuenta - retenciones;
+        const quarterPeriod: TaxPeriod = { year: currentYear, quarter: q as TaxPeriod['quarter'] };
+        const q303 = computeModel303(invoices, quarterPeriod, { pendingCompensation: getPendingCompensation(invoices, quarterPeriod) });
+        const devengado = q303.totalDevengado;
+        const soportado = q303.totalDeducible;
 
-        // Model 111 quarterly
-        const retencionesPracticadas = qExpenses.reduce((s, i) => s + i.irpfAmount, 0);
+        // Modelo 130 acumulado desde el 1 de enero
+        const q130 = computeModel130(invoices, currentYear, q as 1 | 2 | 3 | 4, model130Payments, { assets });
+
+        // Retenciones practicadas del trimestre
+        const q111 = computeModel111(invoices, currentYear, q as 1 | 2 | 3 | 4);
+        const q115 = computeModel115(invoices, currentYear, q as 1 | 2 | 3 | 4);
 
         return { 
             q, 
             devengado, 
             soportado, 
-            res303: devengado - soportado, 
-            ingresos, 
-            gastos, 
-            rend, 
-            pagoCuenta,
-            retenciones,
-            result130,
-            retencionesPracticadas
+            res303: q303.result, 
+            c130: q130.casillas,
+            declared130: model130Payments.some(p => p.year === currentYear && p.quarter === q),
+            c111: q111.casillas,
+            c115: q115.casillas
         };
     });
 
@@ -201,6 +244,21 @@ export const TaxModels: React.FC<TaxModelsProps> = ({ invoices, onAskAi }) => {
             headStyles: { fillColor: [79, 70, 229] }
         });
         // @ts-ignore
+        finalY = doc.lastAutoTable.finalY + 10;
+
+        // Casillas del periodo seleccionado
+        doc.setFontSize(12);
+        doc.text(`Casillas ${getPeriodLabel(period)}`, 14, finalY);
+
+        autoTable(doc, {
+            startY: finalY + 5,
+            head: [['Casilla', 'Importe']],
+            body: (Object.entries(model303.casillas) as [string, number][])
+                .filter(([_, value]) => value !== 0)
+                .map(([box, value]) => [box, `${value.toFixed(2)} €`]),
+            theme: 'grid',
+        });
+        // @ts-ignore
         finalY = doc.lastAutoTable.finalY + 15;
     }
 
@@ -209,34 +267,81 @@ export const TaxModels: React.FC<TaxModelsProps> = ({ invoices, onAskAi }) => {
         doc.setFontSize(14);
         doc.text("Modelo 390 (Resumen Anual IVA)", 14, finalY);
         
-        // Tabla 1: Totales Generales
+        const m390 = calculations.model390;
+        const c390 = m390.casillas;
+        const money = (value: number) => `${value.toFixed(2)} €`;
+        const deducibleRows = (label: string, items: { rate: number; base: number; quota: number }[]) =>
+            items.map(item => [`${label} ${item.rate}%`, money(item.base), money(item.quota)]);
+
+        // Tabla 1: IVA devengado por tipos
         autoTable(doc, {
             startY: finalY + 5,
-            head: [['Concepto', 'Base Imponible Total', 'Cuota IVA Total']],
+            head: [['IVA Devengado', 'Base Imponible', 'Cuota']],
             body: [
-                ['IVA Devengado (Facturas Emitidas)', `${calculations.baseDevengado.toFixed(2)} €`, `${calculations.ivaDevengado.toFixed(2)} €`],
-                ['IVA Soportado (Facturas Recibidas)', `${calculations.baseSoportado.toFixed(2)} €`, `${calculations.ivaSoportado.toFixed(2)} €`],
-                ['RESULTADO ANUAL', '-', `${calculations.result303.toFixed(2)} €`]
+                ...m390.devengadoByRate.map(item => [`Régimen ordinario ${item.rate}%`, money(item.base), money(item.quota)]),
+                ['Adquisiciones intracomunitarias [21-22]', money(c390['21']), money(c390['22'])],
+                ['Inversión del sujeto pasivo [27-28]', money(c390['27']), money(c390['28'])],
+                ['Modificación de bases y cuotas [29-30]', money(c390['29']), money(c390['30'])],
+                ['TOTAL CUOTAS DEVENGADAS [47]', '-', money(c390['47'])]
             ],
             theme: 'striped',
             headStyles: { fillColor: [124, 58, 237] } // Violet
         });
-        
+
         // @ts-ignore
         finalY = doc.lastAutoTable.finalY + 10;
 
-        // Tabla 2: Desglose Soportado
+        // Tabla 2: IVA deducible por naturaleza de la operación
+        autoTable(doc, {
+            startY: finalY,
+            head: [['IVA Deducible', 'Base Imponible', 'Cuota']],
+            body: [
+                ...deducibleRows('Operaciones corrientes', m390.deducible.corrientes),
+                ...deducibleRows('Bienes de inversión', m390.deducible.inversion),
+                ...deducibleRows('Importaciones', m390.deducible.importaciones),
+                ...deducibleRows('Adquisiciones intracomunitarias', m390.deducible.intracomunitarias),
+                ['Regularización por prorrata [63]', '-', money(c390['63'])],
+                ['TOTAL DEDUCCIONES [64]', '-', money(c390['64'])],
+                ['RESULTADO RÉGIMEN GENERAL [65]', '-', money(c390['65'])]
+            ],
+            theme: 'grid',
+        });
+
+        // @ts-ignore
+        finalY = doc.lastAutoTable.finalY + 10;
+
+        // Tabla 3: Conciliación con las autoliquidaciones trimestrales
         doc.setFontSize(12);
-        doc.text("Desglose IVA Soportado por Tipos", 14, finalY);
-        
+        doc.text("Conciliación con los Modelos 303 trimestrales", 14, finalY);
+
         autoTable(doc, {
             startY: finalY + 5,
-            head: [['Tipo Impositivo', 'Base Imponible', 'Cuota IVA']],
-            body: calculations.listadoDesgloseSoportado.map(item => [
-                `${item.rate}%`,
-                `${item.base.toFixed(2)} €`,
-                `${item.quota.toFixed(2)} €`
-            ]),
+            head: [['Trimestre', 'Resultado [46]', 'Compensado [78]', 'Resultado [71]']],
+            body: [
+                ...m390.quarters.map(q => [`${q.quarter}T`, money(q.result46), money(q.compensated78), money(q.result71)]),
+                ['Diferencia con el resultado anual', money(m390.reconciliationDifference), '', '']
+            ],
+            theme: 'grid',
+        });
+
+        // @ts-ignore
+        finalY = doc.lastAutoTable.finalY + 10;
+
+        // Tabla 4: Resultado de las liquidaciones, volumen de operaciones y prorrata
+        autoTable(doc, {
+            startY: finalY,
+            head: [['Concepto', 'Casilla', 'Importe']],
+            body: [
+                ['Compensaciones del ejercicio anterior', '85', money(c390['85'])],
+                ['Total ingresos de las autoliquidaciones', '95', money(c390['95'])],
+                ['A compensar en el último periodo', '97', money(c390['97'])],
+                ['A devolver en el último periodo', '98', money(c390['98'])],
+                ['Operaciones en régimen general', '99', money(c390['99'])],
+                ['Operaciones exentas sin derecho a deducción', '105', money(c390['105'])],
+                ['Operaciones no sujetas por reglas de localización', '110', money(c390['110'])],
+                ['VOLUMEN TOTAL DE OPERACIONES', '108', money(c390['108'])],
+                ['Prorrata definitiva', '-', `${m390.prorrata.percent}% (${m390.prorrata.type === 'G' ? 'general' : 'especial'})`]
+            ],
             theme: 'grid',
         });
 
@@ -249,22 +354,37 @@ export const TaxModels: React.FC<TaxModelsProps> = ({ invoices, onAskAi }) => {
         doc.setFontSize(14);
         doc.text("Modelo 130 (IRPF)", 14, finalY);
 
+        // Importes acumulados desde el 1 de enero, como en el propio modelo
         autoTable(doc, {
             startY: finalY + 5,
-            head: [['Trimestre', 'Ingresos', 'Gastos Ded.', 'Rend. Neto', 'Cuota (20%)', 'Retenciones', 'A Ingresar']],
+            head: [['Trimestre', '[01] Ingresos', '[02] Gastos', '[03] Rend. Neto', '[04] 20%', '[05] Pagos Ant.', '[06] Retenciones', '[19] Resultado']],
             body: quarterData.map(d => [
-                `T${d.q}`, 
-                `${d.ingresos.toFixed(2)} €`, 
-                `${d.gastos.toFixed(2)} €`, 
-                `${d.rend.toFixed(2)} €`,
-                `${d.pagoCuenta.toFixed(2)} €`,
-                `${d.retenciones.toFixed(2)} €`,
-                `${d.result130.toFixed(2)} €`
+                `T${d.q}${d.declared130 ? ' (presentado)' : ''}`, 
+                `${d.c130['01'].toFixed(2)} €`, 
+                `${d.c130['02'].toFixed(2)} €`, 
+                `${d.c130['03'].toFixed(2)} €`,
+                `${d.c130['04'].toFixed(2)} €`,
+                `${d.c130['05'].toFixed(2)} €`,
+                `${d.c130['06'].toFixed(2)} €`,
+                `${d.c130['19'].toFixed(2)} €`
             ]),
             theme: 'grid',
             headStyles: { fillColor: [16, 185, 129] }
         });
         // @ts-ignore
+        finalY = doc.lastAutoTable.finalY + 10;
+
+        // Casillas del trimestre seleccionado
+        doc.setFontSize(12);
+        doc.text(`Casillas ${selectedQuarter}T ${currentYear}`, 14, finalY);
+
+        autoTable(doc, {
+            startY: finalY + 5,
+            head: [['Casilla', 'Importe']],
+            body: MODEL_130_CASILLAS.map(box => [box, `${model130.casillas[box].toFixed(2)} €`]),
+            theme: 'grid',
+        });
+        // @ts-ignore
         finalY = doc.lastAutoTable.finalY + 15;
     }
 
@@ -275,10 +395,32 @@ export const TaxModels: React.FC<TaxModelsProps> = ({ invoices, onAskAi }) => {
         
         autoTable(doc, {
             startY: finalY + 5,
-            head: [['Trimestre', 'Total Retenido (A Ingresar)']],
+            head: [['Trimestre', '[01] Perc. Trabajo', '[03] Ret. Trabajo', '[07] Perc. Activ.', '[09] Ret. Activ.', '[28] Total']],
             body: quarterData.map(d => [
                 `T${d.q}`, 
-                `${d.retencionesPracticadas.toFixed(2)} €`
+                d.c111['01'],
+                `${d.c111['03'].toFixed(2)} €`,
+                d.c111['07'],
+                `${d.c111['09'].toFixed(2)} €`,
+                `${d.c111['28'].toFixed(2)} €`
+            ]),
+            theme: 'grid',
+            headStyles: { fillColor: [245, 158, 11] }
+        });
+         // @ts-ignore
+         finalY = doc.lastAutoTable.finalY + 10;
+
+        doc.setFontSize(12);
+        doc.text("Modelo 115 (Retenciones sobre Arrendamientos)", 14, finalY);
+
+        autoTable(doc, {
+            startY: finalY + 5,
+            head: [['Trimestre', '[01] Perceptores', '[02] Base', '[03] Retenciones']],
+            body: quarterData.map(d => [
+                `T${d.q}`,
+                d.c115['01'],
+                `${d.c115['02'].toFixed(2)} €`,
+                `${d.c115['03'].toFixed(2)} €`
             ]),
             theme: 'grid',
             headStyles: { fillColor: [245, 158, 11] }
@@ -299,41 +441,85 @@ export const TaxModels: React.FC<TaxModelsProps> = ({ invoices, onAskAi }) => {
         } else {
             autoTable(doc, {
                 startY: finalY + 5,
-                head: [['NIF', 'Nombre / Razón Social', 'Tipo', 'Importe Total']],
+                head: [['NIF', 'Nombre / Razón Social', 'Clave', '1T', '2T', '3T', '4T', 'Importe Anual']],
                 body: calculations.model347List.map(item => [
                     item.nif,
                     item.name,
-                    item.type === InvoiceType.INCOME ? 'CLIENTE' : 'PROVEEDOR',
-                    `${item.total.toFixed(2)} €`
+                    item.key === 'A' ? 'A (Compras)' : 'B (Ventas)',
+                    ...item.quarterlyAmounts.map(q => `${q.toFixed(2)} €`),
+                    `${item.annualAmount.toFixed(2)} €`
                 ]),
                 theme: 'striped',
-                headStyles: { fillColor: [71, 85, 105] }
+                headStyles: { fillColor: [71, 85, 105] },
+                styles: { fontSize: 8 }
             });
              // @ts-ignore
             finalY = doc.lastAutoTable.finalY + 15;
         }
+
+        // Operaciones excluidas por declararse en otros modelos
+        const { excluded } = calculations.model347;
+        doc.setFontSize(9);
+        doc.text(`Excluidas: ${excluded.withholding} operaciones con retención IRPF, ${excluded.foreign} intracomunitarias/importaciones/no residentes, ${excluded.supplies.toFixed(2)} € de suplidos.`, 14, finalY);
+        finalY += 15;
     }
 
-    // Table 190 (Custom Report for User)
+    // Table 190 / 180 (resúmenes anuales de retenciones practicadas)
     if (modelType === 'ALL' || modelType === '190') {
-        doc.setFontSize(14);
-        doc.text("Modelo 190 - Certificados (Retenciones Soportadas)", 14, finalY);
+        const summaries = [
+            { summary: calculations.model190, label: 'Modelo 190 (Trabajo y Actividades Profesionales)' },
+            { summary: calculations.model180, label: 'Modelo 180 (Arrendamientos)' }
+        ];
+
+        summaries.forEach(({ summary, label }) => {
+            doc.setFontSize(14);
+            doc.text(label, 14, finalY);
+
+            if (summary.perceptors.length === 0) {
+                doc.setFontSize(10);
+                doc.text("No se han practicado retenciones en el ejercicio.", 14, finalY + 10);
+                finalY += 20;
+                return;
+            }
+
+            autoTable(doc, {
+                startY: finalY + 5,
+                head: [['NIF', 'Perceptor', 'Clave', 'Prov.', 'Percepción Íntegra', 'Retenciones']],
+                body: summary.perceptors.map(p => [
+                    p.nif,
+                    p.name,
+                    p.key ? `${p.key}${p.subkey ? ` / ${p.subkey}` : ''}` : '-',
+                    p.provinceCode || '-',
+                    `${p.base.toFixed(2)} €`,
+                    `${p.withholding.toFixed(2)} €`
+                ]),
+                foot: [['', 'TOTAL', '', '', `${summary.totalBase.toFixed(2)} €`, `${summary.totalWithholding.toFixed(2)} €`]],
+                theme: 'striped',
+                headStyles: { fillColor: [59, 130, 246] }
+            });
+            // @ts-ignore
+            finalY = doc.lastAutoTable.finalY + 15;
+        });
 
-        if (calculations.model190List.length === 0) {
+        // Retenciones soportadas: informativo, no forman parte del 190 propio
+        doc.setFontSize(12);
+        doc.text("Retenciones Soportadas (nos las practican los clientes)", 14, finalY);
+
+        if (calculations.retencionesSoportadasList.length === 0) {
              doc.setFontSize(10);
              doc.text("No se han registrado retenciones soportadas.", 14, finalY + 10);
         } else {
             autoTable(doc, {
                 startY: finalY + 5,
                 head: [['NIF', 'Cliente (Pagador)', 'Base Imponible', 'Retención Practicada']],
-                body: calculations.model190List.map(item => [
+                body: calculations.retencionesSoportadasList.map(item => [
                     item.nif,
                     item.name,
                     `${item.base.toFixed(2)} €`,
                     `${item.retention.toFixed(2)} €`
                 ]),
                 theme: 'striped',
-                headStyles: { fillColor: [59, 130, 246] }
+                headStyles: { fillColor: [100, 116, 139] }
             });
         }
     }
@@ -341,49 +527,112 @@ export const TaxModels: React.FC<TaxModelsProps> = ({ invoices, onAskAi }) => {
     doc.save(`${title.replace(/ /g, '_')}.pdf`);
   };
 
+  const handleExport303File = async () => {
+      const profile = await getProfessionalProfile();
+
+      try {
+          const content = generateModel303File(model303, profile, { iban: profile.iban });
+          downloadAeatFile(content, getModel303FileName(model303, profile));
+      } catch (e: any) {
+          console.error(e);
+          alert(e.message);
+      }
+  };
+
+  const handleExport347File = async () => {
+      const profile = await getProfessionalProfile();
+
+      try {
+          const content = generateModel347File(calculations.model347, profile);
+          downloadAeatFile(content, getModel347FileName(calculations.model347, profile));
+      } catch (e: any) {
+          console.error(e);
+          alert(e.message);
+      }
+  };
+
+  const handleExport390File = async () => {
+      const profile = await getProfessionalProfile();
+
+      try {
+          const content = generateModel390File(calculations.model390, profile);
+          downloadAeatFile(content, getModel390FileName(calculations.model390, profile));
+      } catch (e: any) {
+          console.error(e);
+          alert(e.message);
+      }
+  };
+
+  // Modelos 115 (trimestral) y 180 (anual): retenciones sobre el alquiler del despacho
+  const handleRentalWithholdingOutput = async (model: '115' | '180', output: 'pdf' | 'file') => {
+      const profile = await getProfessionalProfile();
+
+      try {
+          if (model === '115') {
+              if (output === 'pdf') generateModel115PDF(model115, profile);
+              else downloadAeatFile(generateModel115File(model115, profile, { iban: profile.iban }), getModel115FileName(model115, profile));
+          } else {
+              if (output === 'pdf') generateModel180PDF(calculations.model180, profile);
+              else downloadAeatFile(generateModel180File(calculations.model180, profile), getModel180FileName(calculations.model180, profile));
+          }
+      } catch (e: any) {
+          console.error(e);
+          alert(e.message);
+      }
+  };
+
   const handleConsultAi = (type: '303' | '390' | '130' | '111' | '347' | '190') => {
       if (!onAskAi) return;
 
       let prompt = "";
       if (type === '303') {
-          prompt = `Actúa como experto fiscal en España. Explícame cómo rellenar el Modelo 303 (IVA) con mis datos actuales del año ${currentYear}:
-          - IVA Devengado (Repercutido): ${calculations.ivaDevengado.toFixed(2)}€
-          - IVA Soportado (Deducible): ${calculations.ivaSoportado.toFixed(2)}€
-          - Resultado: ${calculations.result303.toFixed(2)}€
+          prompt = `Actúa como experto fiscal en España. Explícame cómo rellenar el Modelo 303 (IVA) del periodo ${getPeriodLabel(period)} con mis datos:
+          - IVA Devengado (Casilla 27): ${model303.totalDevengado.toFixed(2)}€
+          - IVA Deducible (Casilla 45): ${model303.totalDeducible.toFixed(2)}€
+          - Resultado (Casilla 71): ${model303.result.toFixed(2)}€
+          
+          Casillas calculadas: ${(Object.entries(model303.casillas) as [string, number][]).filter(([_, v]) => v !== 0).map(([k, v]) => `[${k}] ${v.toFixed(2)}`).join(', ')}
           
-          ¿En qué casillas generales debería poner estos importes?`;
+          ¿Es correcta esta distribución de casillas?`;
       } else if (type === '390') {
           prompt = `Actúa como experto fiscal. Necesito ayuda con el Modelo 390 (Resumen Anual IVA) para el ejercicio ${currentYear}.
-          Mis totales son:
-          - Base Devengado: ${calculations.baseDevengado.toFixed(2)}€ | Cuota: ${calculations.ivaDevengado.toFixed(2)}€
-          - Base Soportado: ${calculations.baseSoportado.toFixed(2)}€ | Cuota: ${calculations.ivaSoportado.toFixed(2)}€
+          Casillas calculadas: ${(Object.entries(calculations.model390.casillas) as [string, number][]).filter(([_, v]) => v !== 0).map(([k, v]) => `[${k}] ${v.toFixed(2)}`).join(', ')}
           
-          Detalle Soportado por tipos:
-          ${calculations.listadoDesgloseSoportado.map(d => `- Tipo ${d.rate}%: Base ${d.base.toFixed(2)}€, Cuota ${d.quota.toFixed(2)}€`).join('\n')}
+          Resultados trimestrales del 303: ${calculations.model390.quarters.map(q => `${q.quarter}T ${q.result71.toFixed(2)}€`).join(', ')}
+          Prorrata definitiva: ${calculations.model390.prorrata.percent}%
           
-          ¿Cómo debo trasladar este desglose a las casillas del modelo?`;
+          ¿Cuadra el resumen anual con las autoliquidaciones y es correcta la distribución de casillas?`;
       } else if (type === '130') {
-          prompt = `Actúa como experto fiscal. Ayúdame con el Modelo 130 (IRPF Estimación Directa) para el año ${currentYear}. Mis datos acumulados son:
-          - Ingresos computables: ${calculations.totalIngresos.toFixed(2)}€
-          - Gastos deducibles: ${calculations.totalGastos.toFixed(2)}€
-          - Rendimiento Neto: ${calculations.rendimientoNeto.toFixed(2)}€
-          - Retenciones que me han practicado (Soportadas): ${calculations.retencionesSoportadas.toFixed(2)}€
-          - Resultado Final a ingresar (aprox): ${calculations.resultadoIrpfAnual.toFixed(2)}€
+          prompt = `Actúa como experto fiscal. Ayúdame con el Modelo 130 (IRPF Estimación Directa) del ${selectedQuarter}T ${currentYear}. Mis datos acumulados desde el 1 de enero son:
+          - [01] Ingresos computables: ${model130.casillas['01'].toFixed(2)}€
+          - [02] Gastos deducibles: ${model130.casillas['02'].toFixed(2)}€
+          - [03] Rendimiento Neto: ${model130.casillas['03'].toFixed(2)}€
+          - [05] Pagos fraccionados de trimestres anteriores: ${model130.casillas['05'].toFixed(2)}€
+          - [06] Retenciones que me han practicado (Soportadas): ${model130.casillas['06'].toFixed(2)}€
+          - [13] Minoración art. 110.3.c: ${model130.casillas['13'].toFixed(2)}€
+          - [15] Resultados negativos de trimestres anteriores: ${model130.casillas['15'].toFixed(2)}€
+          - [19] Resultado: ${model130.result.toFixed(2)}€
           
           Explica brevemente el cálculo y cómo declararlo.`;
       } else if (type === '111') {
-          prompt = `Explícame el Modelo 111 (Retenciones e Ingresos a Cuenta).
-          Tengo un total retenido en facturas recibidas (profesionales) de: ${calculations.retencionesPracticadas.toFixed(2)}€.
+          prompt = `Explícame el Modelo 111 (Retenciones e Ingresos a Cuenta) del ${selectedQuarter}T ${currentYear}.
+          - Rendimientos del trabajo: ${model111.casillas['01']} perceptores, base ${model111.casillas['02'].toFixed(2)}€, retenciones ${model111.casillas['03'].toFixed(2)}€
+          - Actividades económicas: ${model111.casillas['07']} perceptores, base ${model111.casillas['08'].toFixed(2)}€, retenciones ${model111.casillas['09'].toFixed(2)}€
+          - Total [28]: ${model111.casillas['28'].toFixed(2)}€
+          Además, en el Modelo 115 (arrendamientos) tengo ${model115.casillas['01']} arrendadores con retenciones de ${model115.casillas['03'].toFixed(2)}€.
           ¿Cómo debo declarar e ingresar esto en Hacienda?`;
       } else if (type === '347') {
           const count = calculations.model347List.length;
           prompt = `Sobre el Modelo 347 (Declaración anual de operaciones con terceras personas).
-          Según mis registros, tengo ${count} terceros que superan los 3.005,06€.
+          Según mis registros, tengo ${count} terceros que superan los 3.005,06€ (${calculations.model347List.filter(e => e.key === 'A').length} con clave A y ${calculations.model347List.filter(e => e.key === 'B').length} con clave B).
+          He excluido ${calculations.model347.excluded.withholding} operaciones sujetas a retención de IRPF y los suplidos.
           ¿Cuándo se presenta este modelo y qué datos exactos necesito de cada uno?`;
       } else if (type === '190') {
-          prompt = `Tengo dudas sobre el Modelo 190 (Resumen Anual de Retenciones).
-          He soportado retenciones por valor de ${calculations.retencionesSoportadas.toFixed(2)}€ en mis facturas emitidas.
-          ¿Debo presentar yo el 190 o lo presentan mis clientes? ¿Cómo obtengo mis certificados de retenciones?`;
+          prompt = `Tengo dudas sobre los resúmenes anuales de retenciones del ejercicio ${currentYear}.
+          - Modelo 190 (retenciones que he practicado a trabajadores y profesionales): ${calculations.model190.perceptors.length} perceptores, ${calculations.model190.totalWithholding.toFixed(2)}€.
+          - Modelo 180 (retenciones sobre alquileres): ${calculations.model180.perceptors.length} arrendadores, ${calculations.model180.totalWithholding.toFixed(2)}€.
+          - Además, mis clientes me han retenido ${calculations.retencionesSoportadas.toFixed(2)}€ en las facturas emitidas.
+          ¿Qué claves y subclaves debo usar en el 190 y en qué se diferencian las retenciones practicadas de las soportadas?`;
       }
 
       onAskAi(prompt);
@@ -402,6 +651,7 @@ export const TaxModels: React.FC<TaxModelsProps> = ({ invoices, onAskAi }) => {
                 </h3>
             </div>
             <div className="flex items-center gap-2">
+                <PeriodSelector period={period} onChange={setPeriod} years={availableYears} />
                 <Button onClick={() => generatePDFReport('ALL')} variant="secondary" className="text-xs h-8 px-3">
                     <FileText className="h-4 w-4 text-red-500" />
                     Informe Completo PDF
@@ -467,6 +717,9 @@ export const TaxModels: React.FC<TaxModelsProps> = ({ invoices, onAskAi }) => {
                             Gastos Deducibles
                         </div>
                         <p className="text-lg font-bold text-slate-800">{calculations.totalGastos.toFixed(2)} €</p>
+                        {calculations.amortizaciones > 0 && (
+                            <p className="text-[10px] text-slate-400">Incluye amortizaciones: {calculations.amortizaciones.toFixed(2)} €</p>
+                        )}
                     </div>
                 </div>
 
@@ -520,24 +773,65 @@ export const TaxModels: React.FC<TaxModelsProps> = ({ invoices, onAskAi }) => {
                 >
                     <Download className="h-5 w-5" />
                 </button>
-                <span className={`px-2 py-1 rounded text-xs font-bold ${calculations.result303 >= 0 ? 'bg-indigo-100 text-indigo-800' : 'bg-green-100 text-green-800'}`}>
-                    {calculations.result303 >= 0 ? 'A Ingresar' : 'A Devolver'}
+                <button 
+                    onClick={handleExport303File} 
+                    className="text-indigo-600 hover:bg-indigo-50 p-1.5 rounded transition-colors"
+                    title="Descargar fichero AEAT (Presentación mediante fichero)"
+                >
+                    <FileCode className="h-5 w-5" />
+                </button>
+                <span className={`px-2 py-1 rounded text-xs font-bold ${model303.result >= 0 ? 'bg-indigo-100 text-indigo-800' : 'bg-green-100 text-green-800'}`}>
+                    {model303.result >= 0 ? 'A Ingresar' : 'A Devolver'}
                 </span>
             </div>
             </div>
             <div className="p-6 space-y-4">
+            <p className="text-xs font-bold text-slate-600 uppercase">Periodo {getPeriodLabel(period)}</p>
+            <div className="space-y-1">
+                {model303.devengadoByRate.length === 0 ? (
+                    <p className="text-xs text-slate-400 italic">Sin IVA devengado en el periodo.</p>
+                ) : (
+                    model303.devengadoByRate.map(item => (
+                        <div key={item.rate} className="flex justify-between text-xs bg-slate-50 p-2 rounded">
+                            <span className="text-slate-600">Devengado {item.rate}% <span className="text-slate-400">(Base {item.base.toFixed(2)} €)</span></span>
+                            <span className="font-mono text-slate-800">{item.quota.toFixed(2)} €</span>
+                        </div>
+                    ))
+                )}
+                {model303.casillas['14'] !== 0 && (
+                    <div className="flex justify-between text-xs bg-amber-50 p-2 rounded">
+                        <span className="text-slate-600">[14-15] Rectificativas <span className="text-slate-400">(Base {model303.casillas['14'].toFixed(2)} €)</span></span>
+                        <span className="font-mono text-slate-800">{model303.casillas['15'].toFixed(2)} €</span>
+                    </div>
+                )}
+            </div>
             <div className="flex justify-between text-sm">
-                <span className="text-slate-600">IVA Devengado</span>
-                <span className="font-medium text-slate-900">{calculations.ivaDevengado.toFixed(2)} €</span>
+                <span className="text-slate-600">[27] Total Cuota Devengada</span>
+                <span className="font-medium text-slate-900">{model303.totalDevengado.toFixed(2)} €</span>
+            </div>
+            <div className="text-xs space-y-1 text-slate-500 pl-2 border-l-2 border-slate-100">
+                <div className="flex justify-between"><span>[29] Op. interiores corrientes</span><span>{model303.casillas['29'].toFixed(2)} €</span></div>
+                <div className="flex justify-between"><span>[31] Bienes de inversión</span><span>{model303.casillas['31'].toFixed(2)} €</span></div>
+                <div className="flex justify-between"><span>[33] Importaciones</span><span>{model303.casillas['33'].toFixed(2)} €</span></div>
+                <div className="flex justify-between"><span>[37] Adq. intracomunitarias</span><span>{model303.casillas['37'].toFixed(2)} €</span></div>
             </div>
             <div className="flex justify-between text-sm">
-                <span className="text-slate-600">IVA Soportado</span>
-                <span className="font-medium text-slate-900">- {calculations.ivaSoportado.toFixed(2)} €</span>
+                <span className="text-slate-600">[45] Total a Deducir</span>
+                <span className="font-medium text-slate-900">- {model303.totalDeducible.toFixed(2)} €</span>
             </div>
+            {model303.casillas['78'] !== 0 && (
+                <div className="flex justify-between text-sm">
+                    <span className="text-slate-600">[78] Cuotas a compensar de periodos anteriores <span className="text-slate-400">(pendientes {model303.casillas['110'].toFixed(2)} €)</span></span>
+                    <span className="font-medium text-slate-900">- {model303.casillas['78'].toFixed(2)} €</span>
+                </div>
+            )}
             <div className="pt-4 border-t border-slate-100 flex justify-between items-center">
-                <span className="font-semibold text-slate-800">Resultado Liquidación</span>
-                <span className="text-xl font-bold text-slate-900">{calculations.result303.toFixed(2)} €</span>
+                <span className="font-semibold text-slate-800">[71] Resultado Liquidación</span>
+                <span className="text-xl font-bold text-slate-900">{model303.result.toFixed(2)} €</span>
             </div>
+            {model303.warnings.map((w, i) => (
+                <p key={i} className="text-xs text-amber-600">{w}</p>
+            ))}
             </div>
         </div>
 
@@ -555,6 +849,13 @@ export const TaxModels: React.FC<TaxModelsProps> = ({ invoices, onAskAi }) => {
                 >
                     <Sparkles className="h-3 w-3" /> Ayuda IA
                 </button>
+                <button
+                    onClick={handleExport390File}
+                    className="text-violet-600 hover:bg-violet-50 p-1.5 rounded transition-colors"
+                    title="Exportar fichero AEAT Modelo 390"
+                >
+                    <FileCode className="h-5 w-5" />
+                </button>
                 <button 
                     onClick={() => generatePDFReport('390')} 
                     className="text-violet-600 hover:bg-violet-50 p-1.5 rounded transition-colors"
@@ -579,21 +880,44 @@ export const TaxModels: React.FC<TaxModelsProps> = ({ invoices, onAskAi }) => {
                 </div>
                 
                 <div className="space-y-2">
-                    <p className="text-xs font-bold text-slate-600 uppercase">Desglose Gastos (Soportado)</p>
-                    {calculations.listadoDesgloseSoportado.length === 0 ? (
-                         <p className="text-xs text-slate-400 italic">No hay gastos deducibles registrados.</p>
-                    ) : (
-                        calculations.listadoDesgloseSoportado.map((item, idx) => (
-                            <div key={idx} className="flex justify-between text-xs items-center bg-slate-50 p-2 rounded">
-                                <span className="font-medium text-slate-700">IVA {item.rate}%</span>
-                                <div className="text-right">
-                                    <span className="block text-slate-800 font-mono">{item.quota.toFixed(2)} €</span>
-                                    <span className="block text-slate-400 text-[10px]">Base: {item.base.toFixed(2)} €</span>
-                                </div>
+                    <p className="text-xs font-bold text-slate-600 uppercase">IVA Deducible por naturaleza</p>
+                    {([
+                        ['Operaciones corrientes', '48', '49'],
+                        ['Bienes de inversión', '50', '51'],
+                        ['Importaciones', '52', '53'],
+                        ['Adquisiciones intracomunitarias', '56', '57']
+                    ] as const).map(([label, baseBox, quotaBox]) => (
+                        <div key={baseBox} className="flex justify-between text-xs items-center bg-slate-50 p-2 rounded">
+                            <span className="font-medium text-slate-700">{label}</span>
+                            <div className="text-right">
+                                <span className="block text-slate-800 font-mono">{calculations.model390.casillas[quotaBox].toFixed(2)} €</span>
+                                <span className="block text-slate-400 text-[10px]">Base: {calculations.model390.casillas[baseBox].toFixed(2)} €</span>
                             </div>
-                        ))
-                    )}
+                        </div>
+                    ))}
                 </div>
+
+                <div className="space-y-1 pt-2 border-t border-slate-100">
+                    <p className="text-xs font-bold text-slate-600 uppercase">Conciliación con los 303</p>
+                    {calculations.model390.quarters.map(q => (
+                        <div key={q.quarter} className="flex justify-between text-xs">
+                            <span className="text-slate-500">{q.quarter}T</span>
+                            <span className="font-mono text-slate-700">{q.result71.toFixed(2)} €</span>
+                        </div>
+                    ))}
+                    <div className="flex justify-between text-xs font-bold pt-1">
+                        <span>Resultado anual [65]</span>
+                        <span className="font-mono">{calculations.model390.casillas['65'].toFixed(2)} €</span>
+                    </div>
+                </div>
+
+                <div className="flex justify-between text-xs text-slate-500 pt-2 border-t border-slate-100">
+                    <span>Volumen de operaciones [108]: <span className="font-mono">{calculations.model390.casillas['108'].toFixed(2)} €</span></span>
+                    <span>Prorrata: {calculations.model390.prorrata.percent}%</span>
+                </div>
+                {calculations.model390.warnings.map((w, i) => (
+                    <p key={i} className="text-xs text-amber-600">{w}</p>
+                ))}
             </div>
         </div>
 
@@ -621,35 +945,98 @@ export const TaxModels: React.FC<TaxModelsProps> = ({ invoices, onAskAi }) => {
             </div>
             </div>
             <div className="p-6 space-y-4">
-            <div className="flex justify-between text-sm">
-                <span className="text-slate-600">Ingresos</span>
-                <span className="font-medium text-slate-900">{calculations.totalIngresos.toFixed(2)} €</span>
+            <div className="flex justify-between items-center">
+                <p className="text-xs font-bold text-slate-600 uppercase">Periodo {selectedQuarter}T {currentYear} (acumulado)</p>
+                <span className={`px-2 py-1 rounded text-xs font-bold ${model130.result > 0 ? 'bg-indigo-100 text-indigo-800' : 'bg-slate-100 text-slate-600'}`}>
+                    {model130.result > 0 ? 'A Ingresar' : model130.result < 0 ? 'Negativo' : 'Cero'}
+                </span>
             </div>
-            <div className="flex justify-between text-sm">
-                <span className="text-slate-600">Gastos</span>
-                <span className="font-medium text-slate-900">- {calculations.totalGastos.toFixed(2)} €</span>
+            <div className="text-xs space-y-1 text-slate-600">
+                <div className="flex justify-between"><span>[01] Ingresos computables</span><span>{model130.casillas['01'].toFixed(2)} €</span></div>
+                <div className="flex justify-between"><span>[02] Gastos fiscalmente deducibles</span><span>- {model130.casillas['02'].toFixed(2)} €</span></div>
+                <div className="flex justify-between font-medium bg-slate-50 p-1 rounded"><span>[03] Rendimiento neto</span><span>{model130.casillas['03'].toFixed(2)} €</span></div>
+                <div className="flex justify-between"><span>[04] 20% de [03]</span><span>{model130.casillas['04'].toFixed(2)} €</span></div>
+                <div className="flex justify-between"><span>[05] Pagos de trimestres anteriores</span><span>- {model130.casillas['05'].toFixed(2)} €</span></div>
+                <div className="flex justify-between"><span>[06] Retenciones e ingresos a cuenta</span><span>- {model130.casillas['06'].toFixed(2)} €</span></div>
+                <div className="flex justify-between font-medium"><span>[07] Pago fraccionado previo</span><span>{model130.casillas['07'].toFixed(2)} €</span></div>
             </div>
-            <div className="flex justify-between text-sm font-medium bg-slate-50 p-2 rounded">
-                <span className="text-slate-700">Rendimiento Neto</span>
-                <span className="text-slate-900">{calculations.rendimientoNeto.toFixed(2)} €</span>
+            <div className="text-xs space-y-1 text-slate-400 pl-2 border-l-2 border-slate-100">
+                <div className="flex justify-between"><span>[08] - [11] Actividades agrícolas, ganaderas y forestales</span><span>{model130.casillas['11'].toFixed(2)} €</span></div>
             </div>
-            
-            {/* Detail calculation 130 */}
-            <div className="text-xs space-y-1 text-slate-500 pl-2 border-l-2 border-slate-100">
-                <div className="flex justify-between">
-                   <span>Cuota (20% Rend.)</span>
-                   <span>{calculations.pagoTeorico.toFixed(2)} €</span>
-                </div>
-                <div className="flex justify-between">
-                   <span>Retenciones (-)</span>
-                   <span>- {calculations.retencionesSoportadas.toFixed(2)} €</span>
-                </div>
+            <div className="text-xs space-y-1 text-slate-600">
+                <div className="flex justify-between"><span>[12] Suma de pagos fraccionados</span><span>{model130.casillas['12'].toFixed(2)} €</span></div>
+                <div className="flex justify-between"><span>[13] Minoración art. 110.3.c</span><span>- {model130.casillas['13'].toFixed(2)} €</span></div>
+                <div className="flex justify-between"><span>[14] Diferencia</span><span>{model130.casillas['14'].toFixed(2)} €</span></div>
+                <div className="flex justify-between"><span>[15] Negativos de trimestres anteriores</span><span>- {model130.casillas['15'].toFixed(2)} €</span></div>
+                <div className="flex justify-between"><span>[16] Préstamo vivienda habitual</span><span>- {model130.casillas['16'].toFixed(2)} €</span></div>
+                <div className="flex justify-between"><span>[17] Total</span><span>{model130.casillas['17'].toFixed(2)} €</span></div>
+                <div className="flex justify-between"><span>[18] Resultado anterior (complementaria)</span><span>- {model130.casillas['18'].toFixed(2)} €</span></div>
             </div>
 
             <div className="pt-2 border-t border-slate-100 flex justify-between items-center">
-                <span className="text-sm text-slate-600">Total A Ingresar</span>
-                <span className="text-lg font-bold text-slate-900">{calculations.resultadoIrpfAnual.toFixed(2)} €</span>
+                <span className="text-sm text-slate-600">[19] Resultado</span>
+                <span className="text-lg font-bold text-slate-900">{model130.result.toFixed(2)} €</span>
             </div>
+            {model130.pendingNegative > 0 && (
+                <p className="text-xs text-slate-500">Pendiente de compensar en trimestres siguientes: {model130.pendingNegative.toFixed(2)} €</p>
+            )}
+            {model130.previousQuarters.length > 0 && (
+                <div className="text-xs space-y-1">
+                    {model130.previousQuarters.map(q => (
+                        <div key={q.quarter} className="flex justify-between text-slate-500">
+                            <span>{q.quarter}T {q.declared ? '(presentado)' : '(calculado)'}</span>
+                            <span>[07] {q.casilla07.toFixed(2)} € · [19] {q.result.toFixed(2)} €</span>
+                        </div>
+                    ))}
+                </div>
+            )}
+            {model130.warnings.map((w, i) => (
+                <p key={i} className="text-xs text-amber-600">{w}</p>
+            ))}
+
+            {/* Registro del pago realmente presentado */}
+            {registered130 ? (
+                <div className="flex justify-between items-center bg-emerald-50 p-2 rounded text-xs text-emerald-800">
+                    <span>
+                        Presentado: {registered130.paidAmount.toFixed(2)} €
+                        {registered130.paidDate && ` el ${new Date(registered130.paidDate).toLocaleDateString()}`}
+                        {registered130.receiptNumber && ` · Justificante ${registered130.receiptNumber}`}
+                    </span>
+                    <button onClick={handleDelete130Payment} className="text-emerald-700 hover:text-red-600" title="Eliminar pago registrado">
+                        <Trash2 className="h-4 w-4" />
+                    </button>
+                </div>
+            ) : (
+                <div className="grid grid-cols-3 gap-2 items-end">
+                    <input
+                        type="number"
+                        step="0.01"
+                        placeholder={Math.max(0, model130.result).toFixed(2)}
+                        value={paymentForm.paidAmount}
+                        onChange={(e) => setPaymentForm({ ...paymentForm, paidAmount: e.target.value })}
+                        className="text-xs border border-slate-300 rounded px-2 py-1"
+                        title="Importe ingresado"
+                    />
+                    <input
+                        type="date"
+                        value={paymentForm.paidDate}
+                        onChange={(e) => setPaymentForm({ ...paymentForm, paidDate: e.target.value })}
+                        className="text-xs border border-slate-300 rounded px-2 py-1"
+                        title="Fecha de presentación"
+                    />
+                    <input
+                        type="text"
+                        placeholder="Nº justificante"
+                        value={paymentForm.receiptNumber}
+                        onChange={(e) => setPaymentForm({ ...paymentForm, receiptNumber: e.target.value })}
+                        className="text-xs border border-slate-300 rounded px-2 py-1"
+                    />
+                    <Button onClick={handleRegister130Payment} variant="secondary" className="col-span-3 text-xs h-8">
+                        <Save className="h-4 w-4" />
+                        Registrar {selectedQuarter}T como presentado
+                    </Button>
+                </div>
+            )}
             </div>
         </div>
 
@@ -658,7 +1045,7 @@ export const TaxModels: React.FC<TaxModelsProps> = ({ invoices, onAskAi }) => {
             <div className="bg-slate-50 px-6 py-4 border-b border-slate-200 flex justify-between items-center">
             <h3 className="font-bold text-slate-800 flex items-center gap-2">
                 <FileBarChart className="h-5 w-5 text-indigo-600" />
-                Modelo 111 (Retenciones)
+                Modelos 111 / 115 (Retenciones)
             </h3>
             <div className="flex items-center gap-2">
                 <button
@@ -676,11 +1063,31 @@ export const TaxModels: React.FC<TaxModelsProps> = ({ invoices, onAskAi }) => {
                 </button>
             </div>
             </div>
-            <div className="p-6">
-            <p className="text-sm text-slate-600 mb-4">Retenciones practicadas a profesionales o trabajadores en nómina.</p>
-            <div className="flex justify-between items-center bg-slate-50 p-4 rounded-lg">
-                <span className="font-semibold text-slate-800">Total a Ingresar (Anual)</span>
-                <span className="text-xl font-bold text-slate-900">{calculations.retencionesPracticadas.toFixed(2)} €</span>
+            <div className="p-6 space-y-4">
+            <p className="text-xs font-bold text-slate-600 uppercase">Periodo {selectedQuarter}T {currentYear}</p>
+            <div className="text-xs space-y-1 text-slate-600">
+                <div className="flex justify-between"><span>Trabajo (clave A): [01] {model111.casillas['01']} perceptores · [02] Base</span><span>{model111.casillas['02'].toFixed(2)} €</span></div>
+                <div className="flex justify-between"><span>[03] Retenciones trabajo</span><span>{model111.casillas['03'].toFixed(2)} €</span></div>
+                <div className="flex justify-between"><span>Profesionales (clave G): [07] {model111.casillas['07']} perceptores · [08] Base</span><span>{model111.casillas['08'].toFixed(2)} €</span></div>
+                <div className="flex justify-between"><span>[09] Retenciones actividades</span><span>{model111.casillas['09'].toFixed(2)} €</span></div>
+            </div>
+            <div className="flex justify-between items-center bg-slate-50 p-3 rounded-lg">
+                <span className="font-semibold text-slate-800">[28] Modelo 111 a Ingresar</span>
+                <span className="text-lg font-bold text-slate-900">{model111.result.toFixed(2)} €</span>
+            </div>
+            <div className="bg-slate-50 p-3 rounded-lg space-y-2">
+                <div className="flex justify-between items-center">
+                    <span className="font-semibold text-slate-800">Modelo 115 (Alquileres) · {model115.casillas['01']} arrendadores</span>
+                    <span className="text-lg font-bold text-slate-900">{model115.result.toFixed(2)} €</span>
+                </div>
+                <div className="flex justify-end gap-2">
+                    <button onClick={() => handleRentalWithholdingOutput('115', 'pdf')} className="flex items-center gap-1 text-xs text-amber-700 hover:bg-amber-50 px-2 py-1 rounded" title="PDF Modelo 115">
+                        <Download className="h-3 w-3" /> PDF 115
+                    </button>
+                    <button onClick={() => handleRentalWithholdingOutput('115', 'file')} className="flex items-center gap-1 text-xs text-amber-700 hover:bg-amber-50 px-2 py-1 rounded" title="Fichero AEAT Modelo 115">
+                        <FileCode className="h-3 w-3" /> Fichero 115
+                    </button>
+                </div>
             </div>
             </div>
         </div>
@@ -699,6 +1106,13 @@ export const TaxModels: React.FC<TaxModelsProps> = ({ invoices, onAskAi }) => {
                 >
                     <Sparkles className="h-3 w-3" /> Ayuda IA
                 </button>
+                <button
+                    onClick={handleExport347File}
+                    className="text-indigo-600 hover:bg-indigo-50 p-1.5 rounded transition-colors"
+                    title="Exportar fichero AEAT Modelo 347"
+                >
+                    <FileCode className="h-5 w-5" />
+                </button>
                 <button 
                     onClick={() => generatePDFReport('347')} 
                     className="text-indigo-600 hover:bg-indigo-50 p-1.5 rounded transition-colors"
@@ -717,9 +1131,10 @@ export const TaxModels: React.FC<TaxModelsProps> = ({ invoices, onAskAi }) => {
                     <li key={idx} className="flex justify-between items-center text-sm border-b pb-2 last:border-0">
                     <div>
                         <p className="font-medium text-slate-900">{op.name}</p>
-                        <p className="text-xs text-slate-500">{op.nif} ({op.type === InvoiceType.INCOME ? 'Cliente' : 'Proveedor'})</p>
+                        <p className="text-xs text-slate-500">{op.nif} (Clave {op.key}: {op.key === 'A' ? 'Compras' : 'Ventas'})</p>
+                        <p className="text-[10px] text-slate-400">{op.quarterlyAmounts.map((q, i) => `${i + 1}T ${q.toFixed(2)}`).join(' · ')}</p>
                     </div>
-                    <span className="font-bold text-slate-700">{op.total.toFixed(2)} €</span>
+                    <span className="font-bold text-slate-700">{op.annualAmount.toFixed(2)} €</span>
                     </li>
                 ))}
                 {calculations.model347List.length > 3 && (
@@ -729,15 +1144,21 @@ export const TaxModels: React.FC<TaxModelsProps> = ({ invoices, onAskAi }) => {
                 )}
                 </ul>
             )}
+            <p className="text-xs text-slate-400 mt-3">
+                Excluidas: {calculations.model347.excluded.withholding} operaciones con retención IRPF y {calculations.model347.excluded.foreign} intracomunitarias o con no residentes.
+            </p>
+            {calculations.model347.warnings.map((w, i) => (
+                <p key={i} className="text-xs text-amber-600">{w}</p>
+            ))}
             </div>
         </div>
 
-         {/* Modelo 190 (Retenciones Soportadas) */}
+         {/* Modelos 190 / 180 (Resumen anual de retenciones practicadas) */}
          <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
             <div className="bg-slate-50 px-6 py-4 border-b border-slate-200 flex justify-between items-center">
             <h3 className="font-bold text-slate-800 flex items-center gap-2">
                 <Users className="h-5 w-5 text-indigo-600" />
-                Modelo 190 (Ret. Soportadas)
+                Modelos 190 / 180 (Anual)
             </h3>
             <div className="flex items-center gap-2">
                 <button
@@ -749,24 +1170,42 @@ export const TaxModels: React.FC<TaxModelsProps> = ({ invoices, onAskAi }) => {
                 <button 
                     onClick={() => generatePDFReport('190')} 
                     className="text-indigo-600 hover:bg-indigo-50 p-1.5 rounded transition-colors"
-                    title="Descargar Certificados de Retención"
+                    title="Descargar Resumen Anual de Retenciones"
                 >
                     <Download className="h-5 w-5" />
                 </button>
             </div>
             </div>
-            <div className="p-6">
-            <p className="text-sm text-slate-600 mb-4">Terceros que nos han practicado retenciones (Clientes).</p>
-            <div className="flex justify-between items-center bg-slate-50 p-4 rounded-lg mb-3">
-                <span className="font-semibold text-slate-800">Total Retenido (Anual)</span>
-                <span className="text-xl font-bold text-slate-900">{calculations.retencionesSoportadas.toFixed(2)} €</span>
-            </div>
-            <div className="text-xs text-slate-500">
-                {calculations.model190List.length > 0 ? (
-                    <span>{calculations.model190List.length} clientes retenedores.</span>
-                ) : (
-                    <span>Sin registros.</span>
-                )}
+            <div className="p-6 space-y-3">
+            <p className="text-sm text-slate-600">Retenciones que hemos practicado a terceros (resumen de los 111 y 115).</p>
+            <div className="flex justify-between items-center bg-slate-50 p-3 rounded-lg">
+                <span className="text-sm font-semibold text-slate-800">190 · {calculations.model190.perceptors.length} perceptores</span>
+                <span className="text-lg font-bold text-slate-900">{calculations.model190.totalWithholding.toFixed(2)} €</span>
+            </div>
+            <div className="bg-slate-50 p-3 rounded-lg space-y-2">
+                <div className="flex justify-between items-center">
+                    <span className="text-sm font-semibold text-slate-800">180 · {calculations.model180.perceptors.length} arrendadores</span>
+                    <span className="text-lg font-bold text-slate-900">{calculations.model180.totalWithholding.toFixed(2)} €</span>
+                </div>
+                <div className="flex justify-end gap-2">
+                    <button onClick={() => handleRentalWithholdingOutput('180', 'pdf')} className="flex items-center gap-1 text-xs text-indigo-700 hover:bg-indigo-50 px-2 py-1 rounded" title="PDF Modelo 180">
+                        <Download className="h-3 w-3" /> PDF 180
+                    </button>
+                    <button onClick={() => handleRentalWithholdingOutput('180', 'file')} className="flex items-center gap-1 text-xs text-indigo-700 hover:bg-indigo-50 px-2 py-1 rounded" title="Fichero AEAT Modelo 180">
+                        <FileCode className="h-3 w-3" /> Fichero 180
+                    </button>
+                </div>
+            </div>
+            {[...calculations.model190.warnings, ...calculations.model180.warnings].map((w, i) => (
+                <p key={i} className="text-xs text-amber-600">{w}</p>
+            ))}
+            <div className="text-xs text-slate-500 border-t border-slate-100 pt-3">
+                <p className="font-medium text-slate-600">
+                    Retenciones soportadas: {calculations.retencionesSoportadas.toFixed(2)} € ({calculations.retencionesSoportadasList.length} clientes retenedores)
+                </p>
+                <p className="mt-1">
+                    Son las que nos practican los clientes. No se declaran en nuestro 190: las incluyen ellos en el suyo y nosotros las restamos en el 130 (casilla 06) y en la Renta.
+                </p>
             </div>
             </div>
         </div>
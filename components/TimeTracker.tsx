@@ -0,0 +1,390 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Invoice, InvoiceDraft, TimeEntry } from '../types';
+import { Timer, Play, Square, Plus, Edit, Trash2, X, Receipt } from 'lucide-react';
+import { Button } from './Button';
+import { matterRepository, timeEntryRepository } from '../services/storageService';
+import { getMatterLabel } from '../services/matterService';
+import {
+  buildTimeBillingDraft, formatDuration, getElapsedMinutes, getEntryAmount, getUnbilledEntries, isEntryBilled
+} from '../services/timeService';
+import { useEntities } from '../hooks/useEntities';
+import { useStoredCollection, useStoredSetting } from '../hooks/useStoredState';
+
+interface TimeTrackerProps {
+  invoices: Invoice[];
+  onBill: (draft: InvoiceDraft) => void;
+}
+
+const formatCurrency = (val: number) =>
+  new Intl.NumberFormat('es-ES', { style: 'currency', currency: 'EUR' }).format(val);
+
+const formatDate = (date: string) => date.split('-').reverse().join('/');
+
+const formatClock = (ms: number) => {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  return [Math.floor(seconds / 3600), Math.floor(seconds / 60) % 60, seconds % 60]
+    .map(part => String(part).padStart(2, '0'))
+    .join(':');
+};
+
+const inputClass = "w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+const emptyEntry = (matterId: string, rate: number): Omit<TimeEntry, 'id'> => ({
+  matterId,
+  date: new Date().toISOString().split('T')[0],
+  minutes: 60,
+  activity: '',
+  billing: 'HOURLY',
+  rate
+});
+
+export const TimeTracker: React.FC<TimeTrackerProps> = ({ invoices, onBill }) => {
+  const [entries, setEntries] = useStoredCollection(timeEntryRepository);
+  const [matters] = useStoredCollection(matterRepository);
+  const [runningTimer, setRunningTimer] = useStoredSetting('runningTimer', null);
+  const [defaultHourlyRate, setDefaultHourlyRate] = useStoredSetting('defaultHourlyRate', 0);
+  const entities = useEntities();
+
+  const [timerMatterId, setTimerMatterId] = useState('');
+  const [timerActivity, setTimerActivity] = useState('');
+  const [now, setNow] = useState(Date.now());
+  const [filterMatterId, setFilterMatterId] = useState('');
+  const [showBilled, setShowBilled] = useState(false);
+  const [editing, setEditing] = useState<TimeEntry | null>(null);
+  const [formData, setFormData] = useState(emptyEntry('', 0));
+  const [isFormOpen, setIsFormOpen] = useState(false);
+
+  const openMatters = matters
+    .filter(m => m.status !== 'CLOSED')
+    .sort((a, b) => b.reference.localeCompare(a.reference, undefined, { numeric: true }));
+  const matterOf = (matterId: string) => matters.find(m => m.id === matterId);
+
+  // The clock only ticks while a timer runs
+  useEffect(() => {
+    if (!runningTimer) return;
+    setNow(Date.now());
+    const interval = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(interval);
+  }, [runningTimer]);
+
+  const filteredEntries = useMemo(() =>
+    entries
+      .filter(e => !filterMatterId || e.matterId === filterMatterId)
+      .filter(e => showBilled || !isEntryBilled(e, invoices))
+      .sort((a, b) => b.date.localeCompare(a.date)),
+    [entries, filterMatterId, showBilled, invoices]
+  );
+
+  // Unbilled time grouped by matter, for the billing action
+  const unbilledByMatter = useMemo(() =>
+    matters
+      .map(matter => ({ matter, entries: getUnbilledEntries(entries, invoices, matter.id) }))
+      .filter(group => group.entries.length > 0)
+      .map(group => ({
+        ...group,
+        minutes: group.entries.reduce((sum, e) => sum + (e.billing === 'HOURLY' ? e.minutes : 0), 0),
+        amount: group.entries.reduce((sum, e) => sum + getEntryAmount(e), 0)
+      }))
+      .sort((a, b) => a.matter.reference.localeCompare(b.matter.reference, undefined, { numeric: true })),
+    [matters, entries, invoices]
+  );
+
+  const startTimer = () => {
+    if (!timerMatterId) {
+      alert('Selecciona el expediente al que imputar el tiempo.');
+      return;
+    }
+    setRunningTimer({ matterId: timerMatterId, activity: timerActivity.trim(), startedAt: new Date().toISOString() });
+  };
+
+  // Stopping opens the entry form with the measured time, to review before saving
+  const stopTimer = () => {
+    if (!runningTimer) return;
+    setEditing(null);
+    setFormData({
+      ...emptyEntry(runningTimer.matterId, defaultHourlyRate),
+      date: runningTimer.startedAt.split('T')[0],
+      minutes: getElapsedMinutes(runningTimer.startedAt),
+      activity: runningTimer.activity
+    });
+    setIsFormOpen(true);
+    setRunningTimer(null);
+    setTimerActivity('');
+  };
+
+  const discardTimer = () => {
+    if (runningTimer && window.confirm('¿Descartar el tiempo del cronómetro?')) setRunningTimer(null);
+  };
+
+  const openForm = (entry?: TimeEntry) => {
+    if (entry && isEntryBilled(entry, invoices)) {
+      alert(`Esta entrada ya está facturada en la minuta ${invoices.find(inv => inv.id === entry.invoiceId)?.number}.`);
+      return;
+    }
+    setEditing(entry || null);
+    setFormData(entry ? { ...entry } : emptyEntry(filterMatterId, defaultHourlyRate));
+    setIsFormOpen(true);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.matterId) {
+      alert('Selecciona el expediente.');
+      return;
+    }
+    if (formData.billing === 'HOURLY' && !(formData.minutes > 0)) {
+      alert('Indica la duración.');
+      return;
+    }
+    if (formData.rate < 0) {
+      alert('La tarifa no puede ser negativa.');
+      return;
+    }
+
+    const entry: TimeEntry = {
+      ...formData,
+      id: editing?.id || crypto.randomUUID(),
+      activity: formData.activity.trim(),
+      minutes: Math.round(formData.minutes),
+      invoiceId: undefined
+    };
+    setEntries(prev => editing ? prev.map(item => item.id === editing.id ? entry : item) : [...prev, entry]);
+    // The last hourly rate used becomes the default of the next entries
+    if (entry.billing === 'HOURLY' && entry.rate > 0 && entry.rate !== defaultHourlyRate) setDefaultHourlyRate(entry.rate);
+    setIsFormOpen(false);
+  };
+
+  const handleDelete = (entry: TimeEntry) => {
+    if (isEntryBilled(entry, invoices)) {
+      alert('La entrada ya está facturada: elimina antes la minuta si quieres borrarla.');
+      return;
+    }
+    if (!window.confirm(`¿Eliminar "${entry.activity}"?`)) return;
+    setEntries(prev => prev.filter(item => item.id !== entry.id));
+  };
+
+  const billMatter = (matterId: string) => {
+    const matter = matterOf(matterId);
+    if (!matter) return;
+    try {
+      onBill(buildTimeBillingDraft(matter, getUnbilledEntries(entries, invoices, matterId), entities));
+    } catch (e: any) {
+      alert(e.message);
+    }
+  };
+
+  const runningMatter = runningTimer ? matterOf(runningTimer.matterId) : undefined;
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500">
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <div className="p-3 bg-slate-100 rounded-lg">
+            <Timer className="h-6 w-6 text-slate-700" />
+          </div>
+          <div>
+            <h2 className="text-xl font-bold text-slate-800">Tiempos y Actuaciones</h2>
+            <p className="text-sm text-slate-500">Horas y actuaciones por expediente, para facturarlas en la minuta.</p>
+          </div>
+        </div>
+        <Button onClick={() => openForm()}>
+          <Plus className="h-4 w-4" /> Nueva entrada
+        </Button>
+      </div>
+
+      {/* Cronómetro */}
+      <div className={`p-4 rounded-xl shadow-sm border ${runningTimer ? 'bg-indigo-50 border-indigo-200' : 'bg-white border-slate-200'}`}>
+        {runningTimer ? (
+          <div className="flex flex-col md:flex-row md:items-center gap-4">
+            <div className="text-3xl font-mono font-bold text-indigo-700">{formatClock(now - new Date(runningTimer.startedAt).getTime())}</div>
+            <div className="flex-1 text-sm">
+              <div className="font-medium text-slate-800">{runningMatter ? getMatterLabel(runningMatter) : 'Expediente eliminado'}</div>
+              <div className="text-slate-500">{runningTimer.activity || 'Sin descripción'}</div>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="secondary" onClick={discardTimer}>
+                <X className="h-4 w-4" /> Descartar
+              </Button>
+              <Button onClick={stopTimer}>
+                <Square className="h-4 w-4" /> Detener y registrar
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="flex flex-col md:flex-row gap-3">
+            <select
+              value={timerMatterId}
+              onChange={(e) => setTimerMatterId(e.target.value)}
+              className="px-3 py-2 border border-slate-300 rounded-lg bg-white text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 md:w-80"
+            >
+              <option value="">Expediente...</option>
+              {openMatters.map(m => <option key={m.id} value={m.id}>{getMatterLabel(m)}</option>)}
+            </select>
+            <input
+              value={timerActivity}
+              onChange={(e) => setTimerActivity(e.target.value)}
+              placeholder="Actuación (ej: Estudio de la documentación)"
+              className="flex-1 px-3 py-2 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+            <Button onClick={startTimer}>
+              <Play className="h-4 w-4" /> Iniciar cronómetro
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {/* Pendiente de facturar */}
+      {unbilledByMatter.length > 0 && (
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+          <div className="p-4 border-b border-slate-100">
+            <h3 className="font-semibold text-slate-800">Pendiente de facturar</h3>
+          </div>
+          <div className="divide-y divide-slate-100">
+            {unbilledByMatter.map(group => (
+              <div key={group.matter.id} className="p-4 flex flex-col md:flex-row md:items-center gap-3 text-sm">
+                <div className="flex-1">
+                  <div className="font-medium text-slate-800">{getMatterLabel(group.matter)}</div>
+                  <div className="text-xs text-slate-500">
+                    {group.matter.clientName} · {group.entries.length} {group.entries.length === 1 ? 'entrada' : 'entradas'}
+                    {group.minutes > 0 && ` · ${formatDuration(group.minutes)}`}
+                  </div>
+                </div>
+                <div className="font-mono font-semibold text-slate-800">{formatCurrency(group.amount)}</div>
+                <Button variant="secondary" onClick={() => billMatter(group.matter.id)} className="text-sm">
+                  <Receipt className="h-4 w-4" /> Facturar
+                </Button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="p-4 border-b border-slate-100 flex flex-col md:flex-row md:items-center gap-3">
+          <select
+            value={filterMatterId}
+            onChange={(e) => setFilterMatterId(e.target.value)}
+            className="px-3 py-2 border border-slate-300 rounded-lg bg-white text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 md:w-80"
+          >
+            <option value="">Todos los expedientes</option>
+            {matters.map(m => <option key={m.id} value={m.id}>{getMatterLabel(m)}</option>)}
+          </select>
+          <label className="flex items-center gap-2 text-sm text-slate-600">
+            <input type="checkbox" checked={showBilled} onChange={(e) => setShowBilled(e.target.checked)} className="w-4 h-4 text-indigo-600 rounded focus:ring-indigo-500" />
+            Mostrar también lo facturado
+          </label>
+        </div>
+        {filteredEntries.length === 0 ? (
+          <div className="p-8 text-center text-slate-400 text-sm">No hay entradas.</div>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="bg-slate-50 text-xs text-slate-500 uppercase">
+              <tr>
+                <th className="text-left p-3">Fecha</th>
+                <th className="text-left p-3">Expediente</th>
+                <th className="text-left p-3">Actuación</th>
+                <th className="text-right p-3">Duración</th>
+                <th className="text-right p-3">Tarifa</th>
+                <th className="text-right p-3">Importe</th>
+                <th className="text-left p-3">Minuta</th>
+                <th className="p-3"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {filteredEntries.map(entry => {
+                const matter = matterOf(entry.matterId);
+                const invoice = isEntryBilled(entry, invoices) ? invoices.find(inv => inv.id === entry.invoiceId) : undefined;
+                return (
+                  <tr key={entry.id} className="hover:bg-slate-50 group">
+                    <td className="p-3 font-mono text-xs text-slate-500">{formatDate(entry.date)}</td>
+                    <td className="p-3 font-medium text-indigo-600 whitespace-nowrap">{matter?.reference || '—'}</td>
+                    <td className="p-3 text-slate-700">{entry.activity}</td>
+                    <td className="p-3 text-right text-slate-600 whitespace-nowrap">{entry.minutes > 0 ? formatDuration(entry.minutes) : '—'}</td>
+                    <td className="p-3 text-right font-mono text-slate-500 whitespace-nowrap">
+                      {entry.billing === 'HOURLY' ? `${formatCurrency(entry.rate)}/h` : 'Actuación'}
+                    </td>
+                    <td className="p-3 text-right font-mono">{formatCurrency(getEntryAmount(entry))}</td>
+                    <td className="p-3">
+                      {invoice
+                        ? <span className="px-2 py-1 bg-emerald-100 text-emerald-700 rounded-full text-xs">{invoice.number}</span>
+                        : <span className="px-2 py-1 bg-amber-100 text-amber-700 rounded-full text-xs">Pendiente</span>}
+                    </td>
+                    <td className="p-3">
+                      {!invoice && (
+                        <div className="flex justify-end gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                          <button onClick={() => openForm(entry)} className="p-1 hover:bg-indigo-50 text-indigo-600 rounded" title="Editar">
+                            <Edit className="h-4 w-4" />
+                          </button>
+                          <button onClick={() => handleDelete(entry)} className="p-1 hover:bg-red-50 text-red-500 rounded" title="Eliminar">
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {isFormOpen && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4 animate-in fade-in duration-200">
+          <form onSubmit={handleSubmit} className="bg-white rounded-xl shadow-2xl max-w-lg w-full p-6 space-y-4">
+            <div className="flex justify-between items-center">
+              <h3 className="text-lg font-bold text-slate-900 flex items-center gap-2">
+                <Timer className="h-5 w-5 text-indigo-600" /> {editing ? 'Editar entrada' : 'Nueva entrada'}
+              </h3>
+              <button type="button" onClick={() => setIsFormOpen(false)} className="text-slate-400 hover:text-slate-600">
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="col-span-2">
+                <label className="block text-xs font-medium text-slate-600 mb-1">Expediente</label>
+                <select required value={formData.matterId} onChange={(e) => setFormData({ ...formData, matterId: e.target.value })} className={`${inputClass} bg-white`}>
+                  <option value="">Selecciona...</option>
+                  {matters
+                    .filter(m => m.status !== 'CLOSED' || m.id === formData.matterId)
+                    .map(m => <option key={m.id} value={m.id}>{getMatterLabel(m)}</option>)}
+                </select>
+              </div>
+              <div className="col-span-2">
+                <label className="block text-xs font-medium text-slate-600 mb-1">Actuación</label>
+                <input required value={formData.activity} onChange={(e) => setFormData({ ...formData, activity: e.target.value })} className={inputClass} placeholder="Ej: Asistencia a vista oral" />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-slate-600 mb-1">Fecha</label>
+                <input required type="date" value={formData.date} onChange={(e) => setFormData({ ...formData, date: e.target.value })} className={inputClass} />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-slate-600 mb-1">Facturación</label>
+                <select value={formData.billing} onChange={(e) => setFormData({ ...formData, billing: e.target.value as TimeEntry['billing'] })} className={`${inputClass} bg-white`}>
+                  <option value="HOURLY">Por horas</option>
+                  <option value="FIXED">Por actuación</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-slate-600 mb-1">Duración (minutos)</label>
+                <input type="number" min="0" step="1" value={formData.minutes || ''} onChange={(e) => setFormData({ ...formData, minutes: parseInt(e.target.value) || 0 })} className={inputClass} />
+                {formData.minutes > 0 && <p className="text-[10px] text-slate-400 mt-1">{formatDuration(Math.round(formData.minutes))}</p>}
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-slate-600 mb-1">{formData.billing === 'HOURLY' ? 'Tarifa (€/hora)' : 'Importe de la actuación (€)'}</label>
+                <input type="number" min="0" step="0.01" value={formData.rate || ''} onChange={(e) => setFormData({ ...formData, rate: parseFloat(e.target.value) || 0 })} className={inputClass} />
+              </div>
+              <div className="col-span-2 text-right text-sm text-slate-600">
+                Importe: <span className="font-mono font-semibold text-slate-800">{formatCurrency(getEntryAmount({ ...formData, id: '' }))}</span>
+              </div>
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="secondary" onClick={() => setIsFormOpen(false)}>Cancelar</Button>
+              <Button type="submit">Guardar</Button>
+            </div>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+};
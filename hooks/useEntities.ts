@@ -0,0 +1,5 @@
+import { useSyncExternalStore } from 'react';
+import { getEntitiesSnapshot, subscribeEntities } from '../services/entityStore';
+
+// Shared address book: re-renders every subscriber when any screen changes it
+export const useEntities = () => useSyncExternalStore(subscribeEntities, getEntitiesSnapshot);
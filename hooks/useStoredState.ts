@@ -0,0 +1,74 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Repository, SettingsSchema, getLegacyMigration, getSetting, setSetting } from '../services/storageService';
+
+export const reportStorageError = (e: any) => {
+  console.error(e);
+  alert(`Error al guardar los datos en el navegador: ${e?.message || e}`);
+};
+
+/**
+ * State backed by an IndexedDB repository. Loads once on mount and then writes only
+ * the records that changed, so two screens editing the same store do not overwrite each other.
+ * `seed` is stored on a brand-new installation (nothing imported from localStorage).
+ */
+export const useStoredCollection = <T,>(repository: Repository<T>, seed?: T[]) => {
+  const [items, setItems] = useState<T[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const persisted = useRef<T[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    Promise.all([repository.getAll(), getLegacyMigration()])
+      .then(([stored, migration]) => {
+        if (cancelled) return;
+        persisted.current = stored;
+        const isNewInstallation = migration !== null && migration.keys.length === 0;
+        setItems(stored.length === 0 && isNewInstallation && seed ? seed : stored);
+        setIsLoaded(true);
+      })
+      .catch(reportStorageError);
+
+    return () => { cancelled = true; };
+  }, [repository]);
+
+  useEffect(() => {
+    if (!isLoaded || persisted.current === items) return;
+    const previous = persisted.current;
+    persisted.current = items;
+    repository.sync(previous, items).catch(reportStorageError);
+  }, [items, isLoaded, repository]);
+
+  return [items, setItems, isLoaded] as [T[], React.Dispatch<React.SetStateAction<T[]>>, boolean];
+};
+
+// Same idea for a document of the 'settings' store
+export const useStoredSetting = <K extends keyof SettingsSchema>(key: K, fallback: SettingsSchema[K]) => {
+  const [value, setValue] = useState<SettingsSchema[K]>(fallback);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const persisted = useRef<SettingsSchema[K]>(fallback);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    getSetting(key)
+      .then(stored => {
+        if (cancelled) return;
+        const initial = stored ?? fallback;
+        persisted.current = initial;
+        setValue(initial);
+        setIsLoaded(true);
+      })
+      .catch(reportStorageError);
+
+    return () => { cancelled = true; };
+  }, [key]);
+
+  useEffect(() => {
+    if (!isLoaded || persisted.current === value) return;
+    persisted.current = value;
+    setSetting(key, value).catch(reportStorageError);
+  }, [value, isLoaded, key]);
+
+  return [value, setValue, isLoaded] as [SettingsSchema[K], React.Dispatch<React.SetStateAction<SettingsSchema[K]>>, boolean];
+};
@@ -0,0 +1,612 @@
+import { AnnualWithholdingSummary, Model303Result, Model347Result, Model390Result, ProfessionalProfile, QuarterlyWithholdingReturn } from "../types";
+import { getPeriodCode, getProvinceCode, isLastPeriodOfYear } from "./taxService";
+import { normalizeCadastralRef, normalizeNif, validateCadastralRef, validateSpanishNif } from "./validationService";
+
+// --- MOTOR GENÉRICO DE REGISTROS DE ANCHO FIJO (Diseños de registro AEAT) ---
+
+// AN: alfanumérico (izquierda, blancos) | NUM: numérico sin signo (derecha, ceros)
+// AMOUNT: importe con 2 decimales implícitos, 'N' en la 1ª posición si es negativo
+// RATE: porcentaje con 2 decimales implícitos (21% -> 02100)
+export type AeatFieldType = 'AN' | 'NUM' | 'AMOUNT' | 'RATE';
+
+export interface AeatField {
+  name: string;
+  length: number;
+  type: AeatFieldType;
+  value?: string | number;
+  signed?: boolean; // Only for AMOUNT: the box admits negative values
+}
+
+// AEAT files are ISO-8859-1, uppercase and without accents (Ñ and Ç are allowed)
+export const normalizeAeatText = (value: string): string =>
+  value
+    .toUpperCase()
+    .replace(/Ñ/g, '\u0001')
+    .replace(/Ç/g, '\u0002')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/\u0001/g, 'Ñ')
+    .replace(/\u0002/g, 'Ç')
+    .replace(/[^A-Z0-9Ñ Ç.,\-&'/()ªº]/g, ' ');
+
+const formatField = (field: AeatField, issues: string[]): string => {
+  const { name, length, type } = field;
+
+  if (type === 'AN') {
+    const text = normalizeAeatText(String(field.value ?? ''));
+    if (text.length > length) {
+      issues.push(`${name}: "${text}" supera la longitud máxima de ${length} caracteres`);
+      return text.slice(0, length);
+    }
+    return text.padEnd(length, ' ');
+  }
+
+  const numeric = Number(field.value ?? 0);
+  if (!Number.isFinite(numeric)) {
+    issues.push(`${name}: valor numérico no válido`);
+    return '0'.repeat(length);
+  }
+
+  if (type === 'NUM') {
+    if (numeric < 0 || !Number.isInteger(numeric)) {
+      issues.push(`${name}: debe ser un entero positivo`);
+    }
+    const digits = Math.abs(Math.trunc(numeric)).toString();
+    if (digits.length > length) {
+      issues.push(`${name}: ${digits} supera ${length} dígitos`);
+      return '9'.repeat(length);
+    }
+    return digits.padStart(length, '0');
+  }
+
+  const cents = Math.round(Math.abs(numeric) * 100).toString();
+  const negative = numeric < 0 && cents !== '0';
+
+  if (type === 'RATE') {
+    if (negative || numeric > 100) issues.push(`${name}: porcentaje fuera de rango (0-100)`);
+    return cents.padStart(length, '0').slice(-length);
+  }
+
+  // AMOUNT
+  if (negative && !field.signed) {
+    issues.push(`${name}: no admite importes negativos (${numeric.toFixed(2)})`);
+  }
+  const available = negative ? length - 1 : length;
+  if (cents.length > available) {
+    issues.push(`${name}: el importe ${numeric.toFixed(2)} excede el tamaño del campo`);
+    return (negative ? 'N' : '') + '9'.repeat(available);
+  }
+  return (negative ? 'N' : '') + cents.padStart(available, '0');
+};
+
+// Builds a fixed-width record, collecting every formatting issue found
+export const buildAeatRecord = (fields: AeatField[], issues: string[]): string =>
+  fields.map(field => formatField(field, issues)).join('');
+
+export const blank = (name: string, length: number): AeatField => ({ name, length, type: 'AN', value: '' });
+
+const assertNoIssues = (model: string, issues: string[]) => {
+  if (issues.length > 0) {
+    throw new Error(`El fichero del Modelo ${model} no supera la validación:\n- ${issues.join('\n- ')}`);
+  }
+};
+
+const validateDeclarant = (profile: ProfessionalProfile, issues: string[]) => {
+  const nifError = validateSpanishNif(profile.nif);
+  if (nifError) issues.push(`NIF del declarante: ${nifError}`);
+  if (!profile.name || !profile.name.trim()) issues.push('Falta el nombre o razón social del declarante');
+};
+
+// Surname(s) first, as required for natural persons in AEAT files ("APELLIDOS NOMBRE")
+export const formatDeclarantName = (name: string, nif: string): string => {
+  const parts = name.trim().split(/\s+/);
+  const isNaturalPerson = /^[0-9KLMXYZ]/.test(normalizeNif(nif));
+  if (!isNaturalPerson || parts.length < 3) return name.trim();
+  return [...parts.slice(-2), ...parts.slice(0, -2)].join(' ');
+};
+
+// Encodes the text as ISO-8859-1 and triggers the browser download
+export const downloadAeatFile = (content: string, fileName: string) => {
+  const bytes = new Uint8Array(content.length);
+  for (let i = 0; i < content.length; i++) {
+    const code = content.charCodeAt(i);
+    bytes[i] = code < 256 ? code : 0x20;
+  }
+  const blob = new Blob([bytes], { type: 'text/plain;charset=iso-8859-1' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+// --- MODELO 303 ---
+
+// Tipo de declaración (casilla "Tipo de declaración" de la página 1)
+export type Model303DeclarationType = 'I' | 'U' | 'G' | 'C' | 'D' | 'V' | 'N';
+
+export interface Model303FileOptions {
+  declarationType?: Model303DeclarationType;
+  iban?: string; // Domiciliación del ingreso o cuenta para la devolución
+  developerNif?: string; // NIF de la empresa desarrolladora (registro <AUX>)
+  complementary?: { previousReceipt: string }; // Nº justificante de la declaración anterior
+}
+
+// Default declaration type derived from casilla 71 and the period
+export const getModel303DeclarationType = (result: Model303Result): Model303DeclarationType => {
+  if (result.result > 0) return 'I';
+  if (result.result === 0) return 'N';
+  return isLastPeriodOfYear(result.period) ? 'D' : 'C';
+};
+
+const amount = (c: Record<string, number>, box: string, signed = false): AeatField => ({
+  name: `Casilla ${box}`, length: 17, type: 'AMOUNT', value: c[box] || 0, signed
+});
+
+const rate = (c: Record<string, number>, box: string): AeatField => ({
+  name: `Casilla ${box}`, length: 5, type: 'RATE', value: c[box] || 0
+});
+
+// Boxes that may legitimately be negative (modificaciones, regularizaciones y resultados)
+const MODEL_303_SIGNED = new Set(['14', '15', '25', '26', '27', '40', '41', '43', '44', '45', '46', '64', '66', '68', '69', '71', '76']);
+
+const boxes303 = (c: Record<string, number>, list: string[]): AeatField[] =>
+  list.map(box => amount(c, box, MODEL_303_SIGNED.has(box)));
+
+/**
+ * Fichero de presentación del Modelo 303 según el diseño de registro de la AEAT
+ * (páginas 1 y 3, régimen general), listo para "Presentación mediante fichero".
+ * Throws an Error listing every validation issue instead of writing a partial file.
+ */
+export const generateModel303File = (result: Model303Result, profile: ProfessionalProfile, options: Model303FileOptions = {}): string => {
+  const issues: string[] = [];
+  const c = result.casillas;
+  const year = result.period.year;
+  const periodCode = getPeriodCode(result.period);
+  const declarationType = options.declarationType || getModel303DeclarationType(result);
+  const lastPeriod = isLastPeriodOfYear(result.period);
+
+  validateDeclarant(profile, issues);
+  if (periodCode === '0A') issues.push('El Modelo 303 debe presentarse por trimestre o mes, no por ejercicio completo');
+  if (c['65'] < 0 || c['65'] > 100) issues.push('Casilla 65: el porcentaje atribuible debe estar entre 0 y 100');
+  if (c['78'] > c['110']) issues.push('Casilla 78: no puede superar las cuotas pendientes de compensar (casilla 110)');
+  if (declarationType === 'I' && result.result <= 0) issues.push('Tipo de declaración "Ingreso" con resultado no positivo');
+  if ((declarationType === 'C' || declarationType === 'D') && result.result >= 0) issues.push(`Tipo de declaración "${declarationType}" requiere un resultado negativo`);
+  if (declarationType === 'D' && !lastPeriod) issues.push('Sólo se puede solicitar devolución en el último periodo del ejercicio');
+  if ((declarationType === 'U' || declarationType === 'D') && !options.iban) issues.push('Falta el IBAN para la domiciliación o devolución');
+
+  const nif = normalizeNif(profile.nif);
+  const iban = (options.iban || '').replace(/\s/g, '').toUpperCase();
+  if (iban && !/^[A-Z]{2}[0-9A-Z]{13,32}$/.test(iban)) issues.push(`IBAN ${iban} con formato no válido`);
+
+  const header = `<T3030${year}${periodCode}0000>`;
+  const aux = '<AUX>' + buildAeatRecord([
+    blank('Reservado AEAT', 70),
+    { name: 'Versión del programa', length: 4, type: 'AN', value: '1.00' },
+    blank('Reservado AEAT', 4),
+    { name: 'NIF empresa desarrollo', length: 9, type: 'AN', value: normalizeNif(options.developerNif) },
+    blank('Reservado AEAT', 213)
+  ], issues) + '</AUX>';
+
+  // Página 1: identificación, devengo y deducciones del régimen general
+  const page1 = '<T30301000>' + buildAeatRecord([
+    blank('Indicador de página complementaria', 1),
+    { name: 'Tipo de declaración', length: 1, type: 'AN', value: declarationType },
+    { name: 'NIF', length: 9, type: 'AN', value: nif },
+    { name: 'Apellidos y nombre o razón social', length: 80, type: 'AN', value: formatDeclarantName(profile.name || '', nif) },
+    { name: 'Ejercicio', length: 4, type: 'NUM', value: year },
+    { name: 'Periodo', length: 2, type: 'AN', value: periodCode },
+    { name: 'Tributación exclusivamente foral', length: 1, type: 'NUM', value: 2 },
+    { name: 'Inscrito en el REDEME', length: 1, type: 'NUM', value: 2 },
+    { name: 'Régimen especial del grupo de entidades', length: 1, type: 'NUM', value: 3 },
+    blank('Número de grupo', 7),
+    blank('Dominante', 1),
+    { name: 'Régimen especial del criterio de caja', length: 1, type: 'NUM', value: 2 },
+    { name: 'Destinatario de operaciones con criterio de caja', length: 1, type: 'NUM', value: 2 },
+    { name: 'Opción prorrata especial', length: 1, type: 'NUM', value: 2 },
+    { name: 'Revocación prorrata especial', length: 1, type: 'NUM', value: 2 },
+    { name: 'Declarado en concurso', length: 1, type: 'NUM', value: 2 },
+    blank('Fecha auto de declaración de concurso', 8),
+    blank('Auto de declaración de concurso', 1),
+    { name: 'Acogido voluntariamente al SII', length: 1, type: 'NUM', value: 2 },
+    { name: 'Exonerado de la declaración resumen anual', length: 1, type: 'NUM', value: lastPeriod ? 2 : 0 },
+    { name: 'Volumen anual de operaciones', length: 1, type: 'NUM', value: lastPeriod ? 1 : 0 },
+    amount(c, '150'), rate(c, '151'), amount(c, '152'),
+    amount(c, '01'), rate(c, '02'), amount(c, '03'),
+    amount(c, '153'), rate(c, '154'), amount(c, '155'),
+    amount(c, '04'), rate(c, '05'), amount(c, '06'),
+    amount(c, '07'), rate(c, '08'), amount(c, '09'),
+    ...boxes303(c, ['10', '11', '12', '13', '14', '15']),
+    amount(c, '156'), rate(c, '157'), amount(c, '158'),
+    amount(c, '16'), rate(c, '17'), amount(c, '18'),
+    amount(c, '19'), rate(c, '20'), amount(c, '21'),
+    amount(c, '22'), rate(c, '23'), amount(c, '24'),
+    ...boxes303(c, ['25', '26', '27']),
+    ...boxes303(c, ['28', '29', '30', '31', '32', '33', '34', '35', '36', '37', '38', '39', '40', '41', '42', '43', '44', '45', '46']),
+    blank('Reservado AEAT', 600),
+    blank('Reservado AEAT sello electrónico', 13)
+  ], issues) + '</T30301000>';
+
+  // Página 3: información adicional y resultado
+  const page3 = '<T30303000>' + buildAeatRecord([
+    ...boxes303(c, ['59', '60', '120', '122', '123', '62', '63', '74', '75', '76', '64']),
+    rate(c, '65'),
+    ...boxes303(c, ['66', '77', '110', '78', '87', '68', '69', '70']),
+    amount(c, '109'),
+    amount(c, '71', true),
+    { name: 'Sin actividad', length: 1, type: 'AN', value: declarationType === 'N' && result.totalDevengado === 0 && result.totalDeducible === 0 ? 'X' : '' },
+    { name: 'Declaración complementaria', length: 1, type: 'AN', value: options.complementary ? 'X' : '' },
+    { name: 'Nº justificante declaración anterior', length: 13, type: 'AN', value: options.complementary?.previousReceipt || '' },
+    blank('Reservado AEAT', 35),
+    { name: 'IBAN', length: 34, type: 'AN', value: iban },
+    blank('Reservado AEAT', 600)
+  ], issues) + '</T30303000>';
+
+  const footer = `</T3030${year}${periodCode}0000>`;
+
+  assertNoIssues('303', issues);
+  return header + aux + page1 + page3 + footer;
+};
+
+export const getModel303FileName = (result: Model303Result, profile: ProfessionalProfile) =>
+  `${normalizeNif(profile.nif)}_303_${result.period.year}${getPeriodCode(result.period)}.303`;
+
+// --- MODELO 347 ---
+
+export interface Model347FileOptions {
+  declarationId?: string; // Nº identificativo de la declaración (13 dígitos, empieza por 347)
+  replaces?: { type: 'C' | 'S'; previousDeclarationId: string }; // Complementaria o sustitutiva
+}
+
+// 347 amounts: sign position (blank or 'N') followed by 13 integers and 2 decimals
+const amount347 = (name: string, value: number): AeatField[] => [
+  { name: `${name} (signo)`, length: 1, type: 'AN', value: value < 0 ? 'N' : '' },
+  { name, length: 15, type: 'AMOUNT', value: Math.abs(value) }
+];
+
+/**
+ * Fichero del Modelo 347 (registros de 500 posiciones): un registro tipo 1 del declarante
+ * y un registro tipo 2 por cada declarado y clave de operación.
+ */
+export const generateModel347File = (result: Model347Result, profile: ProfessionalProfile, options: Model347FileOptions = {}): string => {
+  const issues: string[] = [];
+  const year = result.year;
+  const nif = normalizeNif(profile.nif);
+  const declarationId = options.declarationId || `347${year}000001`;
+
+  validateDeclarant(profile, issues);
+  if (!/^347[0-9]{10}$/.test(declarationId)) issues.push(`Nº identificativo ${declarationId}: debe tener 13 dígitos y empezar por 347`);
+  if (result.entries.length === 0) issues.push('No hay declarados que superen el umbral de 3.005,06 €');
+
+  const total = result.entries.reduce((sum, e) => sum + e.annualAmount, 0);
+
+  const declarant = buildAeatRecord([
+    { name: 'Tipo de registro', length: 1, type: 'NUM', value: 1 },
+    { name: 'Modelo', length: 3, type: 'AN', value: '347' },
+    { name: 'Ejercicio', length: 4, type: 'NUM', value: year },
+    { name: 'NIF declarante', length: 9, type: 'AN', value: nif },
+    { name: 'Apellidos y nombre o razón social', length: 40, type: 'AN', value: formatDeclarantName(profile.name || '', nif) },
+    { name: 'Tipo de soporte', length: 1, type: 'AN', value: 'T' },
+    { name: 'Teléfono de contacto', length: 9, type: 'AN', value: (profile.phone || '').replace(/\D/g, '').slice(-9) },
+    { name: 'Persona de contacto', length: 40, type: 'AN', value: formatDeclarantName(profile.name || '', nif) },
+    { name: 'Nº identificativo de la declaración', length: 13, type: 'NUM', value: Number(declarationId) || 0 },
+    { name: 'Declaración complementaria', length: 1, type: 'AN', value: options.replaces?.type === 'C' ? 'C' : '' },
+    { name: 'Declaración sustitutiva', length: 1, type: 'AN', value: options.replaces?.type === 'S' ? 'S' : '' },
+    { name: 'Nº declaración anterior', length: 13, type: 'AN', value: options.replaces?.previousDeclarationId || '' },
+    { name: 'Número total de personas y entidades', length: 9, type: 'NUM', value: result.entries.length },
+    ...amount347('Importe total anual de operaciones', total),
+    { name: 'Número total de inmuebles', length: 9, type: 'NUM', value: 0 },
+    ...amount347('Importe total de arrendamientos de locales', 0),
+    blank('Blancos', 205),
+    blank('NIF del representante legal', 9),
+    blank('Blancos', 88),
+    blank('Sello electrónico', 13)
+  ], issues);
+
+  const declared = result.entries.map(entry => buildAeatRecord([
+    { name: 'Tipo de registro', length: 1, type: 'NUM', value: 2 },
+    { name: 'Modelo', length: 3, type: 'AN', value: '347' },
+    { name: 'Ejercicio', length: 4, type: 'NUM', value: year },
+    { name: 'NIF declarante', length: 9, type: 'AN', value: nif },
+    { name: `NIF declarado (${entry.name})`, length: 9, type: 'AN', value: entry.nif },
+    blank('NIF del representante legal', 9),
+    { name: `Nombre del declarado (${entry.nif})`, length: 40, type: 'AN', value: formatDeclarantName(entry.name, entry.nif).slice(0, 40) },
+    { name: 'Tipo de hoja', length: 1, type: 'AN', value: 'D' },
+    { name: `Código provincia (${entry.nif})`, length: 2, type: 'NUM', value: Number(entry.provinceCode) || 0 },
+    blank('Código país', 2),
+    blank('Blancos', 1),
+    { name: 'Clave de operación', length: 1, type: 'AN', value: entry.key },
+    ...amount347('Importe anual de las operaciones', entry.annualAmount),
+    blank('Operación de seguro', 1),
+    blank('Arrendamiento local de negocio', 1),
+    { name: 'Importe percibido en metálico', length: 15, type: 'AMOUNT', value: 0 },
+    ...amount347('Importe anual transmisiones de inmuebles sujetas a IVA', 0),
+    { name: 'Ejercicio (metálico)', length: 4, type: 'NUM', value: 0 },
+    ...entry.quarterlyAmounts.flatMap((value, i) => [
+      ...amount347(`Importe ${i + 1}T`, value),
+      ...amount347(`Importe ${i + 1}T transmisiones de inmuebles`, 0)
+    ]),
+    blank('NIF operador comunitario', 17),
+    blank('Régimen especial del criterio de caja', 1),
+    blank('Inversión del sujeto pasivo', 1),
+    blank('Depósito distinto del aduanero', 1),
+    ...amount347('Importe anual criterio de caja', 0),
+    blank('Blancos', 201)
+  ], issues));
+
+  result.entries
+    .filter(entry => !entry.provinceCode)
+    .forEach(entry => issues.push(`${entry.name} (${entry.nif}): falta el código de provincia (código postal en el domicilio fiscal)`));
+  result.entries
+    .map(entry => validateSpanishNif(entry.nif))
+    .forEach(error => { if (error) issues.push(`NIF declarado: ${error}`); });
+
+  assertNoIssues('347', issues);
+  return [declarant, ...declared].join('\r\n');
+};
+
+export const getModel347FileName = (result: Model347Result, profile: ProfessionalProfile) =>
+  `${normalizeNif(profile.nif)}_347_${result.year}.347`;
+
+// --- MODELO 115 ---
+
+export type Model115DeclarationType = 'I' | 'U' | 'G' | 'N';
+
+export interface Model115FileOptions {
+  declarationType?: Model115DeclarationType;
+  iban?: string;
+  developerNif?: string;
+  complementary?: { previousReceipt: string };
+}
+
+/**
+ * Fichero de presentación del Modelo 115 (retenciones sobre arrendamientos), trimestral.
+ * Same envelope as the 303: header, <AUX> record, page 1 and footer.
+ */
+export const generateModel115File = (result: QuarterlyWithholdingReturn, profile: ProfessionalProfile, options: Model115FileOptions = {}): string => {
+  const issues: string[] = [];
+  const c = result.casillas;
+  const periodCode = `${result.quarter}T`;
+  const declarationType = options.declarationType || (result.result > 0 ? 'I' : 'N');
+  const nif = normalizeNif(profile.nif);
+  const iban = (options.iban || '').replace(/\s/g, '').toUpperCase();
+
+  validateDeclarant(profile, issues);
+  if (result.model !== '115') issues.push('Los datos no corresponden al Modelo 115');
+  if (declarationType === 'N' && result.result !== 0) issues.push('Declaración negativa con resultado distinto de cero');
+  if (declarationType !== 'N' && result.result <= 0) issues.push(`Tipo de declaración "${declarationType}" requiere un resultado positivo`);
+  if (declarationType === 'U' && !iban) issues.push('Falta el IBAN para la domiciliación');
+  if (iban && !/^[A-Z]{2}[0-9A-Z]{13,32}$/.test(iban)) issues.push(`IBAN ${iban} con formato no válido`);
+
+  const header = `<T1150${result.year}${periodCode}0000>`;
+  const aux = '<AUX>' + buildAeatRecord([
+    blank('Reservado AEAT', 70),
+    { name: 'Versión del programa', length: 4, type: 'AN', value: '1.00' },
+    blank('Reservado AEAT', 4),
+    { name: 'NIF empresa desarrollo', length: 9, type: 'AN', value: normalizeNif(options.developerNif) },
+    blank('Reservado AEAT', 213)
+  ], issues) + '</AUX>';
+
+  const page1 = '<T11501000>' + buildAeatRecord([
+    blank('Indicador de página complementaria', 1),
+    { name: 'Tipo de declaración', length: 1, type: 'AN', value: declarationType },
+    { name: 'NIF', length: 9, type: 'AN', value: nif },
+    { name: 'Apellidos y nombre o razón social', length: 80, type: 'AN', value: formatDeclarantName(profile.name || '', nif) },
+    { name: 'Ejercicio', length: 4, type: 'NUM', value: result.year },
+    { name: 'Periodo', length: 2, type: 'AN', value: periodCode },
+    { name: 'Casilla 01 (nº perceptores)', length: 15, type: 'NUM', value: c['01'] },
+    amount(c, '02'),
+    amount(c, '03'),
+    amount(c, '04'),
+    amount(c, '05', true),
+    { name: 'Declaración complementaria', length: 1, type: 'AN', value: options.complementary ? 'X' : '' },
+    { name: 'Nº justificante declaración anterior', length: 13, type: 'AN', value: options.complementary?.previousReceipt || '' },
+    { name: 'IBAN', length: 34, type: 'AN', value: iban },
+    blank('Reservado AEAT', 359),
+    blank('Reservado AEAT sello electrónico', 13)
+  ], issues) + '</T11501000>';
+
+  const footer = `</T1150${result.year}${periodCode}0000>`;
+
+  assertNoIssues('115', issues);
+  return header + aux + page1 + footer;
+};
+
+export const getModel115FileName = (result: QuarterlyWithholdingReturn, profile: ProfessionalProfile) =>
+  `${normalizeNif(profile.nif)}_115_${result.year}${result.quarter}T.115`;
+
+// --- MODELO 180 ---
+
+export interface Model180FileOptions {
+  declarationId?: string; // Nº identificativo de la declaración (13 dígitos, empieza por 180)
+  replaces?: { type: 'C' | 'S'; previousDeclarationId: string };
+}
+
+/**
+ * Fichero del Modelo 180 (registros de 500 posiciones): tipo 1 del retenedor y un tipo 2
+ * por arrendador e inmueble, con la referencia catastral y la situación del inmueble.
+ */
+export const generateModel180File = (summary: AnnualWithholdingSummary, profile: ProfessionalProfile, options: Model180FileOptions = {}): string => {
+  const issues: string[] = [];
+  const year = summary.year;
+  const nif = normalizeNif(profile.nif);
+  const declarationId = options.declarationId || `180${year}000001`;
+
+  validateDeclarant(profile, issues);
+  if (summary.model !== '180') issues.push('Los datos no corresponden al Modelo 180');
+  if (!/^180[0-9]{10}$/.test(declarationId)) issues.push(`Nº identificativo ${declarationId}: debe tener 13 dígitos y empezar por 180`);
+  if (summary.perceptors.length === 0) issues.push('No hay retenciones sobre arrendamientos en el ejercicio');
+
+  const declarant = buildAeatRecord([
+    { name: 'Tipo de registro', length: 1, type: 'NUM', value: 1 },
+    { name: 'Modelo', length: 3, type: 'AN', value: '180' },
+    { name: 'Ejercicio', length: 4, type: 'NUM', value: year },
+    { name: 'NIF declarante', length: 9, type: 'AN', value: nif },
+    { name: 'Apellidos y nombre o razón social', length: 40, type: 'AN', value: formatDeclarantName(profile.name || '', nif) },
+    { name: 'Tipo de soporte', length: 1, type: 'AN', value: 'T' },
+    { name: 'Teléfono de contacto', length: 9, type: 'AN', value: (profile.phone || '').replace(/\D/g, '').slice(-9) },
+    { name: 'Persona de contacto', length: 40, type: 'AN', value: formatDeclarantName(profile.name || '', nif) },
+    { name: 'Nº identificativo de la declaración', length: 13, type: 'NUM', value: Number(declarationId) || 0 },
+    { name: 'Declaración complementaria', length: 1, type: 'AN', value: options.replaces?.type === 'C' ? 'C' : '' },
+    { name: 'Declaración sustitutiva', length: 1, type: 'AN', value: options.replaces?.type === 'S' ? 'S' : '' },
+    { name: 'Nº declaración anterior', length: 13, type: 'AN', value: options.replaces?.previousDeclarationId || '' },
+    { name: 'Número total de perceptores', length: 9, type: 'NUM', value: summary.perceptors.length },
+    { name: 'Base de las retenciones', length: 15, type: 'AMOUNT', value: summary.totalBase },
+    { name: 'Retenciones e ingresos a cuenta', length: 15, type: 'AMOUNT', value: summary.totalWithholding },
+    blank('Blancos', 313),
+    blank('Sello electrónico', 13)
+  ], issues);
+
+  const declared = summary.perceptors.map(p => {
+    const cadastralRef = normalizeCadastralRef(p.propertyCadastralRef);
+    const cadastralError = cadastralRef ? validateCadastralRef(cadastralRef) : null;
+    if (cadastralError) issues.push(`${p.name}: ${cadastralError}`);
+    const nifError = validateSpanishNif(p.nif);
+    if (nifError) issues.push(`NIF del arrendador: ${nifError}`);
+    if (!p.provinceCode) issues.push(`${p.name} (${p.nif}): falta el código de provincia (código postal en el domicilio fiscal)`);
+
+    const propertyProvince = getProvinceCode(p.propertyAddress);
+    const postalCode = ((p.propertyAddress || '').match(/\b[0-9]{5}\b/) || [''])[0];
+    // Situación: 1 con referencia catastral (territorio común), 2 País Vasco/Navarra, 3 sin referencia
+    const situation = !cadastralRef ? 3 : ['01', '20', '48', '31'].includes(propertyProvince) ? 2 : 1;
+
+    return buildAeatRecord([
+      { name: 'Tipo de registro', length: 1, type: 'NUM', value: 2 },
+      { name: 'Modelo', length: 3, type: 'AN', value: '180' },
+      { name: 'Ejercicio', length: 4, type: 'NUM', value: year },
+      { name: 'NIF declarante', length: 9, type: 'AN', value: nif },
+      { name: `NIF perceptor (${p.name})`, length: 9, type: 'AN', value: p.nif },
+      blank('NIF del representante legal', 9),
+      { name: `Nombre del perceptor (${p.nif})`, length: 40, type: 'AN', value: formatDeclarantName(p.name, p.nif).slice(0, 40) },
+      { name: `Código provincia (${p.nif})`, length: 2, type: 'NUM', value: Number(p.provinceCode) || 0 },
+      { name: 'Modalidad', length: 1, type: 'NUM', value: 1 },
+      { name: `Base de retención (${p.nif})`, length: 15, type: 'AMOUNT', value: p.base },
+      { name: `% de retención (${p.nif})`, length: 4, type: 'RATE', value: p.rate },
+      { name: `Retenciones (${p.nif})`, length: 13, type: 'AMOUNT', value: p.withholding },
+      { name: 'Ejercicio de devengo', length: 4, type: 'NUM', value: 0 },
+      { name: 'Situación del inmueble', length: 1, type: 'NUM', value: situation },
+      { name: 'Referencia catastral', length: 20, type: 'AN', value: cadastralRef },
+      blank('Tipo de vía', 5),
+      { name: `Domicilio del inmueble (${p.nif})`, length: 50, type: 'AN', value: (p.propertyAddress || '').slice(0, 50) },
+      blank('Tipo de numeración', 3),
+      blank('Número de casa', 5),
+      blank('Calificador del número', 3),
+      blank('Bloque', 3),
+      blank('Portal', 3),
+      blank('Escalera', 3),
+      blank('Planta', 3),
+      blank('Puerta', 3),
+      blank('Complemento', 40),
+      blank('Localidad', 30),
+      blank('Municipio', 30),
+      blank('Código de municipio', 5),
+      { name: 'Código provincia del inmueble', length: 2, type: 'NUM', value: Number(propertyProvince) || 0 },
+      { name: 'Código postal', length: 5, type: 'AN', value: postalCode },
+      blank('Blancos', 172)
+    ], issues);
+  });
+
+  assertNoIssues('180', issues);
+  return [declarant, ...declared].join('\r\n');
+};
+
+export const getModel180FileName = (summary: AnnualWithholdingSummary, profile: ProfessionalProfile) =>
+  `${normalizeNif(profile.nif)}_180_${summary.year}.180`;
+
+// --- MODELO 390 ---
+
+export interface Model390FileOptions {
+  developerNif?: string;
+  complementary?: { previousReceipt: string };
+  substitutive?: { previousReceipt: string };
+}
+
+// Regularizations and results that may be negative in the annual summary
+const MODEL_390_SIGNED = new Set(['29', '30', '47', '62', '63', '64', '65', '84', '86']);
+
+const boxes390 = (c: Record<string, number>, list: string[]): AeatField[] =>
+  list.map(box => amount(c, box, MODEL_390_SIGNED.has(box)));
+
+/**
+ * Fichero de presentación del Modelo 390 (declaración-resumen anual), régimen general.
+ * Página 1: identificación y actividad; página 3: devengado; página 4: deducible y resultado;
+ * página 5: resultado de las liquidaciones, volumen de operaciones y prorrata.
+ */
+export const generateModel390File = (result: Model390Result, profile: ProfessionalProfile, options: Model390FileOptions = {}): string => {
+  const issues: string[] = [];
+  const c = result.casillas;
+  const nif = normalizeNif(profile.nif);
+  const previousReceipt = options.complementary?.previousReceipt || options.substitutive?.previousReceipt || '';
+
+  validateDeclarant(profile, issues);
+  if (options.complementary && options.substitutive) issues.push('La declaración no puede ser complementaria y sustitutiva a la vez');
+  if ((options.complementary || options.substitutive) && !/^390\d{10}$/.test(previousReceipt)) {
+    issues.push('Nº de justificante de la declaración anterior no válido (13 dígitos, empieza por 390)');
+  }
+  if (result.reconciliationDifference !== 0) {
+    issues.push(`El resultado anual difiere en ${result.reconciliationDifference.toFixed(2)} € de la suma de los 303 trimestrales`);
+  }
+  if (c['97'] > 0 && c['98'] > 0) issues.push('Casillas 97 y 98: no se puede compensar y solicitar devolución a la vez');
+
+  const header = `<T3900${result.year}0A0000>`;
+  const aux = '<AUX>' + buildAeatRecord([
+    blank('Reservado AEAT', 70),
+    { name: 'Versión del programa', length: 4, type: 'AN', value: '1.00' },
+    blank('Reservado AEAT', 4),
+    { name: 'NIF empresa desarrollo', length: 9, type: 'AN', value: normalizeNif(options.developerNif) },
+    blank('Reservado AEAT', 213)
+  ], issues) + '</AUX>';
+
+  const page1 = '<T39001000>' + buildAeatRecord([
+    blank('Indicador de página complementaria', 1),
+    { name: 'NIF', length: 9, type: 'AN', value: nif },
+    { name: 'Apellidos y nombre o razón social', length: 80, type: 'AN', value: formatDeclarantName(profile.name || '', nif) },
+    { name: 'Ejercicio', length: 4, type: 'NUM', value: result.year },
+    { name: 'Declaración complementaria', length: 1, type: 'AN', value: options.complementary ? 'X' : '' },
+    { name: 'Declaración sustitutiva', length: 1, type: 'AN', value: options.substitutive ? 'X' : '' },
+    { name: 'Nº justificante declaración anterior', length: 13, type: 'AN', value: previousReceipt },
+    { name: 'Régimen especial del grupo de entidades', length: 1, type: 'NUM', value: 2 },
+    { name: 'Inscrito en el REDEME', length: 1, type: 'NUM', value: 2 },
+    { name: 'Régimen especial del criterio de caja', length: 1, type: 'NUM', value: 2 },
+    { name: 'Declarado en concurso', length: 1, type: 'NUM', value: 2 },
+    { name: 'Clave de actividad principal', length: 3, type: 'AN', value: result.activity.key },
+    { name: 'Epígrafe IAE', length: 4, type: 'AN', value: result.activity.iaeEpigraph },
+    { name: 'CNAE', length: 4, type: 'AN', value: result.activity.cnae },
+    blank('Reservado AEAT', 363),
+    blank('Reservado AEAT sello electrónico', 13)
+  ], issues) + '</T39001000>';
+
+  // Página 3: IVA devengado
+  const page3 = '<T39003000>' + buildAeatRecord([
+    ...boxes390(c, ['01', '02', '03', '04', '05', '06', '500', '501', '21', '22', '27', '28', '29', '30', '47']),
+    blank('Reservado AEAT', 245)
+  ], issues) + '</T39003000>';
+
+  // Página 4: IVA deducible y resultado del régimen general
+  const page4 = '<T39004000>' + buildAeatRecord([
+    ...boxes390(c, ['48', '49', '50', '51', '52', '53', '54', '55', '56', '57', '58', '59', '62', '63', '64', '65']),
+    blank('Reservado AEAT', 228)
+  ], issues) + '</T39004000>';
+
+  // Página 5: resultado de las liquidaciones, volumen de operaciones y prorrata
+  const page5 = '<T39005000>' + buildAeatRecord([
+    ...boxes390(c, ['84', '85', '86', '95', '97', '98', '662', '99', '105', '110', '108']),
+    { name: 'Prorrata: clave CNAE', length: 4, type: 'AN', value: result.prorrata.applies ? result.activity.cnae : '' },
+    { name: 'Prorrata: importe total de operaciones', length: 17, type: 'AMOUNT', value: result.prorrata.applies ? c['108'] : 0 },
+    { name: 'Prorrata: operaciones con derecho a deducir', length: 17, type: 'AMOUNT', value: result.prorrata.applies ? c['99'] + c['110'] : 0 },
+    { name: 'Prorrata: tipo (G general, E especial)', length: 1, type: 'AN', value: result.prorrata.applies ? result.prorrata.type : '' },
+    { name: 'Prorrata: porcentaje definitivo', length: 5, type: 'RATE', value: result.prorrata.applies ? result.prorrata.percent : 0 },
+    blank('Reservado AEAT', 269)
+  ], issues) + '</T39005000>';
+
+  const footer = `</T3900${result.year}0A0000>`;
+
+  assertNoIssues('390', issues);
+  return header + aux + page1 + page3 + page4 + page5 + footer;
+};
+
+export const getModel390FileName = (result: Model390Result, profile: ProfessionalProfile) =>
+  `${normalizeNif(profile.nif)}_390_${result.year}.390`;
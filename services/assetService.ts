@@ -0,0 +1,106 @@
+import { AssetCategory, DepreciationScheduleEntry, Invoice, InvoiceType, InvestmentAsset } from "../types";
+import { roundAmount } from "./taxService";
+
+// Tabla de amortización simplificada (Orden de 27 de marzo de 1998): coeficiente lineal máximo y periodo máximo
+export const ASSET_COEFFICIENTS: Record<AssetCategory, { label: string; maxCoefficient: number; maxYears: number }> = {
+  EDIFICIOS: { label: 'Edificios y otras construcciones', maxCoefficient: 3, maxYears: 68 },
+  MOBILIARIO: { label: 'Instalaciones, mobiliario, enseres y resto del inmovilizado material', maxCoefficient: 10, maxYears: 20 },
+  MAQUINARIA: { label: 'Maquinaria', maxCoefficient: 12, maxYears: 18 },
+  ELEMENTOS_TRANSPORTE: { label: 'Elementos de transporte', maxCoefficient: 16, maxYears: 14 },
+  EQUIPOS_INFORMATICOS: { label: 'Equipos para el tratamiento de la información y programas informáticos', maxCoefficient: 26, maxYears: 10 },
+  UTILES_HERRAMIENTAS: { label: 'Útiles y herramientas', maxCoefficient: 30, maxYears: 8 }
+};
+
+// The minimum coefficient is the one that exhausts the asset in the maximum period
+export const getMinCoefficient = (category: AssetCategory): number =>
+  roundAmount(100 / ASSET_COEFFICIENTS[category].maxYears);
+
+// Received invoices that are capitalised: deducted through depreciation, not in the year of purchase
+export const isInvestmentExpense = (invoice: Invoice): boolean =>
+  invoice.type === InvoiceType.EXPENSE &&
+  (invoice.ivaExpenseType === 'Bienes de Inversión' || invoice.irpfExpenseType === 'Amortizaciones');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days between two YYYY-MM-DD dates, both included (UTC to avoid DST shifts)
+const daysBetween = (start: string, end: string): number => {
+  const from = Date.UTC(+start.slice(0, 4), +start.slice(5, 7) - 1, +start.slice(8, 10));
+  const to = Date.UTC(+end.slice(0, 4), +end.slice(5, 7) - 1, +end.slice(8, 10));
+  return Math.max(0, Math.round((to - from) / DAY_MS) + 1);
+};
+
+const daysInYear = (year: number) => daysBetween(`${year}-01-01`, `${year}-12-31`);
+
+/**
+ * Amortización acumulada de un elemento hasta una fecha (inclusive).
+ * Linear by days in use: the first year and the year of disposal only count the days
+ * the asset was in service, and the total never exceeds the acquisition value.
+ */
+export const getAccumulatedDepreciation = (asset: InvestmentAsset, date: string): number => {
+  const start = asset.acquisitionDate.slice(0, 10);
+  let end = date.slice(0, 10);
+  if (asset.disposalDate && asset.disposalDate.slice(0, 10) < end) end = asset.disposalDate.slice(0, 10);
+  if (end < start) return 0;
+
+  const annualCharge = asset.acquisitionValue * asset.coefficient / 100;
+  let accumulated = 0;
+
+  for (let year = +start.slice(0, 4); year <= +end.slice(0, 4); year++) {
+    const from = year === +start.slice(0, 4) ? start : `${year}-01-01`;
+    const to = year === +end.slice(0, 4) ? end : `${year}-12-31`;
+    accumulated += annualCharge * daysBetween(from, to) / daysInYear(year);
+    if (accumulated >= asset.acquisitionValue) return roundAmount(asset.acquisitionValue);
+  }
+
+  return roundAmount(accumulated);
+};
+
+const dayBefore = (date: string): string => {
+  const d = new Date(Date.UTC(+date.slice(0, 4), +date.slice(5, 7) - 1, +date.slice(8, 10)) - DAY_MS);
+  return d.toISOString().slice(0, 10);
+};
+
+// Amortización imputable entre dos fechas (YYYY-MM-DD, inclusive) de todo el registro
+export const getDepreciationForRange = (assets: InvestmentAsset[], start: string, end: string): number =>
+  roundAmount(assets.reduce((sum, asset) =>
+    sum + getAccumulatedDepreciation(asset, end) - getAccumulatedDepreciation(asset, dayBefore(start)), 0));
+
+export const getAnnualDepreciation = (assets: InvestmentAsset[], year: number): number =>
+  getDepreciationForRange(assets, `${year}-01-01`, `${year}-12-31`);
+
+// Cuadro de amortización anual desde la puesta en funcionamiento hasta la baja o la amortización total
+export const getDepreciationSchedule = (asset: InvestmentAsset): DepreciationScheduleEntry[] => {
+  const schedule: DepreciationScheduleEntry[] = [];
+  const firstYear = +asset.acquisitionDate.slice(0, 4);
+  const lastYear = asset.disposalDate ? +asset.disposalDate.slice(0, 4) : Infinity;
+  let previous = 0;
+
+  for (let year = firstYear; year <= lastYear; year++) {
+    const accumulated = getAccumulatedDepreciation(asset, `${year}-12-31`);
+    schedule.push({
+      year,
+      charge: roundAmount(accumulated - previous),
+      accumulated,
+      netBookValue: roundAmount(asset.acquisitionValue - accumulated)
+    });
+    previous = accumulated;
+    if (accumulated >= asset.acquisitionValue) break;
+  }
+
+  return schedule;
+};
+
+// Ganancia (+) o pérdida (-) patrimonial en la baja: importe obtenido menos valor neto contable
+export const getDisposalResult = (asset: InvestmentAsset): number | null => {
+  if (!asset.disposalDate) return null;
+  const accumulated = getAccumulatedDepreciation(asset, asset.disposalDate);
+  return roundAmount((asset.disposalValue || 0) - (asset.acquisitionValue - accumulated));
+};
+
+// Facturas de bienes de inversión del ejercicio que todavía no figuran en el registro
+export const getUnregisteredInvestmentExpenses = (invoices: Invoice[], assets: InvestmentAsset[], start: string, end: string): Invoice[] =>
+  invoices.filter(inv =>
+    isInvestmentExpense(inv) &&
+    inv.date && inv.date.slice(0, 10) >= start && inv.date.slice(0, 10) <= end &&
+    !assets.some(asset => asset.invoiceId === inv.id)
+  );
@@ -0,0 +1,155 @@
+import { AuditAlert, AuditSeverity, Invoice, InvoiceSeries, InvoiceType } from "../types";
+import { roundAmount } from "./taxService";
+import { findNumberingIssues } from "./seriesService";
+import { classifyWithholding } from "./withholdingService";
+import { normalizeNif, validateSpanishNif } from "./validationService";
+
+/*
+ * Auditoría de los libros con reglas locales: deterministic checks that always run, with the
+ * same alert shape as the AI audit (geminiService.auditInvoices), which is only an optional
+ * second pass over the same books.
+ */
+
+// Rounding margin when recomputing quotas and totals
+const AMOUNT_TOLERANCE = 0.01;
+
+const SEVERITY_ORDER: Record<AuditSeverity, number> = { HIGH: 0, MEDIUM: 1, LOW: 2 };
+
+const formatAmount = (amount: number) =>
+  amount.toLocaleString('es-ES', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const differs = (expected: number, actual: number) =>
+  Math.abs(roundAmount(expected) - roundAmount(actual)) > AMOUNT_TOLERANCE;
+
+const invoiceLabel = (invoice: Invoice) =>
+  `${invoice.type === InvoiceType.INCOME ? 'Factura' : 'Registro'} ${invoice.number}`;
+
+const checkNumbering = (invoices: Invoice[], seriesList: InvoiceSeries[]): AuditAlert[] =>
+  seriesList.flatMap(series => findNumberingIssues(series, invoices).map(issue => issue.duplicateOf
+    ? {
+      invoiceId: issue.invoice.id,
+      severity: 'HIGH' as const,
+      message: `${invoiceLabel(issue.invoice)}: número repetido en la serie ${series.name} (ya lo usa ${issue.duplicateOf.number} del ${issue.duplicateOf.date}).`
+    }
+    : {
+      invoiceId: issue.invoice.id,
+      severity: (series.type === InvoiceType.INCOME ? 'HIGH' : 'MEDIUM') as AuditSeverity,
+      message: `${invoiceLabel(issue.invoice)}: salto de numeración en la serie ${series.name}, faltan ${issue.missing.length > 5 ? `${issue.missing.slice(0, 5).join(', ')} y ${issue.missing.length - 5} más` : issue.missing.join(', ')}.`
+    }
+  ));
+
+// The same supplier invoice registered twice (same NIF and supplier number)
+const checkSupplierDuplicates = (invoices: Invoice[]): AuditAlert[] => {
+  const seen = new Map<string, Invoice>();
+  const alerts: AuditAlert[] = [];
+
+  invoices
+    .filter(inv => inv.type === InvoiceType.EXPENSE && inv.supplierNumber?.trim())
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .forEach(inv => {
+      const key = `${normalizeNif(inv.nif)}|${inv.supplierNumber!.toUpperCase().replace(/\s/g, '')}`;
+      const first = seen.get(key);
+      if (!first) {
+        seen.set(key, inv);
+        return;
+      }
+      alerts.push({
+        invoiceId: inv.id,
+        severity: 'HIGH',
+        message: `${invoiceLabel(inv)}: la factura ${inv.supplierNumber} de ${inv.entityName} ya está registrada como ${first.number}.`
+      });
+    });
+
+  return alerts;
+};
+
+const checkAmounts = (inv: Invoice): AuditAlert[] => {
+  const alerts: AuditAlert[] = [];
+  const expectedIva = inv.baseAmount * (inv.ivaRate || 0) / 100;
+  const expectedIrpf = inv.baseAmount * (inv.irpfRate || 0) / 100;
+  const supplies = inv.type === InvoiceType.INCOME ? (inv.supplies || 0) : 0;
+  const expectedTotal = inv.baseAmount + inv.ivaAmount - inv.irpfAmount + supplies;
+
+  if (differs(expectedIva, inv.ivaAmount)) {
+    alerts.push({
+      invoiceId: inv.id,
+      severity: 'HIGH',
+      message: `${invoiceLabel(inv)}: la cuota de IVA (${formatAmount(inv.ivaAmount)}) no es base × ${inv.ivaRate}% (${formatAmount(expectedIva)}).`
+    });
+  }
+  if (differs(expectedIrpf, inv.irpfAmount)) {
+    alerts.push({
+      invoiceId: inv.id,
+      severity: 'HIGH',
+      message: `${invoiceLabel(inv)}: la retención (${formatAmount(inv.irpfAmount)}) no es base × ${inv.irpfRate}% (${formatAmount(expectedIrpf)}).`
+    });
+  }
+  if (differs(expectedTotal, inv.totalAmount)) {
+    alerts.push({
+      invoiceId: inv.id,
+      severity: 'HIGH',
+      message: `${invoiceLabel(inv)}: el total (${formatAmount(inv.totalAmount)}) no cuadra con base + IVA - IRPF${supplies ? ' + suplidos' : ''} (${formatAmount(expectedTotal)}).`
+    });
+  }
+  return alerts;
+};
+
+const checkNif = (inv: Invoice): AuditAlert[] => {
+  const error = validateSpanishNif(inv.nif);
+  if (!error) return [];
+  // Suppliers may be foreign; our own clients must carry a valid NIF on the invoice
+  return [{
+    invoiceId: inv.id,
+    severity: inv.type === InvoiceType.INCOME ? 'HIGH' : 'LOW',
+    message: `${invoiceLabel(inv)}: ${error}${inv.type === InvoiceType.EXPENSE ? ' (correcto solo si el proveedor es extranjero).' : '.'}`
+  }];
+};
+
+const checkDates = (inv: Invoice, today: string): AuditAlert[] => {
+  const alerts: AuditAlert[] = [];
+  if (inv.date > today) {
+    alerts.push({ invoiceId: inv.id, severity: 'MEDIUM', message: `${invoiceLabel(inv)}: fecha futura (${inv.date}).` });
+  }
+  if (inv.type === InvoiceType.EXPENSE && inv.registrationDate && inv.registrationDate < inv.date) {
+    alerts.push({
+      invoiceId: inv.id,
+      severity: 'MEDIUM',
+      message: `${invoiceLabel(inv)}: registrada (${inv.registrationDate}) antes de su fecha de expedición (${inv.date}).`
+    });
+  }
+  return alerts;
+};
+
+// Withholdings go to the 111/190 as professional activity (key G) only by assumption
+const checkWithholdingType = (inv: Invoice): AuditAlert[] => {
+  if (inv.type !== InvoiceType.EXPENSE || !(inv.irpfAmount > 0) || !classifyWithholding(inv).assumed) return [];
+  return [{
+    invoiceId: inv.id,
+    severity: 'MEDIUM',
+    message: `${invoiceLabel(inv)}: tiene retención pero su tipo de gasto es "${inv.irpfExpenseType || 'sin indicar'}". Indica "Servicios de profesionales independientes" (o arrendamiento/personal) para declararla bien en el 111/115.`
+  }];
+};
+
+/**
+ * Runs every rule over the books. `today` (YYYY-MM-DD) is the limit for future dates.
+ * Alerts are sorted by severity.
+ */
+export const runLocalAudit = (
+  invoices: Invoice[],
+  seriesList: InvoiceSeries[],
+  today: string = new Date().toISOString().split('T')[0]
+): AuditAlert[] => {
+  const alerts = [
+    ...checkNumbering(invoices, seriesList),
+    ...checkSupplierDuplicates(invoices),
+    ...invoices.flatMap(inv => [
+      ...checkAmounts(inv),
+      ...checkNif(inv),
+      ...checkDates(inv, today),
+      ...checkWithholdingType(inv)
+    ])
+  ];
+  return alerts
+    .map(alert => ({ ...alert, source: 'RULES' as const }))
+    .sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+};
@@ -0,0 +1,282 @@
+import Papa from 'papaparse';
+import { BankMovement } from '../types';
+import { roundAmount } from './taxService';
+
+/*
+ * Importación de extractos bancarios: AEB Norma 43 (Cuaderno 43, registros de 80 posiciones)
+ * and the CSV exports of the banks' websites. Movement ids are derived from their content, so
+ * importing an overlapping statement again does not duplicate movements.
+ */
+
+// Conceptos comunes de la Norma 43 (used when the statement has no complementary concepts)
+const N43_COMMON_CONCEPTS: Record<string, string> = {
+  '01': 'Talones - reintegros',
+  '02': 'Abonarés - entregas - ingresos',
+  '03': 'Domiciliados - recibos - letras - pagos por su cuenta',
+  '04': 'Giros - transferencias - traspasos - cheques',
+  '05': 'Amortización préstamos, créditos, etc.',
+  '06': 'Remesas de efectos',
+  '07': 'Suscripciones - dividendos pasivos - canjes',
+  '08': 'Dividendos - cupones - primas',
+  '09': 'Compraventa de valores',
+  '10': 'Cheques gasolina',
+  '11': 'Cajeros automáticos',
+  '12': 'Tarjetas de crédito - débito',
+  '13': 'Operaciones con el extranjero',
+  '14': 'Devoluciones e impagados',
+  '15': 'Nóminas - seguros sociales',
+  '16': 'Timbres - corretaje - póliza',
+  '17': 'Intereses - comisiones - custodia - gastos e impuestos',
+  '98': 'Anulaciones - correcciones asiento',
+  '99': 'Varios'
+};
+
+// FNV-1a, enough to tell movements apart inside one account
+const hashText = (text: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+/**
+ * Assigns content-based ids. Identical movements inside the same file (two equal card
+ * payments the same day) are told apart by their order.
+ */
+const withIds = (movements: Array<Omit<BankMovement, 'id'>>): BankMovement[] => {
+  const occurrences = new Map<string, number>();
+  return movements.map(movement => {
+    const content = [movement.account, movement.date, movement.valueDate, movement.amount.toFixed(2), movement.concept, movement.reference].join('|');
+    const occurrence = (occurrences.get(content) || 0) + 1;
+    occurrences.set(content, occurrence);
+    return { ...movement, id: `${movement.source}-${hashText(content)}-${occurrence}` };
+  });
+};
+
+// Statements are usually Latin-1 (Norma 43 always): decode as UTF-8 only if it is valid UTF-8
+const decodeStatement = (buffer: ArrayBuffer): string => {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+  } catch {
+    return new TextDecoder('windows-1252').decode(buffer);
+  }
+};
+
+// --- NORMA 43 ---
+
+const n43Date = (value: string) => `20${value.slice(0, 2)}-${value.slice(2, 4)}-${value.slice(4, 6)}`;
+const n43Amount = (value: string) => parseInt(value, 10) / 100;
+
+export const isNorma43 = (text: string) => /^11\d{4}/.test(text.trimStart());
+
+export const parseNorma43 = (text: string, fileName: string): BankMovement[] => {
+  const importedAt = new Date().toISOString();
+  const movements: Array<Omit<BankMovement, 'id'>> = [];
+  let account = '';
+  let accountMovements: Array<Omit<BankMovement, 'id'>> = [];
+  let current: Omit<BankMovement, 'id'> | null = null;
+  let complementary: string[] = [];
+
+  const closeMovement = () => {
+    if (!current) return;
+    const extra = complementary.join(' ').replace(/\s+/g, ' ').trim();
+    if (extra) current.concept = extra;
+    accountMovements.push(current);
+    current = null;
+    complementary = [];
+  };
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.padEnd(80, ' ');
+    const code = line.slice(0, 2);
+    if (!rawLine.trim()) return;
+
+    switch (code) {
+      case '11':
+        closeMovement();
+        account = `${line.slice(2, 6)} ${line.slice(6, 10)} ${line.slice(10, 20)}`;
+        accountMovements = [];
+        break;
+      case '22': {
+        closeMovement();
+        const sign = line.charAt(27) === '1' ? -1 : 1; // 1: debe (cargo), 2: haber (abono)
+        const common = line.slice(22, 24);
+        current = {
+          account,
+          date: n43Date(line.slice(10, 16)),
+          valueDate: n43Date(line.slice(16, 22)),
+          amount: roundAmount(sign * n43Amount(line.slice(28, 42))),
+          concept: N43_COMMON_CONCEPTS[common] || `Concepto ${common}`,
+          reference: [line.slice(52, 64).trim(), line.slice(64, 80).trim()].filter(Boolean).join(' ') || undefined,
+          source: 'N43',
+          fileName,
+          importedAt,
+          status: 'PENDING'
+        };
+        break;
+      }
+      case '23':
+        complementary.push(line.slice(4, 42).trim(), line.slice(42, 80).trim());
+        break;
+      case '33': {
+        closeMovement();
+        // Final de cuenta: number and sum of debits and credits must match what was read
+        const debitCount = parseInt(line.slice(20, 25), 10);
+        const debitTotal = n43Amount(line.slice(25, 39));
+        const creditCount = parseInt(line.slice(39, 44), 10);
+        const creditTotal = n43Amount(line.slice(44, 58));
+        const debits = accountMovements.filter(m => m.amount < 0);
+        const credits = accountMovements.filter(m => m.amount >= 0);
+        const sum = (list: typeof accountMovements) => roundAmount(list.reduce((total, m) => total + Math.abs(m.amount), 0));
+        if (debits.length !== debitCount || credits.length !== creditCount ||
+            sum(debits) !== roundAmount(debitTotal) || sum(credits) !== roundAmount(creditTotal)) {
+          throw new Error(`El extracto Norma 43 de la cuenta ${account} está incompleto: los totales del registro final no coinciden con los movimientos.`);
+        }
+        movements.push(...accountMovements);
+        accountMovements = [];
+        break;
+      }
+      case '88':
+        break;
+      default:
+        throw new Error(`Línea ${index + 1}: registro "${code}" no válido en un fichero Norma 43.`);
+    }
+  });
+
+  closeMovement();
+  if (accountMovements.length > 0) {
+    throw new Error(`El extracto Norma 43 de la cuenta ${account} no tiene registro final (33): el fichero está cortado.`);
+  }
+  return withIds(movements);
+};
+
+// --- CSV DEL BANCO ---
+
+export type DecimalSeparator = ',' | '.';
+
+// Separator that can only be the decimal one: the last, followed by one or two digits ("12,5", "1.234,56")
+const unambiguousDecimal = (clean: string): DecimalSeparator | null => {
+  const match = clean.match(/([,.])\d{1,2}$/);
+  return match ? match[1] as DecimalSeparator : null;
+};
+
+/**
+ * Spanish (1.234,56) and plain (1234.56) amounts: the last separator is the decimal one, except
+ * a lone dot followed by three digits ("1.234"), which Spanish banks use for thousands. Pass
+ * the separator of the file (see detectDecimalSeparator) to read every amount the same way.
+ */
+export const parseBankAmount = (value: string | undefined, decimalSeparator?: DecimalSeparator): number => {
+  const clean = (value || '').replace(/[^\d,.\-]/g, '');
+  if (!clean) return 0;
+  let decimalIndex: number;
+  if (decimalSeparator) {
+    decimalIndex = clean.lastIndexOf(decimalSeparator);
+  } else {
+    decimalIndex = Math.max(clean.lastIndexOf(','), clean.lastIndexOf('.'));
+    if (/^-?[1-9]\d{0,2}(\.\d{3})+$/.test(clean)) decimalIndex = -1;
+  }
+  const normalized = decimalIndex === -1
+    ? clean.replace(/[,.]/g, '')
+    : `${clean.slice(0, decimalIndex).replace(/[,.]/g, '')}.${clean.slice(decimalIndex + 1)}`;
+  return roundAmount(parseFloat(normalized) || 0);
+};
+
+// Decimal separator of a column of amounts, taken from the values that leave no doubt
+export const detectDecimalSeparator = (values: Array<string | undefined>): DecimalSeparator | undefined => {
+  const found = new Set(values.map(value => unambiguousDecimal((value || '').replace(/[^\d,.\-]/g, ''))).filter(Boolean));
+  return found.size === 1 ? [...found][0] as DecimalSeparator : undefined;
+};
+
+const parseBankDate = (value: string | undefined): string | null => {
+  const text = (value || '').trim();
+  let match = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})/);
+  if (match) {
+    const year = match[3].length === 2 ? `20${match[3]}` : match[3];
+    return `${year}-${match[2].padStart(2, '0')}-${match[1].padStart(2, '0')}`;
+  }
+  match = text.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+};
+
+const normalizeHeader = (value: string) =>
+  value.toLowerCase().normalize('NFD').replace(/[̀-ͯ]/g, '').trim();
+
+const isHeaderRow = (cells: string[]) => {
+  const headers = cells.map(normalizeHeader);
+  return headers.some(h => h.startsWith('fecha')) && headers.some(h => /importe|cargo|abono|debe|haber|cantidad/.test(h));
+};
+
+// Papa's guess fails with decimal commas ("1.210,00" split on ','): take the separator the header line uses most
+const detectDelimiter = (text: string): string => {
+  const headerLine = text.split(/\r?\n/).find(line => isHeaderRow(line.split(/[;,\t|]/))) || '';
+  return [';', '\t', ',', '|']
+    .map(delimiter => ({ delimiter, count: headerLine.split(delimiter).length }))
+    .reduce((best, candidate) => candidate.count > best.count ? candidate : best).delimiter;
+};
+
+/**
+ * Bank CSV exports: the header row may come after a few lines with the account data.
+ * Amounts come in one signed column (Importe) or in two (Cargo / Abono).
+ */
+export const parseBankCsv = (text: string, fileName: string): BankMovement[] => {
+  const rows = Papa.parse<string[]>(text, { skipEmptyLines: true, delimiter: detectDelimiter(text) }).data;
+  const headerIndex = rows.findIndex(isHeaderRow);
+  if (headerIndex === -1) {
+    throw new Error('No se reconoce el CSV: falta una fila de cabecera con "Fecha" e "Importe" (o "Cargo"/"Abono").');
+  }
+
+  const headers = rows[headerIndex].map(normalizeHeader);
+  const column = (test: (h: string) => boolean) => headers.findIndex(test);
+  const dateCol = column(h => h.startsWith('fecha') && !h.includes('valor'));
+  const valueDateCol = column(h => h.includes('valor'));
+  const conceptCol = column(h => /concepto|descripcion|detalle|movimiento/.test(h));
+  const referenceCol = column(h => /referencia|observaciones/.test(h));
+  const amountCol = column(h => /importe|cantidad/.test(h));
+  const debitCol = column(h => /cargo|debe/.test(h));
+  const creditCol = column(h => /abono|haber/.test(h));
+
+  // IBAN in the lines before the header, if the bank includes it
+  const preamble = rows.slice(0, headerIndex).flat().join(' ').replace(/\s/g, '').toUpperCase();
+  const account = preamble.match(/ES\d{22}/)?.[0] || fileName;
+  const importedAt = new Date().toISOString();
+
+  // "1.234" is 1234 € in a file whose other amounts read "12,50": the file decides, not each cell
+  const dataRows = rows.slice(headerIndex + 1);
+  const decimalSeparator = detectDecimalSeparator(dataRows.flatMap(row => [amountCol, debitCol, creditCol].filter(col => col !== -1).map(col => row[col])));
+  const readAmount = (value: string | undefined) => parseBankAmount(value, decimalSeparator);
+
+  const movements: Array<Omit<BankMovement, 'id'>> = [];
+  dataRows.forEach(row => {
+    const date = parseBankDate(row[dateCol]);
+    if (!date) return; // Totals or notes after the movements
+    const amount = amountCol !== -1
+      ? readAmount(row[amountCol])
+      : roundAmount(readAmount(row[creditCol]) - Math.abs(readAmount(row[debitCol])));
+    if (amount === 0) return;
+    movements.push({
+      account,
+      date,
+      valueDate: parseBankDate(row[valueDateCol]) || undefined,
+      amount,
+      concept: (conceptCol !== -1 ? row[conceptCol] : '').trim() || 'Sin concepto',
+      reference: referenceCol !== -1 ? row[referenceCol]?.trim() || undefined : undefined,
+      source: 'CSV',
+      fileName,
+      importedAt,
+      status: 'PENDING'
+    });
+  });
+
+  if (movements.length === 0) throw new Error('El CSV no contiene movimientos con fecha e importe.');
+  return withIds(movements);
+};
+
+// Reads a Norma 43 file (.n43, .aeb, .txt...) or a bank CSV
+export const parseBankStatement = async (file: File): Promise<BankMovement[]> => {
+  const text = decodeStatement(await file.arrayBuffer());
+  if (isNorma43(text)) return parseNorma43(text, file.name);
+  if (file.name.toLowerCase().endsWith('.csv')) return parseBankCsv(text, file.name);
+  throw new Error('Formato no soportado. Usa un fichero Norma 43 (Cuaderno 43) o el CSV exportado desde el banco.');
+};
@@ -0,0 +1,90 @@
+import { ChangeLogAction, ChangeLogCollection, ChangeLogEntry, Invoice, SavedEntity } from "../types";
+import { promisifyRequest, runTransaction } from "./storageService";
+
+/*
+ * Historial de cambios: read side of the log written by storageService (appendChangeLog).
+ * Each entry keeps both full versions of the record, so any of them can be restored.
+ */
+
+export const CHANGE_LOG_ACTIONS: Record<ChangeLogAction, string> = {
+  CREATE: 'Alta',
+  UPDATE: 'Modificación',
+  DELETE: 'Eliminación'
+};
+
+export const CHANGE_LOG_COLLECTIONS: Record<ChangeLogCollection, string> = {
+  invoices: 'Factura',
+  entities: 'Contacto'
+};
+
+// Field names shown in the viewer (others are shown as stored)
+export const FIELD_LABELS: Record<string, string> = {
+  number: 'Número',
+  seriesId: 'Serie',
+  date: 'Fecha',
+  type: 'Tipo',
+  concept: 'Concepto',
+  nif: 'NIF',
+  entityName: 'Cliente / Proveedor',
+  name: 'Nombre',
+  fiscalAddress: 'Domicilio fiscal',
+  fees: 'Honorarios',
+  taxableExpenses: 'Gastos con IVA',
+  supplies: 'Suplidos',
+  baseAmount: 'Base imponible',
+  ivaRate: '% IVA',
+  ivaAmount: 'Cuota IVA',
+  irpfRate: '% IRPF',
+  irpfAmount: 'Retención IRPF',
+  totalAmount: 'Total',
+  retainer: 'Provisión de fondos',
+  appliedProvisions: 'Provisiones aplicadas',
+  dueDate: 'Vencimiento',
+  payments: 'Cobros / pagos',
+  deductible: 'Deducible',
+  category: 'Categoría',
+  matterId: 'Expediente',
+  quoteId: 'Presupuesto',
+  recurringId: 'Iguala',
+  recurringPeriod: 'Periodo de la iguala',
+  supplierNumber: 'Nº factura proveedor',
+  registrationDate: 'Fecha de registro',
+  irpfIncomeType: 'Tipo de ingreso IRPF',
+  irpfExpenseType: 'Tipo de gasto IRPF',
+  ivaExpenseType: 'Tipo de gasto IVA',
+  internalId: 'Código interno',
+  email: 'Email',
+  phone: 'Teléfono',
+  contactPerson: 'Persona de contacto',
+  notes: 'Notas',
+  dir3: 'Códigos DIR3',
+  paymentTermDays: 'Plazo de pago (días)'
+};
+
+export const formatChangeValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Sí' : 'No';
+  if (typeof value === 'number') return value.toLocaleString('es-ES', { maximumFractionDigits: 2 });
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+// Whole log, newest first
+export const getChangeLog = (): Promise<ChangeLogEntry[]> =>
+  runTransaction(['changeLog'], 'readonly', async tx => {
+    const entries = await promisifyRequest(tx.objectStore('changeLog').getAll() as IDBRequest<ChangeLogEntry[]>);
+    return entries.reverse();
+  });
+
+// History of one record, oldest first
+export const getRecordHistory = (collection: ChangeLogCollection, recordKey: string): Promise<ChangeLogEntry[]> =>
+  runTransaction(['changeLog'], 'readonly', tx =>
+    promisifyRequest(tx.objectStore('changeLog').index('record').getAll([collection, recordKey]) as IDBRequest<ChangeLogEntry[]>)
+  );
+
+/**
+ * Version of the record an entry lets you go back to: the one it saved, or for a deletion
+ * the one that was deleted.
+ */
+export const getRestorableVersion = (entry: ChangeLogEntry): Invoice | SavedEntity | undefined =>
+  entry.action === 'DELETE' ? entry.before : entry.after;
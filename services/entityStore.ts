@@ -0,0 +1,106 @@
+import { SavedEntity } from "../types";
+import { appendChangeLog, entityRepository, runTransaction } from "./storageService";
+
+// --- AGENDA COMPARTIDA (Clientes / Proveedores) ---
+// Single in-memory copy of the address book. Every screen reads it through useEntities()
+// and writes through these functions, so an edit in one view is seen by the others
+// instead of being overwritten by a stale copy.
+
+type Listener = () => void;
+
+let entities: SavedEntity[] = [];
+let loading: Promise<void> | null = null;
+const listeners = new Set<Listener>();
+
+const emit = (next: SavedEntity[]) => {
+  entities = next;
+  listeners.forEach(listener => listener());
+};
+
+const load = () => {
+  if (!loading) {
+    loading = entityRepository.getAll().then(emit);
+    loading.catch(() => { loading = null; });
+  }
+  return loading;
+};
+
+export const subscribeEntities = (listener: Listener) => {
+  listeners.add(listener);
+  load().catch(e => console.error(e));
+  return () => { listeners.delete(listener); };
+};
+
+export const getEntitiesSnapshot = () => entities;
+
+const prefixOf = (type: SavedEntity['type']) => (type === 'CLIENT' ? 'C' : 'P');
+
+// Next free number of the C-X / P-X sequence (the highest existing one plus one)
+const nextInternalNumber = (list: SavedEntity[], type: SavedEntity['type']) => {
+  const prefix = `${prefixOf(type)}-`;
+  return list.reduce((max, e) => {
+    if (!e.internalId?.startsWith(prefix)) return max;
+    const numPart = parseInt(e.internalId.slice(prefix.length));
+    return isNaN(numPart) ? max : Math.max(max, numPart);
+  }, 0) + 1;
+};
+
+// Keeps a valid ID or assigns a new one (missing, or its prefix no longer matches the type)
+const withInternalId = (entity: SavedEntity, list: SavedEntity[]): SavedEntity =>
+  entity.internalId?.startsWith(`${prefixOf(entity.type)}-`)
+    ? entity
+    : { ...entity, internalId: `${prefixOf(entity.type)}-${nextInternalNumber(list, entity.type)}` };
+
+/**
+ * Creates or updates a contact. `originalNif` identifies the record being edited when
+ * its NIF changes. Resolves with the stored entity (including its internal ID).
+ * `reason` is recorded in the change log.
+ */
+export const saveEntity = async (entity: SavedEntity, originalNif?: string, reason?: string): Promise<SavedEntity> => {
+  await load();
+  const previous = entities.find(e => e.nif === (originalNif || entity.nif));
+  const others = entities.filter(e => e.nif !== entity.nif && e.nif !== originalNif);
+  const stored = withInternalId(entity, others);
+
+  await runTransaction(['entities', 'changeLog'], 'readwrite', tx => {
+    const store = tx.objectStore('entities');
+    if (originalNif && originalNif !== stored.nif) store.delete(originalNif);
+    store.put(stored);
+    appendChangeLog(tx, 'entities', [{ before: previous, after: stored }], reason);
+  });
+
+  emit([...entities.filter(e => e.nif !== stored.nif && e.nif !== originalNif), stored]);
+  return stored;
+};
+
+/**
+ * Bulk import: contacts whose NIF already exists are skipped.
+ * All new records are written in one transaction.
+ */
+export const importEntities = async (incoming: SavedEntity[]): Promise<{ added: SavedEntity[]; skipped: number }> => {
+  await load();
+  const seen = new Set(entities.map(e => e.nif));
+  const added: SavedEntity[] = [];
+
+  incoming.forEach(entity => {
+    if (seen.has(entity.nif)) return;
+    seen.add(entity.nif);
+    added.push(withInternalId({ ...entity, internalId: '' }, [...entities, ...added]));
+  });
+
+  if (added.length > 0) {
+    await runTransaction(['entities', 'changeLog'], 'readwrite', tx => {
+      const store = tx.objectStore('entities');
+      added.forEach(entity => store.put(entity));
+      appendChangeLog(tx, 'entities', added.map(entity => ({ after: entity })), 'Importación de contactos');
+    });
+    emit([...entities, ...added]);
+  }
+
+  return { added, skipped: incoming.length - added.length };
+};
+
+export const deleteEntity = async (nif: string, reason?: string): Promise<void> => {
+  await entityRepository.remove(nif, reason);
+  emit(entities.filter(e => e.nif !== nif));
+};
@@ -0,0 +1,505 @@
+import forge from "node-forge";
+import { Invoice, InvoiceType, ProfessionalProfile, RectificationReason, SavedEntity } from "../types";
+import { PROVINCE_NAMES, getProvinceCode, roundAmount } from "./taxService";
+import { normalizeNif, validateDir3Code, validateSpanishNif } from "./validationService";
+
+// --- FACTURAE 3.2.2 (factura electrónica para FACe) ---
+// Income invoices addressed to public bodies are filed through FACe as a Facturae XML,
+// identifying the receiving units by their DIR3 codes and (usually) signed with XAdES-EPES.
+// The XML is written directly in canonical form (no whitespace between tags, no empty
+// element shortcuts), so the digests of the signature are computed over the same bytes.
+
+const NS_FACTURAE = 'http://www.facturae.gob.es/formato/Versiones/Facturaev3_2_2.xml';
+const NS_DS = 'http://www.w3.org/2000/09/xmldsig#';
+const NS_XADES = 'http://uri.etsi.org/01903/v1.3.2#';
+
+// Política de firma Facturae v3.1 (identificador y huella SHA-1 publicados por el Ministerio)
+const SIGNATURE_POLICY = {
+  identifier: 'http://www.facturae.es/politica_de_firma_formato_facturae/politica_de_firma_formato_facturae_v3_1.pdf',
+  description: 'Política de Firma FacturaE v3.1',
+  sha1: 'Ohixl6upD6av8N7pEvDABhEL6hM='
+};
+
+// Roles of the AdministrativeCentre element
+const DIR3_ROLES = [
+  { key: 'accountingOffice', role: '01', label: 'Oficina contable' },
+  { key: 'managementBody', role: '02', label: 'Órgano gestor' },
+  { key: 'processingUnit', role: '03', label: 'Unidad tramitadora' }
+] as const;
+
+// Facturae ReasonCode equivalent to each rectification cause (R1-R5)
+const CORRECTIVE_REASONS: Record<RectificationReason, { code: string; description: string }> = {
+  R1: { code: '16', description: 'Base imponible' },
+  R2: { code: '85', description: 'Base imponible modificada cuotas repercutidas no satisfechas. Auto de declaración de concurso' },
+  R3: { code: '85', description: 'Base imponible modificada cuotas repercutidas no satisfechas. Auto de declaración de concurso' },
+  R4: { code: '16', description: 'Base imponible' },
+  R5: { code: '16', description: 'Base imponible' }
+};
+
+// --- FORMATOS ---
+
+// Same escaping as canonical XML, so the text is not altered when it is canonicalized
+const escapeText = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/\r/g, '&#xD;');
+
+// Never an empty element shortcut: canonical XML always writes the closing tag
+const tag = (name: string, content: string) => `<${name}>${content}</${name}>`;
+const text = (name: string, value: string | number) => tag(name, escapeText(String(value)));
+const optionalText = (name: string, value: string | undefined) => (value ? text(name, value) : '');
+
+const formatAmount = (value: number) => roundAmount(value).toFixed(2);
+const amountTag = (name: string, value: number) => text(name, formatAmount(value));
+const totalAmountTag = (name: string, value: number) => tag(name, amountTag('TotalAmount', value));
+
+const isNaturalPerson = (nif: string) => /^[0-9KLMXYZ]/.test(normalizeNif(nif));
+
+// Facturae limits most texts; longer values are rejected by FACe
+const clip = (value: string | undefined, length: number) => (value || '').trim().slice(0, length);
+
+// --- DIRECCIONES ---
+
+interface SpanishAddress {
+  address: string;
+  postCode: string;
+  town: string;
+  province: string;
+}
+
+/**
+ * Splits a free-text fiscal address ("C/ Mayor 1, 28013 Madrid") around its postcode.
+ * Returns null when no Spanish postcode can be found.
+ */
+export const parseSpanishAddress = (value: string | undefined): SpanishAddress | null => {
+  const source = (value || '').trim();
+  const match = source.match(/\b(0[1-9]|[1-4][0-9]|5[0-2])[0-9]{3}\b/);
+  if (!match || match.index === undefined) return null;
+
+  const before = source.slice(0, match.index).replace(/[\s,.-]+$/, '');
+  const after = source.slice(match.index + match[0].length).replace(/^[\s,.-]+/, '');
+  const town = after.split(/[,(]/)[0].trim();
+
+  return {
+    address: before || source,
+    postCode: match[0],
+    town,
+    province: PROVINCE_NAMES[getProvinceCode(match[0])] || ''
+  };
+};
+
+const POSTCODE_PATTERN = /^(0[1-9]|[1-4][0-9]|5[0-2])[0-9]{3}$/;
+
+const getProfileAddress = (profile: ProfessionalProfile): SpanishAddress => ({
+  address: profile.address || '',
+  postCode: (profile.zipCode || '').trim(),
+  town: profile.city || '',
+  province: profile.province || PROVINCE_NAMES[getProvinceCode(profile.zipCode)] || ''
+});
+
+const addressInSpain = (address: SpanishAddress) => tag('AddressInSpain',
+  text('Address', clip(address.address, 80)) +
+  text('PostCode', address.postCode) +
+  text('Town', clip(address.town, 50)) +
+  text('Province', clip(address.province, 20)) +
+  text('CountryCode', 'ESP')
+);
+
+// --- PARTES ---
+
+const taxIdentification = (nif: string) => tag('TaxIdentification',
+  text('PersonTypeCode', isNaturalPerson(nif) ? 'F' : 'J') +
+  text('ResidenceTypeCode', 'R') +
+  text('TaxIdentificationNumber', normalizeNif(nif))
+);
+
+// "Nombre Apellido1 Apellido2": the last two words are taken as surnames
+const individual = (name: string, address: SpanishAddress, contact: string) => {
+  const parts = name.trim().split(/\s+/);
+  const surnames = parts.length >= 3 ? parts.slice(-2) : parts.slice(1);
+  const givenName = parts.slice(0, parts.length - surnames.length).join(' ');
+  return tag('Individual',
+    text('Name', clip(givenName, 40)) +
+    text('FirstSurname', clip(surnames[0] || '', 40)) +
+    optionalText('SecondSurname', clip(surnames[1], 40)) +
+    addressInSpain(address) +
+    contact
+  );
+};
+
+const legalEntity = (name: string, address: SpanishAddress, contact: string) => tag('LegalEntity',
+  text('CorporateName', clip(name, 80)) +
+  addressInSpain(address) +
+  contact
+);
+
+const party = (name: string, nif: string, address: SpanishAddress, contact = '') =>
+  isNaturalPerson(nif) ? individual(name, address, contact) : legalEntity(name, address, contact);
+
+const contactDetails = (profile: ProfessionalProfile) => {
+  const content =
+    optionalText('Telephone', clip(profile.phone, 15)) +
+    optionalText('WebAddress', clip(profile.website, 60)) +
+    optionalText('ElectronicMail', clip(profile.email, 60));
+  return content ? tag('ContactDetails', content) : '';
+};
+
+const administrativeCentres = (entity: SavedEntity | undefined, address: SpanishAddress) => {
+  const dir3 = entity?.dir3;
+  if (!dir3) return '';
+  return tag('AdministrativeCentres', DIR3_ROLES.map(({ key, role, label }) => tag('AdministrativeCentre',
+    text('CentreCode', dir3[key].toUpperCase().trim()) +
+    text('RoleTypeCode', role) +
+    addressInSpain(address) +
+    text('CentreDescription', label)
+  )).join(''));
+};
+
+// --- FACTURA ---
+
+// Fees and taxable expenses become separate lines when the invoice has the breakdown
+const buildLines = (invoice: Invoice) => {
+  const breakdown = [
+    { description: invoice.concept, amount: invoice.fees || 0 },
+    { description: 'Gastos repercutidos', amount: invoice.taxableExpenses || 0 }
+  ].filter(line => line.amount !== 0);
+  const hasBreakdown = breakdown.length > 0 && roundAmount(breakdown.reduce((sum, line) => sum + line.amount, 0)) === roundAmount(invoice.baseAmount);
+  return hasBreakdown ? breakdown : [{ description: invoice.concept, amount: invoice.baseAmount }];
+};
+
+const taxTag = (typeCode: string, rate: number, base: number, quota: number) => tag('Tax',
+  text('TaxTypeCode', typeCode) +
+  text('TaxRate', rate.toFixed(2)) +
+  totalAmountTag('TaxableBase', base) +
+  totalAmountTag('TaxAmount', quota)
+);
+
+const collectIssues = (invoice: Invoice, profile: ProfessionalProfile, entity: SavedEntity | undefined) => {
+  const issues: string[] = [];
+  if (invoice.type !== InvoiceType.INCOME) issues.push('Solo se pueden exportar facturas emitidas.');
+
+  const sellerNifError = validateSpanishNif(profile.nif);
+  if (sellerNifError) issues.push(`Perfil profesional: ${sellerNifError}`);
+  if (!profile.name?.trim()) issues.push('Perfil profesional: falta el nombre o razón social.');
+  if (!profile.address?.trim() || !profile.city?.trim()) issues.push('Perfil profesional: falta la dirección o la población.');
+  if (!POSTCODE_PATTERN.test((profile.zipCode || '').trim())) issues.push('Perfil profesional: el código postal no es válido.');
+
+  const buyerNifError = validateSpanishNif(invoice.nif);
+  if (buyerNifError) issues.push(`Cliente: ${buyerNifError}`);
+  if (!parseSpanishAddress(invoice.fiscalAddress || entity?.fiscalAddress)) {
+    issues.push('Cliente: el domicilio fiscal no contiene un código postal español.');
+  }
+
+  if (invoice.rectificationReason && (!invoice.rectifiedInvoiceNumber || !invoice.rectifiedInvoiceDate)) {
+    issues.push('Rectificativa: falta el número o la fecha de la factura rectificada.');
+  }
+
+  if (entity?.dir3) {
+    DIR3_ROLES.forEach(({ key, label }) => {
+      const error = validateDir3Code(entity.dir3![key]);
+      if (error) issues.push(`${label}: ${error}`);
+    });
+  }
+  return issues;
+};
+
+/**
+ * Facturae 3.2.2 document (modalidad individual, emitida por el propio proveedor) for an
+ * income invoice. `entity` is the client contact, whose DIR3 codes identify the receiving
+ * public body. Throws with every problem found when the invoice cannot be exported.
+ */
+export const generateFacturaeXml = (invoice: Invoice, profile: ProfessionalProfile, entity?: SavedEntity): string => {
+  const issues = collectIssues(invoice, profile, entity);
+  if (issues.length > 0) throw new Error(`No se puede generar la factura electrónica:\n- ${issues.join('\n- ')}`);
+
+  const sellerNif = normalizeNif(profile.nif);
+  const sellerAddress = getProfileAddress(profile);
+  const buyerAddress = parseSpanishAddress(invoice.fiscalAddress || entity?.fiscalAddress)!;
+
+  const base = roundAmount(invoice.baseAmount);
+  const iva = roundAmount(invoice.ivaAmount);
+  const irpf = roundAmount(invoice.irpfAmount);
+  const supplies = roundAmount(invoice.supplies || 0);
+  const retainer = roundAmount(invoice.retainer || 0);
+  const invoiceTotal = roundAmount(base + iva - irpf);
+  const outstanding = roundAmount(invoiceTotal - retainer + supplies);
+  const date = invoice.date.slice(0, 10);
+
+  const taxesOutputs = tag('TaxesOutputs', taxTag('01', invoice.ivaRate || 0, base, iva));
+  const taxesWithheld = irpf > 0 ? tag('TaxesWithheld', taxTag('04', invoice.irpfRate || 0, base, irpf)) : '';
+
+  const fileHeader = tag('FileHeader',
+    text('SchemaVersion', '3.2.2') +
+    text('Modality', 'I') +
+    text('InvoiceIssuerType', 'EM') +
+    tag('Batch',
+      text('BatchIdentifier', clip(`${sellerNif}${invoice.number}`, 70)) +
+      text('InvoicesCount', 1) +
+      totalAmountTag('TotalInvoicesAmount', invoiceTotal) +
+      totalAmountTag('TotalOutstandingAmount', outstanding) +
+      totalAmountTag('TotalExecutableAmount', outstanding) +
+      text('InvoiceCurrencyCode', 'EUR')
+    )
+  );
+
+  const parties = tag('Parties',
+    tag('SellerParty', taxIdentification(sellerNif) + party(profile.name, sellerNif, sellerAddress, contactDetails(profile))) +
+    tag('BuyerParty', taxIdentification(invoice.nif) + administrativeCentres(entity, buyerAddress) + party(invoice.entityName, invoice.nif, buyerAddress))
+  );
+
+  const totals = tag('InvoiceTotals',
+    amountTag('TotalGrossAmount', base) +
+    amountTag('TotalGrossAmountBeforeTaxes', base) +
+    amountTag('TotalTaxOutputs', iva) +
+    amountTag('TotalTaxesWithheld', irpf) +
+    amountTag('InvoiceTotal', invoiceTotal) +
+    (retainer > 0 ? tag('PaymentsOnAccount', tag('PaymentOnAccount', text('PaymentOnAccountDate', date) + amountTag('PaymentOnAccountAmount', retainer))) : '') +
+    (supplies > 0 ? tag('ReimbursableExpenses', tag('ReimbursableExpenses', amountTag('ReimbursableExpensesAmount', supplies))) : '') +
+    amountTag('TotalOutstandingAmount', outstanding) +
+    (retainer > 0 ? amountTag('TotalPaymentsOnAccount', retainer) : '') +
+    amountTag('TotalExecutableAmount', outstanding) +
+    (supplies > 0 ? amountTag('TotalReimbursableExpenses', supplies) : '')
+  );
+
+  const items = tag('Items', buildLines(invoice).map(line => {
+    const lineIva = roundAmount(line.amount * (invoice.ivaRate || 0) / 100);
+    const lineIrpf = roundAmount(line.amount * (invoice.irpfRate || 0) / 100);
+    return tag('InvoiceLine',
+      text('ItemDescription', clip(line.description || 'Servicios profesionales', 2500)) +
+      text('Quantity', '1.00') +
+      text('UnitOfMeasure', '01') +
+      text('UnitPriceWithoutTax', line.amount.toFixed(6)) +
+      amountTag('TotalCost', line.amount) +
+      amountTag('GrossAmount', line.amount) +
+      (irpf > 0 ? tag('TaxesWithheld', taxTag('04', invoice.irpfRate || 0, line.amount, lineIrpf)) : '') +
+      tag('TaxesOutputs', taxTag('01', invoice.ivaRate || 0, line.amount, lineIva))
+    );
+  }).join(''));
+
+  // Transferencia a la cuenta del perfil, vencimiento a la fecha de la factura
+  const paymentDetails = profile.iban && outstanding > 0
+    ? tag('PaymentDetails', tag('Installment',
+        text('InstallmentDueDate', date) +
+        amountTag('InstallmentAmount', outstanding) +
+        text('PaymentMeans', '04') +
+        tag('AccountToBeCredited', text('IBAN', profile.iban.replace(/\s+/g, '').toUpperCase()))
+      ))
+    : '';
+
+  // Rectificativa: clase OR (original rectificativa) and the reference to the rectified invoice
+  const reason = invoice.rectificationReason && CORRECTIVE_REASONS[invoice.rectificationReason];
+  const corrective = reason
+    ? tag('Corrective',
+        text('InvoiceNumber', clip(invoice.rectifiedInvoiceNumber, 20)) +
+        text('ReasonCode', reason.code) +
+        text('ReasonDescription', reason.description) +
+        tag('TaxPeriod', text('StartDate', invoice.rectifiedInvoiceDate!.slice(0, 10)) + text('EndDate', invoice.rectifiedInvoiceDate!.slice(0, 10))) +
+        text('CorrectionMethod', invoice.rectificationMethod === 'SUBSTITUTION' ? '01' : '02') +
+        text('CorrectionMethodDescription', invoice.rectificationMethod === 'SUBSTITUTION' ? 'Rectificación íntegra' : 'Rectificación por diferencias')
+      )
+    : '';
+
+  const invoiceXml = tag('Invoice',
+    tag('InvoiceHeader',
+      text('InvoiceNumber', clip(invoice.number, 20)) +
+      text('InvoiceDocumentType', 'FC') +
+      text('InvoiceClass', reason ? 'OR' : 'OO') +
+      corrective
+    ) +
+    tag('InvoiceIssueData',
+      text('IssueDate', date) +
+      text('InvoiceCurrencyCode', 'EUR') +
+      text('TaxCurrencyCode', 'EUR') +
+      text('LanguageName', 'es')
+    ) +
+    taxesOutputs +
+    taxesWithheld +
+    totals +
+    items +
+    paymentDetails
+  );
+
+  const body = fileHeader + parties + tag('Invoices', invoiceXml);
+  return `<?xml version="1.0" encoding="UTF-8"?>\n<fe:Facturae xmlns:ds="${NS_DS}" xmlns:fe="${NS_FACTURAE}">${body}</fe:Facturae>`;
+};
+
+// --- FIRMA XAdES-EPES ---
+
+interface SigningCredentials {
+  certificate: forge.pki.Certificate;
+  privateKey: forge.pki.rsa.PrivateKey;
+}
+
+// Reads the certificate and private key from the content of a PKCS#12 (.p12 / .pfx) file
+export const readPkcs12 = (p12File: ArrayBuffer, password: string): SigningCredentials => {
+  let p12: forge.pkcs12.Pkcs12Pfx;
+  try {
+    const der = forge.util.binary.raw.encode(new Uint8Array(p12File));
+    p12 = forge.pkcs12.pkcs12FromAsn1(forge.asn1.fromDer(der), password);
+  } catch {
+    throw new Error('No se ha podido abrir el certificado: comprueba el archivo y la contraseña.');
+  }
+
+  const keyBags = [
+    ...(p12.getBags({ bagType: forge.pki.oids.pkcs8ShroudedKeyBag })[forge.pki.oids.pkcs8ShroudedKeyBag] || []),
+    ...(p12.getBags({ bagType: forge.pki.oids.keyBag })[forge.pki.oids.keyBag] || [])
+  ];
+  const privateKey = keyBags.find(bag => bag.key)?.key;
+  // Bags of other key types (EC) come without the RSA modulus
+  if (!privateKey || !('n' in privateKey) || !privateKey.n) throw new Error('El archivo no contiene una clave privada RSA.');
+
+  // The signing certificate is the one whose public key matches the private key
+  const certificates = (p12.getBags({ bagType: forge.pki.oids.certBag })[forge.pki.oids.certBag] || [])
+    .map(bag => bag.cert)
+    .filter((cert): cert is forge.pki.Certificate => !!cert);
+  const certificate = certificates.find(cert => (cert.publicKey as forge.pki.rsa.PublicKey).n?.equals(privateKey.n));
+  if (!certificate) throw new Error('El archivo no contiene el certificado de la clave privada.');
+
+  const now = new Date();
+  if (now < certificate.validity.notBefore || now > certificate.validity.notAfter) {
+    throw new Error(`El certificado no está vigente (válido del ${certificate.validity.notBefore.toLocaleDateString('es-ES')} al ${certificate.validity.notAfter.toLocaleDateString('es-ES')}).`);
+  }
+
+  return { certificate, privateKey };
+};
+
+const sha256Base64 = (content: string, encoding?: 'utf8') => {
+  const md = forge.md.sha256.create();
+  md.update(content, encoding);
+  return forge.util.encode64(md.digest().getBytes());
+};
+
+// Base64 wrapped at 76 characters, as usual inside XMLDSig
+const wrapBase64 = (value: string) => value.match(/.{1,76}/g)!.join('\n');
+
+// Distinguished name in RFC 4514 order (most specific attribute first)
+const formatDistinguishedName = (attributes: forge.pki.CertificateField[]) =>
+  [...attributes].reverse()
+    .map(attr => `${attr.shortName || attr.type}=${String(attr.value).replace(/([,+"\\<>;=])/g, '\\$1')}`)
+    .join(',');
+
+// CryptoBinary of XMLDSig: big-endian bytes of the integer, base64-encoded
+const bigIntegerToBase64 = (value: forge.jsbn.BigInteger) => {
+  const hex = value.toString(16);
+  return forge.util.encode64(forge.util.hexToBytes(hex.length % 2 ? `0${hex}` : hex));
+};
+
+const hexToDecimal = (hex: string) => BigInt(`0x${hex || '0'}`).toString(10);
+
+/**
+ * Canonical form (inclusive C14N) of an element signed by reference: the namespaces in
+ * scope at its position in the document are declared on it, sorted by prefix.
+ */
+const withNamespaces = (element: string, name: string) =>
+  element.replace(`<${name}`, `<${name} xmlns:ds="${NS_DS}" xmlns:fe="${NS_FACTURAE}" xmlns:xades="${NS_XADES}"`);
+
+const reference = (attributes: string, digest: string, transforms = '') =>
+  `<ds:Reference ${attributes}>${transforms}` +
+  `<ds:DigestMethod Algorithm="http://www.w3.org/2001/04/xmlenc#sha256"></ds:DigestMethod>` +
+  `${text('ds:DigestValue', digest)}</ds:Reference>`;
+
+/**
+ * Signs a document produced by generateFacturaeXml with XAdES-EPES (enveloped signature,
+ * RSA-SHA256, política de firma Facturae v3.1) using the certificate of a PKCS#12 file.
+ */
+export const signFacturae = (xml: string, p12File: ArrayBuffer, password: string, signingTime: Date = new Date()): string => {
+  const { certificate, privateKey } = readPkcs12(p12File, password);
+
+  const declaration = xml.slice(0, xml.indexOf('<fe:Facturae'));
+  const root = xml.slice(declaration.length);
+  const closing = '</fe:Facturae>';
+  if (!root.endsWith(closing)) throw new Error('El documento no es una factura Facturae generada por la aplicación.');
+
+  const id = `Signature-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+  const signedPropertiesId = `${id}-SignedProperties`;
+  const keyInfoId = `${id}-KeyInfo`;
+  const documentReferenceId = `${id}-Reference-Document`;
+
+  const certificateDer = forge.asn1.toDer(forge.pki.certificateToAsn1(certificate)).getBytes();
+  const certificateBase64 = forge.util.encode64(certificateDer);
+  const publicKey = certificate.publicKey as forge.pki.rsa.PublicKey;
+
+  const signedProperties =
+    `<xades:SignedProperties Id="${signedPropertiesId}">` +
+    tag('xades:SignedSignatureProperties',
+      text('xades:SigningTime', signingTime.toISOString().replace(/\.\d{3}Z$/, 'Z')) +
+      tag('xades:SigningCertificate', tag('xades:Cert',
+        tag('xades:CertDigest',
+          `<ds:DigestMethod Algorithm="http://www.w3.org/2001/04/xmlenc#sha256"></ds:DigestMethod>` +
+          text('ds:DigestValue', sha256Base64(certificateDer))
+        ) +
+        tag('xades:IssuerSerial',
+          text('ds:X509IssuerName', formatDistinguishedName(certificate.issuer.attributes)) +
+          text('ds:X509SerialNumber', hexToDecimal(certificate.serialNumber))
+        )
+      )) +
+      tag('xades:SignaturePolicyIdentifier', tag('xades:SignaturePolicyId',
+        tag('xades:SigPolicyId',
+          text('xades:Identifier', SIGNATURE_POLICY.identifier) +
+          text('xades:Description', SIGNATURE_POLICY.description)
+        ) +
+        tag('xades:SigPolicyHash',
+          `<ds:DigestMethod Algorithm="http://www.w3.org/2000/09/xmldsig#sha1"></ds:DigestMethod>` +
+          text('ds:DigestValue', SIGNATURE_POLICY.sha1)
+        )
+      )) +
+      tag('xades:SignerRole', tag('xades:ClaimedRoles', text('xades:ClaimedRole', 'emisor')))
+    ) +
+    tag('xades:SignedDataObjectProperties',
+      `<xades:DataObjectFormat ObjectReference="#${documentReferenceId}">` +
+      text('xades:Description', 'Factura electrónica') +
+      text('xades:MimeType', 'text/xml') +
+      `</xades:DataObjectFormat>`
+    ) +
+    `</xades:SignedProperties>`;
+
+  const keyInfo =
+    `<ds:KeyInfo Id="${keyInfoId}">` +
+    tag('ds:X509Data', text('ds:X509Certificate', wrapBase64(certificateBase64))) +
+    tag('ds:KeyValue', tag('ds:RSAKeyValue',
+      text('ds:Modulus', wrapBase64(bigIntegerToBase64(publicKey.n))) +
+      text('ds:Exponent', bigIntegerToBase64(publicKey.e))
+    )) +
+    `</ds:KeyInfo>`;
+
+  const signedInfo =
+    `<ds:SignedInfo Id="${id}-SignedInfo">` +
+    `<ds:CanonicalizationMethod Algorithm="http://www.w3.org/TR/2001/REC-xml-c14n-20010315"></ds:CanonicalizationMethod>` +
+    `<ds:SignatureMethod Algorithm="http://www.w3.org/2001/04/xmldsig-more#rsa-sha256"></ds:SignatureMethod>` +
+    reference(`Id="${documentReferenceId}" URI=""`, sha256Base64(root, 'utf8'),
+      tag('ds:Transforms', `<ds:Transform Algorithm="http://www.w3.org/2000/09/xmldsig#enveloped-signature"></ds:Transform>`)) +
+    reference(`Type="http://uri.etsi.org/01903#SignedProperties" URI="#${signedPropertiesId}"`,
+      sha256Base64(withNamespaces(signedProperties, 'xades:SignedProperties'), 'utf8')) +
+    reference(`URI="#${keyInfoId}"`, sha256Base64(withNamespaces(keyInfo, 'ds:KeyInfo'), 'utf8')) +
+    `</ds:SignedInfo>`;
+
+  const md = forge.md.sha256.create();
+  md.update(withNamespaces(signedInfo, 'ds:SignedInfo'), 'utf8');
+  const signatureValue = forge.util.encode64(privateKey.sign(md));
+
+  const signature =
+    `<ds:Signature xmlns:xades="${NS_XADES}" Id="${id}">` +
+    signedInfo +
+    `<ds:SignatureValue Id="${id}-SignatureValue">${wrapBase64(signatureValue)}</ds:SignatureValue>` +
+    keyInfo +
+    tag('ds:Object', `<xades:QualifyingProperties Target="#${id}">${signedProperties}</xades:QualifyingProperties>`) +
+    `</ds:Signature>`;
+
+  return declaration + root.slice(0, -closing.length) + signature + closing;
+};
+
+// --- DESCARGA ---
+
+// Signed files use the .xsig extension expected by FACe
+export const getFacturaeFileName = (invoice: Invoice, signed: boolean) =>
+  `Facturae_${invoice.number.replace(/[^A-Za-z0-9_-]+/g, '-')}.${signed ? 'xsig' : 'xml'}`;
+
+export const downloadFacturae = (content: string, fileName: string) => {
+  const blob = new Blob([content], { type: 'application/xml;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,162 @@
+import { FeeBracket, FeeProcedure, FeeSchedule, FeeScale } from "../types";
+import { roundAmount } from "./taxService";
+
+/*
+ * Criterios de honorarios: the orientative fee criteria published by each Colegio de
+ * Abogados, imported from a JSON file (see EXAMPLE_FEE_SCHEDULE for the format), used to
+ * calculate the fee lines of the presupuestos.
+ */
+
+// Format reference offered for download: the amounts are illustrative, not any Colegio's criteria
+export const EXAMPLE_FEE_SCHEDULE: FeeSchedule = {
+  id: 'ejemplo',
+  colegio: 'Colegio de Abogados (ejemplo)',
+  name: 'Criterios de ejemplo: sustitúyelos por los de tu Colegio',
+  scales: [
+    {
+      id: 'general',
+      name: 'Escala general',
+      brackets: [
+        { upTo: 3000, percent: 25 },
+        { upTo: 15000, percent: 15 },
+        { upTo: 60000, percent: 10 },
+        { upTo: 300000, percent: 5 },
+        { upTo: null, percent: 2 }
+      ]
+    }
+  ],
+  procedures: [
+    { id: 'ordinario', name: 'Juicio ordinario', category: 'Civil', scaleId: 'general', minimumFee: 1200 },
+    { id: 'verbal', name: 'Juicio verbal', category: 'Civil', scaleId: 'general', scalePercent: 80, minimumFee: 600 },
+    { id: 'monitorio', name: 'Proceso monitorio (sin oposición)', category: 'Civil', scaleId: 'general', scalePercent: 30, minimumFee: 300 },
+    { id: 'apelacion', name: 'Recurso de apelación', category: 'Civil', scaleId: 'general', scalePercent: 50, minimumFee: 600 },
+    { id: 'divorcio-mutuo', name: 'Divorcio de mutuo acuerdo', category: 'Familia', fixedFee: 1200 },
+    { id: 'divorcio-contencioso', name: 'Divorcio contencioso', category: 'Familia', fixedFee: 2500 },
+    { id: 'juicio-delitos-leves', name: 'Juicio por delito leve', category: 'Penal', fixedFee: 450 }
+  ]
+};
+
+/**
+ * Fee of a scale for a cuantía: each bracket's percentage applies to the part of the
+ * amount that falls within it (as income tax brackets do).
+ */
+export const calculateScaleFee = (scale: FeeScale, amount: number): number => {
+  let fee = 0;
+  let lower = 0;
+  for (const bracket of scale.brackets) {
+    const upper = bracket.upTo ?? Infinity;
+    if (amount <= lower) break;
+    fee += (Math.min(amount, upper) - lower) * bracket.percent / 100;
+    lower = upper;
+  }
+  return roundAmount(fee);
+};
+
+export const procedureNeedsAmount = (procedure: FeeProcedure) => !!procedure.scaleId;
+
+export interface ProcedureFee {
+  fee: number;
+  detail: string; // How it was reached, shown under the result and on the quote line
+}
+
+export const calculateProcedureFee = (schedule: FeeSchedule, procedure: FeeProcedure, amount: number): ProcedureFee => {
+  const parts: string[] = [];
+  let fee = procedure.fixedFee || 0;
+  if (procedure.fixedFee) parts.push(`fijo ${procedure.fixedFee.toFixed(2)} €`);
+
+  if (procedure.scaleId) {
+    const scale = schedule.scales.find(s => s.id === procedure.scaleId);
+    if (!scale) throw new Error(`La escala "${procedure.scaleId}" de ${procedure.name} no existe en los criterios.`);
+    if (!(amount > 0)) throw new Error(`Indica la cuantía del asunto: ${procedure.name} se calcula por escala.`);
+    const percent = procedure.scalePercent ?? 100;
+    fee += calculateScaleFee(scale, amount) * percent / 100;
+    parts.push(`${scale.name} sobre ${amount.toFixed(2)} €${percent !== 100 ? ` al ${percent} %` : ''}`);
+  }
+
+  if (procedure.minimumFee && fee < procedure.minimumFee) {
+    fee = procedure.minimumFee;
+    parts.push(`mínimo ${procedure.minimumFee.toFixed(2)} €`);
+  }
+  return { fee: roundAmount(fee), detail: parts.join(' · ') };
+};
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && isFinite(value);
+
+const isText = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+
+// A JSON object (not null nor an array), whose fields are checked one by one
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Optional amount of a procedure: absent, or a number not below zero
+const readOptionalAmount = (procedure: Record<string, unknown>, field: string, name: string): number | undefined => {
+  const value = procedure[field];
+  if (value === undefined) return undefined;
+  if (!isNumber(value) || value < 0) throw new Error(`${name}: "${field}" debe ser un número positivo.`);
+  return value;
+};
+
+/**
+ * Reads and checks a criteria file. Throws with the first problem found, so a bad file
+ * is rejected as a whole instead of being half imported.
+ */
+export const parseFeeSchedule = (text: string): FeeSchedule => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('El archivo no es un JSON válido.');
+  }
+  if (!isRecord(data) || !isText(data.id)) throw new Error('Falta el identificador ("id") de los criterios.');
+  if (!isText(data.colegio)) throw new Error('Falta el nombre del Colegio ("colegio").');
+  if (!Array.isArray(data.scales) || !Array.isArray(data.procedures)) throw new Error('Faltan las listas "scales" y "procedures".');
+
+  const scales: FeeScale[] = data.scales.map((scale: unknown, i: number) => {
+    if (!isRecord(scale) || !isText(scale.id) || !Array.isArray(scale.brackets) || scale.brackets.length === 0) {
+      throw new Error(`La escala nº ${i + 1} necesita "id" y al menos un tramo en "brackets".`);
+    }
+    const { id, brackets: rawBrackets } = scale;
+    let previous = 0;
+    const brackets: FeeBracket[] = rawBrackets.map((bracket: unknown, j: number) => {
+      const invalid = new Error(`Escala "${id}", tramo ${j + 1}: "percent" debe ser un número y los límites "upTo", crecientes.`);
+      if (!isRecord(bracket) || !isNumber(bracket.percent) || bracket.percent < 0) throw invalid;
+      const { percent } = bracket;
+      // A missing or null limit is the open last bracket; anything else must be a number
+      const upTo = isNumber(bracket.upTo) ? bracket.upTo : null;
+      if (upTo === null && bracket.upTo !== undefined && bracket.upTo !== null) throw invalid;
+      if (upTo !== null && upTo <= previous) throw invalid;
+      if (upTo === null && j !== rawBrackets.length - 1) {
+        throw new Error(`Escala "${id}": solo el último tramo puede no tener límite.`);
+      }
+      previous = upTo ?? previous;
+      return { upTo, percent };
+    });
+    return { id, name: typeof scale.name === 'string' ? scale.name : id, brackets };
+  });
+
+  const procedures: FeeProcedure[] = data.procedures.map((procedure: unknown, i: number) => {
+    if (!isRecord(procedure) || !isText(procedure.id) || typeof procedure.name !== 'string') {
+      throw new Error(`El procedimiento nº ${i + 1} necesita "id" y "name".`);
+    }
+    const { id, name } = procedure;
+    const scaleId = typeof procedure.scaleId === 'string' ? procedure.scaleId : undefined;
+    if (procedure.scaleId !== undefined && !scales.some(s => s.id === scaleId)) {
+      throw new Error(`${name}: la escala "${String(procedure.scaleId)}" no existe.`);
+    }
+    const fixedFee = readOptionalAmount(procedure, 'fixedFee', name);
+    if (scaleId === undefined && fixedFee === undefined) {
+      throw new Error(`${name}: indica un importe fijo ("fixedFee") o una escala ("scaleId").`);
+    }
+    return {
+      id,
+      name,
+      category: typeof procedure.category === 'string' ? procedure.category : undefined,
+      fixedFee,
+      scaleId,
+      scalePercent: readOptionalAmount(procedure, 'scalePercent', name),
+      minimumFee: readOptionalAmount(procedure, 'minimumFee', name)
+    };
+  });
+
+  return { id: data.id.trim(), colegio: data.colegio.trim(), name: typeof data.name === 'string' ? data.name : '', scales, procedures };
+};
@@ -1,5 +1,5 @@
 import { GoogleGenAI, Type } from "@google/genai";
-import { Invoice, InvoiceType } from "../types";
+import { AuditAlert, Invoice, InvoiceType } from "../types";
 
 const getAiClient = () => {
   const apiKey = process.env.API_KEY;
@@ -149,8 +149,8 @@ export const extractInvoiceData = async (file: File) => {
   }
 };
 
-// Audit invoices for errors or anomalies
-export const auditInvoices = async (invoices: Invoice[]) => {
+// Second pass over the books after the local rules (auditService): `localAlerts` are not repeated
+export const auditInvoices = async (invoices: Invoice[], localAlerts: AuditAlert[] = []): Promise<{ alerts: AuditAlert[] }> => {
   const ai = getAiClient();
   if (!ai) throw new Error("AI Client not initialized");
 
@@ -161,12 +161,16 @@ export const auditInvoices = async (invoices: Invoice[]) => {
     date: inv.date,
     total: inv.totalAmount,
     nif: inv.nif,
-    fiscalAddress: inv.fiscalAddress
+    fiscalAddress: inv.fiscalAddress,
+    concept: inv.concept,
+    category: inv.category
   })));
 
   const prompt = `
     Analiza estas facturas de abogado autónomo.
-    Detecta: Duplicados, saltos de numeración (Ingresos), inconsistencias.
+    Las reglas automáticas ya han revisado numeración, duplicados, cuotas, totales, NIFs y fechas, con estas alertas:
+    ${JSON.stringify(localAlerts.map(alert => alert.message))}
+    No repitas esas comprobaciones. Detecta otras inconsistencias: conceptos o importes atípicos, gastos dudosamente deducibles, datos de cliente incoherentes entre facturas.
     Datos: ${invoicesData}
     Devuelve JSON con "alerts": [{ invoiceId, severity (HIGH/MEDIUM/LOW), message }].
   `;
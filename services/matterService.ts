@@ -0,0 +1,95 @@
+import { FundProvision, Invoice, InvoiceType, Matter, MatterStatus, TimeEntry } from "../types";
+import { expandRectifications, roundAmount } from "./taxService";
+import { getOutstandingAmount, getPaidAmount } from "./paymentService";
+import { getAppliedAmount } from "./provisionService";
+import { isInvoiceCancelled } from "./rectificationService";
+import { normalizeNif } from "./validationService";
+
+/*
+ * Expedientes: the case every minuta, expense and provisión de fondos can be charged to,
+ * and the profitability of each case from what has been billed and spent on it.
+ */
+
+export const MATTER_STATUS_LABELS: Record<MatterStatus, string> = {
+  OPEN: 'Abierto',
+  SUSPENDED: 'En suspenso',
+  CLOSED: 'Cerrado'
+};
+
+// References are EXP-AA-N, restarting every year
+export const getNextMatterReference = (matters: Matter[], date: string): string => {
+  const prefix = `EXP-${date.slice(2, 4)}-`;
+  const last = matters
+    .filter(m => m.reference.startsWith(prefix))
+    .reduce((max, m) => Math.max(max, parseInt(m.reference.slice(prefix.length)) || 0), 0);
+  return `${prefix}${last + 1}`;
+};
+
+export const getMatterLabel = (matter: Matter) => `${matter.reference} · ${matter.title}`;
+
+/**
+ * Matters an invoice can be charged to: minutas only to the client's own matters, expenses
+ * to any of them. Closed matters are left out unless the invoice already belongs to one.
+ */
+export const getSelectableMatters = (matters: Matter[], type: InvoiceType, nif: string | undefined, currentId?: string): Matter[] =>
+  matters
+    .filter(m => m.id === currentId || (
+      m.status !== 'CLOSED' &&
+      (type === InvoiceType.EXPENSE || !nif || normalizeNif(m.nif) === normalizeNif(nif))
+    ))
+    .sort((a, b) => b.reference.localeCompare(a.reference, undefined, { numeric: true }));
+
+export const isMatterInUse = (matter: Matter, invoices: Invoice[], provisions: FundProvision[], timeEntries: TimeEntry[]) =>
+  invoices.some(inv => inv.matterId === matter.id) ||
+  provisions.some(p => p.matterId === matter.id) ||
+  timeEntries.some(entry => entry.matterId === matter.id);
+
+export interface MatterSummary {
+  fees: number; // Honorarios facturados
+  billedExpenses: number; // Gastos repercutidos con IVA (parte de la base de las minutas)
+  supplies: number; // Suplidos facturados (no son ingreso del despacho)
+  expenses: number; // Base imponible de los gastos imputados
+  provisionsReceived: number;
+  provisionsPending: number; // Recibidas y aún no descontadas en ninguna minuta
+  collected: number; // Cobrado de las minutas (provisiones aplicadas incluidas)
+  outstanding: number; // Pendiente de cobro
+  profit: number; // Honorarios + gastos repercutidos - gastos
+  margin: number | null; // Sobre lo facturado sin suplidos (null si no hay nada facturado)
+}
+
+/**
+ * Profitability of a matter. Suplidos are paid on the client's behalf and billed at cost,
+ * so they count neither as income nor as expense. Amounts are read through
+ * expandRectifications, so a rectificativa por sustitución counts as the reversal of its
+ * original plus the corrected amounts; payments and balances stay on the real invoices.
+ */
+export const getMatterSummary = (matter: Matter, invoices: Invoice[], provisions: FundProvision[]): MatterSummary => {
+  const matterInvoices = expandRectifications(invoices).filter(inv => inv.matterId === matter.id);
+  const billedIncome = matterInvoices.filter(inv => inv.type === InvoiceType.INCOME);
+  const expenses = matterInvoices.filter(inv => inv.type === InvoiceType.EXPENSE);
+  const income = invoices.filter(inv => inv.matterId === matter.id && inv.type === InvoiceType.INCOME);
+  const matterProvisions = provisions.filter(p => p.matterId === matter.id);
+  const sum = <T>(items: T[], amount: (item: T) => number) =>
+    roundAmount(items.reduce((total, item) => total + amount(item), 0));
+
+  const billedExpenses = sum(billedIncome, inv => inv.taxableExpenses || 0);
+  const fees = sum(billedIncome, inv => inv.fees ?? inv.baseAmount - (inv.taxableExpenses || 0));
+  const expensesAmount = sum(expenses, inv => inv.baseAmount);
+  const billed = roundAmount(fees + billedExpenses);
+  const profit = roundAmount(billed - expensesAmount);
+  const provisionsReceived = sum(matterProvisions, p => p.amount);
+
+  return {
+    fees,
+    billedExpenses,
+    supplies: sum(billedIncome, inv => inv.supplies || 0),
+    expenses: expensesAmount,
+    provisionsReceived,
+    provisionsPending: roundAmount(provisionsReceived - sum(matterProvisions, p => getAppliedAmount(p, invoices))),
+    // The retainer of an annulled minuta is no longer applied (see provisionService)
+    collected: sum(income, inv => (isInvoiceCancelled(inv, invoices) ? 0 : inv.retainer || 0) + getPaidAmount(inv)),
+    outstanding: sum(income, inv => getOutstandingAmount(inv, invoices)),
+    profit,
+    margin: billed !== 0 ? roundAmount(profit / billed * 100) : null
+  };
+};
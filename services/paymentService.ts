@@ -0,0 +1,162 @@
+import { Invoice, InvoiceType, PaymentMethod, PaymentStatus, SavedEntity } from "../types";
+import { roundAmount } from "./taxService";
+
+/*
+ * Cobros y pagos: what is still owed on each invoice, its due date and the aging of the
+ * outstanding balances (antigüedad de saldos) shown in the Dashboard. An issued invoice and
+ * its rectificativas are one debt: see getOutstandingAmount.
+ */
+
+// Plazo legal supletorio (art. 4 Ley 3/2004 de morosidad) when the contact has none
+export const DEFAULT_PAYMENT_TERM_DAYS = 30;
+
+const AMOUNT_TOLERANCE = 0.01;
+
+export const PAYMENT_METHODS: Record<PaymentMethod, string> = {
+  TRANSFER: 'Transferencia',
+  DIRECT_DEBIT: 'Domiciliación',
+  CARD: 'Tarjeta',
+  CASH: 'Efectivo',
+  CHECK: 'Cheque',
+  OTHER: 'Otro'
+};
+
+export const PAYMENT_STATUS_LABELS: Record<InvoiceType, Record<PaymentStatus, string>> = {
+  [InvoiceType.INCOME]: { PAID: 'Cobrada', PARTIAL: 'Cobro parcial', PENDING: 'Pendiente', OVERDUE: 'Vencida' },
+  [InvoiceType.EXPENSE]: { PAID: 'Pagada', PARTIAL: 'Pago parcial', PENDING: 'Pendiente', OVERDUE: 'Vencida' }
+};
+
+export const getPaidAmount = (invoice: Invoice): number =>
+  roundAmount((invoice.payments || []).reduce((sum, payment) => sum + payment.amount, 0));
+
+const getOwedAmount = (invoice: Invoice) =>
+  invoice.totalAmount - (invoice.type === InvoiceType.INCOME ? (invoice.retainer || 0) : 0);
+
+// Original invoice a rectificativa goes back to (also through a rectificativa of a rectificativa)
+const getRootInvoiceId = (invoice: Invoice, byId: Map<string, Invoice>): string => {
+  let current = invoice;
+  const visited = new Set<string>();
+  while (current.rectifiedInvoiceId && byId.has(current.rectifiedInvoiceId) && !visited.has(current.id)) {
+    visited.add(current.id);
+    current = byId.get(current.rectifiedInvoiceId)!;
+  }
+  return current.id;
+};
+
+/**
+ * What is left to collect (issued invoices, net of the provisión de fondos) or to pay
+ * (received invoices) after the registered payments. With `invoices` (the whole book), an
+ * original and its rectificativas are netted as one debt: those por diferencias add their
+ * (usually negative) amounts, one por sustitución replaces what was owed, and the payments of
+ * all of them count. The balance is shown on the original, or on its latest substitution;
+ * the rest of the group owes nothing by itself.
+ */
+export const getOutstandingAmount = (invoice: Invoice, invoices: Invoice[] = [invoice]): number => {
+  const isRectified = invoices.some(inv => inv.rectifiedInvoiceId === invoice.id);
+  if (!invoice.rectifiedInvoiceId && !isRectified) {
+    return roundAmount(getOwedAmount(invoice) - getPaidAmount(invoice));
+  }
+
+  // The given invoice may carry unsaved payments (payments form): it replaces its stored copy
+  const book = [...invoices.filter(inv => inv.id !== invoice.id), invoice];
+  const byId = new Map(book.map(inv => [inv.id, inv]));
+  const rootId = getRootInvoiceId(invoice, byId);
+  const group = book
+    .filter(inv => getRootInvoiceId(inv, byId) === rootId)
+    .sort((a, b) => Number(b.id === rootId) - Number(a.id === rootId) || a.date.localeCompare(b.date));
+
+  let owed = 0;
+  let holder = group[0];
+  group.forEach(inv => {
+    if (inv.id !== rootId && inv.rectificationMethod === 'SUBSTITUTION') {
+      owed = getOwedAmount(inv);
+      holder = inv;
+    } else {
+      owed += getOwedAmount(inv);
+    }
+  });
+  if (holder.id !== invoice.id) return 0;
+  return roundAmount(owed - group.reduce((sum, inv) => sum + getPaidAmount(inv), 0));
+};
+
+export const isInvoiceOpen = (invoice: Invoice, invoices?: Invoice[]) =>
+  Math.abs(getOutstandingAmount(invoice, invoices)) > AMOUNT_TOLERANCE;
+
+export const addDays = (date: string, days: number): string => {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().split('T')[0];
+};
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((new Date(`${to}T00:00:00Z`).getTime() - new Date(`${from}T00:00:00Z`).getTime()) / 86400000);
+
+export const getPaymentTermDays = (entity: SavedEntity | undefined): number =>
+  entity?.paymentTermDays ?? DEFAULT_PAYMENT_TERM_DAYS;
+
+// Due date of a new invoice from the payment terms of its client or supplier
+export const calculateDueDate = (date: string, entity: SavedEntity | undefined): string =>
+  addDays(date, getPaymentTermDays(entity));
+
+// Invoices saved before due dates existed fall due after the default term
+export const getDueDate = (invoice: Invoice): string =>
+  invoice.dueDate || addDays(invoice.date, DEFAULT_PAYMENT_TERM_DAYS);
+
+export const getPaymentStatus = (
+  invoice: Invoice,
+  invoices?: Invoice[],
+  today: string = new Date().toISOString().split('T')[0]
+): PaymentStatus => {
+  if (!isInvoiceOpen(invoice, invoices)) return 'PAID';
+  if (getDueDate(invoice) < today) return 'OVERDUE';
+  return invoice.payments?.length ? 'PARTIAL' : 'PENDING';
+};
+
+// Days past the due date, grouped as in the usual aging report. An invoice that falls due
+// today is not overdue yet (as in getPaymentStatus)
+export const AGING_BUCKETS = [
+  { label: '1-30 días', maxDays: 30 },
+  { label: '31-60 días', maxDays: 60 },
+  { label: '61-90 días', maxDays: 90 },
+  { label: 'Más de 90 días', maxDays: Infinity }
+];
+
+export interface AgingReport {
+  notDue: { amount: number; count: number };
+  buckets: Array<{ label: string; amount: number; count: number }>;
+  overdue: number;
+  total: number;
+}
+
+/**
+ * Outstanding balances of one side of the books (receivables for INCOME, payables for
+ * EXPENSE), split between not yet due and the buckets of days past the due date.
+ */
+export const getAgingReport = (
+  invoices: Invoice[],
+  type: InvoiceType,
+  today: string = new Date().toISOString().split('T')[0]
+): AgingReport => {
+  const report: AgingReport = {
+    notDue: { amount: 0, count: 0 },
+    buckets: AGING_BUCKETS.map(bucket => ({ label: bucket.label, amount: 0, count: 0 })),
+    overdue: 0,
+    total: 0
+  };
+
+  invoices.filter(inv => inv.type === type).forEach(inv => {
+    // What the other side owes (or we owe it): a balance in its favour after a rectificativa is a refund
+    const outstanding = getOutstandingAmount(inv, invoices);
+    if (outstanding <= AMOUNT_TOLERANCE) return;
+    const daysOverdue = daysBetween(getDueDate(inv), today);
+    const slot = daysOverdue <= 0
+      ? report.notDue
+      : report.buckets[AGING_BUCKETS.findIndex(bucket => daysOverdue <= bucket.maxDays)];
+    slot.amount = roundAmount(slot.amount + outstanding);
+    slot.count++;
+    if (daysOverdue > 0) report.overdue = roundAmount(report.overdue + outstanding);
+    report.total = roundAmount(report.total + outstanding);
+  });
+
+  return report;
+};
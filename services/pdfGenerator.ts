@@ -1,7 +1,11 @@
 
 import jsPDF from "jspdf";
 import autoTable from "jspdf-autotable";
-import { Invoice, ProfessionalProfile, InvoiceType } from "../types";
+import { Invoice, ProfessionalProfile, InvoiceType, InvestmentAsset, QuarterlyWithholdingReturn, AnnualWithholdingSummary, FundProvision, Quote, Matter } from "../types";
+import { computeModel303, computeNetYield } from "./taxService";
+import { getDepreciationSchedule } from "./assetService";
+import { PAYMENT_METHODS } from "./paymentService";
+import { getQuoteTotals } from "./quoteService";
 
 // Helper for European Currency Format
 const formatCurrency = (amount: number) => {
@@ -11,7 +15,15 @@ const formatCurrency = (amount: number) => {
   }).format(amount);
 };
 
-export const generateInvoicePDF = (invoice: Partial<Invoice>, profile: ProfessionalProfile) => {
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString('es-ES', { day: '2-digit', month: '2-digit', year: 'numeric' });
+
+// "+ 10,00 €" / "- 10,00 €" for amounts added to or subtracted from the total (rectificativas may be negative)
+const formatAdjustment = (amount: number, sign: 1 | -1) =>
+  `${amount * sign < 0 ? '-' : '+'} ${formatCurrency(Math.abs(amount))}`;
+
+// `verifactu`: QR of the registro de alta (see verifactuService.generateVerifactuQr)
+export const generateInvoicePDF = (invoice: Partial<Invoice>, profile: ProfessionalProfile, verifactu?: { dataUrl: string }) => {
   const doc = new jsPDF();
 
   // --- CONFIGURACIÓN DE ESTILO (ESCALA DE GRISES MODERNOS) ---
@@ -103,10 +115,11 @@ export const generateInvoicePDF = (invoice: Partial<Invoice>, profile: Professio
   const metaStartX = pageWidth - margin - 70;
   let metaY = 20;
 
+  const isRectification = !!invoice.rectifiedInvoiceNumber;
   doc.setFont("helvetica", "bold");
-  doc.setFontSize(22);
+  doc.setFontSize(isRectification ? 16 : 22);
   doc.setTextColor(colorBlack);
-  doc.text("FACTURA", pageWidth - margin, metaY, { align: "right" });
+  doc.text(isRectification ? "FACTURA RECTIFICATIVA" : "FACTURA", pageWidth - margin, metaY, { align: "right" });
 
   metaY += 10;
 
@@ -134,6 +147,27 @@ export const generateInvoicePDF = (invoice: Partial<Invoice>, profile: Professio
   const dateStr = invoice.date ? new Date(invoice.date).toLocaleDateString('es-ES', { day: '2-digit', month: '2-digit', year: 'numeric' }) : new Date().toLocaleDateString('es-ES', { day: '2-digit', month: '2-digit', year: 'numeric' });
   doc.text(dateStr, pageWidth - margin, metaY, { align: "right" });
 
+  // Factura rectificada y causa (art. 15 RD 1619/2012)
+  if (isRectification) {
+      metaY += 6;
+      doc.setFont("helvetica", "normal");
+      doc.setTextColor(colorDarkGray);
+      doc.text("RECTIFICA:", metaStartX + 20, metaY, { align: "right" });
+      doc.setFont("helvetica", "bold");
+      doc.setTextColor(colorBlack);
+      const rectifiedDate = invoice.rectifiedInvoiceDate ? ` (${formatDate(invoice.rectifiedInvoiceDate)})` : '';
+      doc.text(`${invoice.rectifiedInvoiceNumber}${rectifiedDate}`, pageWidth - margin, metaY, { align: "right" });
+
+      metaY += 6;
+      doc.setFont("helvetica", "normal");
+      doc.setTextColor(colorDarkGray);
+      doc.text("CAUSA:", metaStartX + 20, metaY, { align: "right" });
+      doc.setFont("helvetica", "bold");
+      doc.setTextColor(colorBlack);
+      const method = invoice.rectificationMethod === 'SUBSTITUTION' ? 'por sustitución' : 'por diferencias';
+      doc.text(`${invoice.rectificationReason || ''} - ${method}`, pageWidth - margin, metaY, { align: "right" });
+  }
+
 
   // --- SEPARADOR GRÁFICO ---
   // Una línea gruesa negra que cruza la página antes de los datos del cliente
@@ -169,10 +203,24 @@ export const generateInvoicePDF = (invoice: Partial<Invoice>, profile: Professio
       doc.text(invoice.fiscalAddress, margin, clientDetailY);
   }
 
+  // --- QR VERI*FACTU (DERECHA, A LA ALTURA DEL CLIENTE) ---
+  // Orden HAC/1177/2024: QR de 30x30 mm con la leyenda "VERI*FACTU"
+  let qrBottomY = 0;
+  if (verifactu) {
+      const qrSize = 30;
+      const qrX = pageWidth - margin - qrSize;
+      doc.setFont("helvetica", "bold");
+      doc.setFontSize(8);
+      doc.setTextColor(colorBlack);
+      doc.text("VERI*FACTU", qrX + qrSize / 2, clientY, { align: "center" });
+      doc.addImage(verifactu.dataUrl, "PNG", qrX, clientY + 2, qrSize, qrSize);
+      qrBottomY = clientY + 2 + qrSize;
+  }
+
 
   // --- TABLA DE CONCEPTOS ---
   // Construimos las filas dependiendo de si hay desglose de Honorarios vs Gastos
-  const tableStartY = clientDetailY + 15;
+  const tableStartY = Math.max(clientDetailY + 15, qrBottomY + 8);
   const tableBody = [];
 
   // Fila 1: Concepto Principal (Honorarios)
@@ -250,16 +298,16 @@ export const generateInvoicePDF = (invoice: Partial<Invoice>, profile: Professio
     doc.setTextColor(colorDarkGray);
     doc.text(`Retención IRPF ${invoice.irpfRate}%`, rightColX, finalY, { align: 'right' });
     doc.setTextColor(colorBlack);
-    doc.text(`- ${formatCurrency(invoice.irpfAmount || 0)}`, rightValX, finalY, { align: 'right' });
+    doc.text(formatAdjustment(invoice.irpfAmount || 0, -1), rightValX, finalY, { align: 'right' });
     finalY += 6;
   }
 
   // SUPLIDOS (Si aplica)
-  if (invoice.supplies && invoice.supplies > 0) {
+  if (invoice.supplies) {
       doc.setTextColor(colorDarkGray);
       doc.text("Suplidos (Exento)", rightColX, finalY, { align: 'right' });
       doc.setTextColor(colorBlack);
-      doc.text(`+ ${formatCurrency(invoice.supplies)}`, rightValX, finalY, { align: 'right' });
+      doc.text(formatAdjustment(invoice.supplies, 1), rightValX, finalY, { align: 'right' });
       finalY += 6;
   }
 
@@ -288,7 +336,8 @@ export const generateInvoicePDF = (invoice: Partial<Invoice>, profile: Professio
       doc.setFont("helvetica", "normal");
       doc.setFontSize(10);
       doc.setTextColor(colorDarkGray);
-      doc.text("Menos Provisión de Fondos", rightColX, finalY, { align: 'right' });
+      const provisionNumbers = (invoice.appliedProvisions || []).map(p => p.provisionNumber).join(', ');
+      doc.text(provisionNumbers ? `Menos Provisión de Fondos (${provisionNumbers})` : "Menos Provisión de Fondos", rightColX, finalY, { align: 'right' });
       doc.setTextColor(colorBlack); // Destacamos en negro al ser una resta importante
       doc.text(`- ${formatCurrency(invoice.retainer)}`, rightValX, finalY, { align: 'right' });
       
@@ -346,7 +395,7 @@ export const generateInvoicePDF = (invoice: Partial<Invoice>, profile: Professio
   doc.save(`Factura_${invoice.number}.pdf`);
 };
 
-export const generateFiscalYearReport = (year: number, invoices: Invoice[], profile: ProfessionalProfile) => {
+export const generateFiscalYearReport = (year: number, invoices: Invoice[], profile: ProfessionalProfile, assets: InvestmentAsset[] = []) => {
     const doc = new jsPDF();
     const pageWidth = doc.internal.pageSize.getWidth();
     const pageHeight = doc.internal.pageSize.getHeight();
@@ -372,13 +421,16 @@ export const generateFiscalYearReport = (year: number, invoices: Invoice[], prof
     const incomes = yearInvoices.filter(i => i.type === InvoiceType.INCOME);
     const expenses = yearInvoices.filter(i => i.type === InvoiceType.EXPENSE && i.deductible);
 
-    const totalIncome = incomes.reduce((sum, i) => sum + i.baseAmount, 0);
-    const totalExpense = expenses.reduce((sum, i) => sum + i.baseAmount, 0);
-    const netResult = totalIncome - totalExpense;
+    // Investment goods are deducted through the depreciation schedule, not at purchase
+    const netYield = computeNetYield(invoices, `${year}-01-01`, `${year}-12-31`, assets);
+    const totalIncome = netYield.income;
+    const totalExpense = netYield.expenses;
+    const netResult = netYield.netYield;
 
-    const ivaRepercutido = incomes.reduce((sum, i) => sum + i.ivaAmount, 0);
-    const ivaSoportado = expenses.reduce((sum, i) => sum + i.ivaAmount, 0);
-    const ivaResult = ivaRepercutido - ivaSoportado;
+    const annual303 = computeModel303(invoices, { year });
+    const ivaRepercutido = annual303.totalDevengado;
+    const ivaSoportado = annual303.totalDeducible;
+    const ivaResult = annual303.result;
 
     const irpfSoportado = incomes.reduce((sum, i) => sum + i.irpfAmount, 0); // Retenciones sufridas
     const irpfPracticado = expenses.reduce((sum, i) => sum + i.irpfAmount, 0); // Retenciones practicadas
@@ -395,7 +447,8 @@ export const generateFiscalYearReport = (year: number, invoices: Invoice[], prof
         head: [['Concepto', 'Importe']],
         body: [
             ['Total Ingresos (Base Imponible)', formatCurrency(totalIncome)],
-            ['Total Gastos Deducibles (Base)', formatCurrency(totalExpense)],
+            ['Total Gastos Deducibles (Base)', formatCurrency(totalExpense - netYield.depreciation)],
+            ['Amortizaciones', formatCurrency(netYield.depreciation)],
             ['RENDIMIENTO NETO', formatCurrency(netResult)]
         ],
         theme: 'striped',
@@ -426,6 +479,37 @@ export const generateFiscalYearReport = (year: number, invoices: Invoice[], prof
     // @ts-ignore
     yPos = doc.lastAutoTable.finalY + 15;
 
+    // --- Depreciation Schedule ---
+    const yearAssets = assets.filter(a => getDepreciationSchedule(a).some(e => e.year === year));
+    if (yearAssets.length > 0) {
+        doc.text("Amortizaciones del ejercicio (Bienes de Inversión)", margin, yPos);
+        yPos += 10;
+
+        autoTable(doc, {
+            startY: yPos,
+            head: [['Elemento', 'Alta', 'Valor', 'Coef.', 'Amortización', 'Acumulada', 'Pendiente']],
+            body: yearAssets.map(a => {
+                const entry = getDepreciationSchedule(a).find(e => e.year === year)!;
+                const disposal = a.disposalDate && a.disposalDate.startsWith(`${year}`) ? ` (baja ${formatDate(a.disposalDate)})` : '';
+                return [
+                    `${a.description}${disposal}`,
+                    formatDate(a.acquisitionDate),
+                    formatCurrency(a.acquisitionValue),
+                    `${a.coefficient}%`,
+                    formatCurrency(entry.charge),
+                    formatCurrency(entry.accumulated),
+                    formatCurrency(entry.netBookValue)
+                ];
+            }),
+            theme: 'grid',
+            headStyles: { fillColor: [100, 116, 139] },
+            styles: { fontSize: 8 }
+        });
+
+        // @ts-ignore
+        yPos = doc.lastAutoTable.finalY + 15;
+    }
+
     // --- Withholding Summary ---
     doc.text("3. Retenciones IRPF", margin, yPos);
     yPos += 10;
@@ -451,3 +535,276 @@ export const generateFiscalYearReport = (year: number, invoices: Invoice[], prof
 
     doc.save(`Cierre_Fiscal_${year}.pdf`);
 };
+
+// Common header of the withholding model summaries (115 / 180)
+const addModelHeader = (doc: jsPDF, title: string, subtitle: string, profile: ProfessionalProfile, margin: number) => {
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(18);
+    doc.text(title, margin, 25);
+
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(11);
+    doc.text(subtitle, margin, 33);
+
+    doc.setFontSize(10);
+    doc.text(`Retenedor: ${profile.name}`, margin, 43);
+    doc.text(`NIF: ${profile.nif}`, margin, 48);
+    doc.text(`Generado el: ${new Date().toLocaleDateString('es-ES')}`, margin, 53);
+};
+
+const propertyDescription = (ref?: string, address?: string) =>
+    [ref ? `Ref. catastral ${ref}` : 'Sin referencia catastral', address].filter(Boolean).join('\n');
+
+export const generateModel115PDF = (result: QuarterlyWithholdingReturn, profile: ProfessionalProfile) => {
+    const doc = new jsPDF();
+    const margin = 20;
+    const c = result.casillas;
+
+    addModelHeader(doc, `MODELO 115 - ${result.quarter}T ${result.year}`, 'Retenciones e ingresos a cuenta sobre arrendamientos de inmuebles urbanos', profile, margin);
+
+    autoTable(doc, {
+        startY: 63,
+        head: [['Casilla', 'Concepto', 'Importe']],
+        body: [
+            ['01', 'Número de perceptores', String(c['01'])],
+            ['02', 'Base de las retenciones e ingresos a cuenta', formatCurrency(c['02'])],
+            ['03', 'Retenciones e ingresos a cuenta', formatCurrency(c['03'])],
+            ['04', 'A deducir (solo complementarias)', formatCurrency(c['04'])],
+            ['05', 'RESULTADO A INGRESAR', formatCurrency(c['05'])]
+        ],
+        theme: 'striped',
+        headStyles: { fillColor: [245, 158, 11] },
+        columnStyles: { 2: { halign: 'right', fontStyle: 'bold' } }
+    });
+
+    // @ts-ignore
+    let yPos = doc.lastAutoTable.finalY + 15;
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(12);
+    doc.text("Detalle por arrendador e inmueble", margin, yPos);
+
+    autoTable(doc, {
+        startY: yPos + 5,
+        head: [['NIF', 'Arrendador', 'Inmueble', 'Base', '%', 'Retención']],
+        body: result.perceptors.map(p => [
+            p.nif,
+            p.name,
+            propertyDescription(p.propertyCadastralRef, p.propertyAddress),
+            formatCurrency(p.base),
+            `${p.rate}%`,
+            formatCurrency(p.withholding)
+        ]),
+        theme: 'grid',
+        styles: { fontSize: 8 },
+        headStyles: { fillColor: [100, 116, 139] }
+    });
+
+    doc.save(`Modelo_115_${result.year}_${result.quarter}T.pdf`);
+};
+
+export const generateModel180PDF = (summary: AnnualWithholdingSummary, profile: ProfessionalProfile) => {
+    const doc = new jsPDF();
+    const margin = 20;
+
+    addModelHeader(doc, `MODELO 180 - EJERCICIO ${summary.year}`, 'Resumen anual de retenciones sobre arrendamientos de inmuebles urbanos', profile, margin);
+
+    autoTable(doc, {
+        startY: 63,
+        head: [['NIF', 'Arrendador', 'Prov.', 'Inmueble', 'Base', '%', 'Retención']],
+        body: summary.perceptors.map(p => [
+            p.nif,
+            p.name,
+            p.provinceCode || '-',
+            propertyDescription(p.propertyCadastralRef, p.propertyAddress),
+            formatCurrency(p.base),
+            `${p.rate}%`,
+            formatCurrency(p.withholding)
+        ]),
+        foot: [['', 'TOTAL', '', `${summary.perceptors.length} perceptores`, formatCurrency(summary.totalBase), '', formatCurrency(summary.totalWithholding)]],
+        theme: 'grid',
+        styles: { fontSize: 8 },
+        headStyles: { fillColor: [245, 158, 11] }
+    });
+
+    // @ts-ignore
+    let yPos = doc.lastAutoTable.finalY + 15;
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(12);
+    doc.text("Conciliación con los Modelos 115 trimestrales", margin, yPos);
+
+    autoTable(doc, {
+        startY: yPos + 5,
+        head: [['Trimestre', 'Retenciones']],
+        body: [
+            ...summary.quarterlyWithholding.map((value, i) => [`${i + 1}T`, formatCurrency(value)]),
+            ['TOTAL', formatCurrency(summary.quarterlyWithholding.reduce((sum, v) => sum + v, 0))]
+        ],
+        theme: 'striped',
+        columnStyles: { 1: { halign: 'right' } }
+    });
+
+    doc.save(`Modelo_180_${summary.year}.pdf`);
+};
+
+// Recibo de una provisión de fondos (no es una factura: se descuenta en la minuta final)
+export const generateProvisionReceiptPDF = (provision: FundProvision, profile: ProfessionalProfile) => {
+    const doc = new jsPDF();
+    const margin = 20;
+    const pageWidth = doc.internal.pageSize.getWidth();
+
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(14);
+    doc.text((profile.name || "NOMBRE DEL PROFESIONAL").toUpperCase(), margin, 25);
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(10);
+    const professionalLines = [
+        [profile.barAssociation, profile.collegiateNumber ? `Col. Nº ${profile.collegiateNumber}` : null].filter(Boolean).join("  |  "),
+        profile.address,
+        `${profile.zipCode || ''} ${profile.city || ''}`.trim(),
+        profile.nif ? `NIF: ${profile.nif}` : ''
+    ].filter(Boolean) as string[];
+    professionalLines.forEach((line, i) => doc.text(line, margin, 32 + i * 5));
+
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(18);
+    doc.text("RECIBO DE PROVISIÓN DE FONDOS", pageWidth - margin, 25, { align: "right" });
+    doc.setFontSize(10);
+    doc.setFont("helvetica", "normal");
+    doc.text(`Nº ${provision.number}`, pageWidth - margin, 33, { align: "right" });
+    doc.text(`Fecha: ${formatDate(provision.date)}`, pageWidth - margin, 38, { align: "right" });
+
+    autoTable(doc, {
+        startY: 65,
+        body: [
+            ['Recibido de', `${provision.clientName}\nNIF: ${provision.nif}`],
+            ...(provision.matter ? [['Asunto', provision.matter]] : []),
+            ['Concepto', provision.concept],
+            ['Forma de pago', PAYMENT_METHODS[provision.method]],
+            ['Importe', formatCurrency(provision.amount)]
+        ],
+        theme: 'grid',
+        styles: { fontSize: 10, cellPadding: 4 },
+        columnStyles: { 0: { fontStyle: 'bold', cellWidth: 45, fillColor: [243, 244, 246] }, 1: { cellWidth: 'auto' } }
+    });
+
+    // @ts-ignore
+    let yPos = doc.lastAutoTable.finalY + 12;
+    doc.setFontSize(9);
+    doc.setTextColor("#404040");
+    doc.text(
+        "Cantidad recibida a cuenta de los honorarios y suplidos del asunto indicado. Este recibo no es una factura: el importe se descontará en la minuta final que se emita.",
+        margin, yPos, { maxWidth: pageWidth - margin * 2 }
+    );
+
+    yPos += 30;
+    doc.setTextColor("#000000");
+    doc.text("Firma y sello", pageWidth - margin - 50, yPos);
+    doc.line(pageWidth - margin - 60, yPos + 20, pageWidth - margin, yPos + 20);
+
+    doc.save(`Recibo_${provision.number}.pdf`);
+};
+
+// Presupuesto de honorarios, con espacio para la conformidad del cliente
+export const generateQuotePDF = (quote: Quote, profile: ProfessionalProfile, matter?: Matter) => {
+    const doc = new jsPDF();
+    const margin = 20;
+    const pageWidth = doc.internal.pageSize.getWidth();
+    const pageHeight = doc.internal.pageSize.getHeight();
+
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(14);
+    doc.text((profile.name || "NOMBRE DEL PROFESIONAL").toUpperCase(), margin, 25);
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(10);
+    const professionalLines = [
+        [profile.barAssociation, profile.collegiateNumber ? `Col. Nº ${profile.collegiateNumber}` : null].filter(Boolean).join("  |  "),
+        profile.address,
+        `${profile.zipCode || ''} ${profile.city || ''}`.trim(),
+        profile.nif ? `NIF: ${profile.nif}` : '',
+        [profile.phone, profile.email].filter(Boolean).join("  |  ")
+    ].filter(Boolean) as string[];
+    professionalLines.forEach((line, i) => doc.text(line, margin, 32 + i * 5));
+
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(16);
+    doc.text("HOJA DE ENCARGO", pageWidth - margin, 25, { align: "right" });
+    doc.setFontSize(10);
+    doc.text(`PRESUPUESTO Nº ${quote.number}`, pageWidth - margin, 32, { align: "right" });
+    doc.setFont("helvetica", "normal");
+    doc.text(`Fecha: ${formatDate(quote.date)}`, pageWidth - margin, 38, { align: "right" });
+    doc.text(`Válido hasta: ${formatDate(quote.validUntil)}`, pageWidth - margin, 43, { align: "right" });
+
+    autoTable(doc, {
+        startY: 65,
+        body: [
+            ['Cliente', [quote.clientName, quote.nif ? `NIF: ${quote.nif}` : '', quote.fiscalAddress || ''].filter(Boolean).join('\n')],
+            ['Asunto', quote.subject],
+            ...(matter ? [['Expediente', [matter.reference, matter.court, matter.procedureNumber].filter(Boolean).join('  |  ')]] : [])
+        ],
+        theme: 'grid',
+        styles: { fontSize: 10, cellPadding: 4 },
+        columnStyles: { 0: { fontStyle: 'bold', cellWidth: 45, fillColor: [243, 244, 246] }, 1: { cellWidth: 'auto' } }
+    });
+
+    const totals = getQuoteTotals(quote);
+    autoTable(doc, {
+        // @ts-ignore
+        startY: doc.lastAutoTable.finalY + 8,
+        head: [['Concepto', 'Importe']],
+        body: quote.lines.map(line => [line.description, formatCurrency(line.amount)]),
+        foot: [
+            ['Base imponible', formatCurrency(totals.baseAmount)],
+            [`IVA (${quote.ivaRate}%)`, formatAdjustment(totals.ivaAmount, 1)],
+            ...(quote.irpfRate ? [[`Retención IRPF (${quote.irpfRate}%)`, formatAdjustment(totals.irpfAmount, -1)]] : []),
+            ['TOTAL', formatCurrency(totals.totalAmount)]
+        ],
+        theme: 'striped',
+        headStyles: { fillColor: [38, 38, 38] },
+        footStyles: { fillColor: [255, 255, 255], textColor: [0, 0, 0], halign: 'right' },
+        styles: { fontSize: 10 },
+        columnStyles: { 1: { halign: 'right', cellWidth: 40 } }
+    });
+
+    // @ts-ignore
+    let yPos = doc.lastAutoTable.finalY + 10;
+    doc.setFontSize(9);
+    doc.setTextColor("#404040");
+    const notes = [
+        quote.notes,
+        "Honorarios orientativos. No incluyen suplidos (tasas, aranceles de procurador, peritos, notaría...), que se facturarán aparte por su importe."
+    ].filter(Boolean) as string[];
+    notes.forEach(note => {
+        const lines = doc.splitTextToSize(note, pageWidth - margin * 2);
+        doc.text(lines, margin, yPos);
+        yPos += lines.length * 4.5 + 3;
+    });
+
+    if (quote.terms?.trim()) {
+        const terms = doc.splitTextToSize(quote.terms.trim(), pageWidth - margin * 2);
+        if (yPos + 10 + terms.length * 4.5 > pageHeight - margin) {
+            doc.addPage();
+            yPos = margin;
+        }
+        doc.setTextColor("#000000");
+        doc.setFont("helvetica", "bold");
+        doc.text("Condiciones del encargo", margin, yPos + 4);
+        doc.setFont("helvetica", "normal");
+        doc.setTextColor("#404040");
+        doc.text(terms, margin, yPos + 10);
+        yPos += 10 + terms.length * 4.5;
+    }
+
+    // The signatures stay together on the last page
+    if (yPos + 40 > pageHeight - margin) {
+        doc.addPage();
+        yPos = margin;
+    }
+    yPos += 15;
+    doc.setTextColor("#000000");
+    doc.text("El profesional", margin, yPos);
+    doc.text("Conforme, el cliente", pageWidth - margin - 60, yPos);
+    doc.line(margin, yPos + 20, margin + 60, yPos + 20);
+    doc.line(pageWidth - margin - 60, yPos + 20, pageWidth - margin, yPos + 20);
+
+    doc.save(`Presupuesto_${quote.number}.pdf`);
+};
@@ -0,0 +1,70 @@
+import { PeriodLock, PeriodLockEvent } from "../types";
+import { getPeriodLabel, isDateInPeriod } from "./taxService";
+import { promisifyRequest, runTransaction } from "./storageService";
+
+/*
+ * Cierre de periodos. Once the 303/130 of a quarter (or the annual returns) are filed, the
+ * invoices dated inside it must not change: a locked period refuses new, edited, deleted and
+ * imported invoices until it is reopened, and every lock and reopening is kept in a log.
+ */
+
+const samePeriod = (a: Pick<PeriodLock, 'year' | 'quarter'>, b: Pick<PeriodLock, 'year' | 'quarter'>) =>
+  a.year === b.year && a.quarter === b.quarter;
+
+// Lock covering the date: the one of its quarter or of its whole year
+export const findPeriodLock = (locks: PeriodLock[], date: string | undefined): PeriodLock | undefined =>
+  locks.find(lock => isDateInPeriod(date, lock));
+
+/**
+ * Error message when invoices with these dates cannot be created, changed or removed
+ * (`action` completes the sentence: "modificar la factura A-25-1"), or null if all are open.
+ */
+export const getPeriodLockBlocker = (locks: PeriodLock[], dates: Array<string | undefined>, action: string): string | null => {
+  const blocking = Array.from(new Set(
+    dates.map(date => findPeriodLock(locks, date)).filter((lock): lock is PeriodLock => !!lock)
+  ));
+  if (blocking.length === 0) return null;
+  return `No se puede ${action}: ${blocking.map(getPeriodLabel).join(', ')} ${blocking.length > 1 ? 'están cerrados' : 'está cerrado'}. ` +
+    'Reabre el periodo desde Cierre de Ejercicio indicando el motivo.';
+};
+
+/**
+ * Locks and log are read and written in one transaction, so the log always matches the
+ * locks in force.
+ */
+const updatePeriodLocks = (update: (locks: PeriodLock[]) => { locks: PeriodLock[]; event: PeriodLockEvent }) =>
+  runTransaction(['settings'], 'readwrite', async tx => {
+    const store = tx.objectStore('settings');
+    const locks = (await promisifyRequest(store.get('periodLocks') as IDBRequest<PeriodLock[] | undefined>)) || [];
+    const log = (await promisifyRequest(store.get('periodLockLog') as IDBRequest<PeriodLockEvent[] | undefined>)) || [];
+    const result = update(locks);
+    store.put(result.locks, 'periodLocks');
+    store.put([...log, result.event], 'periodLockLog');
+    return result.locks;
+  });
+
+// `quarter` undefined closes the whole year
+export const lockPeriod = (year: number, quarter?: PeriodLock['quarter']): Promise<PeriodLock[]> =>
+  updatePeriodLocks(locks => {
+    if (locks.some(lock => samePeriod(lock, { year, quarter }))) {
+      throw new Error(`${getPeriodLabel({ year, quarter })} ya está cerrado.`);
+    }
+    const date = new Date().toISOString();
+    return {
+      locks: [...locks, { year, quarter, lockedAt: date }],
+      event: { action: 'LOCK', year, quarter, date }
+    };
+  });
+
+export const reopenPeriod = (period: Pick<PeriodLock, 'year' | 'quarter'>, reason: string): Promise<PeriodLock[]> => {
+  if (!reason.trim()) return Promise.reject(new Error('Indica el motivo de la reapertura.'));
+  return updatePeriodLocks(locks => {
+    if (!locks.some(lock => samePeriod(lock, period))) {
+      throw new Error(`${getPeriodLabel(period)} no está cerrado.`);
+    }
+    return {
+      locks: locks.filter(lock => !samePeriod(lock, period)),
+      event: { action: 'REOPEN', year: period.year, quarter: period.quarter, date: new Date().toISOString(), reason: reason.trim() }
+    };
+  });
+};
@@ -0,0 +1,156 @@
+import { FundProvision, Invoice, InvoiceType, ProvisionApplication } from "../types";
+import { isInvoiceCancelled } from "./rectificationService";
+import { expandRectifications, roundAmount } from "./taxService";
+import { normalizeNif } from "./validationService";
+
+/*
+ * Provisiones de fondos: amounts received from a client before the minuta. Each one is a
+ * document with its own receipt; the final invoices record which provisions they discount
+ * (Invoice.appliedProvisions, whose sum is Invoice.retainer), so the pending balance of a
+ * provision is always its amount minus what the invoices have applied. A minuta annulled by
+ * its rectificativas no longer discounts anything, so its provisions are free again.
+ */
+
+const AMOUNT_TOLERANCE = 0.01;
+
+// Receipts are numbered PF-AA-N, restarting every year
+export const getNextProvisionNumber = (provisions: FundProvision[], date: string): string => {
+  const prefix = `PF-${date.slice(2, 4)}-`;
+  const last = provisions
+    .filter(p => p.number.startsWith(prefix))
+    .reduce((max, p) => Math.max(max, parseInt(p.number.slice(prefix.length)) || 0), 0);
+  return `${prefix}${last + 1}`;
+};
+
+// `excludeInvoiceId`: the invoice being edited, whose current applications are being replaced
+export const getAppliedAmount = (provision: FundProvision, invoices: Invoice[], excludeInvoiceId?: string): number =>
+  roundAmount(invoices
+    .filter(inv => inv.id !== excludeInvoiceId && !isInvoiceCancelled(inv, invoices))
+    .flatMap(inv => inv.appliedProvisions || [])
+    .filter(application => application.provisionId === provision.id)
+    .reduce((sum, application) => sum + application.amount, 0));
+
+export const getProvisionBalance = (provision: FundProvision, invoices: Invoice[], excludeInvoiceId?: string): number =>
+  roundAmount(provision.amount - getAppliedAmount(provision, invoices, excludeInvoiceId));
+
+// Provisions of a client that still have something to apply, oldest first
+export const getAvailableProvisions = (
+  provisions: FundProvision[],
+  invoices: Invoice[],
+  nif: string,
+  excludeInvoiceId?: string
+): FundProvision[] =>
+  provisions
+    .filter(p => normalizeNif(p.nif) === normalizeNif(nif) && getProvisionBalance(p, invoices, excludeInvoiceId) > AMOUNT_TOLERANCE)
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+export const isProvisionApplied = (provision: FundProvision, invoices: Invoice[]) =>
+  getAppliedAmount(provision, invoices) > 0;
+
+/**
+ * Checks the provisions an invoice discounts: they must belong to its client and none can
+ * be applied beyond its pending balance. Returns the error message or null.
+ */
+export const validateProvisionApplications = (
+  invoice: Pick<Invoice, 'id' | 'nif' | 'appliedProvisions'>,
+  provisions: FundProvision[],
+  invoices: Invoice[]
+): string | null => {
+  for (const application of invoice.appliedProvisions || []) {
+    const provision = provisions.find(p => p.id === application.provisionId);
+    if (!provision) return `La provisión ${application.provisionNumber} ya no existe.`;
+    if (normalizeNif(provision.nif) !== normalizeNif(invoice.nif)) {
+      return `La provisión ${provision.number} es de ${provision.clientName}, no del cliente de la factura.`;
+    }
+    if (application.amount <= 0) return `El importe aplicado de la provisión ${provision.number} debe ser positivo.`;
+    const balance = getProvisionBalance(provision, invoices, invoice.id);
+    if (application.amount > balance + AMOUNT_TOLERANCE) {
+      return `De la provisión ${provision.number} solo quedan ${balance.toFixed(2)} € por aplicar.`;
+    }
+  }
+  return null;
+};
+
+export const sumApplications = (applications: ProvisionApplication[]) =>
+  roundAmount(applications.reduce((sum, application) => sum + application.amount, 0));
+
+export interface StatementLine {
+  date: string;
+  reference: string;
+  description: string;
+  charge: number; // Facturado al cliente
+  credit: number; // Provisiones recibidas y cobros
+  balance: number; // Pendiente del cliente (negativo: fondos a su favor)
+}
+
+export interface ClientStatement {
+  lines: StatementLine[];
+  provisionsReceived: number;
+  provisionsApplied: number;
+  provisionsPending: number; // Fondos recibidos aún no aplicados a ninguna minuta
+  balance: number;
+}
+
+/**
+ * Extracto de cuenta del cliente: invoices charged against provisions received and payments.
+ * Retainers typed by hand on invoices (without a provision document) are shown as received
+ * with the invoice, so the balance stays right for invoices issued before the register existed.
+ * Charges are read through expandRectifications: a minuta replaced por sustitución is reversed
+ * on the date of its rectificativa, and the retainer of an annulled minuta is not credited.
+ */
+export const getClientStatement = (nif: string, provisions: FundProvision[], invoices: Invoice[]): ClientStatement => {
+  const key = normalizeNif(nif);
+  const clientProvisions = provisions.filter(p => normalizeNif(p.nif) === key);
+  const isClientInvoice = (inv: Invoice) => inv.type === InvoiceType.INCOME && normalizeNif(inv.nif) === key;
+  const clientInvoices = invoices.filter(isClientInvoice);
+
+  const entries: Array<Omit<StatementLine, 'balance'>> = [
+    ...clientProvisions.map(p => ({
+      date: p.date,
+      reference: p.number,
+      description: `Provisión de fondos${p.matter ? ` · ${p.matter}` : ''}`,
+      charge: 0,
+      credit: p.amount
+    })),
+    ...expandRectifications(invoices).filter(isClientInvoice).map(inv => ({
+      date: inv.date,
+      reference: inv.number,
+      description: inv.concept,
+      charge: inv.totalAmount,
+      credit: 0
+    })),
+    ...clientInvoices.flatMap(inv => {
+      const unregistered = isInvoiceCancelled(inv, invoices)
+        ? 0
+        : roundAmount((inv.retainer || 0) - sumApplications(inv.appliedProvisions || []));
+      return [
+        ...(unregistered > AMOUNT_TOLERANCE
+          ? [{ date: inv.date, reference: inv.number, description: 'Provisión de fondos descontada en la factura', charge: 0, credit: unregistered }]
+          : []),
+        ...(inv.payments || []).map(payment => ({
+          date: payment.date,
+          reference: inv.number,
+          description: `Cobro${payment.note ? ` · ${payment.note}` : ''}`,
+          charge: 0,
+          credit: payment.amount
+        }))
+      ];
+    })
+  ].sort((a, b) => a.date.localeCompare(b.date));
+
+  let balance = 0;
+  const lines = entries.map(entry => {
+    balance = roundAmount(balance + entry.charge - entry.credit);
+    return { ...entry, balance };
+  });
+
+  const provisionsReceived = roundAmount(clientProvisions.reduce((sum, p) => sum + p.amount, 0));
+  const provisionsApplied = roundAmount(clientProvisions.reduce((sum, p) => sum + getAppliedAmount(p, invoices), 0));
+  return {
+    lines,
+    provisionsReceived,
+    provisionsApplied,
+    provisionsPending: roundAmount(provisionsReceived - provisionsApplied),
+    balance
+  };
+};
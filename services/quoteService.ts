@@ -0,0 +1,108 @@
+import { Invoice, InvoiceDraft, Quote, QuoteStatus } from "../types";
+import { expandRectifications, roundAmount } from "./taxService";
+import { addDays } from "./paymentService";
+
+/*
+ * Presupuestos / hojas de encargo: numbered offers with a validity date that the client
+ * accepts or rejects. Accepted ones are billed in one or several invoices, each keeping
+ * the link to the quote (Invoice.quoteId).
+ */
+
+export const DEFAULT_QUOTE_VALIDITY_DAYS = 30;
+
+export const QUOTE_STATUS_LABELS: Record<QuoteStatus, string> = {
+  DRAFT: 'Borrador',
+  SENT: 'Enviado',
+  ACCEPTED: 'Aceptado',
+  REJECTED: 'Rechazado'
+};
+
+// Usual clauses of a hoja de encargo, editable on each quote
+export const DEFAULT_QUOTE_TERMS = [
+  'El encargo comprende exclusivamente las actuaciones descritas. Cualquier otra actuación, incidente o recurso se presupuestará aparte.',
+  'Los suplidos (tasas, aranceles de procurador, peritos, notaría, registros...) no están incluidos y se facturarán por su importe.',
+  'El cliente entregará una provisión de fondos a cuenta de los honorarios, que se descontará en la minuta final.',
+  'Si el cliente desiste del encargo, se devengarán los honorarios correspondientes a las actuaciones ya realizadas.',
+  'Los datos personales se tratarán únicamente para la prestación del servicio encargado, conforme al RGPD y la LOPDGDD.'
+].join('\n');
+
+// Quotes are numbered PRES-AA-N, restarting every year
+export const getNextQuoteNumber = (quotes: Quote[], date: string): string => {
+  const prefix = `PRES-${date.slice(2, 4)}-`;
+  const last = quotes
+    .filter(q => q.number.startsWith(prefix))
+    .reduce((max, q) => Math.max(max, parseInt(q.number.slice(prefix.length)) || 0), 0);
+  return `${prefix}${last + 1}`;
+};
+
+export const getDefaultValidUntil = (date: string) => addDays(date, DEFAULT_QUOTE_VALIDITY_DAYS);
+
+export const getQuoteTotals = (quote: Pick<Quote, 'lines' | 'ivaRate' | 'irpfRate'>) => {
+  const baseAmount = roundAmount(quote.lines.reduce((sum, line) => sum + line.amount, 0));
+  const ivaAmount = roundAmount(baseAmount * quote.ivaRate / 100);
+  const irpfAmount = roundAmount(baseAmount * quote.irpfRate / 100);
+  return { baseAmount, ivaAmount, irpfAmount, totalAmount: roundAmount(baseAmount + ivaAmount - irpfAmount) };
+};
+
+// An offer not answered before its validity date can no longer be accepted as it is
+export const isQuoteExpired = (quote: Quote, today: string = new Date().toISOString().split('T')[0]) =>
+  (quote.status === 'DRAFT' || quote.status === 'SENT') && quote.validUntil < today;
+
+// Rectificativas of those invoices keep the link too
+export const getQuoteInvoices = (quote: Quote, invoices: Invoice[]) =>
+  invoices.filter(inv => inv.quoteId === quote.id).sort((a, b) => a.date.localeCompare(b.date));
+
+// Base billed net of rectificativas: one por sustitución counts as the reversal of its
+// original plus the corrected amounts (expandRectifications), not on top of the original
+export const getInvoicedAmount = (quote: Quote, invoices: Invoice[]) =>
+  roundAmount(expandRectifications(invoices)
+    .filter(inv => inv.quoteId === quote.id)
+    .reduce((sum, inv) => sum + inv.baseAmount, 0));
+
+// SINGLE: todo en una factura. PER_LINE: una factura por línea. INSTALLMENTS: en plazos iguales
+export type QuoteBillingMode = 'SINGLE' | 'PER_LINE' | 'INSTALLMENTS';
+
+/**
+ * Invoice drafts for an accepted quote, opened one after another in the invoice form.
+ * Installments split the base in equal parts; the last one takes the rounding difference.
+ */
+export const buildQuoteInvoiceDrafts = (quote: Quote, mode: QuoteBillingMode, installments = 2): InvoiceDraft[] => {
+  if (quote.status !== 'ACCEPTED') throw new Error(`El presupuesto ${quote.number} no está aceptado.`);
+  const { baseAmount } = getQuoteTotals(quote);
+  if (baseAmount <= 0) throw new Error(`El presupuesto ${quote.number} no tiene importe que facturar.`);
+
+  const header = `Honorarios profesionales según presupuesto ${quote.number} aceptado: ${quote.subject}.`;
+  const detail = quote.lines.map(line => `- ${line.description}: ${line.amount.toFixed(2)} €`);
+
+  let parts: Array<{ concept: string; amount: number }>;
+  if (mode === 'PER_LINE') {
+    parts = quote.lines
+      .filter(line => line.amount !== 0)
+      .map(line => ({ concept: `${header}\n${line.description}`, amount: line.amount }));
+  } else if (mode === 'INSTALLMENTS') {
+    const count = Math.max(1, Math.floor(installments));
+    const share = roundAmount(baseAmount / count);
+    parts = Array.from({ length: count }, (_, i) => ({
+      concept: [`${header} Plazo ${i + 1} de ${count}.`, ...detail].join('\n'),
+      amount: i === count - 1 ? roundAmount(baseAmount - share * (count - 1)) : share
+    }));
+  } else {
+    parts = [{ concept: [header, ...detail].join('\n'), amount: baseAmount }];
+  }
+
+  return parts.map((part, i) => ({
+    label: `Factura ${i + 1} de ${parts.length} del presupuesto ${quote.number}`,
+    invoice: {
+      concept: part.concept,
+      nif: quote.nif,
+      entityName: quote.clientName,
+      fiscalAddress: quote.fiscalAddress || '',
+      fees: part.amount,
+      baseAmount: part.amount,
+      ivaRate: quote.ivaRate,
+      irpfRate: quote.irpfRate,
+      matterId: quote.matterId,
+      quoteId: quote.id
+    }
+  }));
+};
@@ -0,0 +1,149 @@
+import { BankMovement, Invoice, InvoicePayment, InvoiceType, PaymentMethod } from "../types";
+import { roundAmount } from "./taxService";
+import { getOutstandingAmount, isInvoiceOpen } from "./paymentService";
+import { normalizeNif } from "./validationService";
+
+/*
+ * Conciliación bancaria: matches imported bank movements with the invoices still pending
+ * collection or payment. Matches are only suggested here; the user confirms them.
+ */
+
+// Days a movement may fall before / after the invoice date and still be its payment
+export const MATCH_WINDOW_DAYS = { before: 7, after: 120 };
+
+const AMOUNT_TOLERANCE = 0.01;
+
+// Words of a name that say nothing about who it is
+const NAME_STOPWORDS = new Set(['S.L.', 'SL', 'SLU', 'S.A.', 'SA', 'SLP', 'S.L.P.', 'CB', 'C.B.', 'SCP', 'DEL', 'LOS', 'LAS', 'ABOGADOS', 'ASOCIADOS']);
+
+export interface ReconciliationMatch {
+  movement: BankMovement;
+  invoice: Invoice;
+  score: number;
+  reasons: string[];
+}
+
+// A collection is a credit in the account and a payment a debit: amount of the invoice's payment in the bank
+const toBankAmount = (invoice: Invoice, amount: number) =>
+  invoice.type === InvoiceType.INCOME ? amount : -amount;
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((new Date(to).getTime() - new Date(from).getTime()) / 86400000);
+
+const compact = (text: string) => text.toUpperCase().replace(/[\s\-./]/g, '');
+
+const nameTokens = (name: string) =>
+  name.toUpperCase().normalize('NFD').replace(/[̀-ͯ]/g, '')
+    .split(/[\s,]+/)
+    .filter(token => token.length >= 3 && !NAME_STOPWORDS.has(token));
+
+const scoreMatch = (movement: BankMovement, invoice: Invoice, invoices: Invoice[]): { score: number; reasons: string[] } | null => {
+  if (Math.abs(movement.amount - toBankAmount(invoice, getOutstandingAmount(invoice, invoices))) > AMOUNT_TOLERANCE) return null;
+  const days = daysBetween(invoice.date, movement.date);
+  if (days < -MATCH_WINDOW_DAYS.before || days > MATCH_WINDOW_DAYS.after) return null;
+
+  const reasons = ['Importe pendiente exacto'];
+  let score = 0;
+  const text = `${movement.concept} ${movement.reference || ''}`;
+  const compactText = compact(text);
+
+  const nif = normalizeNif(invoice.nif);
+  if (nif.length >= 8 && compactText.includes(nif)) {
+    score += 3;
+    reasons.push('NIF en el concepto');
+  }
+  const numbers = [invoice.number, invoice.type === InvoiceType.EXPENSE ? invoice.supplierNumber : undefined]
+    .filter((n): n is string => !!n && compact(n).length >= 3);
+  if (numbers.some(n => compactText.includes(compact(n)))) {
+    score += 3;
+    reasons.push('Nº de factura en el concepto');
+  }
+  const tokens = nameTokens(invoice.entityName);
+  const upperText = text.toUpperCase().normalize('NFD').replace(/[̀-ͯ]/g, '');
+  if (tokens.length > 0 && tokens.filter(token => upperText.includes(token)).length * 2 >= tokens.length) {
+    score += 2;
+    reasons.push('Nombre en el concepto');
+  }
+  if (days >= 0 && days <= 30) {
+    score += 1;
+    reasons.push(`${days} días después de la factura`);
+  }
+  return { score, reasons };
+};
+
+/**
+ * Proposes one invoice per pending movement. Besides the amount and the date window, a
+ * match needs the NIF, number or name in the concept, or to be the only candidate on both
+ * sides. Best scores are assigned first, and each invoice is used once.
+ */
+export const suggestMatches = (movements: BankMovement[], invoices: Invoice[]): ReconciliationMatch[] => {
+  const openInvoices = invoices.filter(inv => isInvoiceOpen(inv, invoices));
+  const candidates: ReconciliationMatch[] = [];
+
+  movements.filter(m => m.status === 'PENDING').forEach(movement => {
+    openInvoices.forEach(invoice => {
+      const result = scoreMatch(movement, invoice, invoices);
+      if (result) candidates.push({ movement, invoice, ...result });
+    });
+  });
+
+  const countBy = (key: (match: ReconciliationMatch) => string) =>
+    candidates.reduce((counts, match) => counts.set(key(match), (counts.get(key(match)) || 0) + 1), new Map<string, number>());
+  const perMovement = countBy(match => match.movement.id);
+  const perInvoice = countBy(match => match.invoice.id);
+
+  const usedMovements = new Set<string>();
+  const usedInvoices = new Set<string>();
+  return candidates
+    .map(match => {
+      const identified = match.reasons.some(reason => reason.endsWith('en el concepto'));
+      const unique = perMovement.get(match.movement.id) === 1 && perInvoice.get(match.invoice.id) === 1;
+      if (identified || !unique) return match;
+      return { ...match, score: match.score + 1, reasons: [...match.reasons, 'Único movimiento e importe coincidentes'] };
+    })
+    .filter(match => match.reasons.some(reason => reason.endsWith('en el concepto') || reason.startsWith('Único')))
+    .sort((a, b) => b.score - a.score || Math.abs(daysBetween(a.invoice.date, a.movement.date)) - Math.abs(daysBetween(b.invoice.date, b.movement.date)))
+    .filter(match => {
+      if (usedMovements.has(match.movement.id) || usedInvoices.has(match.invoice.id)) return false;
+      usedMovements.add(match.movement.id);
+      usedInvoices.add(match.invoice.id);
+      return true;
+    });
+};
+
+// Open invoices a movement could pay (same direction), closest amount first: for manual matching
+export const getManualCandidates = (movement: BankMovement, invoices: Invoice[]): Invoice[] =>
+  invoices
+    .filter(inv => isInvoiceOpen(inv, invoices) && Math.sign(toBankAmount(inv, getOutstandingAmount(inv, invoices))) === Math.sign(movement.amount))
+    .sort((a, b) =>
+      Math.abs(toBankAmount(a, getOutstandingAmount(a, invoices)) - movement.amount) - Math.abs(toBankAmount(b, getOutstandingAmount(b, invoices)) - movement.amount) ||
+      b.date.localeCompare(a.date)
+    );
+
+// Card payments and direct debits are told apart by the concept; anything else is a transfer
+const guessPaymentMethod = (movement: BankMovement): PaymentMethod => {
+  const concept = movement.concept.toUpperCase();
+  if (/TARJETA|COMPRA TARJ|CARD/.test(concept)) return 'CARD';
+  if (/RECIBO|ADEUDO|DOMICILIA|SEPA DD/.test(concept)) return 'DIRECT_DEBIT';
+  if (/CHEQUE|TALON/.test(concept)) return 'CHECK';
+  return 'TRANSFER';
+};
+
+// Registers the movement as a payment of the invoice
+export const applyMovementPayment = (invoice: Invoice, movement: BankMovement): Invoice => {
+  const payment: InvoicePayment = {
+    id: crypto.randomUUID(),
+    date: movement.date,
+    amount: roundAmount(toBankAmount(invoice, movement.amount)),
+    method: guessPaymentMethod(movement),
+    bankMovementId: movement.id,
+    note: movement.concept
+  };
+  return { ...invoice, payments: [...(invoice.payments || []), payment] };
+};
+
+// Undoes applyMovementPayment
+export const removeMovementPayment = (invoice: Invoice, movementId: string): Invoice => {
+  const payments = (invoice.payments || []).filter(payment => payment.bankMovementId !== movementId);
+  return { ...invoice, payments: payments.length > 0 ? payments : undefined };
+};
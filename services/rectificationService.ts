@@ -0,0 +1,142 @@
+import { Invoice, InvoiceType, RectificationMethod, RectificationReason } from "../types";
+import { roundAmount } from "./taxService";
+
+/*
+ * Facturas rectificativas (art. 15 RD 1619/2012). An issued invoice is never edited or deleted
+ * to correct it: a new invoice of its own series references the original and carries either the
+ * variation (por diferencias) or the corrected amounts (por sustitución). The tax engines read
+ * both through expandRectifications() in taxService.
+ */
+
+export const RECTIFICATION_REASONS: Record<RectificationReason, string> = {
+  R1: 'R1 - Error fundado en derecho y art. 80 Uno, Dos y Seis LIVA',
+  R2: 'R2 - Art. 80 Tres LIVA (concurso de acreedores)',
+  R3: 'R3 - Art. 80 Cuatro LIVA (créditos incobrables)',
+  R4: 'R4 - Resto de causas',
+  R5: 'R5 - Rectificativa de factura simplificada'
+};
+
+export const RECTIFICATION_METHODS: Record<RectificationMethod, string> = {
+  DIFFERENCES: 'Por diferencias',
+  SUBSTITUTION: 'Por sustitución'
+};
+
+// Amounts of the rectificativa: the reversal of the original (differences) or a copy to correct (substitution)
+export const getRectificationAmounts = (original: Invoice, method: RectificationMethod): Partial<Invoice> => {
+  const sign = method === 'DIFFERENCES' ? -1 : 1;
+  const amount = (value: number | undefined) => roundAmount(sign * (value || 0));
+  return {
+    fees: amount(original.fees ?? original.baseAmount),
+    taxableExpenses: amount(original.taxableExpenses),
+    supplies: amount(original.supplies),
+    retainer: 0,
+    baseAmount: amount(original.baseAmount),
+    ivaRate: original.ivaRate,
+    ivaAmount: amount(original.ivaAmount),
+    irpfRate: original.irpfRate,
+    irpfAmount: amount(original.irpfAmount),
+    totalAmount: amount(original.totalAmount)
+  };
+};
+
+/**
+ * Form data for a new rectificativa of `original`. By default it cancels the original entirely
+ * (por diferencias, R1); the user then adjusts the amounts for a partial correction.
+ */
+export const buildRectificationDraft = (original: Invoice, number: string, date: string): Partial<Invoice> => ({
+  type: InvoiceType.INCOME,
+  number,
+  date,
+  concept: `Rectificación de la factura ${original.number}: ${original.concept}`,
+  entityName: original.entityName,
+  nif: original.nif,
+  fiscalAddress: original.fiscalAddress || '',
+  category: original.category,
+  matterId: original.matterId,
+  quoteId: original.quoteId,
+  irpfIncomeType: original.irpfIncomeType,
+  rectifiedInvoiceId: original.id,
+  rectifiedInvoiceNumber: original.number,
+  rectifiedInvoiceDate: original.date,
+  rectificationReason: 'R1',
+  rectificationMethod: 'DIFFERENCES',
+  ...getRectificationAmounts(original, 'DIFFERENCES')
+});
+
+export const getRectificationsOf = (invoices: Invoice[], invoiceId: string) =>
+  invoices.filter(inv => inv.rectifiedInvoiceId === invoiceId);
+
+// Annulled by its rectificativas: replaced por sustitución, or taken to zero por diferencias
+export const isInvoiceCancelled = (invoice: Invoice, invoices: Invoice[]): boolean => {
+  const rectifications = getRectificationsOf(invoices, invoice.id);
+  if (rectifications.length === 0) return false;
+  if (rectifications.some(inv => inv.rectificationMethod === 'SUBSTITUTION')) return true;
+  return Math.abs(roundAmount(rectifications.reduce((sum, inv) => sum + inv.totalAmount, invoice.totalAmount))) < 0.01;
+};
+
+/**
+ * Error message when a rectificativa cannot be saved, or null if it is valid.
+ * `invoices` is the current book, used to check the original it refers to.
+ */
+export const validateRectification = (invoice: Invoice, invoices: Invoice[]): string | null => {
+  if (!invoice.rectifiedInvoiceId) return null;
+  const original = invoices.find(inv => inv.id === invoice.rectifiedInvoiceId);
+  if (!original) return `No se encuentra la factura ${invoice.rectifiedInvoiceNumber || ''} que se rectifica.`;
+  if (original.type !== InvoiceType.INCOME) return 'Solo se pueden rectificar facturas emitidas.';
+  if (original.id === invoice.id) return 'Una factura no puede rectificarse a sí misma.';
+  if (!invoice.rectificationReason) return 'Indica la causa de la rectificación (R1-R5).';
+  if (invoice.date < original.date) return `La rectificativa no puede ser anterior a la factura ${original.number} (${original.date}).`;
+  if (invoice.rectificationMethod === 'DIFFERENCES' && roundAmount(invoice.baseAmount) === 0 && roundAmount(invoice.ivaAmount) === 0) {
+    return 'Una rectificativa por diferencias debe modificar la base o la cuota.';
+  }
+  return null;
+};
+
+// Data of an issued invoice that goes into its VERI*FACTU alta: a subsanación cannot change the
+// number or the date, and the rest is corrected with a rectificativa
+const ISSUED_FISCAL_FIELDS: Array<{ key: keyof Invoice; label: string }> = [
+  { key: 'number', label: 'el número' },
+  { key: 'date', label: 'la fecha' },
+  { key: 'nif', label: 'el NIF' },
+  { key: 'fees', label: 'los honorarios' },
+  { key: 'taxableExpenses', label: 'los gastos' },
+  { key: 'supplies', label: 'los suplidos' },
+  { key: 'baseAmount', label: 'la base imponible' },
+  { key: 'ivaRate', label: 'el tipo de IVA' },
+  { key: 'ivaAmount', label: 'la cuota de IVA' },
+  { key: 'irpfRate', label: 'el tipo de IRPF' },
+  { key: 'irpfAmount', label: 'la retención' },
+  { key: 'totalAmount', label: 'el total' }
+];
+
+const isSameValue = (a: unknown, b: unknown) =>
+  typeof a === 'number' || typeof b === 'number'
+    ? Math.abs((Number(a) || 0) - (Number(b) || 0)) < 0.005
+    : String(a ?? '').trim().toUpperCase() === String(b ?? '').trim().toUpperCase();
+
+// Error message if the edit of an issued invoice changes its fiscal data
+export const getIssuedEditBlocker = (original: Invoice, updated: Invoice): string | null => {
+  const changed = ISSUED_FISCAL_FIELDS.filter(({ key }) => !isSameValue(original[key], updated[key]));
+  if (changed.length === 0) return null;
+  return `La factura ${original.number} ya está emitida y registrada en VERI*FACTU: no se puede cambiar ${changed.map(f => f.label).join(', ')}.\n\nPara corregirla emite una factura rectificativa (botón "Emitir factura rectificativa" de la lista).`;
+};
+
+// Registered invoices are never deleted: a rectificativa cancels them, or the registro de
+// anulación first if they were issued by mistake
+export const getIssuedDeletionBlocker = (invoices: Invoice[], idsToDelete: Set<string>, issuedIds: Set<string>): string | null => {
+  const issued = invoices.filter(inv => idsToDelete.has(inv.id) && issuedIds.has(inv.id));
+  if (issued.length === 0) return null;
+  return `No se puede eliminar: ${issued.length === 1 ? `la factura ${issued[0].number} ya está emitida` : `las facturas ${issued.map(inv => inv.number).join(', ')} ya están emitidas`} y registradas en VERI*FACTU. Para anularlas emite una factura rectificativa; si se expidieron por error, anula antes su registro (botón "Anular registro VERI*FACTU").`;
+};
+
+/**
+ * Error message when the given invoices cannot be deleted because a rectificativa that is
+ * kept refers to them (the reference would be lost), or null.
+ */
+export const getDeletionBlocker = (invoices: Invoice[], idsToDelete: Set<string>): string | null => {
+  const blocking = invoices.filter(inv =>
+    inv.rectifiedInvoiceId && idsToDelete.has(inv.rectifiedInvoiceId) && !idsToDelete.has(inv.id)
+  );
+  if (blocking.length === 0) return null;
+  return `No se puede eliminar: ${blocking.map(inv => `la rectificativa ${inv.number} rectifica la factura ${inv.rectifiedInvoiceNumber}`).join(', ')}.`;
+};
@@ -0,0 +1,139 @@
+import { Invoice, InvoiceDraft, InvoiceSeries, RecurrenceFrequency, RecurringInvoice } from "../types";
+import { getNextSeriesNumbers } from "./seriesService";
+import { roundAmount } from "./taxService";
+
+/*
+ * Igualas: fixed fees a client pays every period, invoiced from a template. Each time the app
+ * opens, a draft invoice is generated for every period due and not invoiced yet; the drafts
+ * stay unissued until they are reviewed and saved through the invoice form. An invoice
+ * records its template and period (Invoice.recurringId / recurringPeriod), so deleting it
+ * makes the period due again.
+ */
+
+export const FREQUENCY_LABELS: Record<RecurrenceFrequency, string> = {
+  MONTHLY: 'Mensual',
+  QUARTERLY: 'Trimestral',
+  SEMIANNUAL: 'Semestral',
+  ANNUAL: 'Anual'
+};
+
+const FREQUENCY_MONTHS: Record<RecurrenceFrequency, number> = {
+  MONTHLY: 1,
+  QUARTERLY: 3,
+  SEMIANNUAL: 6,
+  ANNUAL: 12
+};
+
+const MONTH_NAMES = ['enero', 'febrero', 'marzo', 'abril', 'mayo', 'junio', 'julio', 'agosto', 'septiembre', 'octubre', 'noviembre', 'diciembre'];
+
+// Same day `months` later, or the last day of a shorter month (31 January + 1 = 28/29 February)
+const addMonths = (date: string, months: number): string => {
+  const [year, month, day] = date.split('-').map(Number);
+  const target = new Date(Date.UTC(year, month - 1 + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(day, lastDay));
+  return target.toISOString().split('T')[0];
+};
+
+// Start dates of the periods begun up to `until` (included)
+export const getPeriodStarts = (template: RecurringInvoice, until: string): string[] => {
+  const last = template.endDate && template.endDate < until ? template.endDate : until;
+  const starts: string[] = [];
+  for (let i = 0; ; i++) {
+    const start = addMonths(template.startDate, i * FREQUENCY_MONTHS[template.frequency]);
+    if (start > last) break;
+    starts.push(start);
+  }
+  return starts;
+};
+
+// Day before the next period starts (counted from the start date, so that 31 January
+// monthly runs to 27 February and then 28 February to 30 March)
+export const getPeriodEnd = (template: RecurringInvoice, period: string): string => {
+  const months = FREQUENCY_MONTHS[template.frequency];
+  let i = 1;
+  while (addMonths(template.startDate, i * months) <= period) i++;
+  const next = new Date(`${addMonths(template.startDate, i * months)}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() - 1);
+  return next.toISOString().split('T')[0];
+};
+
+// "marzo 2026", "2º trimestre 2026"... for periods starting on the 1st; otherwise the dates
+export const formatPeriod = (template: RecurringInvoice, period: string): string => {
+  const [year, month, day] = period.split('-').map(Number);
+  const months = FREQUENCY_MONTHS[template.frequency];
+  if (day === 1 && (month - 1) % months === 0) {
+    if (months === 1) return `${MONTH_NAMES[month - 1]} ${year}`;
+    if (months === 3) return `${(month + 2) / 3}º trimestre ${year}`;
+    if (months === 6) return `${(month + 5) / 6}º semestre ${year}`;
+    return `año ${year}`;
+  }
+  const format = (date: string) => date.split('-').reverse().join('/');
+  return `${format(period)} a ${format(getPeriodEnd(template, period))}`;
+};
+
+export const getRecurringTotals = (template: Pick<RecurringInvoice, 'amount' | 'ivaRate' | 'irpfRate'>) => {
+  const ivaAmount = roundAmount(template.amount * template.ivaRate / 100);
+  const irpfAmount = roundAmount(template.amount * template.irpfRate / 100);
+  return { ivaAmount, irpfAmount, totalAmount: roundAmount(template.amount + ivaAmount - irpfAmount) };
+};
+
+export const getRecurringInvoices = (template: RecurringInvoice, invoices: Invoice[]) =>
+  invoices.filter(inv => inv.recurringId === template.id).sort((a, b) => a.date.localeCompare(b.date));
+
+export interface DueRecurringInvoice {
+  template: RecurringInvoice;
+  period: string;
+}
+
+// Periods of the active igualas begun up to `today` without an invoice, oldest first
+export const getDueRecurringInvoices = (
+  templates: RecurringInvoice[],
+  invoices: Invoice[],
+  today: string = new Date().toISOString().split('T')[0]
+): DueRecurringInvoice[] =>
+  templates
+    .filter(template => template.active)
+    .flatMap(template => {
+      const issued = new Set(getRecurringInvoices(template, invoices).map(inv => inv.recurringPeriod));
+      return getPeriodStarts(template, today)
+        .filter(period => !issued.has(period))
+        .map(period => ({ template, period }));
+    })
+    .sort((a, b) => a.period.localeCompare(b.period) || a.template.clientName.localeCompare(b.template.clientName));
+
+export const buildRecurringInvoiceDrafts = (due: DueRecurringInvoice[]): InvoiceDraft[] =>
+  due.map(({ template, period }) => ({
+    label: `Iguala de ${template.clientName}, ${formatPeriod(template, period)}`,
+    invoice: {
+      concept: `${template.concept} (${FREQUENCY_LABELS[template.frequency].toLowerCase()}: ${formatPeriod(template, period)})`,
+      nif: template.nif,
+      entityName: template.clientName,
+      fiscalAddress: template.fiscalAddress || '',
+      fees: template.amount,
+      baseAmount: template.amount,
+      ivaRate: template.ivaRate,
+      irpfRate: template.irpfRate,
+      matterId: template.matterId,
+      recurringId: template.id,
+      recurringPeriod: period
+    }
+  }));
+
+/**
+ * Drafts of every period due, dated `today` and numbered in order in `series` (the default
+ * income series). The invoice form renumbers a draft if other invoices are issued before it.
+ */
+export const generateRecurringDrafts = (
+  templates: RecurringInvoice[],
+  invoices: Invoice[],
+  series: InvoiceSeries | undefined,
+  today: string = new Date().toISOString().split('T')[0]
+): InvoiceDraft[] => {
+  const drafts = buildRecurringInvoiceDrafts(getDueRecurringInvoices(templates, invoices, today));
+  const numbers = series ? getNextSeriesNumbers(series, invoices, drafts.length, today) : [];
+  return drafts.map((draft, i) => ({
+    ...draft,
+    invoice: { ...draft.invoice, date: today, ...(series && { seriesId: series.id, number: numbers[i] }) }
+  }));
+};
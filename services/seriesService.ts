@@ -0,0 +1,231 @@
+import { Invoice, InvoiceSeries, InvoiceType } from "../types";
+
+/*
+ * Series de numeración. Each series turns a sequence number into an invoice number through
+ * its pattern ('{SERIE}-{AA}-{N}' -> A-25-7) and reads it back to find the next number and
+ * to check that the series is correlative: no gaps and no repeated numbers.
+ * Invoices saved before series existed have no seriesId and are matched by their number.
+ */
+
+export const SERIES_TOKENS = ['{SERIE}', '{AAAA}', '{AA}', '{N}'];
+
+// The numbering used before configurable series (A-YY-N, R-YY-N) plus the rectificativas one
+export const DEFAULT_INVOICE_SERIES: InvoiceSeries[] = [
+  { id: 'A', name: 'Ordinaria', type: InvoiceType.INCOME, prefix: 'A', pattern: '{SERIE}-{AA}-{N}', sequencePadding: 0, reset: 'YEARLY', isDefault: true },
+  { id: 'AR', name: 'Rectificativas', type: InvoiceType.INCOME, prefix: 'AR', pattern: '{SERIE}-{AA}-{N}', sequencePadding: 0, reset: 'YEARLY', isRectification: true },
+  { id: 'R', name: 'Registro de gastos', type: InvoiceType.EXPENSE, prefix: 'R', pattern: '{SERIE}-{AA}-{N}', sequencePadding: 0, reset: 'YEARLY', isDefault: true }
+];
+
+// Maximum number of missing numbers listed in one message
+const MAX_LISTED_GAPS = 10;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export const formatSeriesNumber = (series: InvoiceSeries, year: number, sequence: number): string =>
+  series.pattern
+    .split('{SERIE}').join(series.prefix)
+    .split('{AAAA}').join(String(year))
+    .split('{AA}').join(String(year).slice(-2))
+    .split('{N}').join(String(sequence).padStart(series.sequencePadding || 0, '0'));
+
+/**
+ * Reads an invoice number of the series: its sequence and, when the pattern has a year token,
+ * the year. Returns null if the number does not follow the pattern.
+ */
+export const parseSeriesNumber = (series: InvoiceSeries, number: string): { sequence: number; year?: number } | null => {
+  const groups: Array<'year4' | 'year2' | 'sequence'> = [];
+  const source = series.pattern.split(/(\{SERIE\}|\{AAAA\}|\{AA\}|\{N\})/).map(part => {
+    switch (part) {
+      case '{SERIE}': return escapeRegExp(series.prefix);
+      case '{AAAA}': groups.push('year4'); return '(\\d{4})';
+      case '{AA}': groups.push('year2'); return '(\\d{2})';
+      case '{N}': groups.push('sequence'); return '(\\d+)';
+      default: return escapeRegExp(part);
+    }
+  }).join('');
+
+  const match = (number || '').trim().match(new RegExp(`^${source}$`));
+  if (!match) return null;
+
+  let sequence = NaN;
+  let year: number | undefined;
+  groups.forEach((group, i) => {
+    const value = parseInt(match[i + 1], 10);
+    if (group === 'sequence') sequence = value;
+    else year = group === 'year4' ? value : 2000 + value;
+  });
+  return isNaN(sequence) ? null : { sequence, year };
+};
+
+const invoiceYear = (invoice: Invoice) => Number((invoice.date || '').slice(0, 4));
+
+const belongsToSeries = (series: InvoiceSeries, invoice: Invoice) =>
+  invoice.type === series.type && (invoice.seriesId
+    ? invoice.seriesId === series.id
+    : parseSeriesNumber(series, invoice.number) !== null);
+
+export const isSeriesInUse = (series: InvoiceSeries, invoices: Invoice[]) =>
+  invoices.some(invoice => belongsToSeries(series, invoice));
+
+interface SeriesEntry {
+  invoice: Invoice;
+  sequence: number;
+  year: number; // Año de numeración: el del número si el patrón lo incluye, si no el de la fecha
+}
+
+const getSeriesEntries = (series: InvoiceSeries, invoices: Invoice[]): SeriesEntry[] =>
+  invoices
+    .filter(invoice => belongsToSeries(series, invoice))
+    .map(invoice => {
+      const parsed = parseSeriesNumber(series, invoice.number);
+      return parsed && { invoice, sequence: parsed.sequence, year: parsed.year ?? invoiceYear(invoice) };
+    })
+    .filter((entry): entry is SeriesEntry => entry !== null);
+
+// Entries numbered together with `year` (the whole series when it never resets)
+const entriesInScope = (series: InvoiceSeries, entries: SeriesEntry[], year: number) =>
+  series.reset === 'NEVER' ? entries : entries.filter(entry => entry.year === year);
+
+export const getDefaultSeries = (seriesList: InvoiceSeries[], type: InvoiceType): InvoiceSeries | undefined =>
+  seriesList.find(s => s.type === type && s.isDefault) || seriesList.find(s => s.type === type);
+
+export const getRectificationSeries = (seriesList: InvoiceSeries[]): InvoiceSeries | undefined =>
+  seriesList.find(s => s.type === InvoiceType.INCOME && s.isRectification) || getDefaultSeries(seriesList, InvoiceType.INCOME);
+
+// Series whose pattern the number follows (for numbers typed by hand)
+export const findSeriesOfNumber = (seriesList: InvoiceSeries[], type: InvoiceType, number: string): InvoiceSeries | undefined =>
+  seriesList.find(s => s.type === type && parseSeriesNumber(s, number) !== null);
+
+// `date` (YYYY-MM-DD) selects the year for series with a yearly reset or a year token
+export const getNextSeriesNumber = (series: InvoiceSeries, invoices: Invoice[], date?: string): string =>
+  getNextSeriesNumbers(series, invoices, 1, date)[0];
+
+// The next `count` numbers, for invoices that will be issued one after another
+export const getNextSeriesNumbers = (series: InvoiceSeries, invoices: Invoice[], count: number, date?: string): string[] => {
+  const year = Number((date || new Date().toISOString()).slice(0, 4));
+  const last = entriesInScope(series, getSeriesEntries(series, invoices), year)
+    .reduce((max, entry) => Math.max(max, entry.sequence), 0);
+  return Array.from({ length: count }, (_, i) => formatSeriesNumber(series, year, last + 1 + i));
+};
+
+export interface SeriesIntegrity {
+  duplicates: string[];
+  gaps: string[];
+  duplicateCount: number; // Facturas que repiten un número ya usado
+  missingCount: number;
+}
+
+/**
+ * Repeated and missing numbers of a series. With `year` only that numbering year is checked
+ * (ignored for series that never reset); otherwise every year with invoices.
+ */
+export const checkSeriesIntegrity = (series: InvoiceSeries, invoices: Invoice[], year?: number): SeriesIntegrity => {
+  const entries = getSeriesEntries(series, invoices);
+  const years = series.reset === 'NEVER'
+    ? [year ?? 0]
+    : (year !== undefined ? [year] : Array.from(new Set(entries.map(entry => entry.year))).sort());
+
+  const duplicates: string[] = [];
+  const gaps: string[] = [];
+  let duplicateCount = 0;
+  let missingCount = 0;
+
+  years.forEach(scopeYear => {
+    const scope = entriesInScope(series, entries, scopeYear);
+    const label = series.reset === 'NEVER' ? series.name : `${series.name} ${scopeYear}`;
+
+    const bySequence = new Map<number, SeriesEntry[]>();
+    scope.forEach(entry => bySequence.set(entry.sequence, [...(bySequence.get(entry.sequence) || []), entry]));
+    bySequence.forEach(list => {
+      if (list.length < 2) return;
+      duplicateCount += list.length - 1;
+      duplicates.push(`Serie ${label}: el número ${list.map(e => e.invoice.number).join(' / ')} está repetido (${list.length} facturas).`);
+    });
+
+    const max = scope.reduce((m, entry) => Math.max(m, entry.sequence), 0);
+    const missing: number[] = [];
+    for (let sequence = 1; sequence <= max; sequence++) {
+      if (!bySequence.has(sequence)) missing.push(sequence);
+    }
+    missingCount += missing.length;
+    if (missing.length > 0) {
+      const numberYear = scope[0]?.year ?? scopeYear;
+      const listed = missing.slice(0, MAX_LISTED_GAPS).map(sequence => formatSeriesNumber(series, numberYear, sequence));
+      const more = missing.length > MAX_LISTED_GAPS ? ` y ${missing.length - MAX_LISTED_GAPS} más` : '';
+      gaps.push(`Serie ${label}: faltan ${listed.join(', ')}${more}.`);
+    }
+  });
+
+  return { duplicates, gaps, duplicateCount, missingCount };
+};
+
+export interface NumberingIssue {
+  invoice: Invoice;
+  missing: string[]; // Numbers skipped right before this invoice
+  duplicateOf?: Invoice; // Earlier invoice with the same sequence number
+}
+
+/**
+ * Same checks as checkSeriesIntegrity, tied to the invoices involved: each gap is reported on
+ * the invoice that follows it, each repeated number on the later invoice.
+ */
+export const findNumberingIssues = (series: InvoiceSeries, invoices: Invoice[]): NumberingIssue[] => {
+  const entries = getSeriesEntries(series, invoices);
+  const years = series.reset === 'NEVER' ? [0] : Array.from(new Set(entries.map(entry => entry.year)));
+  const issues: NumberingIssue[] = [];
+
+  years.forEach(year => {
+    const scope = entriesInScope(series, entries, year)
+      .sort((a, b) => a.sequence - b.sequence || a.invoice.date.localeCompare(b.invoice.date));
+    scope.forEach((entry, i) => {
+      const previous = scope[i - 1];
+      if (previous && previous.sequence === entry.sequence) {
+        issues.push({ invoice: entry.invoice, missing: [], duplicateOf: previous.invoice });
+        return;
+      }
+      const missing: string[] = [];
+      for (let sequence = (previous?.sequence || 0) + 1; sequence < entry.sequence; sequence++) {
+        missing.push(formatSeriesNumber(series, entry.year, sequence));
+      }
+      if (missing.length > 0) issues.push({ invoice: entry.invoice, missing });
+    });
+  });
+
+  return issues;
+};
+
+/**
+ * Configuration errors of a set of series (empty list when it can be saved).
+ * Patterns must produce numbers that only one series of the same type can read back.
+ */
+export const validateSeriesList = (seriesList: InvoiceSeries[]): string[] => {
+  const errors: string[] = [];
+  const ids = new Set<string>();
+
+  seriesList.forEach(series => {
+    const label = series.name || series.prefix || '(sin nombre)';
+    if (!series.name.trim()) errors.push('Todas las series necesitan un nombre.');
+    if (ids.has(series.id)) errors.push(`La serie ${label} está duplicada.`);
+    ids.add(series.id);
+    if (series.pattern.includes('{SERIE}') && !series.prefix.trim()) errors.push(`Serie ${label}: el patrón usa {SERIE} pero no tiene prefijo.`);
+    if (series.pattern.split('{N}').length !== 2) errors.push(`Serie ${label}: el patrón debe contener una vez el token {N}.`);
+    if (series.reset === 'YEARLY' && !/\{AAAA\}|\{AA\}/.test(series.pattern) && series.pattern.includes('{N}')) {
+      errors.push(`Serie ${label}: con reinicio anual el patrón debe incluir el año ({AAAA} o {AA}) para no repetir números.`);
+    }
+  });
+
+  [InvoiceType.INCOME, InvoiceType.EXPENSE].forEach(type => {
+    const ofType = seriesList.filter(s => s.type === type);
+    if (ofType.length > 0 && ofType.filter(s => s.isDefault).length !== 1) {
+      errors.push(`Marca una única serie por defecto para las facturas ${type === InvoiceType.INCOME ? 'emitidas' : 'recibidas'}.`);
+    }
+    ofType.forEach(series => {
+      const sample = formatSeriesNumber(series, new Date().getFullYear(), 1);
+      const clash = ofType.find(other => other.id !== series.id && parseSeriesNumber(other, sample) !== null);
+      if (clash) errors.push(`Las series ${series.name} y ${clash.name} generan números que no se pueden distinguir (${sample}).`);
+    });
+  });
+
+  if (seriesList.filter(s => s.isRectification).length > 1) errors.push('Solo puede haber una serie de rectificativas.');
+  return Array.from(new Set(errors));
+};
@@ -0,0 +1,419 @@
+import { BankMovement, ChangeLogCollection, ChangeLogEntry, FeeSchedule, FieldChange, FundProvision, InvestmentAsset, Invoice, InvoiceSeries, Matter, Model130Payment, PeriodLock, PeriodLockEvent, ProfessionalProfile, Quote, RecurringInvoice, RunningTimer, SavedEntity, SavedFilter, TimeEntry } from "../types";
+
+// --- ALMACENAMIENTO LOCAL (IndexedDB) ---
+// Replaces the JSON blobs kept in localStorage (~5 MB quota). Collections are stored
+// record by record so that each screen only writes what it changed.
+
+const DB_NAME = 'abogadoGestor';
+
+export type StoreName = 'invoices' | 'entities' | 'assets' | 'settings' | 'verifactuRecords' | 'verifactuEvents' | 'changeLog' | 'bankMovements' | 'fundProvisions' | 'matters' | 'timeEntries' | 'quotes' | 'recurringInvoices';
+
+// Small documents stored by key in the 'settings' store
+export interface SettingsSchema {
+  professionalProfile: ProfessionalProfile;
+  savedCategories: string[];
+  savedFilters: SavedFilter[];
+  model130Payments: Model130Payment[];
+  invoiceSeries: InvoiceSeries[];
+  periodLocks: PeriodLock[];
+  periodLockLog: PeriodLockEvent[];
+  runningTimer: RunningTimer | null;
+  defaultHourlyRate: number;
+  feeSchedules: FeeSchedule[];
+  legacyMigration: LegacyMigration;
+}
+
+export interface LegacyMigration {
+  migratedAt: string;
+  keys: string[]; // Claves de localStorage importadas
+}
+
+// Schema migrations: entry N upgrades the database from version N to N + 1. Never edit a
+// released entry, append a new one instead.
+const MIGRATIONS: Array<(db: IDBDatabase, tx: IDBTransaction) => void> = [
+  // v1: libro de facturas, agenda y ajustes
+  db => {
+    const invoices = db.createObjectStore('invoices', { keyPath: 'id' });
+    invoices.createIndex('date', 'date');
+    invoices.createIndex('type', 'type');
+    const entities = db.createObjectStore('entities', { keyPath: 'nif' });
+    entities.createIndex('type', 'type');
+    db.createObjectStore('settings');
+  },
+  // v2: registro de bienes de inversión
+  db => {
+    const assets = db.createObjectStore('assets', { keyPath: 'id' });
+    assets.createIndex('invoiceId', 'invoiceId');
+  },
+  // v3: VERI*FACTU, registros encadenados y registro de eventos (ambos de solo inserción)
+  db => {
+    const records = db.createObjectStore('verifactuRecords', { keyPath: 'sequence' });
+    records.createIndex('invoiceId', 'invoiceId');
+    const events = db.createObjectStore('verifactuEvents', { keyPath: 'id', autoIncrement: true });
+    events.createIndex('recordSequence', 'recordSequence');
+  },
+  // v4: historial de cambios de facturas y contactos (solo inserción)
+  db => {
+    const changeLog = db.createObjectStore('changeLog', { keyPath: 'id', autoIncrement: true });
+    changeLog.createIndex('record', ['collection', 'recordKey']);
+  },
+  // v5: movimientos bancarios importados (Norma 43 / CSV)
+  db => {
+    const movements = db.createObjectStore('bankMovements', { keyPath: 'id' });
+    movements.createIndex('date', 'date');
+    movements.createIndex('status', 'status');
+  },
+  // v6: provisiones de fondos recibidas de clientes
+  db => {
+    const provisions = db.createObjectStore('fundProvisions', { keyPath: 'id' });
+    provisions.createIndex('nif', 'nif');
+  },
+  // v7: expedientes
+  db => {
+    const matters = db.createObjectStore('matters', { keyPath: 'id' });
+    matters.createIndex('nif', 'nif');
+  },
+  // v8: tiempos y actuaciones por expediente
+  db => {
+    const entries = db.createObjectStore('timeEntries', { keyPath: 'id' });
+    entries.createIndex('matterId', 'matterId');
+  },
+  // v9: presupuestos / hojas de encargo
+  db => {
+    const quotes = db.createObjectStore('quotes', { keyPath: 'id' });
+    quotes.createIndex('status', 'status');
+  },
+  // v10: igualas (facturas periódicas)
+  db => {
+    const recurring = db.createObjectStore('recurringInvoices', { keyPath: 'id' });
+    recurring.createIndex('nif', 'nif');
+  }
+];
+
+export const DB_VERSION = MIGRATIONS.length;
+
+// Stores with read/write repositories (VERI*FACTU stores are append-only, see verifactuService)
+type RepositoryStore = 'invoices' | 'entities' | 'assets' | 'bankMovements' | 'fundProvisions' | 'matters' | 'timeEntries' | 'quotes' | 'recurringInvoices';
+
+// localStorage key -> destination used by the one-time import
+const LEGACY_COLLECTIONS: Array<{ key: string; store: RepositoryStore }> = [
+  { key: 'invoices', store: 'invoices' },
+  { key: 'savedEntities', store: 'entities' },
+  { key: 'investmentAssets', store: 'assets' }
+];
+const LEGACY_SETTINGS: Array<keyof SettingsSchema> = ['professionalProfile', 'savedCategories', 'savedFilters', 'model130Payments'];
+
+export const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('Este navegador no permite almacenamiento IndexedDB.'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = (event) => {
+      const tx = request.transaction!;
+      for (let version = event.oldVersion; version < DB_VERSION; version++) {
+        MIGRATIONS[version](request.result, tx);
+      }
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // Another tab opened a newer version: release this connection so its upgrade can run
+      db.onversionchange = () => db.close();
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('Cierra las demás pestañas de la aplicación para actualizar la base de datos.'));
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    // The failing request's error (tx.error is only set once the abort completes)
+    tx.onerror = (event) => reject((event.target as IDBRequest | null)?.error || tx.error);
+    tx.onabort = () => reject(tx.error || new Error('Transacción cancelada'));
+  });
+
+const readLegacyKey = (key: string): unknown => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * One-time import of the former localStorage keys. Runs in a single transaction together
+ * with the 'legacyMigration' marker, so a failure leaves both localStorage and the database untouched.
+ */
+const migrateFromLocalStorage = async (db: IDBDatabase): Promise<LegacyMigration | null> => {
+  const tx = db.transaction(['invoices', 'entities', 'assets', 'settings'], 'readwrite');
+  const done = transactionDone(tx);
+  const settings = tx.objectStore('settings');
+
+  const previous = await promisifyRequest(settings.get('legacyMigration'));
+  if (previous) {
+    await done;
+    return null;
+  }
+
+  const migration: LegacyMigration = { migratedAt: new Date().toISOString(), keys: [] };
+
+  LEGACY_COLLECTIONS.forEach(({ key, store }) => {
+    const items = readLegacyKey(key);
+    if (!Array.isArray(items)) return;
+    const target = tx.objectStore(store);
+    items.forEach(item => target.put(item));
+    migration.keys.push(key);
+  });
+
+  LEGACY_SETTINGS.forEach(key => {
+    const value = readLegacyKey(key);
+    if (value === undefined) return;
+    settings.put(value, key);
+    migration.keys.push(key);
+  });
+
+  settings.put(migration, 'legacyMigration');
+  await done;
+
+  // Only once the transaction is committed
+  migration.keys.forEach(key => localStorage.removeItem(key));
+  return migration;
+};
+
+let ready: Promise<IDBDatabase> | null = null;
+let legacyMigration: LegacyMigration | null = null;
+
+const getDatabase = (): Promise<IDBDatabase> => {
+  if (!ready) {
+    ready = openDatabase().then(async db => {
+      legacyMigration = await migrateFromLocalStorage(db);
+      return db;
+    });
+    // Allow a later retry if opening failed
+    ready.catch(() => { ready = null; });
+  }
+  return ready;
+};
+
+/**
+ * Import performed during this session, or null if it had already run before.
+ * A migration with no keys means a brand-new installation.
+ */
+export const getLegacyMigration = async (): Promise<LegacyMigration | null> => {
+  await getDatabase();
+  return legacyMigration;
+};
+
+/**
+ * Runs `work` inside one IndexedDB transaction and resolves once it is committed.
+ * `work` may only await requests of this same transaction: awaiting anything else
+ * (fetch, timers...) lets IndexedDB auto-commit it half way.
+ */
+export const runTransaction = async <T>(
+  stores: StoreName[],
+  mode: IDBTransactionMode,
+  work: (tx: IDBTransaction) => T | Promise<T>
+): Promise<T> => {
+  const db = await getDatabase();
+  const tx = db.transaction(stores, mode);
+  const done = transactionDone(tx);
+
+  try {
+    const result = await work(tx);
+    await done;
+    return result;
+  } catch (e) {
+    done.catch(() => undefined);
+    try { tx.abort(); } catch { /* already finished */ }
+    throw e;
+  }
+};
+
+// --- HISTORIAL DE CAMBIOS ---
+// Every write to invoices and contacts appends, in the same transaction, one entry per record
+// with the field-level diff and both full versions. Entries are never updated or deleted.
+
+const CHANGE_LOG_RECORDS: Record<ChangeLogCollection, { key: (item: any) => string; label: (item: any) => string }> = {
+  invoices: { key: (invoice: Invoice) => invoice.id, label: (invoice: Invoice) => invoice.number },
+  entities: { key: (entity: SavedEntity) => entity.internalId || entity.nif, label: (entity: SavedEntity) => entity.name }
+};
+
+let pendingChangeReason: string | undefined;
+const changeLogListeners = new Set<() => void>();
+
+// Called after each committed transaction that appended entries (e.g. to refresh a viewer)
+export const subscribeChangeLog = (listener: () => void) => {
+  changeLogListeners.add(listener);
+  return () => { changeLogListeners.delete(listener); };
+};
+
+/**
+ * Reason stored with the next invoice changes written through invoiceRepository.sync (the
+ * write happens after React commits the new state, so the reason cannot travel with it).
+ */
+export const setChangeReason = (reason?: string) => {
+  pendingChangeReason = reason;
+};
+
+const takeChangeReason = () => {
+  const reason = pendingChangeReason;
+  pendingChangeReason = undefined;
+  return reason;
+};
+
+// Compared through JSON so that nested values (DIR3 codes...) and missing/undefined fields match
+export const diffRecords = (before: object | undefined, after: object | undefined): FieldChange[] => {
+  const previous = (before || {}) as Record<string, unknown>;
+  const next = (after || {}) as Record<string, unknown>;
+  const fields = Array.from(new Set([...Object.keys(next), ...Object.keys(previous)]));
+  return fields
+    .filter(field => JSON.stringify(previous[field]) !== JSON.stringify(next[field]))
+    .map(field => ({ field, before: previous[field], after: next[field] }));
+};
+
+// Writes the entries inside `tx`, which must include the 'changeLog' store
+export const appendChangeLog = <T extends object>(
+  tx: IDBTransaction,
+  collection: ChangeLogCollection,
+  versions: Array<{ before?: T; after?: T }>,
+  reason?: string
+) => {
+  const store = tx.objectStore('changeLog');
+  const timestamp = new Date().toISOString();
+  const { key, label } = CHANGE_LOG_RECORDS[collection];
+  let appended = false;
+
+  versions.forEach(({ before, after }) => {
+    const changes = diffRecords(before, after);
+    if (changes.length === 0) return;
+    appended = true;
+    const current = (after || before)!;
+    const entry: ChangeLogEntry = {
+      timestamp,
+      collection,
+      recordKey: key(current),
+      label: label(current),
+      action: !before ? 'CREATE' : !after ? 'DELETE' : 'UPDATE',
+      changes,
+      before: before as ChangeLogEntry['before'],
+      after: after as ChangeLogEntry['after'],
+      reason: reason?.trim() || undefined
+    };
+    store.add(entry);
+  });
+
+  if (appended) tx.addEventListener('complete', () => changeLogListeners.forEach(listener => listener()));
+};
+
+// --- REPOSITORIOS ---
+
+export interface Repository<T> {
+  getAll(): Promise<T[]>;
+  get(key: IDBValidKey): Promise<T | undefined>;
+  // `reason` goes to the change log of audited stores
+  put(item: T, reason?: string): Promise<void>;
+  remove(key: IDBValidKey, reason?: string): Promise<void>;
+  // Writes the differences between two versions of the collection in a single transaction
+  sync(previous: T[], next: T[]): Promise<void>;
+}
+
+// `audit` names the change log collection of the store (writes are then logged)
+const createRepository = <T extends object>(
+  store: RepositoryStore,
+  keyOf: (item: T) => IDBValidKey,
+  audit?: ChangeLogCollection
+): Repository<T> => {
+  const writeStores: StoreName[] = audit ? [store, 'changeLog'] : [store];
+  const getCurrent = (tx: IDBTransaction, key: IDBValidKey) =>
+    audit ? promisifyRequest(tx.objectStore(store).get(key) as IDBRequest<T | undefined>) : Promise.resolve(undefined);
+
+  return {
+    getAll: () => runTransaction([store], 'readonly', tx => promisifyRequest(tx.objectStore(store).getAll() as IDBRequest<T[]>)),
+
+    get: (key) => runTransaction([store], 'readonly', tx => promisifyRequest(tx.objectStore(store).get(key) as IDBRequest<T | undefined>)),
+
+    put: (item, reason) => runTransaction(writeStores, 'readwrite', async tx => {
+      const before = await getCurrent(tx, keyOf(item));
+      tx.objectStore(store).put(item);
+      if (audit) appendChangeLog(tx, audit, [{ before, after: item }], reason);
+    }),
+
+    remove: (key, reason) => runTransaction(writeStores, 'readwrite', async tx => {
+      const before = await getCurrent(tx, key);
+      tx.objectStore(store).delete(key);
+      if (audit && before) appendChangeLog(tx, audit, [{ before }], reason);
+    }),
+
+    sync: async (previous, next) => {
+      const reason = audit ? takeChangeReason() : undefined;
+      if (previous === next) return;
+
+      // React state updates keep the untouched records by reference
+      const unchanged = new Set(previous);
+      const changed = next.filter(item => !unchanged.has(item));
+      const nextKeys = new Set(next.map(item => String(keyOf(item))));
+      const removed = previous.filter(item => !nextKeys.has(String(keyOf(item))));
+      if (changed.length === 0 && removed.length === 0) return;
+
+      await runTransaction(writeStores, 'readwrite', tx => {
+        const objectStore = tx.objectStore(store);
+        removed.forEach(item => objectStore.delete(keyOf(item)));
+        changed.forEach(item => objectStore.put(item));
+
+        if (audit) {
+          const previousByKey = new Map(previous.map(item => [String(keyOf(item)), item]));
+          appendChangeLog(tx, audit, [
+            ...removed.map(item => ({ before: item })),
+            ...changed.map(item => ({ before: previousByKey.get(String(keyOf(item))), after: item }))
+          ], reason);
+        }
+      });
+    }
+  };
+};
+
+export const invoiceRepository = createRepository<Invoice>('invoices', invoice => invoice.id, 'invoices');
+export const entityRepository = createRepository<SavedEntity>('entities', entity => entity.nif, 'entities');
+export const assetRepository = createRepository<InvestmentAsset>('assets', asset => asset.id);
+export const bankMovementRepository = createRepository<BankMovement>('bankMovements', movement => movement.id);
+export const fundProvisionRepository = createRepository<FundProvision>('fundProvisions', provision => provision.id);
+export const matterRepository = createRepository<Matter>('matters', matter => matter.id);
+export const timeEntryRepository = createRepository<TimeEntry>('timeEntries', entry => entry.id);
+export const quoteRepository = createRepository<Quote>('quotes', quote => quote.id);
+export const recurringInvoiceRepository = createRepository<RecurringInvoice>('recurringInvoices', template => template.id);
+
+// --- AJUSTES ---
+
+export const getSetting = <K extends keyof SettingsSchema>(key: K): Promise<SettingsSchema[K] | undefined> =>
+  runTransaction(['settings'], 'readonly', tx =>
+    promisifyRequest(tx.objectStore('settings').get(key) as IDBRequest<SettingsSchema[K] | undefined>)
+  );
+
+export const setSetting = <K extends keyof SettingsSchema>(key: K, value: SettingsSchema[K]): Promise<void> =>
+  runTransaction(['settings'], 'readwrite', tx => { tx.objectStore('settings').put(value, key); });
+
+// Read-modify-write in one transaction, so concurrent updates are not lost
+export const updateSetting = <K extends keyof SettingsSchema>(
+  key: K,
+  update: (current: SettingsSchema[K] | undefined) => SettingsSchema[K]
+): Promise<SettingsSchema[K]> =>
+  runTransaction(['settings'], 'readwrite', async tx => {
+    const store = tx.objectStore('settings');
+    const current = await promisifyRequest(store.get(key) as IDBRequest<SettingsSchema[K] | undefined>);
+    const value = update(current);
+    store.put(value, key);
+    return value;
+  });
+
+export const getProfessionalProfile = async (): Promise<ProfessionalProfile> =>
+  (await getSetting('professionalProfile')) || ({ name: '', nif: '' } as ProfessionalProfile);
@@ -0,0 +1,682 @@
+import { Invoice, InvoiceType, TaxPeriod, Model303Result, VatRateBreakdown, Model130Payment, Model130Result, InvestmentAsset, Model347Entry, Model347Result, Model390Result, Model390QuarterReconciliation } from "../types";
+import { getDepreciationForRange, getUnregisteredInvestmentExpenses, isInvestmentExpense } from "./assetService";
+import { normalizeNif, validateSpanishNif } from "./validationService";
+
+const MONTH_NAMES = [
+  'Enero', 'Febrero', 'Marzo', 'Abril', 'Mayo', 'Junio',
+  'Julio', 'Agosto', 'Septiembre', 'Octubre', 'Noviembre', 'Diciembre'
+];
+
+// Round to cents (AEAT boxes are always expressed with 2 decimals)
+export const roundAmount = (value: number) => Math.round((value + Number.EPSILON) * 100) / 100;
+
+// --- FACTURAS RECTIFICATIVAS ---
+
+const negateInvoiceAmounts = (inv: Invoice): Partial<Invoice> => ({
+  baseAmount: -inv.baseAmount,
+  ivaAmount: -inv.ivaAmount,
+  irpfAmount: -inv.irpfAmount,
+  totalAmount: -inv.totalAmount,
+  fees: inv.fees !== undefined ? -inv.fees : undefined,
+  taxableExpenses: inv.taxableExpenses !== undefined ? -inv.taxableExpenses : undefined,
+  supplies: inv.supplies !== undefined ? -inv.supplies : undefined,
+  retainer: inv.retainer !== undefined ? -inv.retainer : undefined
+});
+
+/**
+ * Invoices as they count for tax purposes. A rectificativa por diferencias already carries
+ * the variation; one por sustitución is expressed the same way, as a reversal of the
+ * original (with its own rates) plus the corrected amounts. Both are dated on the
+ * rectificativa, so the change is declared in its period and the original one stays closed.
+ * Idempotent: the result contains no substitutions left to expand.
+ */
+export const expandRectifications = (invoices: Invoice[]): Invoice[] => {
+  if (!invoices.some(inv => inv.rectificationMethod === 'SUBSTITUTION')) return invoices;
+  const byId = new Map(invoices.map(inv => [inv.id, inv]));
+
+  return invoices.flatMap(inv => {
+    const original = inv.rectificationMethod === 'SUBSTITUTION' && inv.rectifiedInvoiceId
+      ? byId.get(inv.rectifiedInvoiceId)
+      : undefined;
+    if (!original) return [inv];
+
+    const reversal: Invoice = {
+      ...original,
+      ...negateInvoiceAmounts(original),
+      id: `${inv.id}:anulacion`,
+      number: inv.number,
+      date: inv.date,
+      rectifiedInvoiceId: inv.rectifiedInvoiceId,
+      rectifiedInvoiceNumber: inv.rectifiedInvoiceNumber,
+      rectifiedInvoiceDate: inv.rectifiedInvoiceDate,
+      rectificationReason: inv.rectificationReason,
+      rectificationMethod: 'DIFFERENCES'
+    };
+    return [reversal, { ...inv, rectificationMethod: 'DIFFERENCES' }];
+  });
+};
+
+// --- PERIODOS ---
+
+export const getCurrentPeriod = (date: Date = new Date()): TaxPeriod => ({
+  year: date.getFullYear(),
+  quarter: (Math.floor(date.getMonth() / 3) + 1) as TaxPeriod['quarter']
+});
+
+// First and last day (YYYY-MM-DD, inclusive) covered by the period
+export const getPeriodRange = (period: TaxPeriod): { start: string; end: string } => {
+  let startMonth = 1;
+  let endMonth = 12;
+
+  if (period.month) {
+    startMonth = period.month;
+    endMonth = period.month;
+  } else if (period.quarter) {
+    startMonth = (period.quarter - 1) * 3 + 1;
+    endMonth = startMonth + 2;
+  }
+
+  const lastDay = new Date(period.year, endMonth, 0).getDate();
+  const pad = (n: number) => n.toString().padStart(2, '0');
+
+  return {
+    start: `${period.year}-${pad(startMonth)}-01`,
+    end: `${period.year}-${pad(endMonth)}-${pad(lastDay)}`
+  };
+};
+
+// Compare on the YYYY-MM-DD string to avoid timezone shifts of new Date('YYYY-MM-DD')
+export const isDateInPeriod = (date: string | undefined, period: TaxPeriod): boolean => {
+  if (!date) return false;
+  const { start, end } = getPeriodRange(period);
+  const day = date.slice(0, 10);
+  return day >= start && day <= end;
+};
+
+// Código de periodo tal y como lo pide la AEAT: 1T-4T, 01-12 o 0A (anual)
+export const getPeriodCode = (period: TaxPeriod): string => {
+  if (period.month) return period.month.toString().padStart(2, '0');
+  if (period.quarter) return `${period.quarter}T`;
+  return '0A';
+};
+
+export const getPeriodLabel = (period: TaxPeriod): string => {
+  if (period.month) return `${MONTH_NAMES[period.month - 1]} ${period.year}`;
+  if (period.quarter) return `${period.quarter}T ${period.year}`;
+  return `Ejercicio ${period.year}`;
+};
+
+// Last period of the year: 4T, December or the annual period itself
+export const isLastPeriodOfYear = (period: TaxPeriod): boolean =>
+  period.month ? period.month === 12 : period.quarter ? period.quarter === 4 : true;
+
+// --- MODELO 303 ---
+
+// Casillas de IVA devengado en Régimen General según tipo impositivo [base, tipo, cuota]
+const DEVENGADO_RATE_BOXES: Record<number, [string, string, string]> = {
+  0: ['150', '151', '152'],
+  4: ['01', '02', '03'],
+  5: ['153', '154', '155'],
+  10: ['04', '05', '06'],
+  21: ['07', '08', '09']
+};
+
+// Every box of the 303 (pages 1 and 3) so that the result always carries the full form
+export const MODEL_303_CASILLAS = [
+  '150', '151', '152', '01', '02', '03', '153', '154', '155', '04', '05', '06', '07', '08', '09',
+  '10', '11', '12', '13', '14', '15',
+  '156', '157', '158', '16', '17', '18', '19', '20', '21', '22', '23', '24', '25', '26',
+  '27',
+  '28', '29', '30', '31', '32', '33', '34', '35', '36', '37', '38', '39', '40', '41', '42', '43', '44',
+  '45', '46',
+  '59', '60', '120', '122', '123', '62', '63', '74', '75',
+  '64', '65', '66', '77', '110', '78', '87', '68', '69', '70', '71'
+];
+
+export interface Model303Options {
+  pendingCompensation?: number; // Casilla 110: cuotas a compensar pendientes de periodos anteriores
+  previousResult?: number; // Casilla 70: importe ingresado en la autoliquidación original (solo complementarias)
+  stateAttributionPercent?: number; // Casilla 65: % atribuible a la Administración del Estado
+}
+
+const addToRate = (acc: Map<number, VatRateBreakdown>, rate: number, base: number, quota: number) => {
+  const current = acc.get(rate) || { rate, base: 0, quota: 0 };
+  current.base += base;
+  current.quota += quota;
+  acc.set(rate, current);
+};
+
+const sortedBreakdown = (acc: Map<number, VatRateBreakdown>): VatRateBreakdown[] =>
+  Array.from(acc.values())
+    .map(item => ({ rate: item.rate, base: roundAmount(item.base), quota: roundAmount(item.quota) }))
+    .sort((a, b) => b.rate - a.rate);
+
+/**
+ * Autoliquidación del Modelo 303 para un periodo (trimestre, mes o año completo).
+ * Pure function: the same invoices and period always produce the same boxes, so the
+ * tax screens, the dashboard and the year-end closing can share the numbers.
+ */
+export const computeModel303 = (invoices: Invoice[], period: TaxPeriod, options: Model303Options = {}): Model303Result => {
+  const c: Record<string, number> = {};
+  MODEL_303_CASILLAS.forEach(box => { c[box] = 0; });
+  const warnings: string[] = [];
+
+  const periodInvoices = expandRectifications(invoices).filter(inv => isDateInPeriod(inv.date, period));
+  const incomes = periodInvoices.filter(i => i.type === InvoiceType.INCOME);
+  const expenses = periodInvoices.filter(i => i.type === InvoiceType.EXPENSE);
+
+  const devengado = new Map<number, VatRateBreakdown>();
+  const deducible = new Map<number, VatRateBreakdown>();
+
+  // 1. IVA Devengado: facturas emitidas por tipo impositivo
+  incomes.forEach(inv => {
+    const rate = Number(inv.ivaRate) || 0;
+
+    // Rectificativas: modificación de bases y cuotas (negative when they reduce), outside the per-rate boxes
+    if (inv.rectificationReason && rate > 0) {
+      c['14'] += inv.baseAmount;
+      c['15'] += inv.ivaAmount;
+      return;
+    }
+
+    addToRate(devengado, rate, inv.baseAmount, inv.ivaAmount);
+
+    if (rate === 0) {
+      // Lawyers invoice 0% mainly to foreign clients: not subject by localisation rules
+      c['120'] += inv.baseAmount;
+      return;
+    }
+
+    const boxes = DEVENGADO_RATE_BOXES[rate];
+    if (!boxes) {
+      warnings.push(`Factura ${inv.number}: tipo de IVA ${rate}% sin casilla en el modelo 303.`);
+      return;
+    }
+    c[boxes[0]] += inv.baseAmount;
+    c[boxes[1]] = rate;
+    c[boxes[2]] += inv.ivaAmount;
+  });
+
+  // 2. Facturas recibidas: autorepercusión (devengado) + deducciones
+  expenses.forEach(inv => {
+    const ivaType = inv.ivaExpenseType || 'Operaciones Interiores Corrientes';
+
+    // Intra-EU acquisitions and reverse charge are self-assessed even if the expense is not deductible
+    if (ivaType === 'Adquisiciones Intracomunitarias') {
+      c['10'] += inv.baseAmount;
+      c['11'] += inv.ivaAmount;
+    } else if (ivaType === 'Inversión del Sujeto Pasivo') {
+      c['12'] += inv.baseAmount;
+      c['13'] += inv.ivaAmount;
+    }
+
+    if (!inv.deductible) return;
+
+    addToRate(deducible, Number(inv.ivaRate) || 0, inv.baseAmount, inv.ivaAmount);
+
+    switch (ivaType) {
+      case 'Bienes de Inversión':
+        c['30'] += inv.baseAmount;
+        c['31'] += inv.ivaAmount;
+        break;
+      case 'Importaciones':
+        c['32'] += inv.baseAmount;
+        c['33'] += inv.ivaAmount;
+        break;
+      case 'Adquisiciones Intracomunitarias':
+        c['36'] += inv.baseAmount;
+        c['37'] += inv.ivaAmount;
+        break;
+      default:
+        // Operaciones Interiores Corrientes e Inversión del Sujeto Pasivo
+        c['28'] += inv.baseAmount;
+        c['29'] += inv.ivaAmount;
+    }
+  });
+
+  Object.keys(c).forEach(box => { c[box] = roundAmount(c[box]); });
+
+  // 3. Totales Régimen General
+  c['27'] = roundAmount(
+    c['152'] + c['03'] + c['155'] + c['06'] + c['09'] + c['11'] + c['13'] + c['15'] +
+    c['158'] + c['18'] + c['21'] + c['24'] + c['26']
+  );
+  c['45'] = roundAmount(
+    c['29'] + c['31'] + c['33'] + c['35'] + c['37'] + c['39'] + c['41'] + c['42'] + c['43'] + c['44']
+  );
+  c['46'] = roundAmount(c['27'] - c['45']);
+
+  // 4. Resultado
+  c['64'] = c['46'];
+  c['65'] = options.stateAttributionPercent ?? 100;
+  c['66'] = roundAmount(c['64'] * c['65'] / 100);
+  c['110'] = roundAmount(options.pendingCompensation || 0);
+  c['78'] = roundAmount(Math.min(c['110'], Math.max(c['66'] + c['77'], 0)));
+  c['87'] = roundAmount(c['110'] - c['78']);
+  c['69'] = roundAmount(c['66'] + c['77'] - c['78'] + c['68']);
+  c['70'] = roundAmount(options.previousResult || 0);
+  c['71'] = roundAmount(c['69'] - c['70']);
+
+  return {
+    period,
+    casillas: c,
+    devengadoByRate: sortedBreakdown(devengado),
+    deducibleByRate: sortedBreakdown(deducible),
+    totalDevengado: c['27'],
+    totalDeducible: c['45'],
+    result: c['71'],
+    warnings
+  };
+};
+
+/**
+ * Casilla 110 of a quarter or month: the negative results of the earlier periods of the same
+ * year that are still to compensate, chained as in computeModel390. The annual period has none.
+ */
+export const getPendingCompensation = (invoices: Invoice[], period: TaxPeriod, previousYearCompensation = 0): number => {
+  if (!period.month && !period.quarter) return 0;
+  const earlier: TaxPeriod[] = period.month
+    ? Array.from({ length: period.month - 1 }, (_, i) => ({ year: period.year, month: i + 1 }))
+    : Array.from({ length: (period.quarter || 1) - 1 }, (_, i) => ({ year: period.year, quarter: (i + 1) as TaxPeriod['quarter'] }));
+
+  return earlier.reduce((pending, earlierPeriod) => {
+    const result = computeModel303(invoices, earlierPeriod, { pendingCompensation: pending });
+    return roundAmount(result.casillas['87'] + (result.result < 0 ? -result.result : 0));
+  }, roundAmount(previousYearCompensation));
+};
+
+// --- MODELO 130 ---
+
+export const MODEL_130_CASILLAS = [
+  '01', '02', '03', '04', '05', '06', '07', '08', '09', '10', '11',
+  '12', '13', '14', '15', '16', '17', '18', '19'
+];
+
+export interface Model130Options {
+  previousYearNetYield?: number; // Rendimiento neto del ejercicio anterior (art. 110.3.c). Por defecto se calcula de las facturas
+  housingDeduction?: number; // Casilla 16: deducción por préstamo de vivienda habitual
+  previousResult?: number; // Casilla 18: resultado de la declaración original (solo complementarias)
+  assets?: InvestmentAsset[]; // Registro de bienes de inversión (amortizaciones)
+}
+
+// Ingresos y gastos computables acumulados entre dos fechas (YYYY-MM-DD, inclusive).
+// Investment goods are not expensed when bought: the depreciation of the register replaces them.
+export const computeNetYield = (invoices: Invoice[], start: string, end: string, assets: InvestmentAsset[] = []) => {
+  const inRange = expandRectifications(invoices).filter(inv => inv.date && inv.date.slice(0, 10) >= start && inv.date.slice(0, 10) <= end);
+  const incomes = inRange.filter(i => i.type === InvoiceType.INCOME);
+  const expenses = inRange.filter(i => i.type === InvoiceType.EXPENSE && i.deductible && !isInvestmentExpense(i));
+
+  const income = incomes.reduce((sum, i) => sum + i.baseAmount, 0);
+  const depreciation = getDepreciationForRange(assets, start, end);
+  const expense = expenses.reduce((sum, i) => sum + i.baseAmount, 0) + depreciation;
+  const withholdings = incomes.reduce((sum, i) => sum + i.irpfAmount, 0);
+
+  return {
+    income: roundAmount(income),
+    expenses: roundAmount(expense),
+    depreciation,
+    netYield: roundAmount(income - expense),
+    withholdings: roundAmount(withholdings),
+    hasData: inRange.length > 0
+  };
+};
+
+// Minoración del art. 110.3.c) RIRPF según el rendimiento neto del ejercicio anterior (por trimestre)
+export const getArticle110Deduction = (previousYearNetYield: number | undefined): number => {
+  if (previousYearNetYield === undefined) return 0;
+  if (previousYearNetYield <= 9000) return 100;
+  if (previousYearNetYield <= 10000) return 75;
+  if (previousYearNetYield <= 11000) return 50;
+  if (previousYearNetYield <= 12000) return 25;
+  return 0;
+};
+
+/**
+ * Pago fraccionado del Modelo 130 (estimación directa) de un trimestre.
+ * Cumulative from 1 January to the end of the quarter, minus the payments of the earlier
+ * quarters of the year. Earlier quarters use what was actually declared when it is stored
+ * in `previousPayments`, otherwise they are recomputed from the invoices.
+ */
+export const computeModel130 = (
+  invoices: Invoice[],
+  year: number,
+  quarter: 1 | 2 | 3 | 4,
+  previousPayments: Model130Payment[] = [],
+  options: Model130Options = {}
+): Model130Result => {
+  const warnings: string[] = [];
+
+  let previousYearNetYield = options.previousYearNetYield;
+  if (previousYearNetYield === undefined) {
+    const lastYear = computeNetYield(invoices, `${year - 1}-01-01`, `${year - 1}-12-31`, options.assets);
+    if (lastYear.hasData) previousYearNetYield = lastYear.netYield;
+  }
+  const minoracion = getArticle110Deduction(previousYearNetYield);
+
+  let sumPositive07 = 0;
+  let pendingNegative = 0;
+  const previousQuarters: Model130Result['previousQuarters'] = [];
+  let c: Record<string, number> = {};
+
+  for (let q = 1; q <= quarter; q++) {
+    const declared = q < quarter
+      ? previousPayments.find(p => p.year === year && p.quarter === q)
+      : undefined;
+
+    if (declared) {
+      sumPositive07 += Math.max(0, declared.casilla07);
+      pendingNegative = pendingNegative - declared.casilla15 + Math.max(0, -declared.result);
+      previousQuarters.push({ quarter: q, casilla07: declared.casilla07, result: declared.result, declared: true });
+      continue;
+    }
+
+    const { end } = getPeriodRange({ year, quarter: q as TaxPeriod['quarter'] });
+    const cumulative = computeNetYield(invoices, `${year}-01-01`, end, options.assets);
+    const isCurrent = q === quarter;
+
+    c = {};
+    MODEL_130_CASILLAS.forEach(box => { c[box] = 0; });
+
+    // I. Actividades económicas en estimación directa
+    c['01'] = cumulative.income;
+    c['02'] = cumulative.expenses;
+    c['03'] = roundAmount(c['01'] - c['02']);
+    c['04'] = c['03'] > 0 ? roundAmount(c['03'] * 0.20) : 0;
+    c['05'] = roundAmount(sumPositive07);
+    c['06'] = cumulative.withholdings;
+    c['07'] = roundAmount(c['04'] - c['05'] - c['06']);
+
+    // III. Total liquidación
+    c['12'] = roundAmount(Math.max(0, c['07'] + c['11']));
+    c['13'] = minoracion;
+    c['14'] = roundAmount(c['12'] - c['13']);
+    c['15'] = roundAmount(Math.min(pendingNegative, Math.max(0, c['14'])));
+    c['16'] = isCurrent ? roundAmount(options.housingDeduction || 0) : 0;
+    c['17'] = roundAmount(c['14'] - c['15'] - c['16']);
+    c['18'] = isCurrent ? roundAmount(options.previousResult || 0) : 0;
+    c['19'] = roundAmount(c['17'] - c['18']);
+
+    if (!isCurrent) {
+      sumPositive07 += Math.max(0, c['07']);
+      previousQuarters.push({ quarter: q, casilla07: c['07'], result: c['19'], declared: false });
+    }
+    pendingNegative = roundAmount(pendingNegative - c['15'] + Math.max(0, -c['19']));
+  }
+
+  const { end: quarterEnd } = getPeriodRange({ year, quarter });
+  getUnregisteredInvestmentExpenses(invoices, options.assets || [], `${year}-01-01`, quarterEnd).forEach(inv => {
+    warnings.push(`Factura ${inv.number}: bien de inversión sin alta en el registro de amortizaciones (no se deduce).`);
+  });
+  if (previousQuarters.some(p => !p.declared)) {
+    warnings.push('Hay trimestres anteriores sin pago registrado: se han recalculado a partir de las facturas.');
+  }
+  if (quarter === 4 && pendingNegative > 0) {
+    warnings.push(`Quedan ${pendingNegative.toFixed(2)} € de resultados negativos sin compensar: no se trasladan al ejercicio siguiente.`);
+  }
+
+  return {
+    year,
+    quarter,
+    casillas: c,
+    previousQuarters,
+    pendingNegative: quarter === 4 ? 0 : pendingNegative,
+    result: c['19'],
+    warnings
+  };
+};
+
+// --- MODELO 347 ---
+
+export const MODEL_347_THRESHOLD = 3005.06;
+
+// Spanish NIF shapes (DNI, NIE, CIF). Anything else is treated as a non-resident
+const SPANISH_NIF_SHAPE = /^([0-9]{8}[A-Z]|[XYZKLM][0-9]{7}[A-Z]|[ABCDEFGHJNPQRSUVW][0-9]{7}[0-9A-J])$/;
+
+// Código de provincia a partir del código postal que aparezca en el domicilio fiscal
+export const getProvinceCode = (address: string | undefined): string => {
+  const match = (address || '').match(/\b(0[1-9]|[1-4][0-9]|5[0-2])[0-9]{3}\b/);
+  return match ? match[1] : '';
+};
+
+// Provincias por código INE (los dos primeros dígitos del código postal)
+export const PROVINCE_NAMES: Record<string, string> = {
+  '01': 'Araba/Álava', '02': 'Albacete', '03': 'Alicante', '04': 'Almería', '05': 'Ávila',
+  '06': 'Badajoz', '07': 'Illes Balears', '08': 'Barcelona', '09': 'Burgos', '10': 'Cáceres',
+  '11': 'Cádiz', '12': 'Castellón', '13': 'Ciudad Real', '14': 'Córdoba', '15': 'A Coruña',
+  '16': 'Cuenca', '17': 'Girona', '18': 'Granada', '19': 'Guadalajara', '20': 'Gipuzkoa',
+  '21': 'Huelva', '22': 'Huesca', '23': 'Jaén', '24': 'León', '25': 'Lleida',
+  '26': 'La Rioja', '27': 'Lugo', '28': 'Madrid', '29': 'Málaga', '30': 'Murcia',
+  '31': 'Navarra', '32': 'Ourense', '33': 'Asturias', '34': 'Palencia', '35': 'Las Palmas',
+  '36': 'Pontevedra', '37': 'Salamanca', '38': 'Santa Cruz de Tenerife', '39': 'Cantabria', '40': 'Segovia',
+  '41': 'Sevilla', '42': 'Soria', '43': 'Tarragona', '44': 'Teruel', '45': 'Toledo',
+  '46': 'Valencia', '47': 'Valladolid', '48': 'Bizkaia', '49': 'Zamora', '50': 'Zaragoza',
+  '51': 'Ceuta', '52': 'Melilla'
+};
+
+/**
+ * Declaración anual de operaciones con terceras personas (Modelo 347).
+ * Amounts are grouped by NIF and key (A purchases, B sales) and include VAT. Operations
+ * with IRPF withholding, supplies, intra-EU acquisitions, imports and non-residents are
+ * left out because they are already reported in other models.
+ */
+export const computeModel347 = (invoices: Invoice[], year: number): Model347Result => {
+  const warnings: string[] = [];
+  const excluded = { withholding: 0, foreign: 0, supplies: 0 };
+  const groups = new Map<string, Model347Entry & { address?: string }>();
+
+  expandRectifications(invoices)
+    .filter(inv => isDateInPeriod(inv.date, { year }))
+    .forEach(inv => {
+      excluded.supplies += inv.supplies || 0;
+
+      // Also a rectificativa of a withheld invoice (negative withholding)
+      if (inv.irpfAmount !== 0) {
+        excluded.withholding++;
+        return;
+      }
+
+      const nif = normalizeNif(inv.nif);
+      if (
+        inv.ivaExpenseType === 'Adquisiciones Intracomunitarias' ||
+        inv.ivaExpenseType === 'Importaciones' ||
+        !SPANISH_NIF_SHAPE.test(nif)
+      ) {
+        excluded.foreign++;
+        return;
+      }
+
+      const key = inv.type === InvoiceType.INCOME ? 'B' : 'A';
+      const groupKey = `${nif}|${key}`;
+      const entry = groups.get(groupKey) || {
+        nif,
+        name: inv.entityName,
+        key,
+        provinceCode: '',
+        annualAmount: 0,
+        quarterlyAmounts: [0, 0, 0, 0] as [number, number, number, number],
+        invoiceCount: 0
+      };
+
+      // Importe total de la contraprestación (IVA incluido); los suplidos no forman parte de la base
+      const amount = inv.baseAmount + inv.ivaAmount;
+      const quarter = Math.floor((Number(inv.date.slice(5, 7)) - 1) / 3);
+      entry.annualAmount += amount;
+      entry.quarterlyAmounts[quarter] += amount;
+      entry.invoiceCount++;
+      entry.address = inv.fiscalAddress || entry.address;
+      groups.set(groupKey, entry);
+    });
+
+  const entries: Model347Entry[] = Array.from(groups.values())
+    .filter(entry => Math.abs(entry.annualAmount) > MODEL_347_THRESHOLD)
+    .map(({ address, ...entry }) => {
+      const provinceCode = getProvinceCode(address);
+      if (!provinceCode) warnings.push(`${entry.name} (${entry.nif}): no se encuentra el código postal para la provincia.`);
+      const nifError = validateSpanishNif(entry.nif);
+      if (nifError) warnings.push(`${entry.name}: ${nifError}`);
+      return {
+        ...entry,
+        provinceCode,
+        annualAmount: roundAmount(entry.annualAmount),
+        quarterlyAmounts: entry.quarterlyAmounts.map(roundAmount) as [number, number, number, number]
+      };
+    })
+    .sort((a, b) => a.key.localeCompare(b.key) || b.annualAmount - a.annualAmount);
+
+  return {
+    year,
+    entries,
+    excluded: { ...excluded, supplies: roundAmount(excluded.supplies) },
+    warnings
+  };
+};
+
+// --- MODELO 390 ---
+
+export interface Model390Options {
+  previousYearCompensation?: number; // Cuotas a compensar procedentes del ejercicio anterior
+  lastPeriodRefund?: boolean; // El resultado negativo del 4T se solicita a devolver (casilla 98) en vez de compensar (97)
+  exemptOperations?: number; // Operaciones exentas sin derecho a deducción (afectan a la prorrata)
+  provisionalProrrata?: number; // % de prorrata aplicado en los 303 del ejercicio
+  prorrataType?: 'G' | 'E'; // General o especial
+  activity?: { key: string; iaeEpigraph: string; cnae: string };
+}
+
+// Actividad profesional (clave A03), epígrafe IAE 731 Abogados, CNAE 6910 Actividades jurídicas
+const DEFAULT_390_ACTIVITY = { key: 'A03', iaeEpigraph: '731', cnae: '6910' };
+
+/**
+ * Declaración-resumen anual del IVA (Modelo 390).
+ * Devengado and deducible are aggregated over the year; the liquidation section comes
+ * from chaining the four quarterly 303 so that compensations carry over between quarters.
+ */
+export const computeModel390 = (invoices: Invoice[], year: number, options: Model390Options = {}): Model390Result => {
+  const warnings: string[] = [];
+  const annual303 = computeModel303(invoices, { year });
+  const a = annual303.casillas;
+  const c: Record<string, number> = {};
+
+  // 1. IVA devengado (régimen ordinario)
+  const devengado = (rate: number) => annual303.devengadoByRate.find(d => d.rate === rate) || { rate, base: 0, quota: 0 };
+  [[4, '01', '02'], [10, '03', '04'], [21, '05', '06'], [5, '500', '501']].forEach(([rate, baseBox, quotaBox]) => {
+    const item = devengado(rate as number);
+    c[baseBox as string] = item.base;
+    c[quotaBox as string] = item.quota;
+  });
+  c['21'] = a['10']; c['22'] = a['11']; // Adquisiciones intracomunitarias
+  c['27'] = a['12']; c['28'] = a['13']; // Inversión del sujeto pasivo
+  c['29'] = a['14']; c['30'] = a['15']; // Modificación de bases y cuotas
+  c['47'] = a['27'];
+
+  // 2. IVA deducible según el tipo de gasto (ivaExpenseType)
+  const buckets = {
+    corrientes: new Map<number, VatRateBreakdown>(),
+    inversion: new Map<number, VatRateBreakdown>(),
+    importaciones: new Map<number, VatRateBreakdown>(),
+    intracomunitarias: new Map<number, VatRateBreakdown>()
+  };
+  invoices
+    .filter(inv => inv.type === InvoiceType.EXPENSE && inv.deductible && isDateInPeriod(inv.date, { year }))
+    .forEach(inv => {
+      const rate = Number(inv.ivaRate) || 0;
+      switch (inv.ivaExpenseType) {
+        case 'Bienes de Inversión':
+          addToRate(buckets.inversion, rate, inv.baseAmount, inv.ivaAmount);
+          break;
+        case 'Importaciones':
+          addToRate(buckets.importaciones, rate, inv.baseAmount, inv.ivaAmount);
+          break;
+        case 'Adquisiciones Intracomunitarias':
+          addToRate(buckets.intracomunitarias, rate, inv.baseAmount, inv.ivaAmount);
+          break;
+        default:
+          addToRate(buckets.corrientes, rate, inv.baseAmount, inv.ivaAmount);
+      }
+    });
+
+  const deducible = {
+    corrientes: sortedBreakdown(buckets.corrientes),
+    inversion: sortedBreakdown(buckets.inversion),
+    importaciones: sortedBreakdown(buckets.importaciones),
+    intracomunitarias: sortedBreakdown(buckets.intracomunitarias)
+  };
+  const total = (list: VatRateBreakdown[], field: 'base' | 'quota') => roundAmount(list.reduce((sum, d) => sum + d[field], 0));
+
+  c['48'] = total(deducible.corrientes, 'base'); c['49'] = total(deducible.corrientes, 'quota');
+  c['50'] = total(deducible.inversion, 'base'); c['51'] = total(deducible.inversion, 'quota');
+  c['52'] = total(deducible.importaciones, 'base'); c['53'] = total(deducible.importaciones, 'quota');
+  c['54'] = 0; c['55'] = 0; // Importaciones de bienes de inversión
+  c['56'] = total(deducible.intracomunitarias, 'base'); c['57'] = total(deducible.intracomunitarias, 'quota');
+  c['58'] = 0; c['59'] = 0; // Adquisiciones intracomunitarias de bienes de inversión
+  c['62'] = 0; // Regularización de bienes de inversión
+
+  // 3. Volumen de operaciones y prorrata
+  const incomes = expandRectifications(invoices).filter(inv => inv.type === InvoiceType.INCOME && isDateInPeriod(inv.date, { year }));
+  c['99'] = roundAmount(incomes.filter(i => Number(i.ivaRate) > 0).reduce((sum, i) => sum + i.baseAmount, 0));
+  c['105'] = roundAmount(options.exemptOperations || 0);
+  // Not subject by localisation rules (foreign clients): they keep the right to deduct
+  c['110'] = roundAmount(incomes.filter(i => !(Number(i.ivaRate) > 0)).reduce((sum, i) => sum + i.baseAmount, 0));
+  c['108'] = roundAmount(c['99'] + c['105'] + c['110']);
+
+  const withRight = c['99'] + c['110'];
+  // Art. 104 LIVA: the percentage is rounded up to the next integer
+  const prorrataPercent = c['108'] > 0 ? Math.min(100, Math.ceil(withRight / c['108'] * 100)) : 100;
+  const provisional = options.provisionalProrrata ?? 100;
+  const deductionsBeforeProrrata = c['49'] + c['51'] + c['53'] + c['55'] + c['57'] + c['59'];
+  c['63'] = prorrataPercent !== provisional
+    ? roundAmount(deductionsBeforeProrrata * (prorrataPercent - provisional) / provisional)
+    : 0;
+  if (prorrataPercent < 100) {
+    warnings.push(`Prorrata definitiva del ${prorrataPercent}%: revisa la regularización de la casilla 63.`);
+  }
+
+  c['64'] = roundAmount(deductionsBeforeProrrata + c['62'] + c['63']);
+  c['65'] = roundAmount(c['47'] - c['64']);
+
+  // 4. Conciliación con los 303 trimestrales (encadenando las compensaciones)
+  const quarters: Model390QuarterReconciliation[] = [];
+  let pending = roundAmount(options.previousYearCompensation || 0);
+  let compensatedFromPreviousYear = 0;
+  let previousYearLeft = pending;
+
+  ([1, 2, 3, 4] as const).forEach(quarter => {
+    const q303 = computeModel303(invoices, { year, quarter }, { pendingCompensation: pending });
+    const compensated = q303.casillas['78'];
+    const fromPreviousYear = Math.min(previousYearLeft, compensated);
+    compensatedFromPreviousYear += fromPreviousYear;
+    previousYearLeft -= fromPreviousYear;
+
+    quarters.push({ quarter, result46: q303.casillas['46'], compensated78: compensated, result71: q303.result });
+    pending = roundAmount(q303.casillas['87'] + (q303.result < 0 && quarter < 4 ? -q303.result : 0));
+  });
+
+  c['84'] = c['65'];
+  c['85'] = roundAmount(compensatedFromPreviousYear);
+  c['86'] = roundAmount(c['84'] - c['85']);
+
+  const last = quarters[3];
+  c['95'] = roundAmount(quarters.reduce((sum, q) => sum + Math.max(0, q.result71), 0));
+  c['97'] = last.result71 < 0 && !options.lastPeriodRefund ? roundAmount(-last.result71) : 0;
+  c['98'] = last.result71 < 0 && options.lastPeriodRefund ? roundAmount(-last.result71) : 0;
+  c['662'] = roundAmount(Math.max(0, pending - c['97']));
+
+  const quarterlySum = roundAmount(quarters.reduce((sum, q) => sum + q.result46, 0));
+  // The 303s do not carry the annual prorrata regularisation: casilla 65 has it deducted (64)
+  const reconciliationDifference = roundAmount(c['65'] + c['63'] - quarterlySum);
+  if (reconciliationDifference !== 0) {
+    warnings.push(`El resultado anual no cuadra con los 303 trimestrales: diferencia de ${reconciliationDifference.toFixed(2)} €.`);
+  }
+  annual303.warnings.forEach(w => warnings.push(w));
+
+  return {
+    year,
+    casillas: c,
+    devengadoByRate: annual303.devengadoByRate,
+    deducible,
+    quarters,
+    reconciliationDifference,
+    prorrata: { percent: prorrataPercent, type: options.prorrataType || 'G', applies: prorrataPercent < 100 },
+    activity: options.activity || DEFAULT_390_ACTIVITY,
+    warnings
+  };
+};
@@ -0,0 +1,67 @@
+import { Invoice, InvoiceDraft, Matter, SavedEntity, TimeEntry } from "../types";
+import { roundAmount } from "./taxService";
+import { normalizeNif } from "./validationService";
+
+/*
+ * Tiempos y actuaciones: hours worked and procedural steps of each matter, billed by the
+ * hour or at a fixed price, and the minuta draft built from the entries not billed yet.
+ */
+
+export const getEntryAmount = (entry: TimeEntry): number =>
+  entry.billing === 'HOURLY' ? roundAmount(entry.minutes / 60 * entry.rate) : entry.rate;
+
+export const formatDuration = (minutes: number): string => {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) return `${rest} min`;
+  return rest === 0 ? `${hours} h` : `${hours} h ${rest} min`;
+};
+
+// Minutes of a running timer, rounded up so that a started minute counts
+export const getElapsedMinutes = (startedAt: string, now: Date = new Date()): number =>
+  Math.max(1, Math.ceil((now.getTime() - new Date(startedAt).getTime()) / 60000));
+
+// An entry is billed while the minuta it went into exists (deleting the minuta frees it)
+export const isEntryBilled = (entry: TimeEntry, invoices: Invoice[]) =>
+  !!entry.invoiceId && invoices.some(inv => inv.id === entry.invoiceId);
+
+export const getUnbilledEntries = (entries: TimeEntry[], invoices: Invoice[], matterId: string): TimeEntry[] =>
+  entries
+    .filter(entry => entry.matterId === matterId && !isEntryBilled(entry, invoices))
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+/**
+ * Draft minuta of a matter: one line per entry in the concept and their sum as fees.
+ * Throws if there is nothing to bill.
+ */
+export const buildTimeBillingDraft = (matter: Matter, entries: TimeEntry[], entities: SavedEntity[]): InvoiceDraft => {
+  if (entries.length === 0) throw new Error(`El expediente ${matter.reference} no tiene tiempo pendiente de facturar.`);
+  const fees = roundAmount(entries.reduce((sum, entry) => sum + getEntryAmount(entry), 0));
+  if (fees <= 0) throw new Error(`El tiempo pendiente del expediente ${matter.reference} no tiene importe: revisa las tarifas.`);
+
+  const client = entities.find(e => e.type === 'CLIENT' && normalizeNif(e.nif) === normalizeNif(matter.nif));
+  const lines = entries.map(entry => {
+    const date = entry.date.split('-').reverse().join('/');
+    const detail = entry.billing === 'HOURLY'
+      ? `${formatDuration(entry.minutes)} x ${entry.rate.toFixed(2)} €/h`
+      : 'actuación';
+    return `- ${date} ${entry.activity} (${detail}): ${getEntryAmount(entry).toFixed(2)} €`;
+  });
+
+  return {
+    label: `Minuta generada desde Tiempos: al guardarla, ${entries.length === 1 ? 'la entrada quedará facturada' : `las ${entries.length} entradas quedarán facturadas`}`,
+    invoice: {
+      concept: [
+        `Honorarios profesionales. Expediente ${matter.reference}: ${matter.title}${matter.procedureNumber ? ` (${matter.procedureNumber})` : ''}.`,
+        ...lines
+      ].join('\n'),
+      nif: client?.nif || matter.nif,
+      entityName: client?.name || matter.clientName,
+      fiscalAddress: client?.fiscalAddress || '',
+      matterId: matter.id,
+      fees,
+      baseAmount: fees
+    },
+    timeEntryIds: entries.map(entry => entry.id)
+  };
+};
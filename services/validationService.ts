@@ -0,0 +1,71 @@
+// Validation helpers shared by the tax engines and the AEAT file generators
+
+const NIF_LETTERS = 'TRWAGMYFPDXBNJZSQVHLCKE';
+
+// Normalizes a NIF typed by the user: uppercase, no spaces, dots or dashes
+export const normalizeNif = (value: string | undefined): string =>
+  (value || '').toUpperCase().replace(/[\s.\-]/g, '');
+
+// CIF control digit (letter or number depending on the entity type)
+const isValidCif = (cif: string): boolean => {
+  const digits = cif.substr(1, 7);
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let n = parseInt(digits.charAt(i), 10);
+    if (i % 2 === 0) {
+      n *= 2;
+      n = Math.floor(n / 10) + (n % 10);
+    }
+    sum += n;
+  }
+  const control = (10 - (sum % 10)) % 10;
+  const controlLetter = 'JABCDEFGHI'.charAt(control);
+  const given = cif.charAt(8);
+  const first = cif.charAt(0);
+
+  if ('PQRSNW'.includes(first)) return given === controlLetter;
+  if ('ABEH'.includes(first)) return given === control.toString();
+  return given === control.toString() || given === controlLetter;
+};
+
+// Strict validation of a Spanish NIF (DNI, NIE or CIF). Returns an error message or null.
+export const validateSpanishNif = (value: string | undefined): string | null => {
+  const str = normalizeNif(value);
+  if (!str) return 'NIF vacío';
+
+  if (/^[0-9]{8}[A-Z]$/.test(str)) {
+    const expected = NIF_LETTERS.charAt(parseInt(str.substr(0, 8), 10) % 23);
+    return str.charAt(8) === expected ? null : `NIF ${str} incorrecto: la letra debería ser ${expected}`;
+  }
+
+  if (/^[XYZ][0-9]{7}[A-Z]$/.test(str)) {
+    const numberStr = 'XYZ'.indexOf(str.charAt(0)).toString() + str.substr(1, 7);
+    const expected = NIF_LETTERS.charAt(parseInt(numberStr, 10) % 23);
+    return str.charAt(8) === expected ? null : `NIE ${str} incorrecto: la letra debería ser ${expected}`;
+  }
+
+  if (/^[ABCDEFGHJKLMNPQRSUVW][0-9]{7}[0-9A-J]$/.test(str)) {
+    return isValidCif(str) ? null : `CIF ${str} incorrecto: el dígito de control no coincide`;
+  }
+
+  return `NIF ${str} con formato no válido (DNI, NIE o CIF)`;
+};
+
+export const isValidSpanishNif = (value: string | undefined): boolean => validateSpanishNif(value) === null;
+
+// Referencia catastral: 20 caracteres alfanuméricos (14 de la parcela, 4 del inmueble y 2 de control)
+export const normalizeCadastralRef = (value: string | undefined): string =>
+  (value || '').toUpperCase().replace(/[\s.\-]/g, '');
+
+export const validateCadastralRef = (value: string | undefined): string | null => {
+  const ref = normalizeCadastralRef(value);
+  if (!ref) return 'Referencia catastral vacía';
+  return /^[0-9A-Z]{20}$/.test(ref) ? null : `Referencia catastral ${ref} no válida: debe tener 20 caracteres`;
+};
+
+// Código DIR3 de una unidad administrativa (p. ej. L01280796, E04921501, GE0000001): 9 caracteres
+export const validateDir3Code = (value: string | undefined): string | null => {
+  const code = (value || '').toUpperCase().trim();
+  if (!code) return 'Código DIR3 vacío';
+  return /^[A-Z0-9]{9}$/.test(code) ? null : `Código DIR3 ${code} no válido: debe tener 9 caracteres alfanuméricos`;
+};
@@ -0,0 +1,444 @@
+import QRCode from "qrcode";
+import { Invoice, InvoiceType, ProfessionalProfile, VerifactuEvent, VerifactuEventType, VerifactuInvoiceType, VerifactuRecord, VerifactuRectification } from "../types";
+import { promisifyRequest, runTransaction } from "./storageService";
+import { roundAmount } from "./taxService";
+import { normalizeNif, validateSpanishNif } from "./validationService";
+
+// --- VERI*FACTU (Sistema Informático de Facturación) ---
+// Every income invoice gets a registro de alta, and a registro de anulación if it was issued
+// by mistake (corrections go through rectificativas, which get their own alta).
+// Records are chained: each one includes the SHA-256 huella of the previous record, so any
+// later modification of the stored chain is detectable. Records and events are insert-only.
+
+export type VerifactuEnvironment = 'PRUEBAS' | 'PRODUCCION';
+
+export interface VerifactuSubmissionResult {
+  sequence: number;
+  status: 'ACEPTADO' | 'RECHAZADO';
+  csv?: string; // Código seguro de verificación de la respuesta
+  error?: string;
+}
+
+// Remitting channel to the AEAT web service (SOAP, certificate authentication)
+export interface VerifactuTransport {
+  name: string;
+  environment: VerifactuEnvironment;
+  submit: (xml: string, records: VerifactuRecord[]) => Promise<VerifactuSubmissionResult[]>;
+}
+
+const QR_BASE_URL: Record<VerifactuEnvironment, string> = {
+  PRUEBAS: 'https://prewww2.aeat.es/wlpl/TIKE-CONT/ValidarQR',
+  PRODUCCION: 'https://www2.agenciatributaria.gob.es/wlpl/TIKE-CONT/ValidarQR'
+};
+
+// Identification of this billing software inside every record
+const SISTEMA_INFORMATICO = {
+  nombre: 'AbogadoGestor',
+  id: 'AG',
+  version: '1.0',
+  numeroInstalacion: '1'
+};
+
+const XML_NS_LR = 'https://www2.agenciatributaria.gob.es/static_files/common/internet/dep/aplicaciones/es/aeat/tike/cont/ws/SuministroLR.xsd';
+const XML_NS_INFO = 'https://www2.agenciatributaria.gob.es/static_files/common/internet/dep/aplicaciones/es/aeat/tike/cont/ws/SuministroInformacion.xsd';
+
+/**
+ * Local stand-in for the AEAT endpoint, for testing. Accepts every well-formed record
+ * and answers with a simulated CSV; nothing leaves the browser.
+ */
+export const localStubTransport: VerifactuTransport = {
+  name: 'Simulador local',
+  environment: 'PRUEBAS',
+  submit: async (xml, records) => records.map(record => (
+    xml.includes(`<sum1:Huella>${record.hash}</sum1:Huella>`)
+      ? { sequence: record.sequence, status: 'ACEPTADO', csv: `SIM${record.hash.slice(0, 13)}` }
+      : { sequence: record.sequence, status: 'RECHAZADO', error: 'Registro no incluido en el envío' }
+  ))
+};
+
+let transport: VerifactuTransport = localStubTransport;
+
+export const setVerifactuTransport = (next: VerifactuTransport) => { transport = next; };
+export const getVerifactuTransport = () => transport;
+
+// --- FORMATOS ---
+
+// FechaExpedicionFactura: DD-MM-AAAA
+const formatRecordDate = (isoDate: string) => {
+  const [year, month, day] = isoDate.slice(0, 10).split('-');
+  return `${day}-${month}-${year}`;
+};
+
+const formatRecordAmount = (value: number) => roundAmount(value).toFixed(2);
+
+// FechaHoraHusoGenRegistro: local time with its UTC offset (2025-01-01T19:20:30+01:00)
+export const formatTimestampWithOffset = (date: Date = new Date()) => {
+  const pad = (n: number) => String(Math.abs(n)).padStart(2, '0');
+  const offset = -date.getTimezoneOffset();
+  const sign = offset >= 0 ? '+' : '-';
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` +
+    `T${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}` +
+    `${sign}${pad(Math.floor(Math.abs(offset) / 60))}:${pad(Math.abs(offset) % 60)}`;
+};
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+
+// --- HUELLA ---
+
+export const sha256Hex = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('').toUpperCase();
+};
+
+// Concatenation defined in the AEAT "Detalle de las especificaciones técnicas para generación de la huella"
+export const buildHashInput = (record: VerifactuRecord): string => {
+  if (record.type === 'ANULACION') {
+    return [
+      `IDEmisorFacturaAnulada=${record.issuerNif}`,
+      `NumSerieFacturaAnulada=${record.invoiceNumber}`,
+      `FechaExpedicionFacturaAnulada=${formatRecordDate(record.issueDate)}`,
+      `Huella=${record.previousHash}`,
+      `FechaHoraHusoGenRegistro=${record.generatedAt}`
+    ].join('&');
+  }
+
+  return [
+    `IDEmisorFactura=${record.issuerNif}`,
+    `NumSerieFactura=${record.invoiceNumber}`,
+    `FechaExpedicionFactura=${formatRecordDate(record.issueDate)}`,
+    `TipoFactura=${record.invoiceType}`,
+    `CuotaTotal=${formatRecordAmount(record.totalQuota || 0)}`,
+    `ImporteTotal=${formatRecordAmount(record.totalAmount || 0)}`,
+    `Huella=${record.previousHash}`,
+    `FechaHoraHusoGenRegistro=${record.generatedAt}`
+  ].join('&');
+};
+
+export const computeRecordHash = (record: VerifactuRecord) => sha256Hex(buildHashInput(record));
+
+// --- LECTURA ---
+
+export const getVerifactuRecords = (): Promise<VerifactuRecord[]> =>
+  runTransaction(['verifactuRecords'], 'readonly', tx =>
+    promisifyRequest(tx.objectStore('verifactuRecords').getAll() as IDBRequest<VerifactuRecord[]>)
+  );
+
+export const getVerifactuEvents = (): Promise<VerifactuEvent[]> =>
+  runTransaction(['verifactuEvents'], 'readonly', tx =>
+    promisifyRequest(tx.objectStore('verifactuEvents').getAll() as IDBRequest<VerifactuEvent[]>)
+  );
+
+const getLastRecord = (): Promise<VerifactuRecord | undefined> =>
+  runTransaction(['verifactuRecords'], 'readonly', tx =>
+    new Promise<VerifactuRecord | undefined>((resolve, reject) => {
+      const request = tx.objectStore('verifactuRecords').openCursor(null, 'prev');
+      request.onsuccess = () => resolve(request.result?.value);
+      request.onerror = () => reject(request.error);
+    })
+  );
+
+/**
+ * Current situation of an invoice in the chain: its latest alta and whether it was
+ * cancelled afterwards (a new alta after an anulación reactivates it).
+ */
+export const getInvoiceVerifactuState = (records: VerifactuRecord[], invoiceId: string) => {
+  const own = records.filter(r => r.invoiceId === invoiceId).sort((a, b) => a.sequence - b.sequence);
+  const last = own[own.length - 1];
+  const alta = [...own].reverse().find(r => r.type === 'ALTA');
+  return { alta, isActive: !!last && last.type === 'ALTA' };
+};
+
+// Sent records whose last answer was an acceptance
+const getAcceptedSequences = (events: VerifactuEvent[]) => {
+  const lastAnswer = new Map<number, VerifactuEventType>();
+  events.forEach(e => {
+    if (e.recordSequence !== undefined && (e.type === 'ACEPTADO' || e.type === 'RECHAZADO')) {
+      lastAnswer.set(e.recordSequence, e.type);
+    }
+  });
+  return new Set([...lastAnswer].filter(([_, type]) => type === 'ACEPTADO').map(([sequence]) => sequence));
+};
+
+/**
+ * Recomputes every huella and checks that each record points to the previous one.
+ * Returns the list of inconsistencies (empty when the chain is intact).
+ */
+export const verifyChain = async (records: VerifactuRecord[]): Promise<string[]> => {
+  const issues: string[] = [];
+  const sorted = [...records].sort((a, b) => a.sequence - b.sequence);
+
+  for (let i = 0; i < sorted.length; i++) {
+    const record = sorted[i];
+    const expectedPrevious = i === 0 ? '' : sorted[i - 1].hash;
+    if (record.sequence !== i + 1) issues.push(`Falta el registro nº ${i + 1} de la cadena`);
+    if (record.previousHash !== expectedPrevious) issues.push(`Registro nº ${record.sequence}: no enlaza con la huella del registro anterior`);
+    if (await computeRecordHash(record) !== record.hash) issues.push(`Registro nº ${record.sequence} (${record.invoiceNumber}): la huella no corresponde a su contenido`);
+  }
+
+  return issues;
+};
+
+// --- GENERACIÓN DE REGISTROS ---
+
+const newEvent = (type: VerifactuEventType, detail: string, record?: VerifactuRecord): VerifactuEvent => ({
+  timestamp: new Date().toISOString(),
+  type,
+  recordSequence: record?.sequence,
+  invoiceId: record?.invoiceId,
+  detail
+});
+
+const appendEvents = (events: VerifactuEvent[]) =>
+  runTransaction(['verifactuEvents'], 'readwrite', tx => {
+    const store = tx.objectStore('verifactuEvents');
+    events.forEach(e => store.add(e));
+  });
+
+/**
+ * Appends a record at the end of the chain. The huella is computed outside the
+ * transaction (SubtleCrypto is async), so the insert uses `add`: if another record took
+ * the same position meanwhile, it fails with ConstraintError and we chain again.
+ */
+const appendRecord = async (draft: Omit<VerifactuRecord, 'sequence' | 'previousHash' | 'hash' | 'generatedAt'>): Promise<VerifactuRecord> => {
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const last = await getLastRecord();
+    const record: VerifactuRecord = {
+      ...draft,
+      sequence: (last?.sequence || 0) + 1,
+      previousHash: last?.hash || '',
+      generatedAt: formatTimestampWithOffset(),
+      hash: ''
+    };
+    record.hash = await computeRecordHash(record);
+
+    try {
+      await runTransaction(['verifactuRecords', 'verifactuEvents'], 'readwrite', tx => {
+        tx.objectStore('verifactuRecords').add(record);
+        tx.objectStore('verifactuEvents').add(newEvent(
+          record.type,
+          `${record.type === 'ALTA' ? (record.subsanacion ? 'Subsanación' : 'Alta') : 'Anulación'} de la factura ${record.invoiceNumber}`,
+          record
+        ));
+      });
+      return record;
+    } catch (e: any) {
+      if (e?.name !== 'ConstraintError') throw e;
+    }
+  }
+
+  throw new Error('No se ha podido encadenar el registro VERI*FACTU: otra operación está generando registros. Inténtalo de nuevo.');
+};
+
+const validateIssuer = (profile: ProfessionalProfile) => {
+  const nif = normalizeNif(profile.nif);
+  const error = validateSpanishNif(nif);
+  if (!nif || error) throw new Error(`VERI*FACTU: configura un NIF válido en 'Datos del Profesional' (${error || 'falta el NIF'}).`);
+  if (!profile.name) throw new Error("VERI*FACTU: falta el nombre del obligado a expedir la factura en 'Datos del Profesional'.");
+  return nif;
+};
+
+// Rectificativas use their cause (R1-R5); F2 (simplificada) only when there is no identified recipient
+const getInvoiceType = (invoice: Invoice): VerifactuInvoiceType =>
+  invoice.rectificationReason || (normalizeNif(invoice.nif) ? 'F1' : 'F2');
+
+const getRectification = (invoice: Invoice, original: Invoice | undefined): VerifactuRectification | undefined => {
+  if (!invoice.rectificationReason) return undefined;
+  if (!invoice.rectifiedInvoiceNumber || !invoice.rectifiedInvoiceDate) {
+    throw new Error(`VERI*FACTU: la rectificativa ${invoice.number} no identifica la factura que rectifica.`);
+  }
+  if (invoice.rectificationMethod !== 'SUBSTITUTION') {
+    return { method: 'I', invoiceNumber: invoice.rectifiedInvoiceNumber, issueDate: invoice.rectifiedInvoiceDate };
+  }
+  if (!original) throw new Error(`VERI*FACTU: no se encuentra la factura ${invoice.rectifiedInvoiceNumber} rectificada por sustitución.`);
+  return {
+    method: 'S',
+    invoiceNumber: invoice.rectifiedInvoiceNumber,
+    issueDate: invoice.rectifiedInvoiceDate,
+    base: roundAmount(original.baseAmount),
+    quota: roundAmount(original.ivaAmount)
+  };
+};
+
+/**
+ * Registro de alta of an income invoice. With `subsanacion` it replaces the data of a
+ * previous alta of the same invoice (same number and date). A rectificativa por sustitución
+ * needs `rectifiedInvoice`, whose base and cuota go into ImporteRectificacion.
+ */
+export const registerInvoice = async (
+  invoice: Invoice,
+  profile: ProfessionalProfile,
+  options: { subsanacion?: boolean; rectifiedInvoice?: Invoice } = {}
+): Promise<VerifactuRecord> => {
+  if (invoice.type !== InvoiceType.INCOME) throw new Error('VERI*FACTU sólo registra facturas emitidas.');
+  if (!invoice.number || !invoice.date) throw new Error('VERI*FACTU: la factura necesita número y fecha de expedición.');
+  const issuerNif = validateIssuer(profile);
+  const recipientNif = normalizeNif(invoice.nif);
+  const rectification = getRectification(invoice, options.rectifiedInvoice);
+
+  return appendRecord({
+    type: 'ALTA',
+    invoiceId: invoice.id,
+    issuerNif,
+    issuerName: profile.name,
+    invoiceNumber: invoice.number,
+    issueDate: invoice.date,
+    invoiceType: getInvoiceType(invoice),
+    subsanacion: options.subsanacion || undefined,
+    rectification,
+    description: invoice.concept || 'Prestación de servicios profesionales',
+    recipientNif: recipientNif || undefined,
+    recipientName: invoice.entityName || undefined,
+    breakdown: [{ rate: Number(invoice.ivaRate) || 0, base: roundAmount(invoice.baseAmount), quota: roundAmount(invoice.ivaAmount) }],
+    totalQuota: roundAmount(invoice.ivaAmount),
+    // ImporteTotal: base + cuota. IRPF withholding and suplidos are not part of it
+    totalAmount: roundAmount(invoice.baseAmount + invoice.ivaAmount)
+  });
+};
+
+export const cancelInvoice = async (invoice: Invoice, profile: ProfessionalProfile): Promise<VerifactuRecord> => {
+  const issuerNif = validateIssuer(profile);
+
+  return appendRecord({
+    type: 'ANULACION',
+    invoiceId: invoice.id,
+    issuerNif,
+    issuerName: profile.name,
+    invoiceNumber: invoice.number,
+    issueDate: invoice.date
+  });
+};
+
+// True when the stored alta no longer matches the invoice data that goes into the record
+export const needsSubsanacion = (alta: VerifactuRecord, invoice: Invoice) =>
+  alta.invoiceNumber !== invoice.number ||
+  alta.issueDate !== invoice.date ||
+  alta.invoiceType !== getInvoiceType(invoice) ||
+  (alta.recipientNif || '') !== normalizeNif(invoice.nif) ||
+  alta.totalQuota !== roundAmount(invoice.ivaAmount) ||
+  alta.totalAmount !== roundAmount(invoice.baseAmount + invoice.ivaAmount) ||
+  alta.breakdown?.[0]?.rate !== (Number(invoice.ivaRate) || 0);
+
+// --- QR ---
+
+export const getVerifactuQrUrl = (record: VerifactuRecord, environment: VerifactuEnvironment = transport.environment) => {
+  const params = [
+    `nif=${encodeURIComponent(record.issuerNif)}`,
+    `numserie=${encodeURIComponent(record.invoiceNumber)}`,
+    `fecha=${formatRecordDate(record.issueDate)}`,
+    `importe=${formatRecordAmount(record.totalAmount || 0)}`
+  ];
+  return `${QR_BASE_URL[environment]}?${params.join('&')}`;
+};
+
+// QR for the printed invoice (ISO/IEC 18004, error correction level M)
+export const generateVerifactuQr = async (record: VerifactuRecord) => {
+  const url = getVerifactuQrUrl(record);
+  const dataUrl = await QRCode.toDataURL(url, { errorCorrectionLevel: 'M', margin: 0, width: 300 });
+  return { url, dataUrl };
+};
+
+// --- REMISIÓN ---
+
+const xmlTag = (name: string, value: string | number | undefined) =>
+  value === undefined || value === '' ? '' : `<sum1:${name}>${escapeXml(String(value))}</sum1:${name}>`;
+
+const buildRecordXml = (record: VerifactuRecord, previous: VerifactuRecord | undefined, profile: ProfessionalProfile) => {
+  const encadenamiento = previous
+    ? `<sum1:Encadenamiento><sum1:RegistroAnterior>${xmlTag('IDEmisorFactura', previous.issuerNif)}${xmlTag('NumSerieFactura', previous.invoiceNumber)}` +
+      `${xmlTag('FechaExpedicionFactura', formatRecordDate(previous.issueDate))}${xmlTag('Huella', previous.hash)}</sum1:RegistroAnterior></sum1:Encadenamiento>`
+    : '<sum1:Encadenamiento><sum1:PrimerRegistro>S</sum1:PrimerRegistro></sum1:Encadenamiento>';
+
+  const sistema = `<sum1:SistemaInformatico>${xmlTag('NombreRazon', profile.name)}${xmlTag('NIF', normalizeNif(profile.nif))}` +
+    `${xmlTag('NombreSistemaInformatico', SISTEMA_INFORMATICO.nombre)}${xmlTag('IdSistemaInformatico', SISTEMA_INFORMATICO.id)}` +
+    `${xmlTag('Version', SISTEMA_INFORMATICO.version)}${xmlTag('NumeroInstalacion', SISTEMA_INFORMATICO.numeroInstalacion)}` +
+    `${xmlTag('TipoUsoPosibleSoloVerifactu', 'S')}${xmlTag('TipoUsoPosibleMultiOT', 'N')}${xmlTag('IndicadorMultiplesOT', 'N')}</sum1:SistemaInformatico>`;
+
+  const footer = `${encadenamiento}${sistema}${xmlTag('FechaHoraHusoGenRegistro', record.generatedAt)}${xmlTag('TipoHuella', '01')}${xmlTag('Huella', record.hash)}`;
+
+  if (record.type === 'ANULACION') {
+    return `<sum:RegistroFactura><sum1:RegistroAnulacion>${xmlTag('IDVersion', '1.0')}<sum1:IDFactura>` +
+      `${xmlTag('IDEmisorFacturaAnulada', record.issuerNif)}${xmlTag('NumSerieFacturaAnulada', record.invoiceNumber)}` +
+      `${xmlTag('FechaExpedicionFacturaAnulada', formatRecordDate(record.issueDate))}</sum1:IDFactura>${footer}</sum1:RegistroAnulacion></sum:RegistroFactura>`;
+  }
+
+  const desglose = (record.breakdown || []).map(item => item.rate > 0
+    ? `<sum1:DetalleDesglose>${xmlTag('ClaveRegimen', '01')}${xmlTag('CalificacionOperacion', 'S1')}${xmlTag('TipoImpositivo', item.rate.toFixed(2))}` +
+      `${xmlTag('BaseImponibleOimporteNoSujeto', formatRecordAmount(item.base))}${xmlTag('CuotaRepercutida', formatRecordAmount(item.quota))}</sum1:DetalleDesglose>`
+    // Services to foreign clients: not subject by localisation rules
+    : `<sum1:DetalleDesglose>${xmlTag('ClaveRegimen', '01')}${xmlTag('CalificacionOperacion', 'N2')}` +
+      `${xmlTag('BaseImponibleOimporteNoSujeto', formatRecordAmount(item.base))}</sum1:DetalleDesglose>`
+  ).join('');
+
+  const rectification = record.rectification;
+  const rectificativa = rectification
+    ? `${xmlTag('TipoRectificativa', rectification.method)}<sum1:FacturasRectificadas><sum1:IDFacturaRectificada>` +
+      `${xmlTag('IDEmisorFactura', record.issuerNif)}${xmlTag('NumSerieFactura', rectification.invoiceNumber)}` +
+      `${xmlTag('FechaExpedicionFactura', formatRecordDate(rectification.issueDate))}</sum1:IDFacturaRectificada></sum1:FacturasRectificadas>` +
+      (rectification.method === 'S'
+        ? `<sum1:ImporteRectificacion>${xmlTag('BaseRectificada', formatRecordAmount(rectification.base || 0))}` +
+          `${xmlTag('CuotaRectificada', formatRecordAmount(rectification.quota || 0))}</sum1:ImporteRectificacion>`
+        : '')
+    : '';
+
+  const destinatarios = record.recipientNif
+    ? `<sum1:Destinatarios><sum1:IDDestinatario>${xmlTag('NombreRazon', record.recipientName)}${xmlTag('NIF', record.recipientNif)}</sum1:IDDestinatario></sum1:Destinatarios>`
+    : '';
+
+  return `<sum:RegistroFactura><sum1:RegistroAlta>${xmlTag('IDVersion', '1.0')}<sum1:IDFactura>` +
+    `${xmlTag('IDEmisorFactura', record.issuerNif)}${xmlTag('NumSerieFactura', record.invoiceNumber)}` +
+    `${xmlTag('FechaExpedicionFactura', formatRecordDate(record.issueDate))}</sum1:IDFactura>` +
+    `${xmlTag('NombreRazonEmisor', record.issuerName)}${record.subsanacion ? xmlTag('Subsanacion', 'S') : ''}` +
+    `${xmlTag('TipoFactura', record.invoiceType)}${rectificativa}${xmlTag('DescripcionOperacion', record.description?.slice(0, 500))}` +
+    `${destinatarios}<sum1:Desglose>${desglose}</sum1:Desglose>` +
+    `${xmlTag('CuotaTotal', formatRecordAmount(record.totalQuota || 0))}${xmlTag('ImporteTotal', formatRecordAmount(record.totalAmount || 0))}` +
+    `${footer}</sum1:RegistroAlta></sum:RegistroFactura>`;
+};
+
+/**
+ * Body of the RegFactuSistemaFacturacion request (up to 1000 records per submission).
+ * `chain` is the full stored chain, used to identify the record preceding each one.
+ */
+export const buildVerifactuXml = (records: VerifactuRecord[], chain: VerifactuRecord[], profile: ProfessionalProfile) => {
+  const bySequence = new Map(chain.map(r => [r.sequence, r]));
+  const body = records
+    .map(record => buildRecordXml(record, bySequence.get(record.sequence - 1), profile))
+    .join('');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>` +
+    `<sum:RegFactuSistemaFacturacion xmlns:sum="${XML_NS_LR}" xmlns:sum1="${XML_NS_INFO}">` +
+    `<sum:Cabecera><sum1:ObligadoEmision>${xmlTag('NombreRazon', profile.name)}${xmlTag('NIF', normalizeNif(profile.nif))}</sum1:ObligadoEmision></sum:Cabecera>` +
+    `${body}</sum:RegFactuSistemaFacturacion>`;
+};
+
+/**
+ * Sends every record not yet accepted, in chain order, after checking the integrity
+ * of the whole chain. Every step is written to the event log.
+ */
+export const submitPendingRecords = async (profile: ProfessionalProfile): Promise<VerifactuSubmissionResult[]> => {
+  validateIssuer(profile);
+  const [chain, events] = await Promise.all([getVerifactuRecords(), getVerifactuEvents()]);
+
+  const issues = await verifyChain(chain);
+  if (issues.length > 0) {
+    await appendEvents([newEvent('ERROR_INTEGRIDAD', issues.join(' | '))]);
+    throw new Error(`La cadena de registros VERI*FACTU no es íntegra:\n- ${issues.join('\n- ')}`);
+  }
+
+  const accepted = getAcceptedSequences(events);
+  const pending = chain.filter(r => !accepted.has(r.sequence)).sort((a, b) => a.sequence - b.sequence).slice(0, 1000);
+  if (pending.length === 0) return [];
+
+  const xml = buildVerifactuXml(pending, chain, profile);
+  await appendEvents(pending.map(r => newEvent('ENVIO', `Enviado a ${transport.name} (${transport.environment})`, r)));
+
+  const results = await transport.submit(xml, pending);
+  const bySequence = new Map(pending.map(r => [r.sequence, r]));
+  await appendEvents(results.map(result => newEvent(
+    result.status,
+    result.status === 'ACEPTADO' ? `CSV ${result.csv || '-'}` : (result.error || 'Rechazado sin motivo'),
+    bySequence.get(result.sequence)
+  )));
+
+  return results;
+};
@@ -0,0 +1,172 @@
+import {
+  AnnualWithholdingSummary,
+  Invoice,
+  InvoiceType,
+  Model190Key,
+  QuarterlyWithholdingReturn,
+  TaxPeriod,
+  WithholdingModel,
+  WithholdingPerceptor
+} from "../types";
+import { getProvinceCode, isDateInPeriod, roundAmount } from "./taxService";
+import { normalizeCadastralRef, normalizeNif, validateCadastralRef } from "./validationService";
+
+/*
+ * Retenciones PRACTICADAS: las que retenemos al pagar a terceros (facturas recibidas con IRPF)
+ * y que ingresamos en Hacienda por cuenta de ellos (111/190 y 115/180).
+ * No confundir con las retenciones SOPORTADAS: las que nos practican nuestros clientes en las
+ * facturas emitidas, que declaran ellos y que nosotros restamos en el 130 (casilla 06) y en la Renta.
+ */
+
+export interface WithholdingClassification {
+  model: WithholdingModel;
+  key?: Model190Key;
+  subkey?: string;
+  assumed?: boolean; // Tipo de gasto sin correspondencia clara: se trata como actividad profesional
+}
+
+const EMPLOYMENT_TYPES = ['Sueldos y salarios', 'Otros gastos de personal'];
+export const RENTAL_EXPENSE_TYPE = 'Arrendamientos y cánones';
+const RENTAL_TYPES = [RENTAL_EXPENSE_TYPE];
+
+// Tipo de retención general sobre arrendamientos de inmuebles urbanos
+export const RENTAL_WITHHOLDING_RATE = 19;
+
+// Clasifica una factura recibida con retención según su "Tipo de Gasto (IRPF)"
+export const classifyWithholding = (invoice: Invoice): WithholdingClassification => {
+  const type = invoice.irpfExpenseType || '';
+
+  if (RENTAL_TYPES.includes(type)) return { model: '115' };
+  if (EMPLOYMENT_TYPES.includes(type)) return { model: '111', key: 'A' };
+
+  // Clave G: subclave 01 tipo general, 02 tipo reducido del 7% (inicio de actividad y asimilados)
+  const subkey = Number(invoice.irpfRate) === 7 ? '02' : '01';
+  return { model: '111', key: 'G', subkey, assumed: type !== 'Servicios de profesionales independientes' };
+};
+
+export const getWithheldExpenses = (invoices: Invoice[], period: TaxPeriod): Invoice[] =>
+  invoices.filter(inv =>
+    inv.type === InvoiceType.EXPENSE &&
+    inv.irpfAmount > 0 &&
+    isDateInPeriod(inv.date, period)
+  );
+
+// Agrupa por perceptor (NIF) y clave/subclave
+const groupPerceptors = (invoices: Invoice[], model: WithholdingModel): WithholdingPerceptor[] => {
+  const groups = new Map<string, WithholdingPerceptor>();
+
+  invoices.forEach(inv => {
+    const classification = classifyWithholding(inv);
+    if (classification.model !== model) return;
+
+    const nif = normalizeNif(inv.nif);
+    // 115/180: one line per landlord and property
+    const cadastralRef = model === '115' ? normalizeCadastralRef(inv.propertyCadastralRef) : '';
+    const groupKey = `${nif}|${classification.key || ''}|${classification.subkey || ''}|${cadastralRef}`;
+    const perceptor = groups.get(groupKey) || {
+      nif,
+      name: inv.entityName,
+      model,
+      key: classification.key,
+      subkey: classification.subkey,
+      provinceCode: getProvinceCode(inv.fiscalAddress),
+      rate: Number(inv.irpfRate) || 0,
+      propertyCadastralRef: cadastralRef || undefined,
+      propertyAddress: model === '115' ? inv.propertyAddress : undefined,
+      base: 0,
+      withholding: 0,
+      invoiceCount: 0
+    };
+
+    perceptor.base += inv.baseAmount;
+    perceptor.withholding += inv.irpfAmount;
+    perceptor.invoiceCount++;
+    if (!perceptor.provinceCode) perceptor.provinceCode = getProvinceCode(inv.fiscalAddress);
+    groups.set(groupKey, perceptor);
+  });
+
+  return Array.from(groups.values())
+    .map(p => ({ ...p, base: roundAmount(p.base), withholding: roundAmount(p.withholding) }))
+    .sort((a, b) => (a.key || '').localeCompare(b.key || '') || b.withholding - a.withholding);
+};
+
+const countPerceptors = (perceptors: WithholdingPerceptor[]) => new Set(perceptors.map(p => p.nif)).size;
+
+const sumBy = (perceptors: WithholdingPerceptor[], field: 'base' | 'withholding') =>
+  roundAmount(perceptors.reduce((sum, p) => sum + p[field], 0));
+
+/**
+ * Modelo 111 trimestral. Casillas [01]-[03] rendimientos del trabajo (dinerarios),
+ * [07]-[09] actividades económicas (dinerarios), [28] total, [29] a deducir y [30] resultado.
+ */
+export const computeModel111 = (invoices: Invoice[], year: number, quarter: 1 | 2 | 3 | 4, previousResult = 0): QuarterlyWithholdingReturn => {
+  const perceptors = groupPerceptors(getWithheldExpenses(invoices, { year, quarter }), '111');
+  const employees = perceptors.filter(p => p.key === 'A');
+  const professionals = perceptors.filter(p => p.key === 'G');
+
+  const c: Record<string, number> = {};
+  c['01'] = countPerceptors(employees);
+  c['02'] = sumBy(employees, 'base');
+  c['03'] = sumBy(employees, 'withholding');
+  c['07'] = countPerceptors(professionals);
+  c['08'] = sumBy(professionals, 'base');
+  c['09'] = sumBy(professionals, 'withholding');
+  c['28'] = roundAmount(c['03'] + c['09']);
+  c['29'] = roundAmount(previousResult);
+  c['30'] = roundAmount(c['28'] - c['29']);
+
+  return { model: '111', year, quarter, casillas: c, perceptors, result: c['30'] };
+};
+
+// Modelo 115 trimestral: retenciones sobre arrendamientos de inmuebles urbanos
+export const computeModel115 = (invoices: Invoice[], year: number, quarter: 1 | 2 | 3 | 4, previousResult = 0): QuarterlyWithholdingReturn => {
+  const perceptors = groupPerceptors(getWithheldExpenses(invoices, { year, quarter }), '115');
+
+  const c: Record<string, number> = {};
+  c['01'] = countPerceptors(perceptors);
+  c['02'] = sumBy(perceptors, 'base');
+  c['03'] = sumBy(perceptors, 'withholding');
+  c['04'] = roundAmount(previousResult);
+  c['05'] = roundAmount(c['03'] - c['04']);
+
+  return { model: '115', year, quarter, casillas: c, perceptors, result: c['05'] };
+};
+
+// Resúmenes anuales: 190 (de los 111) y 180 (de los 115)
+export const computeAnnualWithholdingSummary = (invoices: Invoice[], year: number, model: '180' | '190'): AnnualWithholdingSummary => {
+  const quarterlyModel: WithholdingModel = model === '190' ? '111' : '115';
+  const expenses = getWithheldExpenses(invoices, { year });
+  const perceptors = groupPerceptors(expenses, quarterlyModel);
+  const warnings: string[] = [];
+
+  const quarterlyWithholding = ([1, 2, 3, 4] as const).map(quarter =>
+    sumBy(groupPerceptors(getWithheldExpenses(invoices, { year, quarter }), quarterlyModel), 'withholding')
+  ) as [number, number, number, number];
+
+  perceptors
+    .filter(p => !p.provinceCode)
+    .forEach(p => warnings.push(`${p.name} (${p.nif}): falta el código postal para la provincia.`));
+
+  if (model === '180') {
+    perceptors.forEach(p => {
+      const error = validateCadastralRef(p.propertyCadastralRef);
+      if (error) warnings.push(`${p.name} (${p.nif}): ${error}.`);
+    });
+  }
+
+  if (model === '190') {
+    expenses
+      .filter(inv => classifyWithholding(inv).assumed)
+      .forEach(inv => warnings.push(`Factura ${inv.number}: tipo de gasto "${inv.irpfExpenseType || 'sin indicar'}" con retención, tratado como actividad profesional (clave G).`));
+  }
+
+  return {
+    model,
+    year,
+    perceptors,
+    totalBase: sumBy(perceptors, 'base'),
+    totalWithholding: sumBy(perceptors, 'withholding'),
+    quarterlyWithholding,
+    warnings
+  };
+};
@@ -7,6 +7,7 @@ export enum InvoiceType {
 export interface Invoice {
   id: string;
   number: string; // Número de factura (Ingresos) o Número de Registro Interno (Gastos)
+  seriesId?: string; // Serie de numeración (InvoiceSeries.id)
   date: string; // Fecha de factura
   type: InvoiceType;
   concept: string;
@@ -39,6 +40,196 @@ export interface Invoice {
   irpfIncomeType?: string; // Tipo de Ingreso IRPF (Ej: Prestación servicios)
   irpfExpenseType?: string; // Tipo de Gasto IRPF (Ej: Arrendamientos, Suministros)
   ivaExpenseType?: string; // Tipo de Gasto IVA (Ej: Corriente, Bien de Inversión)
+
+  // Arrendamiento de inmueble (Gasto "Arrendamientos y cánones"): el arrendador es el proveedor
+  propertyCadastralRef?: string; // Referencia catastral del inmueble arrendado
+  propertyAddress?: string; // Dirección del inmueble arrendado
+
+  // Factura rectificativa (solo emitidas): referencia a la factura original
+  rectifiedInvoiceId?: string;
+  rectifiedInvoiceNumber?: string;
+  rectifiedInvoiceDate?: string;
+  rectificationReason?: RectificationReason;
+  rectificationMethod?: RectificationMethod;
+
+  matterId?: string; // Expediente al que se imputa (Matter.id)
+  quoteId?: string; // Presupuesto aceptado del que procede (Quote.id)
+  recurringId?: string; // Iguala que la genera (RecurringInvoice.id)
+  recurringPeriod?: string; // Inicio del periodo facturado de la iguala (YYYY-MM-DD)
+  appliedProvisions?: ProvisionApplication[]; // Provisiones de fondos descontadas (su suma es retainer)
+
+  dueDate?: string; // Vencimiento (fecha + plazo de pago del cliente o proveedor)
+  payments?: InvoicePayment[]; // Cobros (emitidas) o pagos (recibidas) registrados
+}
+
+export type PaymentMethod = 'TRANSFER' | 'DIRECT_DEBIT' | 'CARD' | 'CASH' | 'CHECK' | 'OTHER';
+
+// Cobro o pago (total o parcial) de una factura
+export interface InvoicePayment {
+  id: string;
+  date: string;
+  amount: number;
+  method: PaymentMethod;
+  bankMovementId?: string; // BankMovement.id, si viene de la conciliación bancaria
+  note?: string;
+}
+
+// Situación de cobro / pago de una factura
+export type PaymentStatus = 'PAID' | 'PARTIAL' | 'PENDING' | 'OVERDUE';
+
+// Provisión de fondos recibida de un cliente, a cuenta de la minuta de un asunto
+export interface FundProvision {
+  id: string;
+  number: string; // Nº de recibo (PF-AA-N)
+  date: string;
+  nif: string; // NIF del cliente
+  clientName: string;
+  matterId?: string; // Matter.id
+  matter?: string; // Asunto o expediente (texto del recibo)
+  concept: string;
+  amount: number;
+  method: PaymentMethod;
+}
+
+// Parte de una provisión de fondos descontada en una minuta
+export interface ProvisionApplication {
+  provisionId: string; // FundProvision.id
+  provisionNumber: string;
+  amount: number;
+}
+
+export type MatterStatus = 'OPEN' | 'SUSPENDED' | 'CLOSED';
+
+// Expediente: asunto de un cliente al que se imputan minutas, gastos y provisiones de fondos
+export interface Matter {
+  id: string;
+  reference: string; // Nº de expediente (EXP-AA-N)
+  title: string; // Descripción del asunto
+  nif: string; // NIF del cliente (SavedEntity.nif)
+  clientName: string;
+  opposingParty?: string; // Parte contraria
+  court?: string; // Juzgado o tribunal
+  procedureNumber?: string; // Nº de procedimiento (autos)
+  status: MatterStatus;
+  openingDate: string;
+  closingDate?: string;
+  notes?: string;
+}
+
+// Tiempo dedicado o actuación procesal de un expediente
+export interface TimeEntry {
+  id: string;
+  matterId: string; // Matter.id
+  date: string;
+  minutes: number; // Duración
+  activity: string; // Descripción de la actuación
+  billing: 'HOURLY' | 'FIXED'; // Por horas o por actuación (importe fijo)
+  rate: number; // €/hora (HOURLY) o importe de la actuación (FIXED)
+  invoiceId?: string; // Minuta en la que se ha facturado
+}
+
+// Cronómetro en marcha (sobrevive a cambios de pantalla y recargas)
+export interface RunningTimer {
+  matterId: string;
+  activity: string;
+  startedAt: string; // ISO
+}
+
+// Factura precargada desde otra pantalla (Tiempos, Presupuestos) y abierta en el formulario para revisarla
+export interface InvoiceDraft {
+  invoice: Partial<Invoice>;
+  label?: string; // Aviso sobre el formulario (origen del borrador)
+  timeEntryIds?: string[]; // TimeEntry.id que quedan facturadas al guardar la minuta
+}
+
+// Criterios orientativos de honorarios de un Colegio de Abogados (importados de un JSON)
+export interface FeeSchedule {
+  id: string;
+  colegio: string; // Ej: Real e Ilustre Colegio de Abogados de Zaragoza
+  name: string; // Ej: Criterios orientativos 2024
+  scales: FeeScale[];
+  procedures: FeeProcedure[];
+}
+
+// Escala por tramos de cuantía: cada porcentaje se aplica a la parte de la cuantía dentro de su tramo
+export interface FeeScale {
+  id: string;
+  name: string;
+  brackets: FeeBracket[]; // De menor a mayor
+}
+
+export interface FeeBracket {
+  upTo: number | null; // Límite superior del tramo (null: sin límite)
+  percent: number;
+}
+
+export interface FeeProcedure {
+  id: string;
+  name: string; // Juicio verbal, Divorcio de mutuo acuerdo...
+  category?: string; // Civil, Familia, Penal...
+  fixedFee?: number; // Importe fijo (asuntos sin cuantía); se suma a la escala si hay ambos
+  scaleId?: string; // FeeScale.id aplicada a la cuantía
+  scalePercent?: number; // % de la escala que corresponde al procedimiento (100 si no se indica)
+  minimumFee?: number;
+}
+
+export type QuoteStatus = 'DRAFT' | 'SENT' | 'ACCEPTED' | 'REJECTED';
+
+// Presupuesto / hoja de encargo (las facturas que genera guardan Invoice.quoteId)
+export interface Quote {
+  id: string;
+  number: string; // PRES-AA-N
+  date: string;
+  validUntil: string; // Validez de la oferta
+  status: QuoteStatus;
+  statusDate?: string; // Fecha de envío, aceptación o rechazo
+  clientName: string;
+  nif: string;
+  fiscalAddress?: string;
+  matterId?: string; // Matter.id
+  subject: string; // Asunto
+  lines: QuoteLine[];
+  ivaRate: number;
+  irpfRate: number;
+  notes?: string;
+  terms?: string; // Condiciones del encargo
+}
+
+export interface QuoteLine {
+  description: string;
+  amount: number; // Honorarios (base imponible)
+}
+
+export type RecurrenceFrequency = 'MONTHLY' | 'QUARTERLY' | 'SEMIANNUAL' | 'ANNUAL';
+
+// Iguala: honorarios fijos que un cliente paga cada periodo, facturados con una plantilla
+export interface RecurringInvoice {
+  id: string;
+  nif: string;
+  clientName: string;
+  fiscalAddress?: string;
+  matterId?: string;
+  concept: string;
+  amount: number; // Honorarios por periodo (base imponible)
+  ivaRate: number;
+  irpfRate: number;
+  frequency: RecurrenceFrequency;
+  startDate: string; // Inicio del primer periodo; los siguientes caen el mismo día
+  endDate?: string; // Último día en que puede empezar un periodo
+  active: boolean; // Las igualas en pausa no generan facturas
+}
+
+// Causa de la rectificación (art. 15 RD 1619/2012), mismas claves que TipoFactura de VERI*FACTU
+export type RectificationReason = 'R1' | 'R2' | 'R3' | 'R4' | 'R5';
+
+// DIFFERENCES: importes = variación respecto a la original. SUBSTITUTION: importes correctos completos
+export type RectificationMethod = 'DIFFERENCES' | 'SUBSTITUTION';
+
+// Códigos DIR3 de una Administración Pública (obligatorios para facturar por FACe)
+export interface Dir3Codes {
+  accountingOffice: string; // Oficina contable (rol 01)
+  managementBody: string; // Órgano gestor (rol 02)
+  processingUnit: string; // Unidad tramitadora (rol 03)
 }
 
 export interface SavedEntity {
@@ -51,6 +242,54 @@ export interface SavedEntity {
   phone?: string;
   contactPerson?: string;
   notes?: string;
+  dir3?: Dir3Codes; // Solo clientes del sector público
+  paymentTermDays?: number; // Plazo de pago en días desde la fecha de factura
+}
+
+// Filtro guardado del listado de facturas
+export interface SavedFilter {
+  name: string;
+  type: 'ALL' | 'INCOME' | 'EXPENSE';
+  category: string;
+  entity?: string;
+  nif?: string;
+  payment?: 'ALL' | 'UNPAID' | 'OVERDUE' | 'PAID';
+}
+
+// Serie de numeración de facturas (emitidas) o del registro interno (recibidas)
+export interface InvoiceSeries {
+  id: string;
+  name: string; // Ordinaria, Turno de oficio, Mediaciones, Rectificativas...
+  type: InvoiceType;
+  prefix: string; // Valor del token {SERIE}
+  pattern: string; // Tokens: {SERIE}, {AAAA}, {AA} y {N} (secuencial). Ej: '{SERIE}-{AA}-{N}'
+  sequencePadding: number; // Dígitos mínimos de {N} (0 = sin ceros a la izquierda)
+  reset: 'YEARLY' | 'NEVER'; // La secuencia vuelve a 1 cada año o es continua
+  isDefault?: boolean; // Serie por defecto de su tipo
+  isRectification?: boolean; // Serie por defecto de las rectificativas (solo emitidas)
+}
+
+// Historial de cambios de facturas y contactos (solo inserción)
+export type ChangeLogCollection = 'invoices' | 'entities';
+export type ChangeLogAction = 'CREATE' | 'UPDATE' | 'DELETE';
+
+export interface FieldChange {
+  field: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface ChangeLogEntry {
+  id?: number; // Autonumérico del almacén
+  timestamp: string; // ISO
+  collection: ChangeLogCollection;
+  recordKey: string; // Invoice.id o SavedEntity.internalId (estable aunque cambie el NIF)
+  label: string; // Nº de factura o nombre del contacto en el momento del cambio
+  action: ChangeLogAction;
+  changes: FieldChange[];
+  before?: Invoice | SavedEntity; // Versión completa anterior (para restaurar)
+  after?: Invoice | SavedEntity;
+  reason?: string;
 }
 
 export interface ProfessionalProfile {
@@ -68,6 +307,260 @@ export interface ProfessionalProfile {
   iban?: string; // Cuenta bancaria
 }
 
+// Periodo de liquidación: trimestral (1T-4T), mensual (01-12) o anual si no se indica ninguno
+export interface TaxPeriod {
+  year: number;
+  quarter?: 1 | 2 | 3 | 4;
+  month?: number; // 1-12
+}
+
+// Periodo cerrado: un trimestre o, sin quarter, el ejercicio completo
+export interface PeriodLock {
+  year: number;
+  quarter?: 1 | 2 | 3 | 4;
+  lockedAt: string; // ISO
+}
+
+// Historial de cierres y reaperturas (solo inserción)
+export interface PeriodLockEvent {
+  action: 'LOCK' | 'REOPEN';
+  year: number;
+  quarter?: 1 | 2 | 3 | 4;
+  date: string; // ISO
+  reason?: string; // Motivo, obligatorio al reabrir
+}
+
+export interface VatRateBreakdown {
+  rate: number; // % IVA
+  base: number; // Base Imponible
+  quota: number; // Cuota
+}
+
+export interface Model303Result {
+  period: TaxPeriod;
+  casillas: Record<string, number>; // Clave: número de casilla oficial ('01', '27', '71'...)
+  devengadoByRate: VatRateBreakdown[]; // IVA Repercutido por tipo
+  deducibleByRate: VatRateBreakdown[]; // IVA Soportado deducible por tipo
+  totalDevengado: number; // Casilla 27
+  totalDeducible: number; // Casilla 45
+  result: number; // Casilla 71
+  warnings: string[];
+}
+
+// Modelo 390: resumen anual de IVA conciliado con los cuatro 303 trimestrales
+export interface Model390QuarterReconciliation {
+  quarter: 1 | 2 | 3 | 4;
+  result46: number; // Resultado régimen general del 303
+  compensated78: number; // Cuotas de periodos anteriores compensadas
+  result71: number; // Resultado de la autoliquidación
+}
+
+export interface Model390Result {
+  year: number;
+  casillas: Record<string, number>; // Clave: número de casilla oficial del 390
+  devengadoByRate: VatRateBreakdown[];
+  deducible: {
+    corrientes: VatRateBreakdown[]; // Operaciones interiores corrientes (incluye ISP)
+    inversion: VatRateBreakdown[]; // Bienes de inversión
+    importaciones: VatRateBreakdown[];
+    intracomunitarias: VatRateBreakdown[];
+  };
+  quarters: Model390QuarterReconciliation[];
+  reconciliationDifference: number; // Casilla 65 anual menos la suma de las casillas 46 trimestrales
+  prorrata: { percent: number; type: 'G' | 'E'; applies: boolean };
+  activity: { key: string; iaeEpigraph: string; cnae: string };
+  warnings: string[];
+}
+
+// Modelo 130 presentado: lo declarado y lo realmente ingresado en cada trimestre
+export interface Model130Payment {
+  year: number;
+  quarter: 1 | 2 | 3 | 4;
+  casilla07: number; // Pago fraccionado previo del trimestre
+  casilla13: number; // Minoración art. 110.3.c) aplicada
+  casilla15: number; // Resultados negativos de trimestres anteriores compensados
+  result: number; // Casilla 19 declarada
+  paidAmount: number; // Importe ingresado
+  paidDate?: string;
+  receiptNumber?: string; // Nº justificante
+}
+
+export interface Model130Result {
+  year: number;
+  quarter: 1 | 2 | 3 | 4;
+  casillas: Record<string, number>; // '01' a '19'
+  previousQuarters: Array<{ quarter: number; casilla07: number; result: number; declared: boolean }>;
+  pendingNegative: number; // Resultados negativos pendientes de compensar en trimestres siguientes
+  result: number; // Casilla 19
+  warnings: string[];
+}
+
+// Grupos de la tabla de amortización simplificada (estimación directa simplificada)
+export type AssetCategory =
+  | 'EDIFICIOS'
+  | 'MOBILIARIO'
+  | 'MAQUINARIA'
+  | 'ELEMENTOS_TRANSPORTE'
+  | 'EQUIPOS_INFORMATICOS'
+  | 'UTILES_HERRAMIENTAS';
+
+// Elemento del registro de bienes de inversión
+export interface InvestmentAsset {
+  id: string;
+  invoiceId?: string; // Factura recibida de la que procede
+  description: string;
+  category: AssetCategory;
+  acquisitionDate: string; // Fecha de puesta en funcionamiento
+  acquisitionValue: number; // Valor de adquisición amortizable
+  coefficient: number; // % anual aplicado (entre el mínimo y el máximo de la tabla)
+  disposalDate?: string; // Fecha de baja o transmisión
+  disposalValue?: number; // Importe obtenido en la transmisión
+}
+
+export interface DepreciationScheduleEntry {
+  year: number;
+  charge: number; // Amortización del ejercicio
+  accumulated: number; // Amortización acumulada al cierre
+  netBookValue: number; // Valor pendiente de amortizar
+}
+
+// Modelo 347: clave A (adquisiciones/compras) y clave B (entregas/ventas)
+export type Model347Key = 'A' | 'B';
+
+export interface Model347Entry {
+  nif: string;
+  name: string;
+  key: Model347Key;
+  provinceCode: string; // Código de provincia (2 dígitos) deducido del código postal
+  annualAmount: number; // IVA incluido, sin suplidos
+  quarterlyAmounts: [number, number, number, number];
+  invoiceCount: number;
+}
+
+export interface Model347Result {
+  year: number;
+  entries: Model347Entry[]; // Solo los terceros que superan el umbral
+  excluded: {
+    withholding: number; // Operaciones sujetas a retención IRPF (se declaran en el 190/180)
+    foreign: number; // Adquisiciones intracomunitarias, importaciones y no residentes
+    supplies: number; // Importe de suplidos excluido
+  };
+  warnings: string[];
+}
+
+// Retenciones que practicamos (facturas recibidas con IRPF): 111/190 o 115/180
+export type WithholdingModel = '111' | '115';
+export type Model190Key = 'A' | 'G'; // A: rendimientos del trabajo | G: actividades profesionales
+
+export interface WithholdingPerceptor {
+  nif: string;
+  name: string;
+  model: WithholdingModel;
+  key?: Model190Key; // Solo 111/190
+  subkey?: string; // Subclave del 190 (G: 01 tipo general, 02 tipo reducido)
+  provinceCode: string;
+  rate: number; // % de retención aplicado
+  propertyCadastralRef?: string; // Solo 115/180: inmueble arrendado
+  propertyAddress?: string;
+  base: number; // Percepción íntegra / base de retención
+  withholding: number; // Retenciones practicadas
+  invoiceCount: number;
+}
+
+export interface QuarterlyWithholdingReturn {
+  model: WithholdingModel;
+  year: number;
+  quarter: 1 | 2 | 3 | 4;
+  casillas: Record<string, number>;
+  perceptors: WithholdingPerceptor[];
+  result: number;
+}
+
+export interface AnnualWithholdingSummary {
+  model: '180' | '190';
+  year: number;
+  perceptors: WithholdingPerceptor[];
+  totalBase: number;
+  totalWithholding: number;
+  quarterlyWithholding: [number, number, number, number]; // Para cuadrar con los 111/115 presentados
+  warnings: string[];
+}
+
+// VERI*FACTU: registros de facturación encadenados por huella (RD 1007/2023, Orden HAC/1177/2024)
+export type VerifactuRecordType = 'ALTA' | 'ANULACION';
+export type VerifactuInvoiceType = 'F1' | 'F2' | 'R1' | 'R2' | 'R3' | 'R4' | 'R5';
+
+// Datos de la factura rectificada en un alta de tipo R1-R5
+export interface VerifactuRectification {
+  method: 'S' | 'I'; // TipoRectificativa: sustitución o diferencias
+  invoiceNumber: string;
+  issueDate: string;
+  base?: number; // ImporteRectificacion (solo sustitución): base y cuota de la factura original
+  quota?: number;
+}
+
+export interface VerifactuRecord {
+  sequence: number; // Posición en la cadena (1, 2, 3...)
+  type: VerifactuRecordType;
+  invoiceId: string;
+  issuerNif: string;
+  issuerName: string;
+  invoiceNumber: string; // NumSerieFactura
+  issueDate: string; // FechaExpedicionFactura (YYYY-MM-DD)
+  invoiceType?: VerifactuInvoiceType; // Solo altas
+  subsanacion?: boolean; // Alta que corrige los datos de un alta anterior de la misma factura
+  rectification?: VerifactuRectification; // Solo facturas rectificativas
+  description?: string;
+  recipientNif?: string;
+  recipientName?: string;
+  breakdown?: VatRateBreakdown[];
+  totalQuota?: number; // CuotaTotal
+  totalAmount?: number; // ImporteTotal
+  previousHash: string; // Huella del registro anterior ('' en el primero de la cadena)
+  hash: string; // Huella SHA-256 de este registro
+  generatedAt: string; // FechaHoraHusoGenRegistro
+}
+
+export type VerifactuEventType = 'ALTA' | 'ANULACION' | 'ENVIO' | 'ACEPTADO' | 'RECHAZADO' | 'ERROR_INTEGRIDAD';
+
+// Registro de eventos del sistema informático (solo inserción)
+export interface VerifactuEvent {
+  id?: number;
+  timestamp: string;
+  type: VerifactuEventType;
+  recordSequence?: number;
+  invoiceId?: string;
+  detail: string;
+}
+
+// Movimiento de un extracto bancario (Norma 43 o CSV del banco)
+export type BankMovementStatus = 'PENDING' | 'RECONCILED' | 'IGNORED';
+
+export interface BankMovement {
+  id: string; // Derivado del contenido: reimportar el mismo extracto no duplica movimientos
+  account: string; // IBAN o cuenta del extracto
+  date: string; // Fecha de operación
+  valueDate?: string;
+  amount: number; // Positivo: abono (cobro). Negativo: cargo (pago)
+  concept: string;
+  reference?: string;
+  source: 'N43' | 'CSV';
+  fileName: string;
+  importedAt: string;
+  status: BankMovementStatus;
+  invoiceIds?: string[]; // Facturas con las que se ha conciliado
+}
+
+// Alerta de la auditoría de los libros: reglas locales o revisión opcional con IA
+export type AuditSeverity = 'HIGH' | 'MEDIUM' | 'LOW';
+
+export interface AuditAlert {
+  invoiceId: string;
+  severity: AuditSeverity;
+  message: string;
+  source?: 'RULES' | 'AI';
+}
+
 export interface TaxSummary {
   model303: {
     devengado: number; // IVA Repercutido